@@ -6,6 +6,7 @@ import NotFound from "@/pages/not-found";
 import { AuthProvider } from "@/hooks/use-auth";
 import { ProtectedRoute } from "./lib/protected-route";
 import AuthPage from "@/pages/auth-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
 import DashboardPage from "@/pages/dashboard-page";
 import ProfilesPage from "@/pages/profiles-page";
 import ManageProfilesPage from "@/pages/manage-profiles-page";
@@ -15,12 +16,18 @@ import MyProfilePage from "@/pages/my-profile-page";
 import ProgressPage from "@/pages/progress-page";
 import MyProfilesPage from "@/pages/my-profiles-page";
 import LeadEntryPage from "@/pages/lead-entry-page";
+import InterviewsPage from "@/pages/interviews-page";
+import CoverLetterTemplatesPage from "@/pages/cover-letter-templates-page";
+import RecentlyDeletedPage from "@/pages/recently-deleted-page";
+import AuditLogPage from "@/pages/audit-log-page";
+import UsersPage from "@/pages/users-page";
 
 function Router() {
   return (
     <Switch>
-      {/* Auth route */}
+      {/* Auth routes */}
       <Route path="/auth" component={AuthPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
       
       {/* Protected routes */}
       <ProtectedRoute path="/" component={DashboardPage} />
@@ -30,6 +37,10 @@ function Router() {
       <ProtectedRoute path="/manage-profiles" component={ManageProfilesPage} />
       <ProtectedRoute path="/targets" component={TargetsPage} />
       <ProtectedRoute path="/reports" component={ReportsPage} />
+      <ProtectedRoute path="/cover-letters" component={CoverLetterTemplatesPage} />
+      <ProtectedRoute path="/recently-deleted" component={RecentlyDeletedPage} />
+      <ProtectedRoute path="/audit-log" component={AuditLogPage} />
+      <ProtectedRoute path="/users" component={UsersPage} />
       
       {/* Lead Generation Team routes */}
       <ProtectedRoute path="/my-profile" component={MyProfilePage} />
@@ -38,6 +49,7 @@ function Router() {
       {/* Sales Coordinator routes */}
       <ProtectedRoute path="/my-profiles" component={MyProfilesPage} />
       <ProtectedRoute path="/lead-entry" component={LeadEntryPage} />
+      <ProtectedRoute path="/interviews" component={InterviewsPage} />
       
       {/* Fallback to 404 */}
       <Route path="*">{() => <NotFound />}</Route>
@@ -0,0 +1,196 @@
+import { useEffect, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { format, startOfWeek } from "date-fns";
+import { ClipboardList, Download, FileText, LineChart, Target, User } from "lucide-react";
+import { links } from "./sidebar";
+
+type UserRole = keyof typeof links;
+
+type QuickAction = {
+  label: string;
+  icon: ReactNode;
+  run: (navigate: (to: string) => void) => void;
+};
+
+// Shortcuts to the most common task of each role
+const quickActions: Record<UserRole, QuickAction[]> = {
+  manager: [
+    {
+      label: "Download weekly report",
+      icon: <Download />,
+      run: () => {
+        const fromDate = format(startOfWeek(new Date(), { weekStartsOn: 1 }), "yyyy-MM-dd");
+        const toDate = format(new Date(), "yyyy-MM-dd");
+        window.location.href = `/api/reports/weekly-sales?fromDate=${fromDate}&toDate=${toDate}`;
+      },
+    },
+    {
+      label: "Download today's daily report",
+      icon: <Download />,
+      run: () => {
+        window.location.href = `/api/reports/daily?date=${format(new Date(), "yyyy-MM-dd")}`;
+      },
+    },
+  ],
+  lead_gen: [
+    { label: "Log today's progress", icon: <LineChart />, run: (navigate) => navigate("/progress") },
+  ],
+  sales: [
+    { label: "Add lead entry", icon: <ClipboardList />, run: (navigate) => navigate("/lead-entry") },
+  ],
+};
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Ctrl+K / Cmd+K palette for navigating, finding profiles, users and targets, and running quick actions
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const role = user?.role as UserRole | undefined;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.ctrlKey || event.metaKey)) {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  // Only load what the role is allowed to see, and only once the palette is opened
+  const { data: profiles = [] } = useQuery<any[]>({
+    queryKey: ["/api/profiles"],
+    enabled: open && role === "manager",
+  });
+  const { data: myProfiles = [] } = useQuery<any[]>({
+    queryKey: ["/api/my-profiles"],
+    enabled: open && role === "sales",
+  });
+  const { data: users = [] } = useQuery<any[]>({
+    queryKey: ["/api/users"],
+    enabled: open && role === "manager",
+  });
+  const { data: targets = [] } = useQuery<any[]>({
+    queryKey: ["/api/targets"],
+    enabled: open && (role === "manager" || role === "lead_gen"),
+  });
+
+  if (!user || !role) return null;
+
+  const run = (action: () => void) => {
+    onOpenChange(false);
+    action();
+  };
+
+  const profileResults = role === "manager"
+    ? profiles.map(profile => ({ ...profile, href: "/manage-profiles" }))
+    : role === "sales"
+      ? myProfiles.map(profile => ({ ...profile, href: `/lead-entry?profileId=${profile.id}` }))
+      : [];
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Go to a page, find a profile or run an action..." />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+
+        <CommandGroup heading="Quick Actions">
+          {quickActions[role].map(action => (
+            <CommandItem key={action.label} value={action.label} onSelect={() => run(() => action.run(navigate))}>
+              {action.icon}
+              <span className="ml-2">{action.label}</span>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+
+        <CommandGroup heading="Navigation">
+          {links[role].map(link => (
+            <CommandItem key={link.href} value={`Go to ${link.label}`} onSelect={() => run(() => navigate(link.href))}>
+              {link.icon}
+              <span className="ml-2">{link.label}</span>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+
+        {profileResults.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Profiles">
+              {profileResults.map(profile => (
+                <CommandItem
+                  key={profile.id}
+                  value={`profile-${profile.id} ${profile.name} ${profile.description}`}
+                  onSelect={() => run(() => navigate(profile.href))}
+                >
+                  <FileText />
+                  <span className="ml-2">{profile.name}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+
+        {users.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Users">
+              {users.map(listedUser => (
+                <CommandItem
+                  key={listedUser.id}
+                  value={`user-${listedUser.id} ${listedUser.name} ${listedUser.username} ${listedUser.role}`}
+                  onSelect={() => run(() => navigate("/users"))}
+                >
+                  <User />
+                  <span className="ml-2">{listedUser.name}</span>
+                  <CommandShortcut>{listedUser.role.replace("_", " ")}</CommandShortcut>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+
+        {targets.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Targets">
+              {targets.map(target => (
+                <CommandItem
+                  key={target.id}
+                  value={`target-${target.id} ${target.user?.name ?? ""} ${target.profile?.name ?? ""}`}
+                  onSelect={() => run(() => navigate(role === "manager" ? "/targets" : "/progress"))}
+                >
+                  <Target />
+                  <span className="ml-2">
+                    {role === "manager" && target.user ? `${target.user.name} - ` : ""}
+                    {target.profile?.name ?? "Profile"}
+                  </span>
+                  <CommandShortcut>
+                    {format(new Date(target.startDate), "MMM d")} - {format(new Date(target.endDate), "MMM d")}
+                  </CommandShortcut>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
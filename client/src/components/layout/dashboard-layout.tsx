@@ -1,6 +1,9 @@
-import { ReactNode } from "react";
+import { ReactNode, useState } from "react";
 import { Sidebar } from "./sidebar";
 import { MobileNav } from "./mobile-nav";
+import { CommandPalette } from "./command-palette";
+import { Button } from "@/components/ui/button";
+import { Search } from "lucide-react";
 
 interface DashboardLayoutProps {
   children: ReactNode;
@@ -8,6 +11,8 @@ interface DashboardLayoutProps {
 }
 
 export function DashboardLayout({ children, title }: DashboardLayoutProps) {
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+
   return (
     <div className="min-h-screen bg-neutral-50">
       <Sidebar className="hidden md:flex" />
@@ -15,11 +20,22 @@ export function DashboardLayout({ children, title }: DashboardLayoutProps) {
         {title && (
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-2xl font-bold">{title}</h2>
+            <Button
+              variant="outline"
+              size="sm"
+              className="hidden md:flex text-neutral-medium"
+              onClick={() => setIsCommandPaletteOpen(true)}
+            >
+              <Search className="h-4 w-4 mr-2" />
+              Search
+              <kbd className="ml-3 rounded border bg-muted px-1.5 text-xs">Ctrl K</kbd>
+            </Button>
           </div>
         )}
         {children}
       </main>
       <MobileNav />
+      <CommandPalette open={isCommandPaletteOpen} onOpenChange={setIsCommandPaletteOpen} />
     </div>
   );
 }
@@ -3,6 +3,7 @@ import { cn } from "@/lib/utils";
 import { Link, useLocation } from "wouter";
 import {
   BarChart2,
+  CalendarClock,
   ClipboardList,
   Home,
   LineChart,
@@ -33,6 +34,7 @@ export function MobileNav() {
       { href: "/", icon: <Home size={20} />, label: "Dashboard" },
       { href: "/my-profiles", icon: <Users size={20} />, label: "Profiles" },
       { href: "/lead-entry", icon: <ClipboardList size={20} />, label: "Leads" },
+      { href: "/interviews", icon: <CalendarClock size={20} />, label: "Interviews" },
     ],
   };
 
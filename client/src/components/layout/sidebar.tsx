@@ -3,20 +3,56 @@ import { cn } from "@/lib/utils";
 import { Link, useLocation } from "wouter";
 import {
   BarChart2,
+  CalendarClock,
   ChevronLeft,
   ClipboardList,
   FileText,
+  History,
   Home,
+  KeyRound,
   LineChart,
   LogOut,
+  Mail,
   Menu,
+  ShieldCheck,
   Target,
+  Trash2,
   User,
+  UserCog,
   Users,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { ChangePasswordDialog } from "@/components/users/change-password-dialog";
+import { TwoFactorDialog } from "@/components/users/two-factor-dialog";
 import { useState } from "react";
 
+// Navigation for each role, shared with the command palette
+export const links = {
+  manager: [
+    { href: "/", icon: <Home size={20} />, label: "Dashboard" },
+    { href: "/manage-profiles", icon: <FileText size={20} />, label: "Manage Profiles" },
+    { href: "/profiles", icon: <Users size={20} />, label: "Profile Assignment" },
+    { href: "/targets", icon: <Target size={20} />, label: "Set Targets" },
+    { href: "/cover-letters", icon: <Mail size={20} />, label: "Cover Letters" },
+    { href: "/reports", icon: <BarChart2 size={20} />, label: "Reports" },
+    { href: "/interviews", icon: <CalendarClock size={20} />, label: "Interviews" },
+    { href: "/users", icon: <UserCog size={20} />, label: "Users" },
+    { href: "/recently-deleted", icon: <Trash2 size={20} />, label: "Recently Deleted" },
+    { href: "/audit-log", icon: <History size={20} />, label: "Audit Log" },
+  ],
+  lead_gen: [
+    { href: "/", icon: <Home size={20} />, label: "Dashboard" },
+    { href: "/my-profile", icon: <User size={20} />, label: "My Profile" },
+    { href: "/progress", icon: <LineChart size={20} />, label: "Update Progress" },
+  ],
+  sales: [
+    { href: "/", icon: <Home size={20} />, label: "Dashboard" },
+    { href: "/my-profiles", icon: <Users size={20} />, label: "My Profiles" },
+    { href: "/lead-entry", icon: <ClipboardList size={20} />, label: "Lead Entry" },
+    { href: "/interviews", icon: <CalendarClock size={20} />, label: "Interviews" },
+  ],
+};
+
 interface SidebarProps {
   className?: string;
 }
@@ -25,6 +61,8 @@ export function Sidebar({ className }: SidebarProps) {
   const { user, logoutMutation } = useAuth();
   const [location] = useLocation();
   const [collapsed, setCollapsed] = useState(false);
+  const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
+  const [isTwoFactorOpen, setIsTwoFactorOpen] = useState(false);
 
   if (!user) return null;
 
@@ -32,26 +70,6 @@ export function Sidebar({ className }: SidebarProps) {
     logoutMutation.mutate();
   };
 
-  const links = {
-    manager: [
-      { href: "/", icon: <Home size={20} />, label: "Dashboard" },
-      { href: "/manage-profiles", icon: <FileText size={20} />, label: "Manage Profiles" },
-      { href: "/profiles", icon: <Users size={20} />, label: "Profile Assignment" },
-      { href: "/targets", icon: <Target size={20} />, label: "Set Targets" },
-      { href: "/reports", icon: <BarChart2 size={20} />, label: "Reports" },
-    ],
-    lead_gen: [
-      { href: "/", icon: <Home size={20} />, label: "Dashboard" },
-      { href: "/my-profile", icon: <User size={20} />, label: "My Profile" },
-      { href: "/progress", icon: <LineChart size={20} />, label: "Update Progress" },
-    ],
-    sales: [
-      { href: "/", icon: <Home size={20} />, label: "Dashboard" },
-      { href: "/my-profiles", icon: <Users size={20} />, label: "My Profiles" },
-      { href: "/lead-entry", icon: <ClipboardList size={20} />, label: "Lead Entry" },
-    ],
-  };
-
   // Get navigation links based on user role
   const navLinks = links[user.role as keyof typeof links] || [];
 
@@ -113,6 +131,28 @@ export function Sidebar({ className }: SidebarProps) {
       </nav>
 
       <div className="p-4 border-t mt-auto">
+        <Button
+          variant="ghost"
+          onClick={() => setIsChangePasswordOpen(true)}
+          className={cn(
+            "flex items-center w-full text-neutral-medium hover:bg-neutral-bg hover:text-primary transition-colors",
+            collapsed ? "justify-center px-2" : "justify-start"
+          )}
+        >
+          <KeyRound size={20} className="mr-2" />
+          {!collapsed && <span>Change Password</span>}
+        </Button>
+        <Button
+          variant="ghost"
+          onClick={() => setIsTwoFactorOpen(true)}
+          className={cn(
+            "flex items-center w-full text-neutral-medium hover:bg-neutral-bg hover:text-primary transition-colors",
+            collapsed ? "justify-center px-2" : "justify-start"
+          )}
+        >
+          <ShieldCheck size={20} className="mr-2" />
+          {!collapsed && <span>Two-Factor Auth</span>}
+        </Button>
         <Button
           variant="ghost"
           onClick={handleLogout}
@@ -125,6 +165,9 @@ export function Sidebar({ className }: SidebarProps) {
           {!collapsed && <span>Sign Out</span>}
         </Button>
       </div>
+
+      <ChangePasswordDialog open={isChangePasswordOpen} onOpenChange={setIsChangePasswordOpen} />
+      <TwoFactorDialog open={isTwoFactorOpen} onOpenChange={setIsTwoFactorOpen} />
     </aside>
   );
 }
@@ -0,0 +1,458 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { allowedLeadStageChanges, leadStages, type LeadStage } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loading } from "@/components/ui/loading";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar as CalendarComponent } from "@/components/ui/calendar";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Calendar, Plus, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export const leadStageLabels: Record<LeadStage, string> = {
+  new: "New",
+  screening: "Screening",
+  interview: "Interview",
+  offer: "Offer",
+  placed: "Placed",
+  rejected_by_client: "Rejected by Client",
+  rejected_by_team: "Rejected by Team",
+};
+
+const stageStyles: Record<LeadStage, string> = {
+  new: "border-t-primary",
+  screening: "border-t-purple-500",
+  interview: "border-t-yellow-500",
+  offer: "border-t-blue-500",
+  placed: "border-t-green-500",
+  rejected_by_client: "border-t-red-500",
+  rejected_by_team: "border-t-orange-500",
+};
+
+// New lead validation schema
+const leadSchema = z.object({
+  profileId: z.string().min(1, "Please select a profile"),
+  clientName: z.string().min(1, "Client name is required"),
+  jobTitle: z.string().min(1, "Job title is required"),
+  contactName: z.string().optional(),
+  contactEmail: z.string().email("Please enter a valid email address").or(z.literal("")),
+  resumeVariantId: z.string(),
+  notes: z.string().optional(),
+});
+
+type LeadFormData = z.infer<typeof leadSchema>;
+
+interface LeadKanbanBoardProps {
+  profiles: any[];
+  initialProfileId?: string;
+}
+
+export function LeadKanbanBoard({ profiles, initialProfileId }: LeadKanbanBoardProps) {
+  const { toast } = useToast();
+  const [profileFilter, setProfileFilter] = useState<string>(
+    initialProfileId || (profiles[0] ? profiles[0].id.toString() : "all")
+  );
+  const [dateFilter, setDateFilter] = useState<DateRange | undefined>();
+  const [draggedLeadId, setDraggedLeadId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<LeadStage | null>(null);
+  const [isLeadDialogOpen, setIsLeadDialogOpen] = useState(false);
+
+  const leadForm = useForm<LeadFormData>({
+    resolver: zodResolver(leadSchema),
+    defaultValues: {
+      profileId: "",
+      clientName: "",
+      jobTitle: "",
+      contactName: "",
+      contactEmail: "",
+      resumeVariantId: "main",
+      notes: "",
+    },
+  });
+
+  const leadProfileId = leadForm.watch("profileId");
+  
+  // Get the resume variants of the profile a new lead is being added for
+  const { data: resumeVariants = [] } = useQuery<any[]>({
+    queryKey: [`/api/profiles/${leadProfileId}/variants`],
+    enabled: !!leadProfileId,
+  });
+  
+  // Get the coordinator's leads
+  const { data: leads = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/leads"],
+  });
+
+  // Create a new lead
+  const createLeadMutation = useMutation({
+    mutationFn: async (data: LeadFormData) => {
+      return apiRequest("POST", "/api/leads", {
+        profileId: parseInt(data.profileId),
+        clientName: data.clientName,
+        jobTitle: data.jobTitle,
+        contactName: data.contactName || null,
+        contactEmail: data.contactEmail || null,
+        resumeVariantId: data.resumeVariantId === "main" ? null : parseInt(data.resumeVariantId),
+        notes: data.notes || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-entries"] });
+      setIsLeadDialogOpen(false);
+      leadForm.reset();
+      toast({
+        title: "Lead added",
+        description: "The lead has been added to the pipeline.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to add lead",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Move a lead to another stage, updating the board before the server responds
+  const changeStageMutation = useMutation({
+    mutationFn: async ({ id, stage }: { id: number; stage: LeadStage }) => {
+      return apiRequest("POST", `/api/leads/${id}/stage`, { stage });
+    },
+    onMutate: async ({ id, stage }) => {
+      await queryClient.cancelQueries({ queryKey: ["/api/leads"] });
+      const previousLeads = queryClient.getQueryData<any[]>(["/api/leads"]);
+      queryClient.setQueryData<any[]>(["/api/leads"], (old = []) =>
+        old.map((lead) => (lead.id === id ? { ...lead, stage } : lead))
+      );
+      return { previousLeads };
+    },
+    onError: (error, _variables, context) => {
+      queryClient.setQueryData(["/api/leads"], context?.previousLeads);
+      toast({
+        title: "Failed to move lead",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-entries"] });
+    },
+  });
+
+  // Handle a card being dropped on a stage column
+  const handleDrop = (stage: LeadStage) => {
+    setDropTarget(null);
+    const lead = leads.find((l) => l.id === draggedLeadId);
+    setDraggedLeadId(null);
+    if (!lead || lead.stage === stage) return;
+
+    if (!allowedLeadStageChanges[lead.stage as LeadStage].includes(stage)) {
+      toast({
+        title: "Move not allowed",
+        description: `A lead cannot move from ${leadStageLabels[lead.stage as LeadStage]} to ${leadStageLabels[stage]}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    changeStageMutation.mutate({ id: lead.id, stage });
+  };
+
+  // Apply the profile and date filters
+  const filteredLeads = leads.filter((lead) => {
+    if (profileFilter !== "all" && lead.profileId.toString() !== profileFilter) {
+      return false;
+    }
+
+    const createdAt = new Date(lead.createdAt);
+    if (dateFilter?.from && createdAt < dateFilter.from) {
+      return false;
+    }
+    if (dateFilter?.to) {
+      const endOfRange = new Date(dateFilter.to);
+      endOfRange.setHours(23, 59, 59, 999);
+      if (createdAt > endOfRange) return false;
+    }
+
+    return true;
+  });
+
+  const draggedLead = leads.find((l) => l.id === draggedLeadId);
+
+  if (isLoading) {
+    return <Loading />;
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <div className="flex flex-wrap gap-2">
+          <Select value={profileFilter} onValueChange={setProfileFilter}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Filter by profile" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Profiles</SelectItem>
+              {profiles.map((profile: any) => (
+                <SelectItem key={profile.id} value={profile.id.toString()}>
+                  {profile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="gap-2">
+                <Calendar className="h-4 w-4" />
+                {dateFilter?.from
+                  ? `${format(dateFilter.from, "MMM d")} - ${dateFilter.to ? format(dateFilter.to, "MMM d, yyyy") : "..."}`
+                  : "Any Date"}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <CalendarComponent
+                mode="range"
+                selected={dateFilter}
+                onSelect={setDateFilter}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+
+          {dateFilter && (
+            <Button variant="ghost" size="icon" onClick={() => setDateFilter(undefined)}>
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        <Button
+          onClick={() => {
+            leadForm.reset({
+              profileId: profileFilter !== "all" ? profileFilter : "",
+              clientName: "",
+              jobTitle: "",
+              contactName: "",
+              contactEmail: "",
+              resumeVariantId: "main",
+              notes: "",
+            });
+            setIsLeadDialogOpen(true);
+          }}
+          className="flex items-center"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Lead
+        </Button>
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {leadStages.map((stage) => {
+          const stageLeads = filteredLeads.filter((lead) => lead.stage === stage);
+          const canDrop = draggedLead
+            ? allowedLeadStageChanges[draggedLead.stage as LeadStage].includes(stage)
+            : false;
+
+          return (
+            <div
+              key={stage}
+              className={cn(
+                "flex-shrink-0 w-64 bg-neutral-50 rounded-md border border-t-4 transition-colors",
+                stageStyles[stage],
+                dropTarget === stage && canDrop && "bg-primary bg-opacity-5"
+              )}
+              onDragOver={(e) => {
+                if (!canDrop) return;
+                e.preventDefault();
+                setDropTarget(stage);
+              }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(stage);
+              }}
+            >
+              <div className="flex justify-between items-center px-3 py-2 border-b">
+                <span className="text-sm font-medium">{leadStageLabels[stage]}</span>
+                <span className="text-xs text-neutral-medium">{stageLeads.length}</span>
+              </div>
+
+              <div className="p-2 space-y-2 min-h-[8rem]">
+                {stageLeads.map((lead) => (
+                  <div
+                    key={lead.id}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      setDraggedLeadId(lead.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedLeadId(null);
+                      setDropTarget(null);
+                    }}
+                    className={cn(
+                      "bg-white rounded-md border p-3 shadow-sm cursor-grab active:cursor-grabbing",
+                      draggedLeadId === lead.id && "opacity-50"
+                    )}
+                  >
+                    <p className="font-medium text-sm">{lead.clientName}</p>
+                    <p className="text-xs text-neutral-medium">{lead.jobTitle}</p>
+                    {profileFilter === "all" && lead.profile && (
+                      <p className="text-xs text-primary mt-1">{lead.profile.name}</p>
+                    )}
+                    {lead.contactName && (
+                      <p className="text-xs text-neutral-medium mt-1">{lead.contactName}</p>
+                    )}
+                    <p className="text-xs text-neutral-medium mt-2">
+                      Added {format(new Date(lead.createdAt), "MMM d, yyyy")}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Add Lead Dialog */}
+      <Dialog open={isLeadDialogOpen} onOpenChange={setIsLeadDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Lead</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={leadForm.handleSubmit((data) => createLeadMutation.mutate(data))}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="lead-profileId">Profile</Label>
+                <Select
+                  onValueChange={(value) => {
+                    leadForm.setValue("profileId", value);
+                    leadForm.setValue("resumeVariantId", "main");
+                  }}
+                  value={leadProfileId}
+                >
+                  <SelectTrigger id="lead-profileId">
+                    <SelectValue placeholder="Select a profile" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {profiles.map((profile: any) => (
+                      <SelectItem key={profile.id} value={profile.id.toString()}>
+                        {profile.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {leadForm.formState.errors.profileId && (
+                  <p className="text-sm text-red-500">
+                    {leadForm.formState.errors.profileId.message}
+                  </p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="lead-clientName">Client</Label>
+                  <Input id="lead-clientName" {...leadForm.register("clientName")} />
+                  {leadForm.formState.errors.clientName && (
+                    <p className="text-sm text-red-500">
+                      {leadForm.formState.errors.clientName.message}
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="lead-jobTitle">Job Title</Label>
+                  <Input id="lead-jobTitle" {...leadForm.register("jobTitle")} />
+                  {leadForm.formState.errors.jobTitle && (
+                    <p className="text-sm text-red-500">
+                      {leadForm.formState.errors.jobTitle.message}
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="lead-contactName">Contact Name (Optional)</Label>
+                  <Input id="lead-contactName" {...leadForm.register("contactName")} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="lead-contactEmail">Contact Email (Optional)</Label>
+                  <Input id="lead-contactEmail" type="email" {...leadForm.register("contactEmail")} />
+                  {leadForm.formState.errors.contactEmail && (
+                    <p className="text-sm text-red-500">
+                      {leadForm.formState.errors.contactEmail.message}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {resumeVariants.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="lead-resumeVariantId">Resume Sent</Label>
+                  <Select
+                    onValueChange={(value) => leadForm.setValue("resumeVariantId", value)}
+                    value={leadForm.watch("resumeVariantId")}
+                  >
+                    <SelectTrigger id="lead-resumeVariantId">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="main">Main resume</SelectItem>
+                      {resumeVariants.map((variant: any) => (
+                        <SelectItem key={variant.id} value={variant.id.toString()}>
+                          {variant.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="lead-notes">Notes (Optional)</Label>
+                <Textarea id="lead-notes" className="h-20" {...leadForm.register("notes")} />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsLeadDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createLeadMutation.isPending}>
+                {createLeadMutation.isPending ? "Saving..." : "Add Lead"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CoverLetterTemplate } from "@shared/schema";
+import { Copy, Download, FileSignature, Loader2 } from "lucide-react";
+
+interface CoverLetterPanelProps {
+  profileId: number;
+}
+
+// Lets lead generation fill a manager's cover letter template for the job they are applying to
+export function CoverLetterPanel({ profileId }: CoverLetterPanelProps) {
+  const { toast } = useToast();
+  const [templateId, setTemplateId] = useState("");
+  const [company, setCompany] = useState("");
+  const [jobTitle, setJobTitle] = useState("");
+  const [content, setContent] = useState("");
+
+  const { data: templates = [] } = useQuery<CoverLetterTemplate[]>({
+    queryKey: ["/api/cover-letter-templates"],
+  });
+
+  const coverLetterUrl = (format: "json" | "txt" | "docx") => {
+    const params = new URLSearchParams({ templateId, company: company.trim(), jobTitle: jobTitle.trim(), format });
+    return `/api/profiles/${profileId}/cover-letter?${params.toString()}`;
+  };
+
+  const fillMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(coverLetterUrl("json"), { credentials: "include" });
+      if (!res.ok) {
+        throw new Error((await res.json()).message || res.statusText);
+      }
+      return res.json() as Promise<{ content: string }>;
+    },
+    onSuccess: (letter) => {
+      setContent(letter.content);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to fill cover letter",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canFill = !!templateId && !!company.trim() && !!jobTitle.trim();
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(content);
+    toast({
+      title: "Copied",
+      description: "The cover letter is on your clipboard.",
+    });
+  };
+
+  return (
+    <Card className="bg-white shadow mb-8">
+      <CardContent className="p-6">
+        <h3 className="font-semibold mb-1">Cover Letter</h3>
+        <p className="text-sm text-neutral-medium mb-4">
+          Fill one of your manager's templates with this profile's details and the job you are applying to
+        </p>
+
+        {templates.length === 0 ? (
+          <div className="text-center py-6 text-neutral-medium">
+            No cover letter templates yet. Ask your manager to add one.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label>Template</Label>
+                <Select value={templateId} onValueChange={setTemplateId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map(template => (
+                      <SelectItem key={template.id} value={template.id.toString()}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cover-letter-company">Company</Label>
+                <Input
+                  id="cover-letter-company"
+                  placeholder="e.g. Acme"
+                  value={company}
+                  onChange={(e) => setCompany(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cover-letter-job-title">Job Title</Label>
+                <Input
+                  id="cover-letter-job-title"
+                  placeholder="e.g. Senior React Developer"
+                  value={jobTitle}
+                  onChange={(e) => setJobTitle(e.target.value)}
+                />
+              </div>
+              <Button
+                type="button"
+                onClick={() => fillMutation.mutate()}
+                disabled={!canFill || fillMutation.isPending}
+                className="flex items-center"
+              >
+                {fillMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <FileSignature className="h-4 w-4 mr-2" />
+                )}
+                Fill Template
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Textarea
+                rows={12}
+                placeholder="The filled cover letter will appear here"
+                value={content}
+                readOnly
+              />
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleCopy} disabled={!content}>
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => window.open(coverLetterUrl("txt"), "_blank")}
+                  disabled={!content || !canFill}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Text
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => window.open(coverLetterUrl("docx"), "_blank")}
+                  disabled={!content || !canFill}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  DOCX
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { resumeLayouts, type ResumeLayout } from "@shared/schema";
+import { format } from "date-fns";
+import { Download, FileOutput, Loader2 } from "lucide-react";
+
+const layoutDescriptions: Record<ResumeLayout, string> = {
+  classic: "Serif font, centered header and ruled section headings",
+  modern: "Sans-serif font with a colored name and headings",
+  compact: "Small font and narrow margins to fit more on a page",
+};
+
+interface GenerateResumeDialogProps {
+  profile: any;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Lets managers lay the profile's structured resume fields out as a formatted DOCX
+export function GenerateResumeDialog({ profile, open, onOpenChange }: GenerateResumeDialogProps) {
+  const { toast } = useToast();
+  const [layout, setLayout] = useState<ResumeLayout>("classic");
+  const [generated, setGenerated] = useState<any>(null);
+  const profileId = profile?.id;
+
+  useEffect(() => {
+    setGenerated(profile);
+    if (profile?.generatedResumeLayout) setLayout(profile.generatedResumeLayout);
+  }, [profile]);
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/profiles/${profileId}/generated-resume`, { layout });
+      return res.json();
+    },
+    onSuccess: (updatedProfile) => {
+      setGenerated(updatedProfile);
+      queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+      toast({
+        title: "Resume generated",
+        description: "Assigned team members can now download the formatted resume.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to generate resume",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Generate Resume{profile ? ` - ${profile.name}` : ""}</DialogTitle>
+          <DialogDescription>
+            Build a formatted Word resume from the profile's structured fields. The uploaded file is kept as it is.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Layout</Label>
+          <Select value={layout} onValueChange={(value) => setLayout(value as ResumeLayout)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {resumeLayouts.map(option => (
+                <SelectItem key={option} value={option} className="capitalize">
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-neutral-medium">{layoutDescriptions[layout]}</p>
+        </div>
+
+        {generated?.generatedResumeAt && (
+          <div className="flex items-center justify-between border rounded-md p-3">
+            <p className="text-sm">
+              <span className="capitalize">{generated.generatedResumeLayout}</span> layout, generated{" "}
+              {format(new Date(generated.generatedResumeAt), "MMM d, yyyy h:mm a")}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => window.open(`/api/profiles/${profileId}/generated-resume`, '_blank')}
+            >
+              <Download className="h-4 w-4 mr-1" />
+              DOCX
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button
+            type="button"
+            onClick={() => generateMutation.mutate()}
+            disabled={generateMutation.isPending}
+            className="flex items-center"
+          >
+            {generateMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileOutput className="h-4 w-4 mr-2" />
+            )}
+            {generated?.generatedResumeAt ? "Regenerate" : "Generate"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import { Loader2, Target } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+// Score bands shared by the result and the history list
+function scoreStyle(score: number): string {
+  if (score >= 70) return "text-green-600";
+  if (score >= 40) return "text-amber-600";
+  return "text-red-600";
+}
+
+function TermList({ label, terms, className }: { label: string; terms: string[]; className: string }) {
+  if (terms.length === 0) return null;
+
+  return (
+    <div>
+      <h5 className="text-sm font-medium mb-1">{label}</h5>
+      <div className="flex flex-wrap gap-1">
+        {terms.map(term => (
+          <Badge key={term} variant="outline" className={className}>{term}</Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Lets lead generation paste a job description and see how well the assigned resume covers it
+export function JobMatchPanel() {
+  const { toast } = useToast();
+  const [jobTitle, setJobTitle] = useState("");
+  const [jobDescription, setJobDescription] = useState("");
+  const [result, setResult] = useState<any>(null);
+
+  // Recently scored job descriptions
+  const { data: matches = [] } = useQuery<any[]>({
+    queryKey: ["/api/job-matches"],
+  });
+
+  const scoreMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/job-matches", {
+        jobTitle: jobTitle.trim() || undefined,
+        jobDescription,
+      });
+      return res.json();
+    },
+    onSuccess: (match) => {
+      setResult(match);
+      queryClient.invalidateQueries({ queryKey: ["/api/job-matches"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to score job description",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="bg-white shadow mb-8">
+      <CardContent className="p-6">
+        <h3 className="font-semibold mb-1">Job Match Score</h3>
+        <p className="text-sm text-neutral-medium mb-4">
+          Paste a job description to see how well your assigned resume covers it before applying
+        </p>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="job-title">Job Title (optional)</Label>
+              <Input
+                id="job-title"
+                placeholder="e.g. Senior React Developer at Acme"
+                value={jobTitle}
+                onChange={(e) => setJobTitle(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="job-description">Job Description</Label>
+              <Textarea
+                id="job-description"
+                rows={10}
+                placeholder="Paste the full job description here"
+                value={jobDescription}
+                onChange={(e) => setJobDescription(e.target.value)}
+              />
+            </div>
+            <Button
+              type="button"
+              onClick={() => scoreMutation.mutate()}
+              disabled={!jobDescription.trim() || scoreMutation.isPending}
+              className="flex items-center"
+            >
+              {scoreMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Target className="h-4 w-4 mr-2" />
+              )}
+              Score Match
+            </Button>
+          </div>
+
+          <div>
+            {result ? (
+              <div className="space-y-4">
+                <div className="flex items-baseline gap-2">
+                  <span className={cn("text-4xl font-bold", scoreStyle(result.score))}>{result.score}</span>
+                  <span className="text-neutral-medium">/ 100 match</span>
+                </div>
+
+                <TermList
+                  label="Missing must-haves"
+                  terms={result.details.missingMustHaves}
+                  className="border-red-200 bg-red-50 text-red-700"
+                />
+                <TermList
+                  label="Matched skills"
+                  terms={result.details.matchedSkills}
+                  className="border-green-200 bg-green-50 text-green-700"
+                />
+                <TermList
+                  label="Missing skills"
+                  terms={result.details.missingSkills}
+                  className="border-amber-200 bg-amber-50 text-amber-700"
+                />
+                <TermList
+                  label="Missing keywords"
+                  terms={result.details.missingKeywords}
+                  className="text-neutral-600"
+                />
+
+                <div>
+                  <h5 className="text-sm font-medium mb-1">Matches in the job description</h5>
+                  <div className="border rounded-md p-3 text-sm whitespace-pre-wrap max-h-64 overflow-auto">
+                    {result.highlights.map((highlight: any, index: number) => (
+                      highlight.matched
+                        ? <mark key={index} className="bg-green-100 text-green-900 rounded px-0.5">{highlight.text}</mark>
+                        : <span key={index}>{highlight.text}</span>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-center h-full min-h-40 border rounded-md border-dashed">
+                <p className="text-sm text-neutral-medium">The match score will appear here</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {matches.length > 0 && (
+          <div className="mt-6">
+            <h4 className="font-medium mb-2">Recently Scored</h4>
+            <div className="border rounded-md divide-y">
+              {matches.slice(0, 5).map((match: any) => (
+                <div key={match.id} className="flex items-center justify-between p-3">
+                  <div>
+                    <p className="font-medium">{match.jobTitle || "Untitled job"}</p>
+                    <p className="text-sm text-neutral-medium">
+                      {format(new Date(match.createdAt), "MMM d, yyyy h:mm a")}
+                      {match.details.missingMustHaves.length > 0 &&
+                        ` · ${match.details.missingMustHaves.length} must-haves missing`}
+                    </p>
+                  </div>
+                  <span className={cn("text-lg font-bold", scoreStyle(match.score))}>{match.score}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
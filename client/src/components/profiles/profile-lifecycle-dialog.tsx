@@ -0,0 +1,364 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loading } from "@/components/ui/loading";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { allowedProfileStatusChanges, placementRateUnits, type ProfileStatus } from "@shared/schema";
+import { ProfileStatusBadge, profileStatusLabels } from "./profile-status-badge";
+import { format } from "date-fns";
+import { ArrowRight, Briefcase, Loader2 } from "lucide-react";
+
+interface ProfileLifecycleDialogProps {
+  profile: any;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+// Date columns come back as YYYY-MM-DD; parse them as local days so they don't shift a day back
+const formatDay = (value: string) => format(new Date(`${value}T00:00:00`), "MMM d, yyyy");
+
+// Lets managers move a profile through its lifecycle and record the placement that ends its search
+export function ProfileLifecycleDialog({ profile, open, onOpenChange }: ProfileLifecycleDialogProps) {
+  const { toast } = useToast();
+  const profileId = profile?.id;
+  const [status, setStatus] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState(today());
+  const [notes, setNotes] = useState("");
+  const [placement, setPlacement] = useState({
+    client: "",
+    startDate: today(),
+    rate: "",
+    rateUnit: "hour",
+    closedBy: "",
+    notes: "",
+  });
+
+  // The row the dialog was opened from goes stale once the status changes
+  const { data: profiles = [] } = useQuery<any[]>({
+    queryKey: ["/api/profiles"],
+    enabled: open,
+  });
+  const currentProfile = profiles.find(p => p.id === profileId) || profile;
+  const currentStatus = currentProfile?.status as ProfileStatus | undefined;
+
+  const { data: statusChanges = [], isLoading: isLoadingChanges } = useQuery<any[]>({
+    queryKey: [`/api/profiles/${profileId}/status-changes`],
+    enabled: open && !!profileId,
+  });
+  const { data: placements = [] } = useQuery<any[]>({
+    queryKey: [`/api/profiles/${profileId}/placements`],
+    enabled: open && !!profileId,
+  });
+  const { data: salesUsers = [] } = useQuery<any[]>({
+    queryKey: ["/api/users", "sales"],
+    queryFn: async () => {
+      const res = await fetch(`/api/users?role=sales`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch sales coordinators");
+      return res.json();
+    },
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setStatus("");
+      setEffectiveDate(today());
+      setNotes("");
+      setPlacement({ client: "", startDate: today(), rate: "", rateUnit: "hour", closedBy: "", notes: "" });
+    }
+  }, [open, profileId]);
+
+  const invalidateLifecycle = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/profiles/${profileId}/status-changes`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/profiles/${profileId}/placements`] });
+  };
+
+  const changeStatusMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/profiles/${profileId}/status`, {
+        status,
+        effectiveDate,
+        notes: notes.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      invalidateLifecycle();
+      toast({
+        title: "Status changed",
+        description: `${currentProfile.name} is now ${profileStatusLabels[status as ProfileStatus].toLowerCase()}.`,
+      });
+      setStatus("");
+      setNotes("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to change status",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const recordPlacementMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/profiles/${profileId}/placements`, {
+        client: placement.client.trim(),
+        startDate: placement.startDate,
+        rate: Number(placement.rate),
+        rateUnit: placement.rateUnit,
+        closedBy: Number(placement.closedBy),
+        notes: placement.notes.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      invalidateLifecycle();
+      toast({
+        title: "Placement recorded",
+        description: `${currentProfile.name} is now placed and no longer offered for assignments.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to record placement",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!currentProfile || !currentStatus) return null;
+
+  const nextStatuses = allowedProfileStatusChanges[currentStatus].filter(next => next !== "placed");
+  const canPlace = allowedProfileStatusChanges[currentStatus].includes("placed");
+  const canRecordPlacement = !!placement.client.trim() && !!placement.startDate && Number(placement.rate) > 0 && !!placement.closedBy;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Lifecycle - {currentProfile.name}</DialogTitle>
+          <DialogDescription asChild>
+            <div className="flex items-center gap-2">
+              <ProfileStatusBadge status={currentStatus} />
+              {currentProfile.statusEffectiveDate && (
+                <span>since {formatDay(currentProfile.statusEffectiveDate)}</span>
+              )}
+            </div>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <h4 className="font-medium">Change Status</h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label>New Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {nextStatuses.map(next => (
+                    <SelectItem key={next} value={next}>
+                      {profileStatusLabels[next]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="status-effective-date">Effective Date</Label>
+              <Input
+                id="status-effective-date"
+                type="date"
+                max={today()}
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="status-notes">Notes</Label>
+              <Input
+                id="status-notes"
+                placeholder="Optional"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button
+            type="button"
+            onClick={() => changeStatusMutation.mutate()}
+            disabled={!status || !effectiveDate || changeStatusMutation.isPending}
+            className="flex items-center"
+          >
+            {changeStatusMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Change Status
+          </Button>
+        </div>
+
+        {canPlace && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <h4 className="font-medium">Record Placement</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="placement-client">Client</Label>
+                  <Input
+                    id="placement-client"
+                    placeholder="e.g. Acme"
+                    value={placement.client}
+                    onChange={(e) => setPlacement({ ...placement, client: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="placement-start-date">Start Date</Label>
+                  <Input
+                    id="placement-start-date"
+                    type="date"
+                    max={today()}
+                    value={placement.startDate}
+                    onChange={(e) => setPlacement({ ...placement, startDate: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="placement-rate">Rate</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="placement-rate"
+                      type="number"
+                      min={1}
+                      placeholder="e.g. 60"
+                      value={placement.rate}
+                      onChange={(e) => setPlacement({ ...placement, rate: e.target.value })}
+                    />
+                    <Select value={placement.rateUnit} onValueChange={(rateUnit) => setPlacement({ ...placement, rateUnit })}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {placementRateUnits.map(unit => (
+                          <SelectItem key={unit} value={unit}>per {unit}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Closed By</Label>
+                  <Select value={placement.closedBy} onValueChange={(closedBy) => setPlacement({ ...placement, closedBy })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a sales coordinator" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {salesUsers.map(user => (
+                        <SelectItem key={user.id} value={user.id.toString()}>
+                          {user.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="placement-notes">Notes</Label>
+                <Input
+                  id="placement-notes"
+                  placeholder="Optional, e.g. contract length"
+                  value={placement.notes}
+                  onChange={(e) => setPlacement({ ...placement, notes: e.target.value })}
+                />
+              </div>
+              <Button
+                type="button"
+                onClick={() => recordPlacementMutation.mutate()}
+                disabled={!canRecordPlacement || recordPlacementMutation.isPending}
+                className="flex items-center"
+              >
+                {recordPlacementMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Briefcase className="h-4 w-4 mr-2" />
+                )}
+                Record Placement
+              </Button>
+            </div>
+          </>
+        )}
+
+        {placements.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <h4 className="font-medium">Placements</h4>
+              {placements.map(placed => (
+                <div key={placed.id} className="border rounded-md p-3 text-sm">
+                  <div className="flex justify-between">
+                    <span className="font-medium">{placed.client}</span>
+                    <span>{placed.rate} per {placed.rateUnit}</span>
+                  </div>
+                  <div className="text-neutral-medium">
+                    Starts {formatDay(placed.startDate)} - closed by {placed.closedByName}
+                  </div>
+                  {placed.notes && <div className="mt-1">{placed.notes}</div>}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <Separator />
+        <div className="space-y-2">
+          <h4 className="font-medium">Status History</h4>
+          {isLoadingChanges ? (
+            <Loading />
+          ) : (
+            <div className="space-y-2">
+              {[...statusChanges].reverse().map(change => (
+                <div key={change.id} className="flex items-start justify-between gap-3 text-sm">
+                  <div>
+                    <div className="flex items-center gap-1">
+                      {change.fromStatus && (
+                        <>
+                          <ProfileStatusBadge status={change.fromStatus} />
+                          <ArrowRight className="h-3 w-3" />
+                        </>
+                      )}
+                      <ProfileStatusBadge status={change.toStatus} />
+                    </div>
+                    {change.notes && <div className="text-neutral-medium mt-1">{change.notes}</div>}
+                  </div>
+                  <div className="text-right text-neutral-medium shrink-0">
+                    <div>Effective {formatDay(change.effectiveDate)}</div>
+                    <div className="text-xs">by {change.changedByName}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+import type { ProfileStatus } from "@shared/schema";
+
+export const profileStatusLabels: Record<ProfileStatus, string> = {
+  draft: "Draft",
+  active: "Active",
+  paused: "Paused",
+  placed: "Placed",
+  archived: "Archived",
+};
+
+const profileStatusStyles: Record<ProfileStatus, string> = {
+  draft: "bg-gray-100 text-gray-700 border-gray-200",
+  active: "bg-green-100 text-green-800 border-green-200",
+  paused: "bg-amber-100 text-amber-800 border-amber-200",
+  placed: "bg-blue-100 text-blue-800 border-blue-200",
+  archived: "bg-neutral-100 text-neutral-500 border-neutral-200",
+};
+
+export function ProfileStatusBadge({ status }: { status: ProfileStatus }) {
+  return (
+    <Badge variant="outline" className={profileStatusStyles[status]}>
+      {profileStatusLabels[status]}
+    </Badge>
+  );
+}
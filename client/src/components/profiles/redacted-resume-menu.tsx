@@ -0,0 +1,66 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { EyeOff } from "lucide-react";
+
+type RedactedResumeMenuProps = {
+  profileId: number;
+  variantId?: string; // Resume variant to export instead of the main resume
+  size?: "default" | "sm";
+};
+
+// Downloads the resume with the candidate's name, contact details and configured terms removed
+export function RedactedResumeMenu({ profileId, variantId, size = "default" }: RedactedResumeMenuProps) {
+  const { toast } = useToast();
+
+  // Fetched rather than opened directly so a refused export shows why instead of an error page
+  const download = async (format: "docx" | "txt") => {
+    const params = new URLSearchParams({ format });
+    if (variantId) params.set("variant", variantId);
+
+    try {
+      const res = await fetch(`/api/profiles/${profileId}/resume/redacted?${params.toString()}`, {
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.message || "Failed to export redacted resume");
+      }
+
+      const fileName = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1]
+        || `Redacted_Resume.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Couldn't export redacted resume",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size}>
+          <EyeOff className="h-4 w-4 mr-1" />
+          Redacted
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => download("docx")}>Word document (.docx)</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => download("txt")}>Plain text (.txt)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
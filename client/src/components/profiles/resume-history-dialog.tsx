@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Loading } from "@/components/ui/loading";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { format } from "date-fns";
+import { Download, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ResumeHistoryDialogProps {
+  profile: any;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const diffLineStyles: Record<string, string> = {
+  added: "bg-green-50 text-green-800",
+  removed: "bg-red-50 text-red-800 line-through",
+  unchanged: "text-neutral-600",
+};
+
+const diffLinePrefixes: Record<string, string> = {
+  added: "+",
+  removed: "-",
+  unchanged: " ",
+};
+
+export function ResumeHistoryDialog({ profile, open, onOpenChange }: ResumeHistoryDialogProps) {
+  const { toast } = useToast();
+  const [fromVersionId, setFromVersionId] = useState<string>("");
+  const [toVersionId, setToVersionId] = useState<string>("");
+  const profileId = profile?.id;
+
+  // Get the profile's resume versions, newest first
+  const { data: versions = [], isLoading } = useQuery<any[]>({
+    queryKey: [`/api/profiles/${profileId}/versions`],
+    enabled: open && !!profileId,
+  });
+
+  // Compare the previous version with the latest one by default
+  useEffect(() => {
+    if (versions.length > 0) {
+      setToVersionId(versions[0].id.toString());
+      setFromVersionId((versions[1] || versions[0]).id.toString());
+    } else {
+      setToVersionId("");
+      setFromVersionId("");
+    }
+  }, [versions]);
+
+  const { data: diff, isLoading: isLoadingDiff } = useQuery<any>({
+    queryKey: [`/api/profiles/${profileId}/versions/diff?from=${fromVersionId}&to=${toVersionId}`],
+    enabled: open && !!fromVersionId && !!toVersionId && fromVersionId !== toVersionId,
+  });
+
+  // Restore a version as the profile's current resume
+  const restoreVersionMutation = useMutation({
+    mutationFn: async (versionId: number) => {
+      return apiRequest("POST", `/api/profiles/${profileId}/versions/${versionId}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/profiles/${profileId}/versions`] });
+      toast({
+        title: "Resume restored",
+        description: "The selected version is now the profile's current resume.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to restore resume",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changedLines = diff?.lines.filter((line: any) => line.type !== "unchanged").length || 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Resume History{profile ? ` - ${profile.name}` : ""}</DialogTitle>
+          <DialogDescription>
+            Every resume this profile has carried. Restoring a version makes it current again.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Loading />
+        ) : versions.length === 0 ? (
+          <div className="text-center py-8 text-neutral-medium">
+            No resume versions recorded for this profile yet
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="border rounded-md divide-y">
+              {versions.map((version: any, index: number) => (
+                <div key={version.id} className="flex items-center justify-between p-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">Version {version.versionNumber}</span>
+                      {index === 0 && (
+                        <span className="px-2 py-0.5 bg-primary bg-opacity-10 text-primary rounded-full text-xs">
+                          Current
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-neutral-medium">
+                      {format(new Date(version.createdAt), "MMM d, yyyy h:mm a")} by {version.createdByName}
+                      {version.resumeFileName && ` · ${version.resumeFileName}`}
+                      {version.restoredFromVersion && ` · restored from version ${version.restoredFromVersion}`}
+                    </p>
+                  </div>
+
+                  <div className="flex space-x-2">
+                    {version.hasPdf && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => window.open(`/api/profiles/${profileId}/versions/${version.id}/resume`, '_blank')}
+                      >
+                        <Download className="h-4 w-4 mr-1" />
+                        File
+                      </Button>
+                    )}
+                    {index > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restoreVersionMutation.mutate(version.id)}
+                        disabled={restoreVersionMutation.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {versions.length > 1 && (
+              <div>
+                <h4 className="font-medium mb-3">Compare Versions</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="diff-from">From</Label>
+                    <Select value={fromVersionId} onValueChange={setFromVersionId}>
+                      <SelectTrigger id="diff-from">
+                        <SelectValue placeholder="Select a version" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map((version: any) => (
+                          <SelectItem key={version.id} value={version.id.toString()}>
+                            Version {version.versionNumber}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="diff-to">To</Label>
+                    <Select value={toVersionId} onValueChange={setToVersionId}>
+                      <SelectTrigger id="diff-to">
+                        <SelectValue placeholder="Select a version" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map((version: any) => (
+                          <SelectItem key={version.id} value={version.id.toString()}>
+                            Version {version.versionNumber}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {fromVersionId === toVersionId ? (
+                  <p className="text-sm text-neutral-medium">Select two different versions to compare</p>
+                ) : isLoadingDiff || !diff ? (
+                  <Loading />
+                ) : (
+                  <>
+                    <p className="text-sm text-neutral-medium mb-2">
+                      {changedLines === 0 ? "The resume text is identical" : `${changedLines} changed lines`}
+                    </p>
+                    <pre className="border rounded-md text-xs font-mono overflow-auto max-h-80">
+                      {diff.lines.map((line: any, index: number) => (
+                        <div key={index} className={cn("px-3 whitespace-pre-wrap", diffLineStyles[line.type])}>
+                          {diffLinePrefixes[line.type]} {line.text}
+                        </div>
+                      ))}
+                    </pre>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="mt-4">
+          <Button type="button" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
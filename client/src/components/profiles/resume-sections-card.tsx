@@ -0,0 +1,121 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import type { ResumeStructure } from "@shared/schema";
+import { Copy } from "lucide-react";
+
+interface ResumeSectionsCardProps {
+  structure: ResumeStructure;
+}
+
+function formatExperience(entry: ResumeStructure["experience"][number]): string {
+  const dates = [entry.startDate, entry.endDate].filter(Boolean).join(" - ");
+  const header = [entry.title, entry.employer, dates].filter(Boolean).join(" | ");
+  return entry.description ? `${header}\n${entry.description}` : header;
+}
+
+function formatEducation(entry: ResumeStructure["education"][number]): string {
+  return [entry.degree, entry.institution, entry.year].filter(Boolean).join(", ");
+}
+
+// Sections of the assigned profile's resume, each with a copy button for filling application forms
+export function ResumeSectionsCard({ structure }: ResumeSectionsCardProps) {
+  const { toast } = useToast();
+
+  const copyToClipboard = async (label: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied",
+        description: `${label} copied to the clipboard.`,
+      });
+    } catch {
+      toast({
+        title: "Copy failed",
+        description: "Your browser blocked clipboard access.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const contactFields = [
+    { label: "Name", value: structure.contact.name },
+    { label: "Headline", value: structure.contact.headline },
+    { label: "Email", value: structure.contact.email },
+    { label: "Phone", value: structure.contact.phone },
+    { label: "Location", value: structure.contact.location },
+    ...structure.contact.links.map(link => ({ label: "Link", value: link })),
+  ].filter(field => field.value);
+
+  const sections = [
+    { label: "Summary", text: structure.summary },
+    { label: "Experience", text: structure.experience.map(formatExperience).join("\n\n") },
+    { label: "Education", text: structure.education.map(formatEducation).join("\n") },
+    { label: "Certifications", text: structure.certifications.join("\n") },
+    { label: "Skills", text: structure.skills.join(", ") },
+  ].filter(section => section.text);
+
+  const CopyButton = ({ label, text }: { label: string; text: string }) => (
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      onClick={() => copyToClipboard(label, text)}
+      title={`Copy ${label.toLowerCase()}`}
+    >
+      <Copy className="h-4 w-4" />
+    </Button>
+  );
+
+  return (
+    <Card className="bg-white shadow mb-8">
+      <CardContent className="p-6">
+        <h3 className="font-semibold mb-1">Resume Sections</h3>
+        <p className="text-sm text-neutral-medium mb-4">
+          Copy these into application forms instead of retyping them from the resume
+        </p>
+
+        {contactFields.length > 0 && (
+          <div className="border rounded-md divide-y mb-4">
+            {contactFields.map((field, index) => (
+              <div key={index} className="flex items-center justify-between px-3 py-1">
+                <div className="text-sm">
+                  <span className="text-neutral-medium mr-2">{field.label}:</span>
+                  {field.value}
+                </div>
+                <CopyButton label={field.label} text={field.value} />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {sections.map(section => (
+            <div key={section.label} className="border rounded-md p-3">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="font-medium">{section.label}</h4>
+                <CopyButton label={section.label} text={section.text} />
+              </div>
+              {section.label === "Experience" ? (
+                <div className="space-y-3">
+                  {structure.experience.map((entry, index) => (
+                    <div key={index} className="flex items-start justify-between gap-2">
+                      <pre className="text-sm whitespace-pre-wrap font-sans flex-1">{formatExperience(entry)}</pre>
+                      <CopyButton label="Role" text={formatExperience(entry)} />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <pre className="text-sm whitespace-pre-wrap font-sans">{section.text}</pre>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {contactFields.length === 0 && sections.length === 0 && (
+          <p className="text-sm text-neutral-medium">No sections could be read from this resume yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { ResumeStructure } from "@shared/schema";
+import { Plus, Trash2 } from "lucide-react";
+
+interface ResumeStructureEditorProps {
+  value: ResumeStructure;
+  onChange: (value: ResumeStructure) => void;
+}
+
+interface ListTextareaProps {
+  id: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder?: string;
+  rows?: number;
+}
+
+// One entry per line; keeps the raw text locally so blank lines can be typed before they are filled
+function ListTextarea({ id, values, onChange, placeholder, rows = 4 }: ListTextareaProps) {
+  const [text, setText] = useState(values.join("\n"));
+
+  const toList = (value: string) => value.split("\n").map(item => item.trim()).filter(Boolean);
+
+  // Pick up values replaced from outside, such as a re-parse
+  useEffect(() => {
+    if (toList(text).join("\n") !== values.join("\n")) {
+      setText(values.join("\n"));
+    }
+  }, [values]);
+
+  return (
+    <Textarea
+      id={id}
+      rows={rows}
+      placeholder={placeholder}
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(toList(e.target.value));
+      }}
+    />
+  );
+}
+
+export function ResumeStructureEditor({ value, onChange }: ResumeStructureEditorProps) {
+  const updateContact = (field: keyof Omit<ResumeStructure["contact"], "links">, fieldValue: string) => {
+    onChange({ ...value, contact: { ...value.contact, [field]: fieldValue } });
+  };
+
+  const updateExperience = (index: number, field: keyof ResumeStructure["experience"][number], fieldValue: string) => {
+    onChange({
+      ...value,
+      experience: value.experience.map((entry, i) => i === index ? { ...entry, [field]: fieldValue } : entry),
+    });
+  };
+
+  const updateEducation = (index: number, field: keyof ResumeStructure["education"][number], fieldValue: string) => {
+    onChange({
+      ...value,
+      education: value.education.map((entry, i) => i === index ? { ...entry, [field]: fieldValue } : entry),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h4 className="font-medium">Contact</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="structure-name">Name</Label>
+            <Input id="structure-name" value={value.contact.name} onChange={(e) => updateContact("name", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="structure-headline">Headline</Label>
+            <Input id="structure-headline" value={value.contact.headline} onChange={(e) => updateContact("headline", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="structure-email">Email</Label>
+            <Input id="structure-email" value={value.contact.email} onChange={(e) => updateContact("email", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="structure-phone">Phone</Label>
+            <Input id="structure-phone" value={value.contact.phone} onChange={(e) => updateContact("phone", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="structure-location">Location</Label>
+            <Input id="structure-location" value={value.contact.location} onChange={(e) => updateContact("location", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="structure-links">Links (one per line)</Label>
+            <ListTextarea
+              id="structure-links"
+              rows={2}
+              values={value.contact.links}
+              onChange={(links) => onChange({ ...value, contact: { ...value.contact, links } })}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="structure-summary" className="font-medium">Summary</Label>
+        <Textarea
+          id="structure-summary"
+          rows={3}
+          value={value.summary}
+          onChange={(e) => onChange({ ...value, summary: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium">Experience</h4>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({
+              ...value,
+              experience: [...value.experience, { employer: "", title: "", startDate: "", endDate: "", description: "" }],
+            })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        {value.experience.length === 0 && (
+          <p className="text-sm text-neutral-medium">No experience entries</p>
+        )}
+        {value.experience.map((entry, index) => (
+          <div key={index} className="border rounded-md p-3 space-y-2">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <Input placeholder="Job title" value={entry.title} onChange={(e) => updateExperience(index, "title", e.target.value)} />
+              <Input placeholder="Employer" value={entry.employer} onChange={(e) => updateExperience(index, "employer", e.target.value)} />
+              <Input placeholder="Start (e.g. Jan 2020)" value={entry.startDate} onChange={(e) => updateExperience(index, "startDate", e.target.value)} />
+              <Input placeholder="End (e.g. Present)" value={entry.endDate} onChange={(e) => updateExperience(index, "endDate", e.target.value)} />
+            </div>
+            <Textarea
+              rows={3}
+              placeholder="Responsibilities and achievements"
+              value={entry.description}
+              onChange={(e) => updateExperience(index, "description", e.target.value)}
+            />
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="text-red-500"
+                onClick={() => onChange({ ...value, experience: value.experience.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Remove
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium">Education</h4>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({
+              ...value,
+              education: [...value.education, { institution: "", degree: "", year: "" }],
+            })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        {value.education.length === 0 && (
+          <p className="text-sm text-neutral-medium">No education entries</p>
+        )}
+        {value.education.map((entry, index) => (
+          <div key={index} className="flex gap-2">
+            <Input placeholder="Degree" value={entry.degree} onChange={(e) => updateEducation(index, "degree", e.target.value)} />
+            <Input placeholder="Institution" value={entry.institution} onChange={(e) => updateEducation(index, "institution", e.target.value)} />
+            <Input placeholder="Year" className="w-24" value={entry.year} onChange={(e) => updateEducation(index, "year", e.target.value)} />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="text-red-500"
+              onClick={() => onChange({ ...value, education: value.education.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="structure-certifications" className="font-medium">Certifications (one per line)</Label>
+          <ListTextarea
+            id="structure-certifications"
+            values={value.certifications}
+            onChange={(certifications) => onChange({ ...value, certifications })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="structure-skills" className="font-medium">Skills (one per line)</Label>
+          <ListTextarea
+            id="structure-skills"
+            values={value.skills}
+            onChange={(skills) => onChange({ ...value, skills })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loading } from "@/components/ui/loading";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { resumeFileExtensions } from "@shared/schema";
+import { format } from "date-fns";
+import { Download, Loader2, Trash2, Upload } from "lucide-react";
+
+interface ResumeVariantsDialogProps {
+  profile: any;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ResumeVariantsDialog({ profile, open, onOpenChange }: ResumeVariantsDialogProps) {
+  const { toast } = useToast();
+  const [variantName, setVariantName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const profileId = profile?.id;
+
+  // Get the profile's resume variants
+  const { data: variants = [], isLoading } = useQuery<any[]>({
+    queryKey: [`/api/profiles/${profileId}/variants`],
+    enabled: open && !!profileId,
+  });
+
+  // Parse the file through the regular upload pipeline, then save it as a named variant
+  const createVariantMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('resumeFile', file);
+
+      const response = await fetch('/api/profiles/upload-resume', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to upload resume');
+      }
+
+      const parsed = await response.json();
+      return apiRequest("POST", `/api/profiles/${profileId}/variants`, {
+        name: variantName,
+        ...parsed,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/profiles/${profileId}/variants`] });
+      setVariantName("");
+      toast({
+        title: "Variant added",
+        description: "The resume variant is now available to the team.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to add variant",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Delete a variant
+  const deleteVariantMutation = useMutation({
+    mutationFn: async (variantId: number) => {
+      return apiRequest("DELETE", `/api/profiles/${profileId}/variants/${variantId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/profiles/${profileId}/variants`] });
+      toast({
+        title: "Variant deleted",
+        description: "The resume variant has been removed.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete variant",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Function to handle file input change
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+    if (!(resumeFileExtensions as readonly string[]).includes(extension)) {
+      toast({
+        title: "Invalid file type",
+        description: "Please upload a PDF, DOCX or TXT file.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (file.size > 5 * 1024 * 1024) {
+      toast({
+        title: "File too large",
+        description: "Please upload a file smaller than 5MB.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    createVariantMutation.mutate(file);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Resume Variants{profile ? ` - ${profile.name}` : ""}</DialogTitle>
+          <DialogDescription>
+            Tailored resumes the team can choose instead of the profile's main resume.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Loading />
+        ) : variants.length === 0 ? (
+          <div className="text-center py-6 text-neutral-medium">
+            No variants yet. This profile only has its main resume.
+          </div>
+        ) : (
+          <div className="border rounded-md divide-y">
+            {variants.map((variant: any) => (
+              <div key={variant.id} className="flex items-center justify-between p-3">
+                <div>
+                  <p className="font-medium">{variant.name}</p>
+                  <p className="text-sm text-neutral-medium">
+                    Added {format(new Date(variant.createdAt), "MMM d, yyyy")}
+                    {variant.resumeFileName && ` · ${variant.resumeFileName}`}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  {variant.hasPdf && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => window.open(`/api/profiles/${profileId}/resume?variant=${variant.id}`, '_blank')}
+                    >
+                      <Download className="h-4 w-4 mr-1" />
+                      File
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-500"
+                    onClick={() => {
+                      if (confirm(`Delete the "${variant.name}" variant?`)) {
+                        deleteVariantMutation.mutate(variant.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="border-t pt-4 space-y-2">
+          <Label htmlFor="variant-name">Add Variant</Label>
+          <div className="flex gap-2">
+            <Input
+              id="variant-name"
+              placeholder="e.g. Frontend focus"
+              value={variantName}
+              onChange={(e) => setVariantName(e.target.value)}
+            />
+            <input
+              type="file"
+              ref={fileInputRef}
+              accept={resumeFileExtensions.join(",")}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <Button
+              type="button"
+              variant="secondary"
+              disabled={!variantName.trim() || createVariantMutation.isPending}
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center whitespace-nowrap"
+            >
+              {createVariantMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              Upload File
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button type="button" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,15 @@
+import type { SearchSnippetSegment } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+// Resume text around a search match, with the matched terms highlighted
+export function SearchSnippet({ segments, className }: { segments: SearchSnippetSegment[]; className?: string }) {
+  return (
+    <p className={cn("text-sm text-neutral-medium", className)}>
+      {segments.map((segment, index) => (
+        segment.matched
+          ? <mark key={index} className="bg-yellow-100 text-yellow-900 rounded px-0.5">{segment.text}</mark>
+          : <span key={index}>{segment.text}</span>
+      ))}
+    </p>
+  );
+}
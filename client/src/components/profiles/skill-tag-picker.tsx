@@ -0,0 +1,67 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { SkillTag } from "@shared/schema";
+import { Check, Sparkles } from "lucide-react";
+
+interface SkillTagPickerProps {
+  tags: SkillTag[];
+  value: number[];
+  onChange: (tagIds: number[]) => void;
+  // Tags found in an uploaded resume, highlighted until picked
+  suggestedIds?: number[];
+}
+
+// Toggle the skill tags a profile is filed under
+export function SkillTagPicker({ tags, value, onChange, suggestedIds = [] }: SkillTagPickerProps) {
+  const selected = new Set(value);
+  const pendingSuggestions = suggestedIds.filter(id => !selected.has(id) && tags.some(tag => tag.id === id));
+
+  const toggle = (tagId: number) => {
+    onChange(selected.has(tagId) ? value.filter(id => id !== tagId) : [...value, tagId]);
+  };
+
+  if (tags.length === 0) {
+    return (
+      <p className="text-sm text-neutral-medium">
+        No skill tags yet. Add them with the Skill Tags button on Manage Profiles.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {tags.map(tag => {
+          const isSelected = selected.has(tag.id);
+          const isSuggested = pendingSuggestions.includes(tag.id);
+          return (
+            <Badge
+              key={tag.id}
+              variant={isSelected ? "default" : "outline"}
+              className={cn("cursor-pointer select-none", isSuggested && "border-amber-400 bg-amber-50 text-amber-900")}
+              title={tag.aliases.length > 0 ? `Also: ${tag.aliases.join(", ")}` : undefined}
+              onClick={() => toggle(tag.id)}
+            >
+              {isSelected && <Check className="h-3 w-3 mr-1" />}
+              {isSuggested && <Sparkles className="h-3 w-3 mr-1" />}
+              {tag.name}
+            </Badge>
+          );
+        })}
+      </div>
+      {pendingSuggestions.length > 0 && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...value, ...pendingSuggestions])}
+          className="flex items-center"
+        >
+          <Sparkles className="h-4 w-4 mr-1" />
+          Add {pendingSuggestions.length} suggested tag{pendingSuggestions.length === 1 ? "" : "s"} from the resume
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import type { SkillTag } from "@shared/schema";
+import { Edit, Loader2, Plus, Trash2 } from "lucide-react";
+
+interface SkillTagsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Aliases are typed as a comma separated list, e.g. "JS, ECMAScript"
+function parseAliases(value: string): string[] {
+  return value.split(",").map(alias => alias.trim()).filter(Boolean);
+}
+
+// Lets managers maintain the skills taxonomy profiles are tagged with
+export function SkillTagsDialog({ open, onOpenChange }: SkillTagsDialogProps) {
+  const { toast } = useToast();
+  const [editingTagId, setEditingTagId] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [aliases, setAliases] = useState("");
+
+  const { data: tags = [] } = useQuery<SkillTag[]>({
+    queryKey: ["/api/skill-tags"],
+    enabled: open,
+  });
+
+  const resetForm = () => {
+    setEditingTagId(null);
+    setName("");
+    setAliases("");
+  };
+
+  const saveTagMutation = useMutation({
+    mutationFn: async () => {
+      const data = { name: name.trim(), aliases: parseAliases(aliases) };
+      return editingTagId
+        ? apiRequest("PATCH", `/api/skill-tags/${editingTagId}`, data)
+        : apiRequest("POST", "/api/skill-tags", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/skill-tags"] });
+      toast({
+        title: editingTagId ? "Skill tag updated" : "Skill tag added",
+        description: "Uploaded resumes mentioning it will suggest this tag.",
+      });
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save skill tag",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTagMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/skill-tags/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/skill-tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+      if (id === editingTagId) resetForm();
+      toast({
+        title: "Skill tag deleted",
+        description: "Profiles filed under it have been untagged.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete skill tag",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (tag: SkillTag) => {
+    setEditingTagId(tag.id);
+    setName(tag.name);
+    setAliases(tag.aliases.join(", "));
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) resetForm();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Skill Tags</DialogTitle>
+          <DialogDescription>
+            The skills profiles are filed under. Aliases are other spellings resumes use for the same skill.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveTagMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="skill-tag-name">Name</Label>
+            <Input
+              id="skill-tag-name"
+              placeholder="e.g. JavaScript"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="skill-tag-aliases">Aliases</Label>
+            <Input
+              id="skill-tag-aliases"
+              placeholder="e.g. JS, ECMAScript"
+              value={aliases}
+              onChange={(e) => setAliases(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            {editingTagId && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" disabled={!name.trim() || saveTagMutation.isPending} className="flex items-center">
+              {saveTagMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : !editingTagId && (
+                <Plus className="h-4 w-4 mr-1" />
+              )}
+              {editingTagId ? "Save" : "Add"}
+            </Button>
+          </div>
+        </form>
+
+        {tags.length === 0 ? (
+          <div className="text-center py-6 text-neutral-medium">
+            No skill tags yet
+          </div>
+        ) : (
+          <div className="divide-y">
+            {tags.map(tag => (
+              <div key={tag.id} className="flex items-center justify-between gap-3 py-2">
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="font-medium mr-1">{tag.name}</span>
+                  {tag.aliases.map(alias => (
+                    <Badge key={alias} variant="secondary">{alias}</Badge>
+                  ))}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="outline" size="sm" onClick={() => handleEdit(tag)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-500"
+                    disabled={deleteTagMutation.isPending}
+                    onClick={() => deleteTagMutation.mutate(tag.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
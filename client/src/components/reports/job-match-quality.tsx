@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loading } from "@/components/ui/loading";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar as CalendarComponent } from "@/components/ui/calendar";
+import { format, startOfMonth } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import type { JobMatchQuality as JobMatchQualityRow } from "@shared/schema";
+import { Calendar } from "lucide-react";
+
+export function JobMatchQuality() {
+  const [dateRange, setDateRange] = useState<DateRange | undefined>({
+    from: startOfMonth(new Date()),
+    to: new Date(),
+  });
+
+  const params = new URLSearchParams();
+  if (dateRange?.from) params.set("fromDate", format(dateRange.from, "yyyy-MM-dd"));
+  if (dateRange?.to) params.set("toDate", format(dateRange.to, "yyyy-MM-dd"));
+
+  const { data: quality = [], isLoading } = useQuery<JobMatchQualityRow[]>({
+    queryKey: [`/api/reports/job-match-quality?${params.toString()}`],
+  });
+
+  return (
+    <Card className="bg-white shadow mb-8">
+      <CardContent className="p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+          <div>
+            <h3 className="font-semibold">Job Match Quality</h3>
+            <p className="text-sm text-neutral-medium">
+              How well the job descriptions each lead generation user scored match their assigned resume
+            </p>
+          </div>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="gap-2">
+                <Calendar className="h-4 w-4" />
+                {dateRange?.from
+                  ? `${format(dateRange.from, "MMM d")} - ${dateRange.to ? format(dateRange.to, "MMM d, yyyy") : "..."}`
+                  : "Any Date"}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <CalendarComponent
+                mode="range"
+                selected={dateRange}
+                onSelect={setDateRange}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        {isLoading ? (
+          <Loading />
+        ) : quality.length === 0 ? (
+          <div className="text-center py-8 text-neutral-medium">
+            No lead generation users yet
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Team Member</TableHead>
+                <TableHead className="text-right">Jobs Scored</TableHead>
+                <TableHead className="text-right">Average Score</TableHead>
+                <TableHead className="text-right">Strong Matches (70+)</TableHead>
+                <TableHead className="text-right">Last Scored</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {quality.map((row) => (
+                <TableRow key={row.userId}>
+                  <TableCell className="font-medium">{row.name}</TableCell>
+                  <TableCell className="text-right">{row.jobsScored}</TableCell>
+                  <TableCell className="text-right">{row.jobsScored > 0 ? row.averageScore : "-"}</TableCell>
+                  <TableCell className="text-right">{row.strongMatches}</TableCell>
+                  <TableCell className="text-right">
+                    {row.lastScoredAt ? format(new Date(row.lastScoredAt), "MMM d, yyyy") : "-"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
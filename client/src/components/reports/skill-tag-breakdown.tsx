@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loading } from "@/components/ui/loading";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar as CalendarComponent } from "@/components/ui/calendar";
+import { format, startOfMonth } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import type { SkillTagBreakdown as SkillTagBreakdownRow } from "@shared/schema";
+import { Calendar } from "lucide-react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+
+export function SkillTagBreakdown() {
+  const [dateRange, setDateRange] = useState<DateRange | undefined>({
+    from: startOfMonth(new Date()),
+    to: new Date(),
+  });
+
+  const params = new URLSearchParams();
+  if (dateRange?.from) params.set("fromDate", format(dateRange.from, "yyyy-MM-dd"));
+  if (dateRange?.to) params.set("toDate", format(dateRange.to, "yyyy-MM-dd"));
+
+  const { data: breakdown = [], isLoading } = useQuery<SkillTagBreakdownRow[]>({
+    queryKey: [`/api/reports/skill-tags?${params.toString()}`],
+  });
+
+  return (
+    <Card className="bg-white shadow mb-8">
+      <CardContent className="p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+          <div>
+            <h3 className="font-semibold">Skill Tag Breakdown</h3>
+            <p className="text-sm text-neutral-medium">
+              Applications and leads of the profiles filed under each skill tag. Profiles with several tags count towards each.
+            </p>
+          </div>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="gap-2">
+                <Calendar className="h-4 w-4" />
+                {dateRange?.from
+                  ? `${format(dateRange.from, "MMM d")} - ${dateRange.to ? format(dateRange.to, "MMM d, yyyy") : "..."}`
+                  : "Any Date"}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <CalendarComponent
+                mode="range"
+                selected={dateRange}
+                onSelect={setDateRange}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        {isLoading ? (
+          <Loading />
+        ) : breakdown.length === 0 ? (
+          <div className="text-center py-8 text-neutral-medium">
+            No skill tags yet. Add them from Manage Profiles.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Skill Tag</TableHead>
+                  <TableHead className="text-right">Profiles</TableHead>
+                  <TableHead className="text-right">Applications</TableHead>
+                  <TableHead className="text-right">New Leads</TableHead>
+                  <TableHead className="text-right">Client Rejections</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {breakdown.map((row) => (
+                  <TableRow key={row.tagId ?? "untagged"}>
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell className="text-right">{row.profiles}</TableCell>
+                    <TableCell className="text-right">{row.jobsApplied}</TableCell>
+                    <TableCell className="text-right">{row.newLeads}</TableCell>
+                    <TableCell className="text-right">{row.clientRejections}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={breakdown}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="jobsApplied" name="Applications" fill="#3B82F6" />
+                  <Bar dataKey="newLeads" name="New Leads" fill="#10B981" />
+                  <Bar dataKey="clientRejections" name="Client Rejections" fill="#EF4444" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loading } from "@/components/ui/loading";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar as CalendarComponent } from "@/components/ui/calendar";
+import { format, startOfMonth } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import type { ResumeVariantPerformance } from "@shared/schema";
+import { Calendar } from "lucide-react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+
+export function VariantComparison() {
+  const [profileId, setProfileId] = useState<string>("");
+  const [dateRange, setDateRange] = useState<DateRange | undefined>({
+    from: startOfMonth(new Date()),
+    to: new Date(),
+  });
+
+  const { data: profiles = [] } = useQuery<any[]>({
+    queryKey: ["/api/profiles"],
+  });
+
+  // Same fromDate/toDate filters as the team performance endpoint
+  const params = new URLSearchParams({ profileId });
+  if (dateRange?.from) params.set("fromDate", format(dateRange.from, "yyyy-MM-dd"));
+  if (dateRange?.to) params.set("toDate", format(dateRange.to, "yyyy-MM-dd"));
+
+  const { data: performance = [], isLoading } = useQuery<ResumeVariantPerformance[]>({
+    queryKey: [`/api/reports/variant-performance?${params.toString()}`],
+    enabled: !!profileId,
+  });
+
+  return (
+    <Card className="bg-white shadow mb-8">
+      <CardContent className="p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+          <div>
+            <h3 className="font-semibold">Resume Variant Comparison</h3>
+            <p className="text-sm text-neutral-medium">
+              How each resume of a profile performs on applications, leads, and client rejections
+            </p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Select value={profileId} onValueChange={setProfileId}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Select a profile" />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((profile: any) => (
+                  <SelectItem key={profile.id} value={profile.id.toString()}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                  <Calendar className="h-4 w-4" />
+                  {dateRange?.from
+                    ? `${format(dateRange.from, "MMM d")} - ${dateRange.to ? format(dateRange.to, "MMM d, yyyy") : "..."}`
+                    : "Any Date"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <CalendarComponent
+                  mode="range"
+                  selected={dateRange}
+                  onSelect={setDateRange}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+        </div>
+
+        {!profileId ? (
+          <div className="text-center py-8 text-neutral-medium">
+            Select a profile to compare its resume variants
+          </div>
+        ) : isLoading ? (
+          <Loading />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Resume</TableHead>
+                  <TableHead className="text-right">Applications</TableHead>
+                  <TableHead className="text-right">New Leads</TableHead>
+                  <TableHead className="text-right">Client Rejections</TableHead>
+                  <TableHead className="text-right">Rejection Rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {performance.map((row) => (
+                  <TableRow key={row.variantId ?? "main"}>
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell className="text-right">{row.jobsApplied}</TableCell>
+                    <TableCell className="text-right">{row.newLeads}</TableCell>
+                    <TableCell className="text-right">{row.clientRejections}</TableCell>
+                    <TableCell className="text-right">{row.newLeads > 0 ? `${row.clientRejectionRate}%` : "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={performance}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="jobsApplied" name="Applications" fill="#3B82F6" />
+                  <Bar dataKey="newLeads" name="New Leads" fill="#10B981" />
+                  <Bar dataKey="clientRejections" name="Client Rejections" fill="#EF4444" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { changePasswordSchema } from "@shared/schema";
+
+const changePasswordFormSchema = changePasswordSchema
+  .extend({
+    confirmPassword: z.string().min(1, "Confirm password is required"),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+type ChangePasswordFormData = z.infer<typeof changePasswordFormSchema>;
+
+const emptyForm = { currentPassword: "", password: "", confirmPassword: "" };
+
+interface ChangePasswordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ChangePasswordDialog({ open, onOpenChange }: ChangePasswordDialogProps) {
+  const { toast } = useToast();
+  const form = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async ({ confirmPassword, ...data }: ChangePasswordFormData) => {
+      return apiRequest("POST", "/api/change-password", data);
+    },
+    onSuccess: () => {
+      form.reset(emptyForm);
+      onOpenChange(false);
+      toast({
+        title: "Password changed",
+        description: "You've been signed out everywhere else.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to change password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) form.reset(emptyForm);
+    onOpenChange(nextOpen);
+  };
+
+  const fields = [
+    { name: "currentPassword", label: "Current Password" },
+    { name: "password", label: "New Password" },
+    { name: "confirmPassword", label: "Confirm New Password" },
+  ] as const;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Change Password</DialogTitle>
+          <DialogDescription>
+            Any other devices signed in to your account will be signed out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit((data) => changePasswordMutation.mutate(data))}>
+          <div className="space-y-4 py-4">
+            {fields.map(({ name, label }) => (
+              <div key={name} className="space-y-2">
+                <Label htmlFor={`change-${name}`}>{label}</Label>
+                <Input id={`change-${name}`} type="password" {...form.register(name)} />
+                {form.formState.errors[name] && (
+                  <p className="text-sm text-red-500">{form.formState.errors[name]?.message}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={changePasswordMutation.isPending}>
+              {changePasswordMutation.isPending ? "Changing..." : "Change Password"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loading } from "@/components/ui/loading";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { DataTable } from "@/components/ui/data-table";
+import { ColumnDef } from "@tanstack/react-table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { format } from "date-fns";
+import { RoleSelect, roleLabels } from "./role-select";
+import { insertInvitationSchema, type Invitation, type InvitationStatus } from "@shared/schema";
+import { Ban, Copy, MailPlus, Send } from "lucide-react";
+
+type InvitationListing = Omit<Invitation, "tokenHash" | "expiresAt" | "acceptedAt" | "revokedAt" | "createdAt"> & {
+  expiresAt: string;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  status: InvitationStatus;
+  invitedByName: string;
+};
+
+// Only stored as a hash, so the link can be shown just once, right after it's created or resent
+type SharedInvitation = InvitationListing & { token: string };
+
+// invitedBy is filled in by the server
+const invitationFormSchema = insertInvitationSchema.omit({ invitedBy: true });
+
+const statusStyles: Record<InvitationStatus, string> = {
+  pending: "bg-blue-100 text-blue-800 border-blue-200",
+  accepted: "bg-green-100 text-green-800 border-green-200",
+  revoked: "bg-neutral-100 text-neutral-500 border-neutral-200",
+  expired: "bg-amber-100 text-amber-800 border-amber-200",
+};
+
+const getInvitationLink = (token: string) => `${window.location.origin}/auth?invite=${token}`;
+
+// Invitations are the only way to register, so they live with the users they create
+export function InvitationsCard() {
+  const { toast } = useToast();
+  const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState("lead_gen");
+  const [sharedInvitation, setSharedInvitation] = useState<SharedInvitation | null>(null);
+
+  const { data: invitations, isLoading } = useQuery<InvitationListing[]>({
+    queryKey: ["/api/invitations"],
+  });
+
+  const onShare = (invitation: SharedInvitation) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+    setSharedInvitation(invitation);
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createInvitationMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/invitations", { email, role });
+      return res.json();
+    },
+    onSuccess: (invitation: SharedInvitation) => {
+      setIsInviteDialogOpen(false);
+      onShare(invitation);
+    },
+    onError: onError("Failed to create invitation"),
+  });
+
+  const resendInvitationMutation = useMutation({
+    mutationFn: async (invitation: InvitationListing) => {
+      const res = await apiRequest("POST", `/api/invitations/${invitation.id}/resend`);
+      return res.json();
+    },
+    onSuccess: onShare,
+    onError: onError("Failed to resend invitation"),
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (invitation: InvitationListing) => {
+      return apiRequest("POST", `/api/invitations/${invitation.id}/revoke`);
+    },
+    onSuccess: (_data, invitation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      toast({
+        title: "Invitation revoked",
+        description: `The link sent to ${invitation.email} no longer works.`,
+      });
+    },
+    onError: onError("Failed to revoke invitation"),
+  });
+
+  const openInviteDialog = () => {
+    setEmail("");
+    setRole("lead_gen");
+    setIsInviteDialogOpen(true);
+  };
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getInvitationLink(token));
+      toast({
+        title: "Link copied",
+        description: "Send it to the person you invited.",
+      });
+    } catch {
+      toast({
+        title: "Couldn't copy the link",
+        description: "Select the link and copy it manually.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formResult = invitationFormSchema.safeParse({ email, role });
+
+  const columns: ColumnDef<InvitationListing>[] = [
+    {
+      accessorKey: "email",
+      header: "Email",
+    },
+    {
+      accessorKey: "role",
+      header: "Role",
+      cell: ({ row }) => roleLabels[row.original.role],
+    },
+    {
+      accessorKey: "status",
+      header: "Status",
+      cell: ({ row }) => (
+        <Badge variant="outline" className={statusStyles[row.original.status]}>
+          {row.original.status.charAt(0).toUpperCase() + row.original.status.slice(1)}
+        </Badge>
+      ),
+    },
+    {
+      accessorKey: "createdAt",
+      header: "Invited",
+      cell: ({ row }) => (
+        <div>
+          <div>{format(new Date(row.original.createdAt), "MMM d, yyyy")}</div>
+          <div className="text-xs text-neutral-medium">by {row.original.invitedByName}</div>
+        </div>
+      ),
+    },
+    {
+      accessorKey: "expiresAt",
+      header: "Expires",
+      cell: ({ row }) => {
+        const { status } = row.original;
+        if (status === "accepted") return format(new Date(row.original.acceptedAt!), "'Accepted' MMM d, yyyy");
+        if (status === "revoked") return format(new Date(row.original.revokedAt!), "'Revoked' MMM d, yyyy");
+        return format(new Date(row.original.expiresAt), "MMM d, yyyy h:mm a");
+      },
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      cell: ({ row }) => {
+        const invitation = row.original;
+        const isOpen = invitation.status === "pending" || invitation.status === "expired";
+        return (
+          <div className="flex space-x-2">
+            {isOpen && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={resendInvitationMutation.isPending}
+                onClick={() => resendInvitationMutation.mutate(invitation)}
+              >
+                <Send className="h-4 w-4 mr-1" />
+                Resend
+              </Button>
+            )}
+            {isOpen && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-red-500"
+                disabled={revokeInvitationMutation.isPending}
+                onClick={() => {
+                  if (confirm(`Revoke the invitation for ${invitation.email}?`)) {
+                    revokeInvitationMutation.mutate(invitation);
+                  }
+                }}
+              >
+                <Ban className="h-4 w-4 mr-1" />
+                Revoke
+              </Button>
+            )}
+          </div>
+        );
+      },
+    },
+  ];
+
+  return (
+    <Card className="bg-white shadow mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Invitations</CardTitle>
+          <CardDescription>
+            People can only register from an invitation link, with the email and role you set
+          </CardDescription>
+        </div>
+        <Button onClick={openInviteDialog} className="flex items-center">
+          <MailPlus className="h-4 w-4 mr-2" />
+          Invite User
+        </Button>
+      </CardHeader>
+      <CardContent className="p-6 pt-0">
+        {isLoading ? (
+          <Loading />
+        ) : (
+          <DataTable columns={columns} data={invitations || []} />
+        )}
+      </CardContent>
+
+      <Dialog open={isInviteDialogOpen} onOpenChange={setIsInviteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              You'll get a single-use link to send them. It expires after 7 days.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="invitation-email">Email</Label>
+              <Input
+                id="invitation-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <RoleSelect value={role} onChange={setRole} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsInviteDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createInvitationMutation.mutate()}
+              disabled={!formResult.success || createInvitationMutation.isPending}
+            >
+              {createInvitationMutation.isPending ? "Creating..." : "Create Invitation"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!sharedInvitation} onOpenChange={(open) => !open && setSharedInvitation(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Send the invitation link</DialogTitle>
+            <DialogDescription>
+              Send this link to {sharedInvitation?.email}. It can be used once to register
+              as a {sharedInvitation && roleLabels[sharedInvitation.role]} and expires
+              {sharedInvitation && ` ${format(new Date(sharedInvitation.expiresAt), "MMM d, yyyy 'at' h:mm a")}`}.
+              Copy it now; it won't be shown again, but you can resend the invitation for a new one.
+            </DialogDescription>
+          </DialogHeader>
+
+          {sharedInvitation && (
+            <Input readOnly value={getInvitationLink(sharedInvitation.token)} onFocus={(e) => e.target.select()} />
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setSharedInvitation(null)}>
+              Done
+            </Button>
+            <Button onClick={() => sharedInvitation && copyLink(sharedInvitation.token)}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy Link
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { User } from "@shared/schema";
+
+export const roleLabels: Record<User["role"], string> = {
+  manager: "Manager",
+  lead_gen: "Lead Generator",
+  sales: "Sales Coordinator",
+};
+
+export function RoleSelect({ value, onChange }: { value: string; onChange: (role: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(roleLabels).map(([role, label]) => (
+          <SelectItem key={role} value={role}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
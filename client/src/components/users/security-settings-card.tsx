@@ -0,0 +1,71 @@
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loading } from "@/components/ui/loading";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { type SecuritySettings } from "@shared/schema";
+
+export function SecuritySettingsCard() {
+  const { toast } = useToast();
+
+  const { data: settings, isLoading } = useQuery<SecuritySettings>({
+    queryKey: ["/api/settings/security"],
+  });
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (data: SecuritySettings) => {
+      return apiRequest("PUT", "/api/settings/security", data);
+    },
+    onSuccess: (_data, { requireManagerTwoFactor }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/security"] });
+      // Managers without two-factor sign-in are now asked to set it up
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+      toast({
+        title: "Security settings saved",
+        description: requireManagerTwoFactor
+          ? "Managers without two-factor authentication must set it up the next time they use the app."
+          : "Managers can choose whether to use two-factor authentication.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save security settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="bg-white shadow mb-8">
+      <CardHeader>
+        <CardTitle>Security</CardTitle>
+        <CardDescription>
+          Sign-in requirements that apply to everyone with a role
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 pt-0">
+        {isLoading || !settings ? (
+          <Loading />
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="require-manager-two-factor">Require two-factor authentication for managers</Label>
+              <p className="text-sm text-neutral-medium">
+                Managers must sign in with a code from an authenticator app. Set it up for your own account first.
+              </p>
+            </div>
+            <Switch
+              id="require-manager-two-factor"
+              checked={settings.requireManagerTwoFactor}
+              disabled={updateSettingsMutation.isPending}
+              onCheckedChange={(checked) => updateSettingsMutation.mutate({ ...settings, requireManagerTwoFactor: checked })}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
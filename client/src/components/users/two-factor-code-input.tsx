@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Offer a switch to typing one of the recovery codes instead
+  allowRecoveryCode?: boolean;
+  disabled?: boolean;
+}
+
+// Six boxes for an authenticator app code
+export function TwoFactorCodeInput({ value, onChange, allowRecoveryCode, disabled }: TwoFactorCodeInputProps) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    onChange("");
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      {useRecoveryCode ? (
+        <Input
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+        />
+      ) : (
+        <InputOTP
+          maxLength={6}
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          value={value}
+          onChange={onChange}
+          disabled={disabled}
+        >
+          <InputOTPGroup>
+            {Array.from({ length: 6 }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      )}
+
+      {allowRecoveryCode && (
+        <Button type="button" variant="link" size="sm" onClick={toggleRecoveryCode}>
+          {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loading } from "@/components/ui/loading";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { format } from "date-fns";
+import { Copy } from "lucide-react";
+import { TwoFactorCodeInput } from "./two-factor-code-input";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeSvg: string;
+}
+
+// Refresh everything that shows whether two-factor sign-in is on
+const invalidateTwoFactorQueries = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+};
+
+// Recovery codes are only shown right after they're generated
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast({
+        title: "Recovery codes copied",
+        description: "Keep them somewhere safe.",
+      });
+    } catch {
+      toast({
+        title: "Couldn't copy the codes",
+        description: "Select the codes and copy them manually.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes. Each one signs you in once if you lose your authenticator app, and they won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={copyCodes}>
+        <Copy className="mr-2 h-4 w-4" />
+        Copy Codes
+      </Button>
+    </div>
+  );
+}
+
+interface TwoFactorSetupProps {
+  // Called once the recovery codes have been seen
+  onComplete: () => void;
+}
+
+// Scan a QR code into an authenticator app and confirm it with a code
+export function TwoFactorSetup({ onComplete }: TwoFactorSetupProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/setup");
+      return res.json() as Promise<TwoFactorEnrollment>;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't start two-factor setup",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/enable", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      toast({
+        title: "Two-factor authentication is on",
+        description: "You'll be asked for a code each time you sign in.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't turn on two-factor authentication",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button type="button" className="w-full" onClick={onComplete}>
+          I've Saved My Codes
+        </Button>
+      </div>
+    );
+  }
+
+  const enrollment = setupMutation.data;
+  if (!enrollment) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          You'll need an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password.
+        </p>
+        <Button
+          type="button"
+          className="w-full"
+          onClick={() => setupMutation.mutate()}
+          disabled={setupMutation.isPending}
+        >
+          {setupMutation.isPending ? "Starting..." : "Set Up Authenticator App"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        enableMutation.mutate();
+      }}
+    >
+      <p className="text-sm text-muted-foreground">
+        Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+      </p>
+      <img
+        src={`data:image/svg+xml;utf8,${encodeURIComponent(enrollment.qrCodeSvg)}`}
+        alt="QR code for your authenticator app"
+        className="mx-auto h-48 w-48"
+      />
+      <div className="space-y-1 text-center">
+        <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+        <p className="font-mono text-sm break-all">{enrollment.secret}</p>
+      </div>
+      <TwoFactorCodeInput value={code} onChange={setCode} disabled={enableMutation.isPending} />
+      <Button type="submit" className="w-full" disabled={code.length < 6 || enableMutation.isPending}>
+        {enableMutation.isPending ? "Checking..." : "Turn On"}
+      </Button>
+    </form>
+  );
+}
+
+interface TwoFactorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TwoFactorDialog({ open, onOpenChange }: TwoFactorDialogProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/2fa"],
+    enabled: open,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    // Too many wrong codes signs the user out
+    if (error.message.startsWith("401")) {
+      handleOpenChange(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    }
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/2fa/disable", { code });
+    },
+    onSuccess: () => {
+      setCode("");
+      invalidateTwoFactorQueries();
+      toast({
+        title: "Two-factor authentication is off",
+        description: "You'll sign in with just your password.",
+      });
+    },
+    onError: onError("Couldn't turn off two-factor authentication"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/recovery-codes", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setNewRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+    },
+    onError: onError("Couldn't create new recovery codes"),
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setCode("");
+      setNewRecoveryCodes(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const renderContent = () => {
+    if (isLoading || !status) {
+      return <Loading />;
+    }
+
+    if (!status.enabled) {
+      return (
+        <TwoFactorSetup
+          onComplete={() => {
+            invalidateTwoFactorQueries();
+            handleOpenChange(false);
+          }}
+        />
+      );
+    }
+
+    if (newRecoveryCodes) {
+      return (
+        <>
+          <RecoveryCodesList codes={newRecoveryCodes} />
+          <DialogFooter>
+            <Button type="button" onClick={() => handleOpenChange(false)}>
+              Done
+            </Button>
+          </DialogFooter>
+        </>
+      );
+    }
+
+    const isPending = disableMutation.isPending || regenerateMutation.isPending;
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between text-sm">
+          <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">
+            On
+          </Badge>
+          {status.enabledAt && (
+            <span className="text-muted-foreground">
+              Since {format(new Date(status.enabledAt), "MMM d, yyyy")}
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {status.recoveryCodesRemaining} of 10 recovery codes left. Enter a code from your authenticator app or a recovery code to make changes.
+        </p>
+        <TwoFactorCodeInput value={code} onChange={setCode} allowRecoveryCode disabled={isPending} />
+        {status.required && (
+          <p className="text-sm text-muted-foreground">
+            Two-factor authentication is required for managers, so it can't be turned off.
+          </p>
+        )}
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => regenerateMutation.mutate()}
+            disabled={!code || isPending}
+          >
+            New Recovery Codes
+          </Button>
+          {!status.required && (
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={() => disableMutation.mutate()}
+              disabled={!code || isPending}
+            >
+              Turn Off
+            </Button>
+          )}
+        </DialogFooter>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Two-Factor Authentication</DialogTitle>
+          <DialogDescription>
+            Ask for a code from an authenticator app as well as your password when signing in.
+          </DialogDescription>
+        </DialogHeader>
+        {renderContent()}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,33 +1,40 @@
-import { createContext, ReactNode, useContext } from "react";
+import { createContext, ReactNode, useContext, useState } from "react";
 import {
   useQuery,
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import { InsertUser, RegisterUser, SessionUser } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
-  user: SelectUser | null;
+  user: SessionUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  // The password was right and the account uses two-factor sign-in, so a code is needed next
+  isTwoFactorPending: boolean;
+  cancelTwoFactor: () => void;
+  loginMutation: UseMutationResult<LoginResponse, Error, LoginData>;
+  verifyTwoFactorMutation: UseMutationResult<SessionUser, Error, TwoFactorData>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<SessionUser, Error, RegisterUser>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
+type LoginResponse = SessionUser | { twoFactorRequired: true };
+type TwoFactorData = { code: string };
 
 export const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
+  const [isTwoFactorPending, setIsTwoFactorPending] = useState(false);
   const {
     data: user,
     error,
     isLoading,
-  } = useQuery<SelectUser | undefined, Error>({
+  } = useQuery<SessionUser | undefined, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
@@ -55,11 +62,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         throw new Error("Login failed. Please try again.");
       }
     },
-    onSuccess: (user: SelectUser) => {
-      queryClient.setQueryData(["/api/user"], user);
+    onSuccess: (result: LoginResponse) => {
+      if ("twoFactorRequired" in result) {
+        setIsTwoFactorPending(true);
+        return;
+      }
+      queryClient.setQueryData(["/api/user"], result);
       toast({
         title: "Login successful",
-        description: `Welcome back, ${user.name || user.username}!`,
+        description: `Welcome back, ${result.name || result.username}!`,
       });
     },
     onError: (error: Error) => {
@@ -72,8 +83,44 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (data: TwoFactorData) => {
+      const res = await fetch("/api/login/2fa", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include"
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ message: res.statusText || "Verification failed" }));
+        // The code step has expired or run out of attempts; start again from the password
+        if (errorData.challengeExpired) setIsTwoFactorPending(false);
+        throw new Error(errorData.message || "Verification failed");
+      }
+
+      return await res.json();
+    },
+    onSuccess: (user: SessionUser) => {
+      setIsTwoFactorPending(false);
+      queryClient.setQueryData(["/api/user"], user);
+      toast({
+        title: "Login successful",
+        description: `Welcome back, ${user.name || user.username}!`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error("Two-factor verification error:", error);
+      toast({
+        title: "Login failed",
+        description: error.message || "Invalid code",
+        variant: "destructive",
+      });
+    },
+  });
+
   const registerMutation = useMutation({
-    mutationFn: async (credentials: InsertUser) => {
+    mutationFn: async (credentials: RegisterUser) => {
       try {
         const res = await fetch("/api/register", {
           method: "POST",
@@ -96,7 +143,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         throw new Error("Registration failed. Please try again.");
       }
     },
-    onSuccess: (user: SelectUser) => {
+    onSuccess: (user: SessionUser) => {
       queryClient.setQueryData(["/api/user"], user);
       toast({
         title: "Registration successful",
@@ -139,7 +186,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         user: user ?? null,
         isLoading,
         error,
+        isTwoFactorPending,
+        cancelTwoFactor: () => setIsTwoFactorPending(false),
         loginMutation,
+        verifyTwoFactorMutation,
         logoutMutation,
         registerMutation,
       }}
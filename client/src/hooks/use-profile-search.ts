@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+
+// Wait for typing to pause before searching
+const searchDelay = 300;
+
+// Server-side full-text profile search; results are undefined while the query is empty.
+// Keyed under "/api/profiles" so profile changes invalidate cached searches too.
+export function useProfileSearch(query: string) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), searchDelay);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data, isFetching } = useQuery<any[]>({
+    queryKey: ["/api/profiles", "search", debouncedQuery],
+    queryFn: async () => {
+      const res = await fetch(`/api/profiles/search?q=${encodeURIComponent(debouncedQuery)}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to search profiles");
+      return res.json();
+    },
+    enabled: debouncedQuery.length > 0,
+  });
+
+  return {
+    results: debouncedQuery ? data : undefined,
+    isSearching: isFetching || query.trim() !== debouncedQuery,
+  };
+}
@@ -1,6 +1,45 @@
 import { useAuth } from "@/hooks/use-auth";
+import { queryClient } from "@/lib/queryClient";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { TwoFactorSetup } from "@/components/users/two-factor-dialog";
+
+// Shown instead of every page until a manager who is required to use two-factor sign-in sets it up
+function TwoFactorSetupRequired() {
+  const { logoutMutation } = useAuth();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Set up two-factor authentication</CardTitle>
+          <CardDescription>
+            Managers are required to sign in with a code from an authenticator app as well as their password.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TwoFactorSetup
+            onComplete={() => queryClient.invalidateQueries({ queryKey: ["/api/user"] })}
+          />
+        </CardContent>
+        <CardFooter className="flex justify-center">
+          <Button variant="ghost" onClick={() => logoutMutation.mutate()}>
+            Sign Out
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
 
 export function ProtectedRoute({
   path,
@@ -26,6 +65,10 @@ export function ProtectedRoute({
           return <Redirect to="/auth" />;
         }
         
+        if (user.twoFactorSetupRequired) {
+          return <TwoFactorSetupRequired />;
+        }
+        
         return <Component />;
       }}
     </Route>
@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Card, CardContent } from "@/components/ui/card";
+import { useQuery } from "@tanstack/react-query";
+import { Loading } from "@/components/ui/loading";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { DataTable } from "@/components/ui/data-table";
+import { ColumnDef } from "@tanstack/react-table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { format } from "date-fns";
+import { auditEntityTypes, type AuditAction, type AuditEntityType, type AuditLog } from "@shared/schema";
+import { Download, Eye } from "lucide-react";
+
+type AuditLogEntry = Omit<AuditLog, "createdAt"> & { createdAt: string; actorName: string | null };
+
+const entityTypeLabels: Record<AuditEntityType, string> = {
+  user: "User",
+  profile: "Profile",
+  resume_variant: "Resume Variant",
+  placement: "Placement",
+  lead_gen_assignment: "Lead Gen Assignment",
+  sales_assignment: "Sales Assignment",
+  target: "Target",
+  progress_update: "Progress Update",
+  job_application: "Job Application",
+  lead_entry: "Lead Entry",
+  lead: "Lead",
+  interview: "Interview",
+  job_match: "Job Match",
+  cover_letter_template: "Cover Letter Template",
+  skill_tag: "Skill Tag",
+  invitation: "Invitation",
+  setting: "Setting",
+};
+
+const actionLabels: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  restore: "Restored",
+  purge: "Purged",
+  login: "Signed in",
+  login_failed: "Failed sign-in",
+  logout: "Signed out",
+  reset_password: "Reset password",
+  deactivate: "Deactivated",
+  reactivate: "Reactivated",
+  change_password: "Changed password",
+  enable_two_factor: "Turned on 2FA",
+  disable_two_factor: "Turned off 2FA",
+  regenerate_recovery_codes: "New recovery codes",
+  resend: "Resent",
+  revoke: "Revoked",
+};
+
+const actionStyles: Partial<Record<AuditAction, string>> = {
+  create: "bg-green-100 text-green-800 border-green-200",
+  delete: "bg-red-100 text-red-800 border-red-200",
+  purge: "bg-red-100 text-red-800 border-red-200",
+  login_failed: "bg-amber-100 text-amber-800 border-amber-200",
+  deactivate: "bg-red-100 text-red-800 border-red-200",
+  disable_two_factor: "bg-amber-100 text-amber-800 border-amber-200",
+  revoke: "bg-red-100 text-red-800 border-red-200",
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined ? "" : typeof value === "string" ? value : JSON.stringify(value);
+
+// Field-by-field comparison of the before and after snapshots of one record
+function AuditChanges({ entry }: { entry: AuditLogEntry }) {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  if (fields.length === 0) {
+    return <p className="text-sm text-neutral-medium">No details were recorded for this action.</p>;
+  }
+
+  return (
+    <div className="border rounded-md overflow-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-neutral-bg">
+          <tr>
+            <th className="text-left p-2 font-medium">Field</th>
+            <th className="text-left p-2 font-medium">Before</th>
+            <th className="text-left p-2 font-medium">After</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map(field => {
+            const beforeValue = formatValue(before[field]);
+            const afterValue = formatValue(after[field]);
+            const changed = !!entry.before && !!entry.after && beforeValue !== afterValue;
+            return (
+              <tr key={field} className={cn("border-t align-top", changed && "bg-amber-50")}>
+                <td className="p-2 font-medium">{field}</td>
+                <td className="p-2 break-all">{beforeValue}</td>
+                <td className="p-2 break-all">{afterValue}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function AuditLogPage() {
+  const [userId, setUserId] = useState("all");
+  const [entityType, setEntityType] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null);
+
+  const params = new URLSearchParams();
+  if (userId !== "all") params.set("userId", userId);
+  if (entityType !== "all") params.set("entityType", entityType);
+  if (fromDate) params.set("fromDate", fromDate);
+  if (toDate) params.set("toDate", toDate);
+  const queryString = params.toString();
+
+  // Deactivated users keep their history, so they stay filterable here
+  const { data: users = [] } = useQuery<any[]>({
+    queryKey: ["/api/users", "includeDeactivated"],
+    queryFn: async () => {
+      const res = await fetch(`/api/users?includeDeactivated=true`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch users");
+      return res.json();
+    },
+  });
+
+  const { data, isLoading } = useQuery<{ total: number; entries: AuditLogEntry[] }>({
+    queryKey: ["/api/audit-logs", queryString],
+    queryFn: async () => {
+      const res = await fetch(`/api/audit-logs?${queryString}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch audit log");
+      return res.json();
+    },
+    // New records are written with every change anyone makes
+    staleTime: 0,
+  });
+
+  const columns: ColumnDef<AuditLogEntry>[] = [
+    {
+      accessorKey: "createdAt",
+      header: "Time",
+      cell: ({ row }) => format(new Date(row.original.createdAt), "MMM d, yyyy h:mm:ss a"),
+    },
+    {
+      accessorKey: "actorName",
+      header: "User",
+      cell: ({ row }) => row.original.actorName || <span className="text-neutral-medium">Anonymous</span>,
+    },
+    {
+      accessorKey: "action",
+      header: "Action",
+      cell: ({ row }) => (
+        <Badge variant="outline" className={actionStyles[row.original.action]}>
+          {actionLabels[row.original.action]}
+        </Badge>
+      ),
+    },
+    {
+      accessorKey: "entityType",
+      header: "Entity",
+      cell: ({ row }) => (
+        <span>
+          {entityTypeLabels[row.original.entityType]}
+          {row.original.entityId && <span className="text-neutral-medium"> #{row.original.entityId}</span>}
+        </span>
+      ),
+    },
+    {
+      accessorKey: "ip",
+      header: "IP",
+      cell: ({ row }) => <span className="text-neutral-medium">{row.original.ip}</span>,
+    },
+    {
+      id: "actions",
+      header: "Changes",
+      cell: ({ row }) => (
+        <Button variant="outline" size="sm" onClick={() => setSelectedEntry(row.original)}>
+          <Eye className="h-4 w-4 mr-1" />
+          View
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <DashboardLayout title="Audit Log">
+      <div className="flex justify-between items-center mb-6">
+        <p className="text-neutral-medium">
+          Every change made through the app, who made it and what it changed
+        </p>
+        <Button asChild variant="outline" className="flex items-center">
+          <a href={`/api/audit-logs/export?${queryString}`}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+
+      <Card className="bg-white shadow mb-8">
+        <CardContent className="p-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={userId} onValueChange={setUserId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All users</SelectItem>
+                  {users.map(user => (
+                    <SelectItem key={user.id} value={user.id.toString()}>
+                      {user.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Entity</Label>
+              <Select value={entityType} onValueChange={setEntityType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  {auditEntityTypes.map(type => (
+                    <SelectItem key={type} value={type}>
+                      {entityTypeLabels[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from-date">From</Label>
+              <Input id="audit-from-date" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to-date">To</Label>
+              <Input id="audit-to-date" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <Loading />
+          ) : (
+            <>
+              <DataTable columns={columns} data={data?.entries || []} />
+              {data && data.total > data.entries.length && (
+                <p className="text-sm text-neutral-medium mt-4">
+                  Showing the latest {data.entries.length} of {data.total} records. Narrow the filters or export the CSV to see the rest.
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-auto">
+          {selectedEntry && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {actionLabels[selectedEntry.action]} {entityTypeLabels[selectedEntry.entityType].toLowerCase()}
+                  {selectedEntry.entityId && ` #${selectedEntry.entityId}`}
+                </DialogTitle>
+                <DialogDescription>
+                  {selectedEntry.actorName || "Anonymous"} on {format(new Date(selectedEntry.createdAt), "MMM d, yyyy 'at' h:mm:ss a")}
+                  {selectedEntry.ip && ` from ${selectedEntry.ip}`}
+                </DialogDescription>
+              </DialogHeader>
+              <AuditChanges entry={selectedEntry} />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -2,10 +2,14 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Redirect } from "wouter";
+import { Link, Redirect, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
-import { insertUserSchema } from "@shared/schema";
+import { registerUserSchema, type User } from "@shared/schema";
+import { roleLabels } from "@/components/users/role-select";
+import { TwoFactorCodeInput } from "@/components/users/two-factor-code-input";
+import { Loading } from "@/components/ui/loading";
 
 // UI Components
 import {
@@ -36,11 +40,10 @@ const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
-// Use the insert user schema from the shared schema for registration
-const registerSchema = insertUserSchema
+// Use the register user schema from the shared schema for registration
+const registerSchema = registerUserSchema
   .extend({
     confirmPassword: z.string().min(1, "Confirm password is required"),
-    email: z.string().email("Please enter a valid email address"),
   })
   .refine((data) => data.password === data.confirmPassword, {
     message: "Passwords do not match",
@@ -50,10 +53,37 @@ const registerSchema = insertUserSchema
 type LoginFormData = z.infer<typeof loginSchema>;
 type RegisterFormData = z.infer<typeof registerSchema>;
 
+interface InvitationDetails {
+  email: string;
+  role: User["role"];
+  expiresAt: string;
+}
+
 export default function AuthPage() {
-  const [activeTab, setActiveTab] = useState<"login" | "register">("login");
+  // Invitation links open the Register tab with their token
+  const inviteToken = new URLSearchParams(useSearch()).get("invite") || "";
+  const [activeTab, setActiveTab] = useState<"login" | "register">(inviteToken ? "register" : "login");
   const { toast } = useToast();
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, registerMutation, isTwoFactorPending, cancelTwoFactor, verifyTwoFactorMutation } = useAuth();
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+
+  const {
+    data: invitation,
+    isLoading: isInvitationLoading,
+    error: invitationError,
+  } = useQuery<InvitationDetails, Error>({
+    queryKey: ["/api/invitations/token", inviteToken],
+    queryFn: async () => {
+      const res = await fetch(`/api/invitations/token/${encodeURIComponent(inviteToken)}`);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.message || "This invitation is invalid or has expired");
+      }
+      return res.json();
+    },
+    enabled: !!inviteToken,
+    retry: false,
+  });
 
   // Initialize the login form
   const loginForm = useForm<LoginFormData>({
@@ -72,15 +102,16 @@ export default function AuthPage() {
       password: "",
       confirmPassword: "",
       name: "",
-      email: "",
-      role: "lead_gen",
+      token: inviteToken,
     },
   });
 
   // Handle login form submission
   const onLoginSubmit = (data: LoginFormData) => {
     loginMutation.mutate(data, {
-      onSuccess: () => {
+      onSuccess: (result) => {
+        // Accounts with two-factor sign-in still need a code
+        if ("twoFactorRequired" in result) return;
         toast({
           title: "Login successful",
           description: "Welcome back!",
@@ -96,6 +127,18 @@ export default function AuthPage() {
     });
   };
 
+  const onTwoFactorSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    verifyTwoFactorMutation.mutate({ code: twoFactorCode }, {
+      onError: () => setTwoFactorCode(""),
+    });
+  };
+
+  const onTwoFactorCancel = () => {
+    setTwoFactorCode("");
+    cancelTwoFactor();
+  };
+
   // Handle registration form submission
   const onRegisterSubmit = (data: RegisterFormData) => {
     // Remove confirmPassword as it's not in the schema
@@ -145,81 +188,121 @@ export default function AuthPage() {
             </TabsList>
 
             <TabsContent value="login">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Welcome back</CardTitle>
-                  <CardDescription>
-                    Enter your credentials to access your account
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <Form {...loginForm}>
-                    <form
-                      onSubmit={loginForm.handleSubmit(onLoginSubmit)}
-                      className="space-y-4"
-                    >
-                      <FormField
-                        control={loginForm.control}
-                        name="username"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Username</FormLabel>
-                            <FormControl>
-                              <div className="relative">
-                                <UserIcon className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
-                                <Input
-                                  className="pl-9"
-                                  placeholder="Enter your username"
-                                  {...field}
-                                />
-                              </div>
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-
-                      <FormField
-                        control={loginForm.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Password</FormLabel>
-                            <FormControl>
-                              <div className="relative">
-                                <LockIcon className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
-                                <Input
-                                  className="pl-9"
-                                  type="password"
-                                  placeholder="Enter your password"
-                                  {...field}
-                                />
-                              </div>
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
+              {isTwoFactorPending ? (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Two-factor authentication</CardTitle>
+                    <CardDescription>
+                      Enter the 6-digit code from your authenticator app, or one of your recovery codes
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <form onSubmit={onTwoFactorSubmit} className="space-y-4">
+                      <TwoFactorCodeInput
+                        value={twoFactorCode}
+                        onChange={setTwoFactorCode}
+                        allowRecoveryCode
+                        disabled={verifyTwoFactorMutation.isPending}
                       />
 
                       <Button
                         type="submit"
                         className="w-full"
-                        disabled={loginMutation.isPending}
+                        disabled={!twoFactorCode || verifyTwoFactorMutation.isPending}
                       >
-                        {loginMutation.isPending ? "Logging in..." : "Login"}
+                        {verifyTwoFactorMutation.isPending ? "Verifying..." : "Verify"}
                       </Button>
                     </form>
-                  </Form>
-                </CardContent>
-                <CardFooter className="flex justify-center">
-                  <Button
-                    variant="ghost"
-                    onClick={() => setActiveTab("register")}
-                  >
-                    Don't have an account? Register
-                  </Button>
-                </CardFooter>
-              </Card>
+                  </CardContent>
+                  <CardFooter className="flex justify-center">
+                    <Button variant="ghost" onClick={onTwoFactorCancel}>
+                      Back to login
+                    </Button>
+                  </CardFooter>
+                </Card>
+              ) : (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Welcome back</CardTitle>
+                    <CardDescription>
+                      Enter your credentials to access your account
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Form {...loginForm}>
+                      <form
+                        onSubmit={loginForm.handleSubmit(onLoginSubmit)}
+                        className="space-y-4"
+                      >
+                        <FormField
+                          control={loginForm.control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Username</FormLabel>
+                              <FormControl>
+                                <div className="relative">
+                                  <UserIcon className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+                                  <Input
+                                    className="pl-9"
+                                    placeholder="Enter your username"
+                                    {...field}
+                                  />
+                                </div>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={loginForm.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Password</FormLabel>
+                              <FormControl>
+                                <div className="relative">
+                                  <LockIcon className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+                                  <Input
+                                    className="pl-9"
+                                    type="password"
+                                    placeholder="Enter your password"
+                                    {...field}
+                                  />
+                                </div>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <Button
+                          type="submit"
+                          className="w-full"
+                          disabled={loginMutation.isPending}
+                        >
+                          {loginMutation.isPending ? "Logging in..." : "Login"}
+                        </Button>
+
+                        <div className="text-center">
+                          <Link href="/reset-password" className="text-sm text-primary hover:underline">
+                            Forgot your password?
+                          </Link>
+                        </div>
+                      </form>
+                    </Form>
+                  </CardContent>
+                  <CardFooter className="flex justify-center">
+                    <Button
+                      variant="ghost"
+                      onClick={() => setActiveTab("register")}
+                    >
+                      Don't have an account? Register
+                    </Button>
+                  </CardFooter>
+                </Card>
+              )}
             </TabsContent>
 
             <TabsContent value="register">
@@ -227,167 +310,131 @@ export default function AuthPage() {
                 <CardHeader>
                   <CardTitle>Create an account</CardTitle>
                   <CardDescription>
-                    Enter your information to create a new account
+                    {invitation
+                      ? `You've been invited to join as a ${roleLabels[invitation.role]}`
+                      : "Registration is by invitation only"}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <Form {...registerForm}>
-                    <form
-                      onSubmit={registerForm.handleSubmit(onRegisterSubmit)}
-                      className="space-y-4"
-                    >
-                      <FormField
-                        control={registerForm.control}
-                        name="name"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Full Name</FormLabel>
-                            <FormControl>
-                              <div className="relative">
-                                <UserIcon className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
-                                <Input
-                                  className="pl-9"
-                                  placeholder="Enter your full name"
-                                  {...field}
-                                />
-                              </div>
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-
-                      <FormField
-                        control={registerForm.control}
-                        name="username"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Username</FormLabel>
-                            <FormControl>
-                              <div className="relative">
-                                <UserIcon className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
-                                <Input
-                                  className="pl-9"
-                                  placeholder="Choose a username"
-                                  {...field}
-                                />
-                              </div>
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                  {!inviteToken ? (
+                    <p className="text-sm text-muted-foreground">
+                      Ask a manager to invite you, then open the link they send to create your account.
+                    </p>
+                  ) : isInvitationLoading ? (
+                    <Loading />
+                  ) : invitationError || !invitation ? (
+                    <p className="text-sm text-red-500">
+                      {invitationError?.message || "This invitation is invalid or has expired"}
+                    </p>
+                  ) : (
+                    <Form {...registerForm}>
+                      <form
+                        onSubmit={registerForm.handleSubmit(onRegisterSubmit)}
+                        className="space-y-4"
+                      >
+                        <FormField
+                          control={registerForm.control}
+                          name="name"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Full Name</FormLabel>
+                              <FormControl>
+                                <div className="relative">
+                                  <UserIcon className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+                                  <Input
+                                    className="pl-9"
+                                    placeholder="Enter your full name"
+                                    {...field}
+                                  />
+                                </div>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
 
-                      <FormField
-                        control={registerForm.control}
-                        name="email"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Email</FormLabel>
-                            <FormControl>
-                              <div className="relative">
-                                <svg 
-                                  className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground"
-                                  xmlns="http://www.w3.org/2000/svg" 
-                                  fill="none" 
-                                  viewBox="0 0 24 24" 
-                                  strokeWidth={1.5} 
-                                  stroke="currentColor"
-                                >
-                                  <path strokeLinecap="round" strokeLinejoin="round" d="M21.75 6.75v10.5a2.25 2.25 0 01-2.25 2.25h-15a2.25 2.25 0 01-2.25-2.25V6.75m19.5 0A2.25 2.25 0 0019.5 4.5h-15a2.25 2.25 0 00-2.25 2.25m19.5 0v.243a2.25 2.25 0 01-1.07 1.916l-7.5 4.615a2.25 2.25 0 01-2.36 0L3.32 8.91a2.25 2.25 0 01-1.07-1.916V6.75" />
-                                </svg>
-                                <Input
-                                  className="pl-9"
-                                  type="email"
-                                  placeholder="Enter your email"
-                                  {...field}
-                                />
-                              </div>
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                        <FormField
+                          control={registerForm.control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Username</FormLabel>
+                              <FormControl>
+                                <div className="relative">
+                                  <UserIcon className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+                                  <Input
+                                    className="pl-9"
+                                    placeholder="Choose a username"
+                                    {...field}
+                                  />
+                                </div>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
 
-                      <FormField
-                        control={registerForm.control}
-                        name="role"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Role</FormLabel>
-                            <FormControl>
-                              <div className="relative">
-                                <BriefcaseIcon className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
-                                <select
-                                  className="pl-9 w-full h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
-                                  {...field}
-                                >
-                                  <option value="lead_gen">Lead Generator</option>
-                                  <option value="sales">Sales Coordinator</option>
-                                  <option value="manager">Manager</option>
-                                </select>
-                              </div>
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                        <div className="space-y-2">
+                          <p className="text-sm font-medium">Email</p>
+                          <p className="text-sm text-muted-foreground">{invitation.email}</p>
+                        </div>
 
-                      <FormField
-                        control={registerForm.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Password</FormLabel>
-                            <FormControl>
-                              <div className="relative">
-                                <LockIcon className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
-                                <Input
-                                  className="pl-9"
-                                  type="password"
-                                  placeholder="Create a password"
-                                  {...field}
-                                />
-                              </div>
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                        <FormField
+                          control={registerForm.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Password</FormLabel>
+                              <FormControl>
+                                <div className="relative">
+                                  <LockIcon className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+                                  <Input
+                                    className="pl-9"
+                                    type="password"
+                                    placeholder="Create a password"
+                                    {...field}
+                                  />
+                                </div>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
 
-                      <FormField
-                        control={registerForm.control}
-                        name="confirmPassword"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Confirm Password</FormLabel>
-                            <FormControl>
-                              <div className="relative">
-                                <LockIcon className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
-                                <Input
-                                  className="pl-9"
-                                  type="password"
-                                  placeholder="Confirm your password"
-                                  {...field}
-                                />
-                              </div>
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                        <FormField
+                          control={registerForm.control}
+                          name="confirmPassword"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Confirm Password</FormLabel>
+                              <FormControl>
+                                <div className="relative">
+                                  <LockIcon className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+                                  <Input
+                                    className="pl-9"
+                                    type="password"
+                                    placeholder="Confirm your password"
+                                    {...field}
+                                  />
+                                </div>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
 
-                      <Button
-                        type="submit"
-                        className="w-full"
-                        disabled={registerMutation.isPending}
-                      >
-                        {registerMutation.isPending
-                          ? "Creating account..."
-                          : "Create Account"}
-                      </Button>
-                    </form>
-                  </Form>
+                        <Button
+                          type="submit"
+                          className="w-full"
+                          disabled={registerMutation.isPending}
+                        >
+                          {registerMutation.isPending
+                            ? "Creating account..."
+                            : "Create Account"}
+                        </Button>
+                      </form>
+                    </Form>
+                  )}
                 </CardContent>
                 <CardFooter className="flex justify-center">
                   <Button
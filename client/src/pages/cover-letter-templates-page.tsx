@@ -0,0 +1,278 @@
+import { useRef, useState } from "react";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Card, CardContent } from "@/components/ui/card";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loading } from "@/components/ui/loading";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { DataTable } from "@/components/ui/data-table";
+import { ColumnDef } from "@tanstack/react-table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { coverLetterPlaceholders, type CoverLetterTemplate } from "@shared/schema";
+import { Edit, Plus, Trash2 } from "lucide-react";
+
+// Validation schema for templates
+const templateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required"),
+  body: z.string().trim().min(20, "Template text is required"),
+});
+
+type TemplateFormData = z.infer<typeof templateSchema>;
+
+const placeholderDescriptions: Record<typeof coverLetterPlaceholders[number], string> = {
+  name: "Candidate name",
+  headline: "Resume headline",
+  topSkills: "Top five skills",
+  yearsOfExperience: "Years since the first job",
+  company: "Company applied to",
+  jobTitle: "Job title applied for",
+  date: "Today's date",
+};
+
+export default function CoverLetterTemplatesPage() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<number | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement | null>(null);
+
+  const form = useForm<TemplateFormData>({
+    resolver: zodResolver(templateSchema),
+    defaultValues: {
+      name: "",
+      body: "",
+    },
+  });
+  const { ref: bodyFieldRef, ...bodyField } = form.register("body");
+
+  const { data: templates, isLoading } = useQuery<CoverLetterTemplate[]>({
+    queryKey: ["/api/cover-letter-templates"],
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (data: TemplateFormData) => {
+      return selectedTemplateId
+        ? apiRequest("PATCH", `/api/cover-letter-templates/${selectedTemplateId}`, data)
+        : apiRequest("POST", "/api/cover-letter-templates", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cover-letter-templates"] });
+      setIsDialogOpen(false);
+      toast({
+        title: selectedTemplateId ? "Template updated" : "Template created",
+        description: "Lead generation can now use it for their applications.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/cover-letter-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cover-letter-templates"] });
+      toast({
+        title: "Template deleted",
+        description: "The cover letter template has been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openTemplateDialog = (template?: CoverLetterTemplate) => {
+    setSelectedTemplateId(template?.id ?? null);
+    form.reset({
+      name: template?.name ?? "",
+      body: template?.body ?? "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  // Insert a placeholder at the cursor in the template text
+  const insertPlaceholder = (placeholder: string) => {
+    const token = `{{${placeholder}}}`;
+    const textarea = bodyRef.current;
+    const body = form.getValues("body");
+    const start = textarea?.selectionStart ?? body.length;
+    const end = textarea?.selectionEnd ?? body.length;
+
+    form.setValue("body", body.slice(0, start) + token + body.slice(end), { shouldDirty: true });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const columns: ColumnDef<CoverLetterTemplate>[] = [
+    {
+      accessorKey: "name",
+      header: "Template",
+    },
+    {
+      accessorKey: "body",
+      header: "Text",
+      cell: ({ row }) => {
+        const body = row.original.body;
+        return body.length > 100 ? body.slice(0, 100) + "..." : body;
+      },
+    },
+    {
+      accessorKey: "updatedAt",
+      header: "Last Updated",
+      cell: ({ row }) => format(new Date(row.original.updatedAt), "MMM d, yyyy"),
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      cell: ({ row }) => (
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" onClick={() => openTemplateDialog(row.original)}>
+            <Edit className="h-4 w-4 mr-1" />
+            Edit
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-red-500"
+            onClick={() => {
+              if (confirm(`Delete the "${row.original.name}" template?`)) {
+                deleteTemplateMutation.mutate(row.original.id);
+              }
+            }}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  if (isLoading) {
+    return (
+      <DashboardLayout title="Cover Letters">
+        <Loading />
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout title="Cover Letters">
+      <div className="flex justify-between items-center mb-6">
+        <p className="text-neutral-medium">
+          Cover letter templates lead generation fill in for each profile and job
+        </p>
+        <Button onClick={() => openTemplateDialog()} className="flex items-center">
+          <Plus className="h-4 w-4 mr-2" />
+          New Template
+        </Button>
+      </div>
+
+      <Card className="bg-white shadow mb-8">
+        <CardContent className="p-6">
+          <h3 className="font-semibold mb-4">Templates</h3>
+          <DataTable
+            columns={columns}
+            data={templates || []}
+            searchable
+            searchField="name"
+          />
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedTemplateId ? "Edit Template" : "New Template"}</DialogTitle>
+            <DialogDescription>
+              Placeholders are replaced with the profile's resume details and the job being applied to.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={form.handleSubmit((data) => saveTemplateMutation.mutate(data))}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Template Name</Label>
+                <Input
+                  id="template-name"
+                  placeholder="e.g. Startup, short"
+                  {...form.register("name")}
+                />
+                {form.formState.errors.name && (
+                  <p className="text-sm text-red-500">{form.formState.errors.name.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="template-body">Letter</Label>
+                <div className="flex flex-wrap gap-1">
+                  {coverLetterPlaceholders.map(placeholder => (
+                    <Badge
+                      key={placeholder}
+                      variant="outline"
+                      className="cursor-pointer"
+                      title={placeholderDescriptions[placeholder]}
+                      onClick={() => insertPlaceholder(placeholder)}
+                    >
+                      {`{{${placeholder}}}`}
+                    </Badge>
+                  ))}
+                </div>
+                <Textarea
+                  id="template-body"
+                  rows={14}
+                  placeholder={"Dear {{company}} hiring team,\n\nI am applying for the {{jobTitle}} role..."}
+                  {...bodyField}
+                  ref={(element) => {
+                    bodyFieldRef(element);
+                    bodyRef.current = element;
+                  }}
+                />
+                {form.formState.errors.body && (
+                  <p className="text-sm text-red-500">{form.formState.errors.body.message}</p>
+                )}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveTemplateMutation.isPending}>
+                {saveTemplateMutation.isPending ? "Saving..." : "Save Template"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -142,9 +142,9 @@ function ManagerCharts() {
     };
   });
   
-  // Calculate profile distribution based on actual profiles
+  // Calculate profile distribution based on the active profiles
   // Count how many assignments each profile has
-  const profileDistribution = profiles.map((profile: any) => {
+  const profileDistribution = profiles.filter((profile: any) => profile.status === "active").map((profile: any) => {
     const leadGenCount = leadGenAssignments.filter((a: any) => a.profileId === profile.id).length;
     const salesCount = salesAssignments.filter((a: any) => a.profileId === profile.id).length;
     const totalAssignments = leadGenCount + salesCount;
@@ -0,0 +1,583 @@
+import { useState } from "react";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Card, CardContent } from "@/components/ui/card";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { interviewOutcomes } from "@shared/schema";
+import { Loading } from "@/components/ui/loading";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format, isSameDay } from "date-fns";
+import { Clock, Edit, Plus, Trash2, Video } from "lucide-react";
+
+type InterviewOutcome = typeof interviewOutcomes[number];
+
+const outcomeLabels: Record<InterviewOutcome, string> = {
+  pending: "Pending",
+  passed: "Passed",
+  failed: "Failed",
+  no_show: "No Show",
+  cancelled: "Cancelled",
+};
+
+const outcomeStyles: Record<InterviewOutcome, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  passed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  no_show: "bg-orange-100 text-orange-800",
+  cancelled: "bg-neutral-100 text-neutral-600",
+};
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const commonTimeZones = Array.from(new Set([
+  browserTimeZone,
+  "UTC",
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Los_Angeles",
+  "Europe/London",
+  "Europe/Berlin",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Australia/Sydney",
+]));
+
+// Milliseconds a time zone is ahead of UTC at the given instant
+function getTimeZoneOffset(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+
+  const asUtc = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+// Convert a wall-clock date and time in the given time zone to an absolute instant
+function zonedTimeToUtc(date: string, time: string, timeZone: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // The second pass settles times that fall near a daylight saving change
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getTimeZoneOffset(new Date(firstGuess), timeZone));
+}
+
+// Format an instant as it reads on the clock in the given time zone
+function formatInTimeZone(date: Date, timeZone: string, options: Intl.DateTimeFormatOptions) {
+  return new Intl.DateTimeFormat("en-US", { timeZone, ...options }).format(date);
+}
+
+// Pull the server's message out of an apiRequest error ("<status>: <body>")
+function getErrorMessage(error: Error) {
+  const body = error.message.slice(error.message.indexOf(":") + 1).trim();
+  try {
+    return JSON.parse(body).message || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+// Interview validation schema
+const interviewSchema = z.object({
+  profileId: z.string().min(1, "Please select a profile"),
+  leadId: z.string().optional(),
+  date: z.string().min(1, "Date is required"),
+  time: z.string().min(1, "Time is required"),
+  timezone: z.string().min(1, "Time zone is required"),
+  durationMinutes: z.string().refine(val => Number.isInteger(Number(val)) && Number(val) >= 5 && Number(val) <= 480, {
+    message: "Must be between 5 and 480 minutes",
+  }),
+  round: z.string().min(1, "Round is required"),
+  interviewer: z.string().optional(),
+  meetingLink: z.string().url("Please enter a valid URL").or(z.literal("")),
+  outcome: z.enum(interviewOutcomes),
+  feedback: z.string().optional(),
+});
+
+type InterviewFormData = z.infer<typeof interviewSchema>;
+
+export default function InterviewsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [selectedDay, setSelectedDay] = useState<Date>(new Date());
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingInterview, setEditingInterview] = useState<any>(null);
+  const isSales = user?.role === "sales";
+
+  const form = useForm<InterviewFormData>({
+    resolver: zodResolver(interviewSchema),
+    defaultValues: {
+      profileId: "",
+      leadId: "",
+      date: "",
+      time: "",
+      timezone: browserTimeZone,
+      durationMinutes: "60",
+      round: "",
+      interviewer: "",
+      meetingLink: "",
+      outcome: "pending",
+      feedback: "",
+    },
+  });
+
+  // Get interviews
+  const { data: interviews = [], isLoading: isLoadingInterviews } = useQuery<any[]>({
+    queryKey: ["/api/interviews"],
+  });
+
+  // Get the coordinator's profiles and leads for the schedule form
+  const { data: myProfiles = [], isLoading: isLoadingProfiles } = useQuery<any[]>({
+    queryKey: ["/api/my-profiles"],
+    enabled: isSales,
+  });
+
+  const { data: leads = [] } = useQuery<any[]>({
+    queryKey: ["/api/leads"],
+    enabled: isSales,
+  });
+
+  // Build the request body shared by create and update
+  const toPayload = (data: InterviewFormData) => ({
+    leadId: data.leadId ? parseInt(data.leadId) : null,
+    scheduledAt: zonedTimeToUtc(data.date, data.time, data.timezone).toISOString(),
+    timezone: data.timezone,
+    durationMinutes: parseInt(data.durationMinutes),
+    round: data.round,
+    interviewer: data.interviewer || null,
+    meetingLink: data.meetingLink || null,
+    outcome: data.outcome,
+    feedback: data.feedback || null,
+  });
+
+  // Schedule or update an interview
+  const saveInterviewMutation = useMutation({
+    mutationFn: async (data: InterviewFormData) => {
+      if (editingInterview) {
+        return apiRequest("PATCH", `/api/interviews/${editingInterview.id}`, toPayload(data));
+      }
+      return apiRequest("POST", "/api/interviews", {
+        ...toPayload(data),
+        profileId: parseInt(data.profileId),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/interviews"] });
+      setIsDialogOpen(false);
+      toast({
+        title: editingInterview ? "Interview updated" : "Interview scheduled",
+        description: editingInterview
+          ? "The interview has been updated successfully."
+          : "The interview has been added to the calendar.",
+      });
+      setEditingInterview(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save interview",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Delete an interview
+  const deleteInterviewMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/interviews/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/interviews"] });
+      toast({
+        title: "Interview deleted",
+        description: "The interview has been removed from the calendar.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete interview",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openScheduleDialog = () => {
+    setEditingInterview(null);
+    form.reset({
+      profileId: myProfiles[0] ? myProfiles[0].id.toString() : "",
+      leadId: "",
+      date: format(selectedDay, "yyyy-MM-dd"),
+      time: "10:00",
+      timezone: browserTimeZone,
+      durationMinutes: "60",
+      round: "",
+      interviewer: "",
+      meetingLink: "",
+      outcome: "pending",
+      feedback: "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (interview: any) => {
+    const scheduledAt = new Date(interview.scheduledAt);
+    setEditingInterview(interview);
+    form.reset({
+      profileId: interview.profileId.toString(),
+      leadId: interview.leadId ? interview.leadId.toString() : "",
+      // en-CA renders dates as YYYY-MM-DD, which is what the date input expects
+      date: new Intl.DateTimeFormat("en-CA", { timeZone: interview.timezone }).format(scheduledAt),
+      time: formatInTimeZone(scheduledAt, interview.timezone, { hour: "2-digit", minute: "2-digit", hourCycle: "h23" }),
+      timezone: interview.timezone,
+      durationMinutes: interview.durationMinutes.toString(),
+      round: interview.round,
+      interviewer: interview.interviewer || "",
+      meetingLink: interview.meetingLink || "",
+      outcome: interview.outcome,
+      feedback: interview.feedback || "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const scheduledDays = interviews
+    .filter((interview) => interview.outcome !== "cancelled")
+    .map((interview) => new Date(interview.scheduledAt));
+
+  const dayInterviews = interviews.filter((interview) =>
+    isSameDay(new Date(interview.scheduledAt), selectedDay)
+  );
+
+  const selectedProfileId = form.watch("profileId");
+  const profileLeads = leads.filter((lead) => lead.profileId.toString() === selectedProfileId);
+  const timeZoneOptions = commonTimeZones.includes(form.watch("timezone"))
+    ? commonTimeZones
+    : [...commonTimeZones, form.watch("timezone")];
+
+  // Loading state
+  if (isLoadingInterviews || (isSales && isLoadingProfiles)) {
+    return (
+      <DashboardLayout title="Interviews">
+        <Loading />
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout title="Interviews">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="bg-white shadow">
+          <CardContent className="p-6">
+            <h3 className="font-medium mb-4">Calendar</h3>
+            <Calendar
+              mode="single"
+              selected={selectedDay}
+              onSelect={(day) => day && setSelectedDay(day)}
+              modifiers={{ scheduled: scheduledDays }}
+              modifiersClassNames={{ scheduled: "font-bold text-primary underline" }}
+              className="rounded-md border"
+            />
+            <p className="text-xs text-neutral-medium mt-3">
+              Underlined days have interviews scheduled
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white shadow lg:col-span-2">
+          <CardContent className="p-6">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h3 className="font-medium">{format(selectedDay, "EEEE, MMMM d, yyyy")}</h3>
+                <p className="text-sm text-neutral-medium">
+                  Times are shown in each interview's own time zone
+                </p>
+              </div>
+
+              {isSales && myProfiles.length > 0 && (
+                <Button onClick={openScheduleDialog} className="flex items-center">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Schedule Interview
+                </Button>
+              )}
+            </div>
+
+            {dayInterviews.length === 0 ? (
+              <div className="text-center py-8 text-neutral-medium">
+                No interviews on this day
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {dayInterviews.map((interview) => {
+                  const scheduledAt = new Date(interview.scheduledAt);
+                  return (
+                    <div key={interview.id} className="border rounded-md p-4">
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium">{interview.profile?.name}</p>
+                            <Badge variant="outline" className={outcomeStyles[interview.outcome as InterviewOutcome]}>
+                              {outcomeLabels[interview.outcome as InterviewOutcome]}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-neutral-medium">
+                            {interview.round}
+                            {interview.lead && ` · ${interview.lead.clientName} (${interview.lead.jobTitle})`}
+                          </p>
+                        </div>
+
+                        {isSales && (
+                          <div className="flex gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => openEditDialog(interview)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                if (confirm("Are you sure you want to delete this interview?")) {
+                                  deleteInterviewMutation.mutate(interview.id);
+                                }
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="flex flex-wrap gap-x-6 gap-y-1 mt-2 text-sm">
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-4 w-4 text-neutral-medium" />
+                          {formatInTimeZone(scheduledAt, interview.timezone, { hour: "numeric", minute: "2-digit", timeZoneName: "short" })}
+                          {" "}({interview.durationMinutes} min)
+                        </span>
+                        {interview.timezone !== browserTimeZone && (
+                          <span className="text-neutral-medium">
+                            {format(scheduledAt, "h:mm a")} your time
+                          </span>
+                        )}
+                        {interview.interviewer && (
+                          <span className="text-neutral-medium">With {interview.interviewer}</span>
+                        )}
+                        {interview.meetingLink && (
+                          <a
+                            href={interview.meetingLink}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 text-primary hover:underline"
+                          >
+                            <Video className="h-4 w-4" />
+                            Join
+                          </a>
+                        )}
+                        {!isSales && interview.user && (
+                          <span className="text-neutral-medium">Arranged by {interview.user.name}</span>
+                        )}
+                      </div>
+
+                      {interview.feedback && (
+                        <p className="text-sm mt-2 whitespace-pre-wrap">{interview.feedback}</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Schedule / Edit Interview Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingInterview ? "Edit Interview" : "Schedule Interview"}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={form.handleSubmit((data) => saveInterviewMutation.mutate(data))}>
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="interview-profileId">Profile</Label>
+                  <Select
+                    onValueChange={(value) => {
+                      form.setValue("profileId", value);
+                      form.setValue("leadId", "");
+                    }}
+                    value={selectedProfileId}
+                    disabled={!!editingInterview}
+                  >
+                    <SelectTrigger id="interview-profileId">
+                      <SelectValue placeholder="Select a profile" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {myProfiles.map((profile: any) => (
+                        <SelectItem key={profile.id} value={profile.id.toString()}>
+                          {profile.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {form.formState.errors.profileId && (
+                    <p className="text-sm text-red-500">{form.formState.errors.profileId.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="interview-leadId">Lead (Optional)</Label>
+                  <Select
+                    onValueChange={(value) => form.setValue("leadId", value === "none" ? "" : value)}
+                    value={form.watch("leadId") || "none"}
+                  >
+                    <SelectTrigger id="interview-leadId">
+                      <SelectValue placeholder="Select a lead" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No lead</SelectItem>
+                      {profileLeads.map((lead: any) => (
+                        <SelectItem key={lead.id} value={lead.id.toString()}>
+                          {lead.clientName} - {lead.jobTitle}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="interview-date">Date</Label>
+                  <Input id="interview-date" type="date" {...form.register("date")} />
+                  {form.formState.errors.date && (
+                    <p className="text-sm text-red-500">{form.formState.errors.date.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="interview-time">Time</Label>
+                  <Input id="interview-time" type="time" {...form.register("time")} />
+                  {form.formState.errors.time && (
+                    <p className="text-sm text-red-500">{form.formState.errors.time.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="interview-timezone">Time Zone</Label>
+                  <Select
+                    onValueChange={(value) => form.setValue("timezone", value)}
+                    value={form.watch("timezone")}
+                  >
+                    <SelectTrigger id="interview-timezone">
+                      <SelectValue placeholder="Select a time zone" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timeZoneOptions.map((timeZone) => (
+                        <SelectItem key={timeZone} value={timeZone}>
+                          {timeZone}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="interview-duration">Duration (minutes)</Label>
+                  <Input id="interview-duration" type="number" min="5" max="480" step="5" {...form.register("durationMinutes")} />
+                  {form.formState.errors.durationMinutes && (
+                    <p className="text-sm text-red-500">{form.formState.errors.durationMinutes.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="interview-round">Round</Label>
+                  <Input id="interview-round" placeholder="e.g. Technical, HR, Final" {...form.register("round")} />
+                  {form.formState.errors.round && (
+                    <p className="text-sm text-red-500">{form.formState.errors.round.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="interview-interviewer">Interviewer (Optional)</Label>
+                  <Input id="interview-interviewer" {...form.register("interviewer")} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="interview-meetingLink">Meeting Link (Optional)</Label>
+                  <Input id="interview-meetingLink" placeholder="https://" {...form.register("meetingLink")} />
+                  {form.formState.errors.meetingLink && (
+                    <p className="text-sm text-red-500">{form.formState.errors.meetingLink.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="interview-outcome">Outcome</Label>
+                  <Select
+                    onValueChange={(value) => form.setValue("outcome", value as InterviewOutcome)}
+                    value={form.watch("outcome")}
+                  >
+                    <SelectTrigger id="interview-outcome">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {interviewOutcomes.map((outcome) => (
+                        <SelectItem key={outcome} value={outcome}>
+                          {outcomeLabels[outcome]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="interview-feedback">Feedback (Optional)</Label>
+                <Textarea id="interview-feedback" className="h-20" {...form.register("feedback")} />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveInterviewMutation.isPending}>
+                {saveInterviewMutation.isPending ? "Saving..." : editingInterview ? "Update Interview" : "Schedule Interview"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -32,6 +32,8 @@ import {
 } from "@/components/ui/dialog";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
+import { LeadKanbanBoard } from "@/components/leads/lead-kanban-board";
+import { useSearch } from "wouter";
 
 // Lead entry validation schema
 const leadEntrySchema = z.object({
@@ -55,6 +57,7 @@ export default function LeadEntryPage() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingEntry, setEditingEntry] = useState<any>(null);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const initialProfileId = new URLSearchParams(useSearch()).get("profileId") || undefined;
   
   // Form handling
   const form = useForm<LeadEntryFormData>({
@@ -187,7 +190,10 @@ export default function LeadEntryPage() {
     {
       id: "actions",
       header: "Actions",
-      cell: ({ row }) => (
+      cell: ({ row }) => row.original.id === null ? (
+        // Totals derived from the lead pipeline change when leads move between stages
+        <span className="text-xs text-neutral-medium">From pipeline</span>
+      ) : (
         <Button
           variant="ghost"
           size="sm"
@@ -307,6 +313,19 @@ export default function LeadEntryPage() {
         )}
       </div>
       
+      <Card className="bg-white shadow mb-8">
+        <CardContent className="p-6">
+          <div className="mb-4">
+            <h3 className="font-medium">Lead Pipeline</h3>
+            <p className="text-sm text-neutral-medium">
+              Drag a lead to another column to record its stage change
+            </p>
+          </div>
+          
+          <LeadKanbanBoard profiles={myProfiles} initialProfileId={initialProfileId} />
+        </CardContent>
+      </Card>
+      
       <Card className="bg-white shadow mb-8">
         <CardContent className="p-6">
           <div className="flex items-center justify-between mb-6">
@@ -428,7 +447,12 @@ export default function LeadEntryPage() {
       <Card className="bg-white shadow">
         <CardContent className="p-6">
           <div className="flex justify-between items-center mb-4">
-            <h3 className="font-medium">Recent Entries</h3>
+            <div>
+              <h3 className="font-medium">Recent Entries</h3>
+              <p className="text-sm text-neutral-medium">
+                Days with pipeline activity show the pipeline totals in place of manual entries
+              </p>
+            </div>
             <div className="relative">
               <Select defaultValue="this-week">
                 <SelectTrigger className="bg-white border border-neutral-light rounded-md px-3 py-1 text-sm">
@@ -1,6 +1,7 @@
 import { useState, useRef } from "react";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { useAuth } from "@/hooks/use-auth";
+import { useProfileSearch } from "@/hooks/use-profile-search";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useQuery, useMutation } from "@tanstack/react-query";
@@ -8,7 +9,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Loading } from "@/components/ui/loading";
 import { DataTable } from "@/components/ui/data-table";
 import { ColumnDef } from "@tanstack/react-table";
-import { Plus, Edit, Trash2, FileText, Download, Upload, Loader2 } from "lucide-react";
+import { Plus, Edit, Trash2, FileText, Download, Upload, Loader2, History, Layers, Wand2, AlertTriangle, FileOutput, Search, Tags, Activity } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -24,6 +25,14 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { format } from "date-fns";
 import { 
   Tabs, 
@@ -31,6 +40,18 @@ import {
   TabsList, 
   TabsTrigger 
 } from "@/components/ui/tabs";
+import { ResumeHistoryDialog } from "@/components/profiles/resume-history-dialog";
+import { ResumeVariantsDialog } from "@/components/profiles/resume-variants-dialog";
+import { GenerateResumeDialog } from "@/components/profiles/generate-resume-dialog";
+import { ResumeStructureEditor } from "@/components/profiles/resume-structure-editor";
+import { RedactedResumeMenu } from "@/components/profiles/redacted-resume-menu";
+import { SearchSnippet } from "@/components/profiles/search-snippet";
+import { SkillTagPicker } from "@/components/profiles/skill-tag-picker";
+import { SkillTagsDialog } from "@/components/profiles/skill-tags-dialog";
+import { ProfileLifecycleDialog } from "@/components/profiles/profile-lifecycle-dialog";
+import { ProfileStatusBadge, profileStatusLabels } from "@/components/profiles/profile-status-badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { resumeStructureSchema, resumeFileExtensions, atsFindingSchema, type ResumeStructure, type SkillTag, profileStatuses } from "@shared/schema";
 
 // Validation schema for profiles
 const profileSchema = z.object({
@@ -38,7 +59,22 @@ const profileSchema = z.object({
   description: z.string().min(5, "Description must be at least 5 characters"),
   resumeContent: z.string().min(10, "Resume content is required and must be detailed").transform(value => 
     value.trim() === "" ? null : value
-  )
+  ),
+  // Set by the file upload so the original file is kept alongside the parsed text
+  resumeFileName: z.string().optional(),
+  resumeUploadId: z.string().optional(),
+  // Parsed sections; only sent when edited so the server re-parses changed resume text otherwise
+  resumeStructure: resumeStructureSchema.nullable().optional(),
+  // ATS check of the uploaded file, shown as warnings before saving
+  atsFindings: z.array(atsFindingSchema).nullable().optional(),
+  // Extra terms removed from redacted exports, entered one per line
+  redactionTerms: z.string().optional().transform(value =>
+    (value || "").split("\n").map(term => term.trim()).filter(Boolean)
+  ),
+  // Skill tags the profile is filed under
+  tagIds: z.array(z.number()).default([]),
+  // Only chosen when creating; later changes go through the lifecycle dialog
+  status: z.enum(["draft", "active"]).optional()
 });
 
 type ProfileFormData = z.infer<typeof profileSchema>;
@@ -51,6 +87,15 @@ export default function ManageProfilesPage() {
   const [selectedProfileId, setSelectedProfileId] = useState<number | null>(null);
   const [isViewResumeDialogOpen, setIsViewResumeDialogOpen] = useState(false);
   const [resumeToView, setResumeToView] = useState<string | null>(null);
+  const [historyProfile, setHistoryProfile] = useState<any>(null);
+  const [variantsProfile, setVariantsProfile] = useState<any>(null);
+  const [generateProfile, setGenerateProfile] = useState<any>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [tagFilter, setTagFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [lifecycleProfile, setLifecycleProfile] = useState<any>(null);
+  const [isSkillTagsDialogOpen, setIsSkillTagsDialogOpen] = useState(false);
+  const [suggestedTagIds, setSuggestedTagIds] = useState<number[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -61,11 +106,16 @@ export default function ManageProfilesPage() {
     defaultValues: {
       name: "",
       description: "",
-      resumeContent: ""
+      resumeContent: "",
+      tagIds: []
     },
   });
+  const resumeContent = profileForm.watch("resumeContent");
+  const resumeStructure = profileForm.watch("resumeStructure");
+  const atsFindings = profileForm.watch("atsFindings");
+  const tagIds = profileForm.watch("tagIds");
   
-  // PDF Upload handling
+  // Resume file upload handling
   const uploadResumeMutation = useMutation({
     mutationFn: async (file: File) => {
       setIsUploading(true);
@@ -83,7 +133,9 @@ export default function ManageProfilesPage() {
       setUploadProgress(90);
       
       if (!response.ok) {
-        throw new Error('Failed to upload resume');
+        // Unreadable or oversized files come back with a message saying what to fix
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Failed to upload resume');
       }
       
       return response.json();
@@ -92,10 +144,17 @@ export default function ManageProfilesPage() {
       setUploadProgress(100);
       
       profileForm.setValue('resumeContent', data.resumeContent);
+      profileForm.setValue('resumeFileName', data.resumeFileName);
+      profileForm.setValue('resumeUploadId', data.resumeUploadId);
+      profileForm.setValue('resumeStructure', data.resumeStructure);
+      profileForm.setValue('atsFindings', data.atsFindings);
+      setSuggestedTagIds(data.suggestedTagIds);
       
       toast({
         title: "Resume uploaded",
-        description: "Resume has been successfully processed.",
+        description: data.atsFindings.length > 0
+          ? `Resume processed with ${data.atsFindings.length} ATS warning${data.atsFindings.length === 1 ? "" : "s"}. Review them before saving.`
+          : "Resume has been successfully processed.",
       });
       
       // Reset after a short delay to show 100% progress
@@ -116,10 +175,42 @@ export default function ManageProfilesPage() {
     }
   });
 
+  // Re-read the structured sections from the current resume text
+  const parseResumeMutation = useMutation({
+    mutationFn: async (resumeContent: string) => {
+      const res = await apiRequest("POST", "/api/profiles/parse-resume", { resumeContent });
+      return res.json() as Promise<ResumeStructure>;
+    },
+    onSuccess: (structure) => {
+      profileForm.setValue('resumeStructure', structure, { shouldDirty: true });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to parse resume",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Query to fetch profiles
   const { data: profiles, isLoading: isLoadingProfiles } = useQuery<any[]>({
     queryKey: ["/api/profiles"],
   });
+  const { results: searchResults, isSearching } = useProfileSearch(searchQuery);
+  const { data: skillTags = [] } = useQuery<SkillTag[]>({
+    queryKey: ["/api/skill-tags"],
+  });
+  const tagNames = new Map(skillTags.map(tag => [tag.id, tag.name]));
+  
+  // Search results carry no tags, so the filter goes through the ids of the tagged profiles
+  const taggedProfileIds = tagFilter === "all"
+    ? undefined
+    : new Set((profiles || []).filter(profile => profile.tagIds.includes(Number(tagFilter))).map(profile => profile.id));
+  const visibleProfiles = (searchResults || profiles || []).filter(profile =>
+    (!taggedProfileIds || taggedProfileIds.has(profile.id)) &&
+    (statusFilter === "all" || profile.status === statusFilter)
+  );
 
   // Mutation to create a new profile
   const createProfileMutation = useMutation({
@@ -152,8 +243,9 @@ export default function ManageProfilesPage() {
     mutationFn: async ({ id, data }: { id: number; data: ProfileFormData }) => {
       return apiRequest("PATCH", `/api/profiles/${id}`, data);
     },
-    onSuccess: () => {
+    onSuccess: (_data, { id }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/profiles/${id}/versions`] });
       setIsProfileDialogOpen(false);
       profileForm.reset();
       toast({
@@ -177,11 +269,12 @@ export default function ManageProfilesPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/deleted-items"] });
       setIsDeleteDialogOpen(false);
       setSelectedProfileId(null);
       toast({
         title: "Profile deleted",
-        description: "Profile has been successfully deleted.",
+        description: "Profile has been moved to Recently Deleted.",
       });
     },
     onError: (error) => {
@@ -205,6 +298,11 @@ export default function ManageProfilesPage() {
       return;
     }
     
+    // Untouched sections are left for the server to parse from the resume text
+    if (!profileForm.formState.dirtyFields.resumeStructure) {
+      delete data.resumeStructure;
+    }
+    
     if (selectedProfileId) {
       updateProfileMutation.mutate({ id: selectedProfileId, data });
     } else {
@@ -218,8 +316,13 @@ export default function ManageProfilesPage() {
     profileForm.reset({
       name: profile.name,
       description: profile.description,
-      resumeContent: profile.resumeContent || ""
+      resumeContent: profile.resumeContent || "",
+      resumeStructure: profile.resumeStructure,
+      atsFindings: profile.atsFindings,
+      redactionTerms: (profile.redactionTerms || []).join("\n"),
+      tagIds: profile.tagIds || []
     });
+    setSuggestedTagIds([]);
     setIsProfileDialogOpen(true);
   };
 
@@ -239,11 +342,12 @@ export default function ManageProfilesPage() {
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      // Validate file type
-      if (file.type !== 'application/pdf') {
+      // Validate file type by extension, since browsers report Word and text files inconsistently
+      const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+      if (!(resumeFileExtensions as readonly string[]).includes(extension)) {
         toast({
           title: "Invalid file type",
-          description: "Please upload a PDF file.",
+          description: "Please upload a PDF, DOCX or TXT file.",
           variant: "destructive"
         });
         return;
@@ -253,7 +357,7 @@ export default function ManageProfilesPage() {
       if (file.size > 5 * 1024 * 1024) {
         toast({
           title: "File too large",
-          description: "Please upload a PDF file smaller than 5MB.",
+          description: "Please upload a file smaller than 5MB.",
           variant: "destructive"
         });
         return;
@@ -274,7 +378,7 @@ export default function ManageProfilesPage() {
   // Function to download resume
   const handleDownloadResume = (profile: any) => {
     try {
-      // Download original PDF from server
+      // Download the original resume file from server
       window.open(`/api/profiles/${profile.id}/resume`, '_blank');
     } catch (error) {
       toast({
@@ -295,12 +399,39 @@ export default function ManageProfilesPage() {
       accessorKey: "description",
       header: "Description",
       cell: ({ row }) => {
+        // Search results show where the terms matched instead
+        if (row.original.snippet?.some((segment: any) => segment.matched)) {
+          return <SearchSnippet segments={row.original.snippet} />;
+        }
+        
         const description = row.getValue("description") as string;
         return description.length > 100 
           ? description.slice(0, 100) + "..." 
           : description;
       }
     },
+    {
+      accessorKey: "status",
+      header: "Status",
+      cell: ({ row }) => <ProfileStatusBadge status={row.original.status} />
+    },
+    {
+      id: "tags",
+      header: "Skill Tags",
+      cell: ({ row }) => {
+        // Search results are matched back to the full list for their tags
+        const profileTagIds: number[] = row.original.tagIds
+          ?? (profiles || []).find(profile => profile.id === row.original.id)?.tagIds
+          ?? [];
+        return (
+          <div className="flex flex-wrap gap-1">
+            {profileTagIds.filter(id => tagNames.has(id)).map(id => (
+              <Badge key={id} variant="secondary">{tagNames.get(id)}</Badge>
+            ))}
+          </div>
+        );
+      }
+    },
     {
       accessorKey: "createdAt",
       header: "Created",
@@ -334,6 +465,39 @@ export default function ManageProfilesPage() {
             <Download className="h-4 w-4 mr-1" />
             Download
           </Button>
+          <RedactedResumeMenu profileId={row.original.id} size="sm" />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setHistoryProfile(row.original)}
+          >
+            <History className="h-4 w-4 mr-1" />
+            History
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setVariantsProfile(row.original)}
+          >
+            <Layers className="h-4 w-4 mr-1" />
+            Variants
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setGenerateProfile(row.original)}
+          >
+            <FileOutput className="h-4 w-4 mr-1" />
+            Generate
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setLifecycleProfile(row.original)}
+          >
+            <Activity className="h-4 w-4 mr-1" />
+            Lifecycle
+          </Button>
           <Button
             variant="outline"
             size="sm"
@@ -371,39 +535,92 @@ export default function ManageProfilesPage() {
         <p className="text-neutral-medium">
           Create and manage profiles with attached resumes for your team
         </p>
-        <Button
-          onClick={() => {
-            setSelectedProfileId(null);
-            profileForm.reset({
-              name: "",
-              description: "",
-              resumeContent: ""
-            });
-            setIsProfileDialogOpen(true);
-          }}
-          className="flex items-center"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Create New Profile
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setIsSkillTagsDialogOpen(true)}
+            className="flex items-center"
+          >
+            <Tags className="h-4 w-4 mr-2" />
+            Skill Tags
+          </Button>
+          <Button
+            onClick={() => {
+              setSelectedProfileId(null);
+              profileForm.reset({
+                name: "",
+                description: "",
+                resumeContent: "",
+                tagIds: [],
+                status: "active"
+              });
+              setSuggestedTagIds([]);
+              setIsProfileDialogOpen(true);
+            }}
+            className="flex items-center"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Create New Profile
+          </Button>
+        </div>
       </div>
 
       <Card className="bg-white shadow mb-8">
         <CardContent className="p-6">
-          <h3 className="font-semibold mb-4">Profiles</h3>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+            <h3 className="font-semibold">Profiles</h3>
+            <div className="flex flex-col sm:flex-row gap-2 w-full md:w-auto">
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-full sm:w-40">
+                  <SelectValue placeholder="All statuses" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {profileStatuses.map(status => (
+                    <SelectItem key={status} value={status}>
+                      {profileStatusLabels[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={tagFilter} onValueChange={setTagFilter}>
+                <SelectTrigger className="w-full sm:w-48">
+                  <SelectValue placeholder="All skill tags" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All skill tags</SelectItem>
+                  {skillTags.map(tag => (
+                    <SelectItem key={tag.id} value={tag.id.toString()}>
+                      {tag.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="relative w-full sm:w-80">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
+                <Input
+                  placeholder="Search names, descriptions and resumes..."
+                  className="pl-8"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                />
+                {isSearching && (
+                  <Loader2 className="absolute right-2.5 top-2.5 h-4 w-4 animate-spin text-gray-500" />
+                )}
+              </div>
+            </div>
+          </div>
           
           <DataTable 
             columns={profileColumns} 
-            data={profiles || []} 
-            searchable
-            searchField="name"
+            data={visibleProfiles} 
           />
         </CardContent>
       </Card>
 
       {/* Create/Edit Profile Dialog */}
       <Dialog open={isProfileDialogOpen} onOpenChange={setIsProfileDialogOpen}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-auto">
           <DialogHeader>
             <DialogTitle>{selectedProfileId ? "Edit Profile" : "Create New Profile"}</DialogTitle>
             <DialogDescription>
@@ -429,6 +646,24 @@ export default function ManageProfilesPage() {
                 )}
               </div>
               
+              {!selectedProfileId && (
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select
+                    value={profileForm.watch("status")}
+                    onValueChange={(value) => profileForm.setValue("status", value as "draft" | "active")}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="active">Active - ready to assign</SelectItem>
+                      <SelectItem value="draft">Draft - still being prepared</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              
               <div className="space-y-2">
                 <Label htmlFor="description">Description</Label>
                 <Textarea
@@ -450,7 +685,8 @@ export default function ManageProfilesPage() {
                 <Tabs defaultValue="text" className="w-full">
                   <TabsList className="mb-2">
                     <TabsTrigger value="text">Text Input</TabsTrigger>
-                    <TabsTrigger value="upload">Upload PDF</TabsTrigger>
+                    <TabsTrigger value="upload">Upload File</TabsTrigger>
+                    <TabsTrigger value="structured">Structured Fields</TabsTrigger>
                   </TabsList>
                   
                   <TabsContent value="text" className="space-y-3">
@@ -473,7 +709,7 @@ export default function ManageProfilesPage() {
                       <input
                         type="file"
                         ref={fileInputRef}
-                        accept=".pdf"
+                        accept={resumeFileExtensions.join(",")}
                         onChange={handleFileChange}
                         className="hidden"
                       />
@@ -481,7 +717,7 @@ export default function ManageProfilesPage() {
                       {isUploading ? (
                         <div className="flex flex-col items-center space-y-2">
                           <Loader2 className="h-8 w-8 animate-spin text-primary" />
-                          <p className="text-sm text-gray-500">Uploading and parsing PDF...</p>
+                          <p className="text-sm text-gray-500">Uploading and parsing resume...</p>
                           <div className="w-full h-2 bg-gray-200 rounded-full mt-2">
                             <div 
                               className="h-full bg-primary rounded-full" 
@@ -492,25 +728,99 @@ export default function ManageProfilesPage() {
                       ) : (
                         <>
                           <Upload className="h-12 w-12 text-gray-400 mb-3" />
-                          <p className="text-sm font-medium mb-1">Upload a PDF resume</p>
-                          <p className="text-xs text-gray-500 mb-3">Maximum file size: 5MB</p>
+                          <p className="text-sm font-medium mb-1">Upload a resume file</p>
+                          <p className="text-xs text-gray-500 mb-3">
+                            Accepted formats: PDF, Word (.docx), plain text (.txt). Maximum file size: 5MB
+                          </p>
                           <Button 
                             type="button" 
                             variant="secondary" 
                             onClick={handleUploadClick}
                           >
-                            Select PDF File
+                            Select File
                           </Button>
                         </>
                       )}
                     </div>
                     
                     <p className="text-sm text-gray-500">
-                      The PDF will be parsed and its content will be extracted automatically.
+                      The file will be parsed and its content will be extracted automatically. The original file is kept for download.
                     </p>
                   </TabsContent>
+                  
+                  <TabsContent value="structured" className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm text-gray-500">
+                        Sections read from the resume text. Lead generation copies these into application forms.
+                      </p>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        disabled={!resumeContent?.trim() || parseResumeMutation.isPending}
+                        onClick={() => parseResumeMutation.mutate(resumeContent!)}
+                        className="flex items-center whitespace-nowrap"
+                      >
+                        {parseResumeMutation.isPending ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <Wand2 className="h-4 w-4 mr-1" />
+                        )}
+                        Parse from Text
+                      </Button>
+                    </div>
+                    
+                    {resumeStructure ? (
+                      <ResumeStructureEditor
+                        value={resumeStructure}
+                        onChange={(structure) => profileForm.setValue('resumeStructure', structure, { shouldDirty: true })}
+                      />
+                    ) : (
+                      <p className="text-sm text-neutral-medium text-center py-6">
+                        Enter or upload the resume, then parse it to fill in the sections.
+                      </p>
+                    )}
+                  </TabsContent>
                 </Tabs>
               </div>
+              
+              <div className="space-y-2">
+                <Label>Skill Tags</Label>
+                <SkillTagPicker
+                  tags={skillTags}
+                  value={tagIds || []}
+                  onChange={(ids) => profileForm.setValue('tagIds', ids, { shouldDirty: true })}
+                  suggestedIds={suggestedTagIds}
+                />
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="redactionTerms">Redaction Terms</Label>
+                <Textarea
+                  id="redactionTerms"
+                  placeholder="One per line, e.g. the current employer or a project name"
+                  rows={3}
+                  {...profileForm.register("redactionTerms")}
+                />
+                <p className="text-xs text-neutral-medium">
+                  Removed from redacted exports along with the candidate's name, email, phone numbers and links.
+                  Add the candidate's name here if it isn't found in the resume's contact details.
+                </p>
+              </div>
+              
+              {atsFindings && atsFindings.length > 0 && (
+                <Alert variant={atsFindings.some(finding => finding.severity === "error") ? "destructive" : "default"}>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>ATS compatibility warnings</AlertTitle>
+                  <AlertDescription>
+                    <ul className="list-disc pl-4 space-y-1 mt-1">
+                      {atsFindings.map((finding, index) => (
+                        <li key={index}>{finding.message}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
             </div>
             
             <DialogFooter>
@@ -542,7 +852,7 @@ export default function ManageProfilesPage() {
           <DialogHeader>
             <DialogTitle>Delete Profile</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this profile? This action cannot be undone.
+              Are you sure you want to delete this profile? It can be restored from Recently Deleted.
             </DialogDescription>
           </DialogHeader>
           
@@ -566,6 +876,40 @@ export default function ManageProfilesPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Resume History Dialog */}
+      <ResumeHistoryDialog
+        profile={historyProfile}
+        open={!!historyProfile}
+        onOpenChange={(open) => !open && setHistoryProfile(null)}
+      />
+
+      {/* Resume Variants Dialog */}
+      <ResumeVariantsDialog
+        profile={variantsProfile}
+        open={!!variantsProfile}
+        onOpenChange={(open) => !open && setVariantsProfile(null)}
+      />
+
+      {/* Profile Lifecycle Dialog */}
+      <ProfileLifecycleDialog
+        profile={lifecycleProfile}
+        open={!!lifecycleProfile}
+        onOpenChange={(open) => !open && setLifecycleProfile(null)}
+      />
+      
+      {/* Skill Tags Dialog */}
+      <SkillTagsDialog
+        open={isSkillTagsDialogOpen}
+        onOpenChange={setIsSkillTagsDialogOpen}
+      />
+      
+      {/* Generate Resume Dialog */}
+      <GenerateResumeDialog
+        profile={generateProfile}
+        open={!!generateProfile}
+        onOpenChange={(open) => !open && setGenerateProfile(null)}
+      />
+
       {/* View Resume Dialog */}
       <Dialog open={isViewResumeDialogOpen} onOpenChange={setIsViewResumeDialogOpen}>
         <DialogContent className="max-w-4xl max-h-[80vh] overflow-auto">
@@ -669,7 +1013,7 @@ export default function ManageProfilesPage() {
               className="flex items-center"
             >
               <Download className="h-4 w-4 mr-2" />
-              Download Original PDF
+              Download Original File
             </Button>
             <Button 
               type="button" 
@@ -1,16 +1,42 @@
+import { useState } from "react";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Card, CardContent } from "@/components/ui/card";
 import { useQuery } from "@tanstack/react-query";
 import { Loading } from "@/components/ui/loading";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ResumeSectionsCard } from "@/components/profiles/resume-sections-card";
+import { JobMatchPanel } from "@/components/profiles/job-match-panel";
+import { RedactedResumeMenu } from "@/components/profiles/redacted-resume-menu";
+import { CoverLetterPanel } from "@/components/profiles/cover-letter-panel";
+import { Download } from "lucide-react";
 import { format, parseISO } from "date-fns";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 
 export default function MyProfilePage() {
+  const [selectedVariant, setSelectedVariant] = useState<string>("main");
+  
   // Get assigned profile data
   const { data: myProfile, isLoading: isLoadingProfile } = useQuery({
     queryKey: ["/api/my-profile"],
   });
   
+  const profileId = (myProfile as any)?.profile?.id;
+  const resumeStructure = (myProfile as any)?.profile?.resumeStructure;
+  const hasGeneratedResume = !!(myProfile as any)?.profile?.generatedResumeFileHash;
+  
+  // Get the tailored resume variants of the assigned profile
+  const { data: variants = [] } = useQuery<any[]>({
+    queryKey: [`/api/profiles/${profileId}/variants`],
+    enabled: !!profileId,
+  });
+  
   // Get progress updates
   const { data: progressUpdates, isLoading: isLoadingProgress } = useQuery({
     queryKey: ["/api/progress-updates"],
@@ -97,6 +123,56 @@ export default function MyProfilePage() {
               </p>
             </div>
             
+            <div className="border rounded-md p-4 mb-4">
+              <h4 className="font-medium mb-3">Resume</h4>
+              <div className="flex gap-2">
+                <Select value={selectedVariant} onValueChange={setSelectedVariant}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Select a resume" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="main">Main resume</SelectItem>
+                    {variants.map((variant: any) => (
+                      <SelectItem key={variant.id} value={variant.id.toString()}>
+                        {variant.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={() => window.open(
+                    selectedVariant === "main"
+                      ? `/api/profiles/${profileId}/resume`
+                      : `/api/profiles/${profileId}/resume?variant=${selectedVariant}`,
+                    '_blank'
+                  )}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </Button>
+                <RedactedResumeMenu
+                  profileId={profileId}
+                  variantId={selectedVariant === "main" ? undefined : selectedVariant}
+                />
+              </div>
+              {variants.length > 0 && (
+                <p className="text-xs text-neutral-medium mt-2">
+                  Pick the variant that best matches the jobs you are applying to
+                </p>
+              )}
+              {hasGeneratedResume && (
+                <Button
+                  variant="link"
+                  className="px-0 mt-1"
+                  onClick={() => window.open(`/api/profiles/${profileId}/generated-resume`, '_blank')}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download formatted resume (DOCX)
+                </Button>
+              )}
+            </div>
+            
             <div className="border rounded-md p-4">
               <h4 className="font-medium mb-3">Current Target</h4>
               {myProfile.target ? (
@@ -205,6 +281,14 @@ export default function MyProfilePage() {
         </Card>
       </div>
       
+      {resumeStructure && (
+        <ResumeSectionsCard structure={resumeStructure} />
+      )}
+      
+      <JobMatchPanel />
+      
+      {profileId && <CoverLetterPanel profileId={profileId} />}
+      
       <Card className="bg-white shadow">
         <CardContent className="p-6">
           <h3 className="font-semibold mb-4">Recent Notes</h3>
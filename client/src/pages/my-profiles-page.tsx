@@ -4,7 +4,8 @@ import { useQuery } from "@tanstack/react-query";
 import { Loading } from "@/components/ui/loading";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
-import { ArrowRight, TrendingUp } from "lucide-react";
+import { RedactedResumeMenu } from "@/components/profiles/redacted-resume-menu";
+import { ArrowRight, Download, TrendingUp } from "lucide-react";
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from "recharts";
 
 export default function MyProfilesPage() {
@@ -59,6 +60,7 @@ export default function MyProfilesPage() {
       id: profile.id,
       name: profile.name,
       description: profile.description,
+      hasGeneratedResume: !!profile.generatedResumeFileHash,
       totalLeads,
       acceptedLeads,
       clientRejections,
@@ -95,10 +97,21 @@ export default function MyProfilesPage() {
                           {profile.description}
                         </p>
                       </div>
-                      <div className="mt-3 md:mt-0 flex items-center">
-                        <Link href="/lead-entry">
+                      <div className="mt-3 md:mt-0 flex items-center gap-2">
+                        {profile.hasGeneratedResume && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => window.open(`/api/profiles/${profile.id}/generated-resume`, '_blank')}
+                          >
+                            <Download className="h-4 w-4 mr-1" />
+                            Formatted
+                          </Button>
+                        )}
+                        <RedactedResumeMenu profileId={profile.id} size="sm" />
+                        <Link href={`/lead-entry?profileId=${profile.id}`}>
                           <Button size="sm" className="ml-auto">
-                            Enter Leads
+                            Open Lead Board
                             <ArrowRight className="ml-2 h-4 w-4" />
                           </Button>
                         </Link>
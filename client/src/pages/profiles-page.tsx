@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { useAuth } from "@/hooks/use-auth";
+import { useProfileSearch } from "@/hooks/use-profile-search";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useQuery, useMutation } from "@tanstack/react-query";
@@ -8,7 +9,8 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Loading } from "@/components/ui/loading";
 import { DataTable } from "@/components/ui/data-table";
 import { ColumnDef } from "@tanstack/react-table";
-import { Plus, Edit, MoreHorizontal, Trash, Check } from "lucide-react";
+import { Plus, Edit, MoreHorizontal, Trash, Check, Search, Loader2 } from "lucide-react";
+import { SearchSnippet } from "@/components/profiles/search-snippet";
 import {
   Dialog,
   DialogContent,
@@ -80,6 +82,13 @@ export default function ProfilesPage() {
   const { data: profiles, isLoading: isLoadingProfiles } = useQuery({
     queryKey: ["/api/profiles"],
   });
+  
+  // Only active profiles can be assigned; the others stay in the list for naming existing assignments
+  const activeProfiles = ((profiles as any[]) || []).filter((profile: any) => profile.status === "active");
+  
+  const [searchQuery, setSearchQuery] = useState("");
+  const { results: searchResults, isSearching } = useProfileSearch(searchQuery);
+  const activeSearchResults = searchResults?.filter((profile: any) => profile.status === "active");
 
   const { data: leadGenUsers, isLoading: isLoadingLeadGenUsers } = useQuery({
     queryKey: ["/api/users", "lead_gen"],
@@ -160,6 +169,7 @@ export default function ProfilesPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/lead-gen-assignments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/deleted-items"] });
       toast({
         title: "Assignment removed",
         description: "Profile assignment has been successfully removed.",
@@ -180,6 +190,7 @@ export default function ProfilesPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/sales-assignments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/deleted-items"] });
       toast({
         title: "Assignment removed",
         description: "Profile assignment has been successfully removed.",
@@ -298,6 +309,9 @@ export default function ProfilesPage() {
           <MoreHorizontal className="h-5 w-5 text-neutral-medium" />
         </div>
         <p className="text-sm text-neutral-medium mt-2">{profile.description}</p>
+        {profile.snippet?.some((segment: any) => segment.matched) && (
+          <SearchSnippet segments={profile.snippet} className="mt-2 border-l-2 pl-2" />
+        )}
         <div className="mt-3 flex items-center text-sm text-neutral-medium">
           <span className="material-icons text-sm mr-1">person</span>
           <span>
@@ -398,13 +412,33 @@ export default function ProfilesPage() {
       
       <Card className="bg-white shadow mb-8">
         <CardContent className="p-6">
-          <h3 className="font-semibold mb-4">Available Profiles</h3>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {profiles?.map((profile: any) => (
-              <ProfileCard key={profile.id} profile={profile} />
-            ))}
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+            <h3 className="font-semibold">Available Profiles</h3>
+            <div className="relative w-full max-w-sm">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
+              <Input
+                placeholder="Search names, descriptions and resumes..."
+                className="pl-8"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
+              {isSearching && (
+                <Loader2 className="absolute right-2.5 top-2.5 h-4 w-4 animate-spin text-gray-500" />
+              )}
+            </div>
           </div>
+          
+          {activeSearchResults && activeSearchResults.length === 0 ? (
+            <div className="text-center py-8 text-neutral-medium">
+              No active profiles match "{searchQuery.trim()}"
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {(activeSearchResults || activeProfiles).map((profile: any) => (
+                <ProfileCard key={profile.id} profile={profile} />
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -451,7 +485,7 @@ export default function ProfilesPage() {
                     <SelectValue placeholder="Select a profile" />
                   </SelectTrigger>
                   <SelectContent>
-                    {profiles?.map((profile: any) => (
+                    {activeProfiles.map((profile: any) => (
                       <SelectItem key={profile.id} value={profile.id.toString()}>
                         {profile.name}
                       </SelectItem>
@@ -522,7 +556,7 @@ export default function ProfilesPage() {
                 <Label>Select Profiles</Label>
                 <div className="border rounded-md p-3 max-h-60 overflow-y-auto">
                   <div className="space-y-3">
-                    {profiles?.map((profile: any) => (
+                    {activeProfiles.map((profile: any) => (
                       <div className="flex items-center space-x-2" key={profile.id}>
                         <Checkbox 
                           id={`profile-${profile.id}`}
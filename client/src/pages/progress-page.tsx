@@ -15,7 +15,14 @@ import { Textarea } from "@/components/ui/textarea";
 import { format } from "date-fns";
 import { DataTable } from "@/components/ui/data-table";
 import { ColumnDef } from "@tanstack/react-table";
-import { Edit, Save } from "lucide-react";
+import { Check, Edit, ExternalLink, Plus, Save, Trash2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 // Progress update validation schema
 const progressSchema = z.object({
@@ -30,6 +37,25 @@ const progressSchema = z.object({
 
 type ProgressFormData = z.infer<typeof progressSchema>;
 
+// Job application validation schema
+const jobApplicationSchema = z.object({
+  company: z.string().min(1, "Company is required"),
+  jobTitle: z.string().min(1, "Job title is required"),
+  jobUrl: z.string().url("Please enter a valid URL").or(z.literal("")),
+  source: z.string().optional(),
+  resumeVariantId: z.string(),
+  status: z.enum(["fetched", "applied"]),
+});
+
+type JobApplicationFormData = z.infer<typeof jobApplicationSchema>;
+
+const statusStyles: Record<string, string> = {
+  fetched: "bg-primary bg-opacity-10 text-primary",
+  applied: "bg-green-500 bg-opacity-10 text-green-600",
+  skipped: "bg-neutral-bg text-neutral-medium",
+  rejected: "bg-red-500 bg-opacity-10 text-red-500",
+};
+
 export default function ProgressPage() {
   const { toast } = useToast();
   const [isEditing, setIsEditing] = useState(false);
@@ -44,11 +70,37 @@ export default function ProgressPage() {
     },
   });
   
+  // Job application form handling
+  const applicationForm = useForm<JobApplicationFormData>({
+    resolver: zodResolver(jobApplicationSchema),
+    defaultValues: {
+      company: "",
+      jobTitle: "",
+      jobUrl: "",
+      source: "",
+      resumeVariantId: "main",
+      status: "fetched",
+    },
+  });
+  
   // Get assigned profile data
   const { data: myProfile, isLoading: isLoadingProfile } = useQuery({
     queryKey: ["/api/my-profile"],
   });
   
+  const profileId = (myProfile as any)?.profile?.id;
+  
+  // Get the resume variants the profile can be applied with
+  const { data: resumeVariants = [] } = useQuery<any[]>({
+    queryKey: [`/api/profiles/${profileId}/variants`],
+    enabled: !!profileId,
+  });
+  
+  // Get individual job applications
+  const { data: jobApplications = [], isLoading: isLoadingApplications } = useQuery<any[]>({
+    queryKey: ["/api/job-applications"],
+  });
+  
   // Get progress updates
   const { data: progressUpdates, isLoading: isLoadingProgress } = useQuery({
     queryKey: ["/api/progress-updates"],
@@ -85,6 +137,156 @@ export default function ProgressPage() {
     },
   });
   
+  // Log a new job application
+  const createApplicationMutation = useMutation({
+    mutationFn: async (data: JobApplicationFormData) => {
+      return apiRequest("POST", "/api/job-applications", {
+        company: data.company,
+        jobTitle: data.jobTitle,
+        jobUrl: data.jobUrl || null,
+        source: data.source || null,
+        resumeVariantId: data.resumeVariantId === "main" ? null : parseInt(data.resumeVariantId),
+        status: data.status,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/job-applications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/progress-updates"] });
+      // Keep the chosen resume since consecutive jobs are usually applied with the same one
+      applicationForm.reset({
+        company: "",
+        jobTitle: "",
+        jobUrl: "",
+        source: "",
+        resumeVariantId: applicationForm.getValues("resumeVariantId"),
+        status: "fetched",
+      });
+      toast({
+        title: "Job logged",
+        description: "The job has been added to your applications.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to log job",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Change the status of an existing job application
+  const updateApplicationMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: string }) => {
+      return apiRequest("PATCH", `/api/job-applications/${id}`, { status });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/job-applications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/progress-updates"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update job",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Remove a job application
+  const deleteApplicationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/job-applications/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/job-applications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/progress-updates"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete job",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Job applications table columns
+  const applicationColumns: ColumnDef<any>[] = [
+    {
+      accessorKey: "fetchedAt",
+      header: "Fetched",
+      cell: ({ row }) => format(new Date(row.original.fetchedAt), "MMM d, yyyy"),
+    },
+    {
+      accessorKey: "company",
+      header: "Company",
+    },
+    {
+      accessorKey: "jobTitle",
+      header: "Job Title",
+      cell: ({ row }) => row.original.jobUrl ? (
+        <a
+          href={row.original.jobUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center text-primary hover:underline"
+        >
+          {row.original.jobTitle}
+          <ExternalLink className="h-3 w-3 ml-1" />
+        </a>
+      ) : row.original.jobTitle,
+    },
+    {
+      accessorKey: "source",
+      header: "Source",
+      cell: ({ row }) => row.original.source || <span className="text-neutral-medium">-</span>,
+    },
+    ...(resumeVariants.length > 0 ? [{
+      accessorKey: "resumeVariantId",
+      header: "Resume",
+      cell: ({ row }: { row: any }) =>
+        resumeVariants.find((v: any) => v.id === row.original.resumeVariantId)?.name || "Main resume",
+    }] : []),
+    {
+      accessorKey: "status",
+      header: "Status",
+      cell: ({ row }) => (
+        <span className={`px-2 py-1 rounded-full text-xs capitalize ${statusStyles[row.original.status] || ""}`}>
+          {row.original.status}
+        </span>
+      ),
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      cell: ({ row }) => (
+        <div className="flex space-x-2">
+          {row.original.status === "fetched" && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateApplicationMutation.mutate({ id: row.original.id, status: "applied" })}
+              disabled={updateApplicationMutation.isPending}
+            >
+              <Check className="h-4 w-4 mr-1" />
+              Mark Applied
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-red-500"
+            onClick={() => deleteApplicationMutation.mutate(row.original.id)}
+            disabled={deleteApplicationMutation.isPending}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ),
+    },
+  ];
+  
   // Progress history table columns
   const progressColumns: ColumnDef<any>[] = [
     {
@@ -131,6 +333,8 @@ export default function ProgressPage() {
   // Today's progress logic
   const today = format(new Date(), "yyyy-MM-dd");
   const todayProgress = progressUpdates?.find((update: any) => update.date === today);
+  // Once applications are logged today, today's totals are counted from them and replace manual ones
+  const isTodayFromApplications = todayProgress?.id === null;
   
   // Initialize form with today's progress values if they exist
   useState(() => {
@@ -142,7 +346,7 @@ export default function ProgressPage() {
   });
   
   // Loading state
-  if (isLoadingProfile || isLoadingProgress) {
+  if (isLoadingProfile || isLoadingProgress || isLoadingApplications) {
     return (
       <DashboardLayout title="Update Progress">
         <Loading />
@@ -225,7 +429,7 @@ export default function ProgressPage() {
               <div className="pt-4 border-t">
                 <div className="flex justify-between items-center mb-4">
                   <span className="font-medium">Update Today's Progress</span>
-                  {!isEditing && (
+                  {!isEditing && !isTodayFromApplications && (
                     <Button 
                       variant="ghost" 
                       size="sm" 
@@ -237,6 +441,12 @@ export default function ProgressPage() {
                   )}
                 </div>
                 
+                {isTodayFromApplications && (
+                  <p className="text-sm text-neutral-medium mb-4">
+                    Today's totals are counted from the job applications you log below
+                  </p>
+                )}
+                
                 <form onSubmit={form.handleSubmit(onSubmit)}>
                   <div className="space-y-4">
                     <div className="grid grid-cols-2 gap-4">
@@ -378,6 +588,113 @@ export default function ProgressPage() {
         </Card>
       </div>
       
+      <Card className="bg-white shadow mb-8">
+        <CardContent className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="font-medium">Job Applications</h3>
+            <span className="text-sm text-neutral-medium">
+              Daily totals are calculated from the jobs logged here
+            </span>
+          </div>
+          
+          <form
+            onSubmit={applicationForm.handleSubmit((data) => createApplicationMutation.mutate(data))}
+            className={`grid grid-cols-1 ${resumeVariants.length > 0 ? "md:grid-cols-7" : "md:grid-cols-6"} gap-4 items-end mb-6`}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="company">Company</Label>
+              <Input id="company" placeholder="e.g. Acme Inc" {...applicationForm.register("company")} />
+              {applicationForm.formState.errors.company && (
+                <p className="text-sm text-red-500">
+                  {applicationForm.formState.errors.company.message}
+                </p>
+              )}
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="jobTitle">Job Title</Label>
+              <Input id="jobTitle" placeholder="e.g. Data Analyst" {...applicationForm.register("jobTitle")} />
+              {applicationForm.formState.errors.jobTitle && (
+                <p className="text-sm text-red-500">
+                  {applicationForm.formState.errors.jobTitle.message}
+                </p>
+              )}
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="jobUrl">Job URL</Label>
+              <Input id="jobUrl" placeholder="https://..." {...applicationForm.register("jobUrl")} />
+              {applicationForm.formState.errors.jobUrl && (
+                <p className="text-sm text-red-500">
+                  {applicationForm.formState.errors.jobUrl.message}
+                </p>
+              )}
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="source">Source</Label>
+              <Input id="source" placeholder="e.g. LinkedIn" {...applicationForm.register("source")} />
+            </div>
+            
+            {resumeVariants.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="resumeVariantId">Resume Used</Label>
+                <Select
+                  onValueChange={(value) => applicationForm.setValue("resumeVariantId", value)}
+                  value={applicationForm.watch("resumeVariantId")}
+                >
+                  <SelectTrigger id="resumeVariantId">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="main">Main resume</SelectItem>
+                    {resumeVariants.map((variant: any) => (
+                      <SelectItem key={variant.id} value={variant.id.toString()}>
+                        {variant.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            
+            <div className="space-y-2">
+              <Label htmlFor="status">Status</Label>
+              <Select
+                onValueChange={(value) => applicationForm.setValue("status", value as JobApplicationFormData["status"])}
+                value={applicationForm.watch("status")}
+              >
+                <SelectTrigger id="status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fetched">Fetched</SelectItem>
+                  <SelectItem value="applied">Applied</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <Button type="submit" disabled={createApplicationMutation.isPending}>
+              <Plus className="h-4 w-4 mr-1" />
+              {createApplicationMutation.isPending ? "Saving..." : "Log Job"}
+            </Button>
+          </form>
+          
+          {jobApplications.length > 0 ? (
+            <DataTable 
+              columns={applicationColumns} 
+              data={jobApplications} 
+              searchable
+              searchField="company"
+            />
+          ) : (
+            <div className="text-center py-6">
+              <p className="text-neutral-medium">No jobs logged yet.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      
       <Card className="bg-white shadow">
         <CardContent className="p-6">
           <h3 className="font-medium mb-4">Progress History</h3>
@@ -0,0 +1,179 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Card, CardContent } from "@/components/ui/card";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loading } from "@/components/ui/loading";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { DataTable } from "@/components/ui/data-table";
+import { ColumnDef } from "@tanstack/react-table";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import type { DeletableItemType } from "@shared/schema";
+import { RotateCcw, Trash2 } from "lucide-react";
+
+interface DeletedItem {
+  type: DeletableItemType;
+  id: number;
+  label: string;
+  detail: string | null;
+  deletedAt: string;
+  deletedByName: string;
+}
+
+const itemTypeLabels: Record<DeletableItemType, string> = {
+  profile: "Profile",
+  target: "Target",
+  lead_gen_assignment: "Lead Gen Assignment",
+  sales_assignment: "Sales Assignment",
+};
+
+// Restoring or purging a row changes the lists it was deleted from
+const invalidateDeletedItems = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/deleted-items"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/targets"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/lead-gen-assignments"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/sales-assignments"] });
+};
+
+export default function RecentlyDeletedPage() {
+  const { toast } = useToast();
+
+  const { data: items, isLoading } = useQuery<DeletedItem[]>({
+    queryKey: ["/api/deleted-items"],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (item: DeletedItem) => {
+      return apiRequest("POST", `/api/deleted-items/${item.type}/${item.id}/restore`);
+    },
+    onSuccess: (_data, item) => {
+      invalidateDeletedItems();
+      toast({
+        title: `${itemTypeLabels[item.type]} restored`,
+        description: `${item.label} is back where it was deleted from.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to restore",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (item: DeletedItem) => {
+      return apiRequest("DELETE", `/api/deleted-items/${item.type}/${item.id}`);
+    },
+    onSuccess: (_data, item) => {
+      invalidateDeletedItems();
+      toast({
+        title: `${itemTypeLabels[item.type]} permanently deleted`,
+        description: `${item.label} can no longer be restored.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete permanently",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const columns: ColumnDef<DeletedItem>[] = [
+    {
+      accessorKey: "type",
+      header: "Type",
+      cell: ({ row }) => <Badge variant="outline">{itemTypeLabels[row.original.type]}</Badge>,
+    },
+    {
+      accessorKey: "label",
+      header: "Item",
+      cell: ({ row }) => (
+        <div>
+          <div className="font-medium">{row.original.label}</div>
+          {row.original.detail && (
+            <div className="text-sm text-neutral-medium">
+              {row.original.detail.length > 100 ? row.original.detail.slice(0, 100) + "..." : row.original.detail}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      accessorKey: "deletedAt",
+      header: "Deleted",
+      cell: ({ row }) => (
+        <div>
+          <div>{format(new Date(row.original.deletedAt), "MMM d, yyyy h:mm a")}</div>
+          <div className="text-xs text-neutral-medium">by {row.original.deletedByName}</div>
+        </div>
+      ),
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      cell: ({ row }) => (
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={restoreMutation.isPending}
+            onClick={() => restoreMutation.mutate(row.original)}
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Restore
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-red-500"
+            disabled={purgeMutation.isPending}
+            onClick={() => {
+              const warning = row.original.type === "profile"
+                ? `Permanently delete "${row.original.label}"? Its resume history, variants and deleted assignments go with it.`
+                : `Permanently delete this ${itemTypeLabels[row.original.type].toLowerCase()}?`;
+              if (confirm(warning)) {
+                purgeMutation.mutate(row.original);
+              }
+            }}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete Permanently
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  if (isLoading) {
+    return (
+      <DashboardLayout title="Recently Deleted">
+        <Loading />
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout title="Recently Deleted">
+      <p className="text-neutral-medium mb-6">
+        Deleted profiles, targets and assignments stay here until they are restored or permanently deleted
+      </p>
+
+      <Card className="bg-white shadow mb-8">
+        <CardContent className="p-6">
+          <DataTable
+            columns={columns}
+            data={items || []}
+            searchable
+            searchField="label"
+          />
+        </CardContent>
+      </Card>
+    </DashboardLayout>
+  );
+}
@@ -33,6 +33,9 @@ import { format, subDays, startOfWeek, endOfWeek } from 'date-fns';
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { useToast } from "@/hooks/use-toast";
+import { VariantComparison } from "@/components/reports/variant-comparison";
+import { JobMatchQuality } from "@/components/reports/job-match-quality";
+import { SkillTagBreakdown } from "@/components/reports/skill-tag-breakdown";
 
 export default function ReportsPage() {
   const { toast } = useToast();
@@ -276,6 +279,12 @@ export default function ReportsPage() {
         </Card>
       </div>
       
+      <VariantComparison />
+      
+      <JobMatchQuality />
+      
+      <SkillTagBreakdown />
+      
       {/* Generate Report Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent>
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { forgotPasswordSchema, resetPasswordWithTokenSchema } from "@shared/schema";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+const resetSchema = resetPasswordWithTokenSchema
+  .extend({
+    confirmPassword: z.string().min(1, "Confirm password is required"),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+type ForgotFormData = z.infer<typeof forgotPasswordSchema>;
+type ResetFormData = z.infer<typeof resetSchema>;
+
+// Post to a public auth route, surfacing the server's message when it fails
+async function postAuthForm(url: string, data: unknown) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({ message: res.statusText }));
+    throw new Error(errorData.message || "Something went wrong. Please try again.");
+  }
+  return res;
+}
+
+// Requests a reset link by email, or sets a new password when opened from one
+export default function ResetPasswordPage() {
+  const token = new URLSearchParams(useSearch()).get("token") || "";
+  const { toast } = useToast();
+  const [completedMessage, setCompletedMessage] = useState<string | null>(null);
+
+  const forgotForm = useForm<ForgotFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const resetForm = useForm<ResetFormData>({
+    resolver: zodResolver(resetSchema),
+    defaultValues: { token, password: "", confirmPassword: "" },
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: token ? "Couldn't reset password" : "Couldn't send reset link",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const forgotMutation = useMutation({
+    mutationFn: async (data: ForgotFormData) => {
+      const res = await postAuthForm("/api/forgot-password", data);
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => setCompletedMessage(data.message),
+    onError,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async ({ confirmPassword, ...data }: ResetFormData) => {
+      await postAuthForm("/api/reset-password", data);
+    },
+    onSuccess: () => setCompletedMessage("Your password has been changed. Log in with your new password."),
+    onError,
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{token ? "Choose a new password" : "Forgot your password?"}</CardTitle>
+          <CardDescription>
+            {token
+              ? "Changing it signs you out on every device."
+              : "Enter the email on your account and we'll send you a link to reset your password."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {completedMessage ? (
+            <p className="text-sm">{completedMessage}</p>
+          ) : token ? (
+            <Form {...resetForm}>
+              <form
+                onSubmit={resetForm.handleSubmit((data) => resetMutation.mutate(data))}
+                className="space-y-4"
+              >
+                <FormField
+                  control={resetForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Create a password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={resetForm.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Confirm your password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" className="w-full" disabled={resetMutation.isPending}>
+                  {resetMutation.isPending ? "Saving..." : "Set New Password"}
+                </Button>
+              </form>
+            </Form>
+          ) : (
+            <Form {...forgotForm}>
+              <form
+                onSubmit={forgotForm.handleSubmit((data) => forgotMutation.mutate(data))}
+                className="space-y-4"
+              >
+                <FormField
+                  control={forgotForm.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="Enter your email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" className="w-full" disabled={forgotMutation.isPending}>
+                  {forgotMutation.isPending ? "Sending..." : "Send Reset Link"}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-center">
+          <Link href="/auth" className="text-sm text-primary hover:underline">
+            Back to login
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
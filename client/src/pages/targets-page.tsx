@@ -86,6 +86,8 @@ export default function TargetsPage() {
   const { data: profiles, isLoading: isLoadingProfiles } = useQuery({
     queryKey: ["/api/profiles"],
   });
+  // Targets can only be set for active profiles
+  const activeProfiles = ((profiles as any[]) || []).filter((profile: any) => profile.status === "active");
 
   // Create a new target
   const createTargetMutation = useMutation({
@@ -445,7 +447,7 @@ export default function TargetsPage() {
                     <SelectValue placeholder="Select a profile" />
                   </SelectTrigger>
                   <SelectContent>
-                    {profiles?.map((profile: any) => (
+                    {activeProfiles.map((profile: any) => (
                       <SelectItem key={profile.id} value={profile.id.toString()}>
                         {profile.name}
                       </SelectItem>
@@ -0,0 +1,451 @@
+import { useState } from "react";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Card, CardContent } from "@/components/ui/card";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loading } from "@/components/ui/loading";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { DataTable } from "@/components/ui/data-table";
+import { ColumnDef } from "@tanstack/react-table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { RoleSelect, roleLabels } from "@/components/users/role-select";
+import { InvitationsCard } from "@/components/users/invitations-card";
+import { SecuritySettingsCard } from "@/components/users/security-settings-card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useForm, Controller } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { insertUserSchema, resetPasswordSchema, type User } from "@shared/schema";
+import { Edit, KeyRound, Plus, ShieldOff, UserCheck, UserX } from "lucide-react";
+
+type ListedUser = Omit<User, "password" | "deactivatedAt" | "totpSecret" | "totpEnabledAt" | "totpRecoveryCodes" | "totpLastUsedStep"> & {
+  deactivatedAt: string | null;
+  totpEnabledAt: string | null;
+  twoFactorEnabled: boolean;
+};
+
+// The username is fixed once created and the password has its own dialog
+const editUserSchema = insertUserSchema.pick({ name: true, email: true, role: true });
+
+type CreateUserFormData = z.infer<typeof insertUserSchema>;
+type EditUserFormData = z.infer<typeof editUserSchema>;
+
+export default function UsersPage() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<ListedUser | null>(null);
+  const [passwordUser, setPasswordUser] = useState<ListedUser | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+
+  const createForm = useForm<CreateUserFormData>({
+    resolver: zodResolver(insertUserSchema),
+    defaultValues: { username: "", password: "", name: "", email: "", role: "lead_gen" },
+  });
+  const editForm = useForm<EditUserFormData>({
+    resolver: zodResolver(editUserSchema),
+    defaultValues: { name: "", email: "", role: "lead_gen" },
+  });
+
+  const { data: users, isLoading } = useQuery<ListedUser[]>({
+    queryKey: ["/api/users", "includeDeactivated"],
+    queryFn: async () => {
+      const res = await fetch(`/api/users?includeDeactivated=true`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch users");
+      return res.json();
+    },
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createUserMutation = useMutation({
+    mutationFn: async (data: CreateUserFormData) => {
+      return apiRequest("POST", "/api/users", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setIsCreateDialogOpen(false);
+      toast({
+        title: "User created",
+        description: "They can sign in with the username and password you set.",
+      });
+    },
+    onError: onError("Failed to create user"),
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async (data: EditUserFormData) => {
+      return apiRequest("PATCH", `/api/users/${editingUser!.id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setEditingUser(null);
+      toast({
+        title: "User updated",
+        description: "The user's details have been saved.",
+      });
+    },
+    onError: onError("Failed to update user"),
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/users/${passwordUser!.id}/password`, { password: newPassword });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password reset",
+        description: `${passwordUser!.name} has been signed out everywhere. Share the new password with them.`,
+      });
+      setPasswordUser(null);
+    },
+    onError: onError("Failed to reset password"),
+  });
+
+  const setActiveMutation = useMutation({
+    mutationFn: async ({ user, active }: { user: ListedUser; active: boolean }) => {
+      return apiRequest("POST", `/api/users/${user.id}/${active ? "reactivate" : "deactivate"}`);
+    },
+    onSuccess: (_data, { user, active }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: active ? "User reactivated" : "User deactivated",
+        description: active
+          ? `${user.name} can sign in again.`
+          : `${user.name} can no longer sign in. Their history stays in reports.`,
+      });
+    },
+    onError: onError("Failed to change user status"),
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (user: ListedUser) => {
+      return apiRequest("POST", `/api/users/${user.id}/two-factor/reset`);
+    },
+    onSuccess: (_data, user) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Two-factor authentication reset",
+        description: `${user.name} can sign in with just their password and set it up again.`,
+      });
+    },
+    onError: onError("Failed to reset two-factor authentication"),
+  });
+
+  const openCreateDialog = () => {
+    createForm.reset({ username: "", password: "", name: "", email: "", role: "lead_gen" });
+    setIsCreateDialogOpen(true);
+  };
+
+  const openEditDialog = (user: ListedUser) => {
+    editForm.reset({ name: user.name, email: user.email, role: user.role });
+    setEditingUser(user);
+  };
+
+  const openPasswordDialog = (user: ListedUser) => {
+    setNewPassword("");
+    setPasswordUser(user);
+  };
+
+  const passwordResult = resetPasswordSchema.safeParse({ password: newPassword });
+
+  const columns: ColumnDef<ListedUser>[] = [
+    {
+      accessorKey: "name",
+      header: "Name",
+      cell: ({ row }) => (
+        <div>
+          <div className="font-medium">{row.original.name}</div>
+          <div className="text-sm text-neutral-medium">{row.original.username}</div>
+        </div>
+      ),
+    },
+    {
+      accessorKey: "email",
+      header: "Email",
+    },
+    {
+      accessorKey: "role",
+      header: "Role",
+      cell: ({ row }) => roleLabels[row.original.role],
+    },
+    {
+      accessorKey: "deactivatedAt",
+      header: "Status",
+      cell: ({ row }) => row.original.deactivatedAt ? (
+        <Badge variant="outline" className="bg-neutral-100 text-neutral-500 border-neutral-200">Deactivated</Badge>
+      ) : (
+        <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">Active</Badge>
+      ),
+    },
+    {
+      accessorKey: "twoFactorEnabled",
+      header: "2FA",
+      cell: ({ row }) => row.original.twoFactorEnabled ? (
+        <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">On</Badge>
+      ) : (
+        <Badge variant="outline" className="bg-neutral-100 text-neutral-500 border-neutral-200">Off</Badge>
+      ),
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      cell: ({ row }) => {
+        const listedUser = row.original;
+        const isSelf = listedUser.id === currentUser?.id;
+        return (
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => openEditDialog(listedUser)}>
+              <Edit className="h-4 w-4 mr-1" />
+              Edit
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => openPasswordDialog(listedUser)}>
+              <KeyRound className="h-4 w-4 mr-1" />
+              Reset Password
+            </Button>
+            {listedUser.twoFactorEnabled && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={resetTwoFactorMutation.isPending}
+                onClick={() => {
+                  if (confirm(`Reset two-factor authentication for ${listedUser.name}? They'll be able to sign in with just their password.`)) {
+                    resetTwoFactorMutation.mutate(listedUser);
+                  }
+                }}
+              >
+                <ShieldOff className="h-4 w-4 mr-1" />
+                Reset 2FA
+              </Button>
+            )}
+            {listedUser.deactivatedAt ? (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={setActiveMutation.isPending}
+                onClick={() => setActiveMutation.mutate({ user: listedUser, active: true })}
+              >
+                <UserCheck className="h-4 w-4 mr-1" />
+                Reactivate
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-red-500"
+                disabled={isSelf || setActiveMutation.isPending}
+                title={isSelf ? "You can't deactivate yourself" : undefined}
+                onClick={() => {
+                  if (confirm(`Deactivate ${listedUser.name}? They will no longer be able to sign in.`)) {
+                    setActiveMutation.mutate({ user: listedUser, active: false });
+                  }
+                }}
+              >
+                <UserX className="h-4 w-4 mr-1" />
+                Deactivate
+              </Button>
+            )}
+          </div>
+        );
+      },
+    },
+  ];
+
+  if (isLoading) {
+    return (
+      <DashboardLayout title="Users">
+        <Loading />
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout title="Users">
+      <div className="flex justify-between items-center mb-6">
+        <p className="text-neutral-medium">
+          Everyone who can sign in, and the role that decides what they see
+        </p>
+        <Button onClick={openCreateDialog} className="flex items-center">
+          <Plus className="h-4 w-4 mr-2" />
+          New User
+        </Button>
+      </div>
+
+      <Card className="bg-white shadow mb-8">
+        <CardContent className="p-6">
+          <DataTable
+            columns={columns}
+            data={users || []}
+            searchable
+            searchField="name"
+          />
+        </CardContent>
+      </Card>
+
+      <InvitationsCard />
+
+      <SecuritySettingsCard />
+
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New User</DialogTitle>
+            <DialogDescription>
+              Share the username and password with them; they can sign in straight away.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={createForm.handleSubmit((data) => createUserMutation.mutate(data))}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="user-username">Username</Label>
+                <Input id="user-username" {...createForm.register("username")} />
+                {createForm.formState.errors.username && (
+                  <p className="text-sm text-red-500">{createForm.formState.errors.username.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="user-name">Full Name</Label>
+                <Input id="user-name" {...createForm.register("name")} />
+                {createForm.formState.errors.name && (
+                  <p className="text-sm text-red-500">{createForm.formState.errors.name.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="user-email">Email</Label>
+                <Input id="user-email" type="email" {...createForm.register("email")} />
+                {createForm.formState.errors.email && (
+                  <p className="text-sm text-red-500">{createForm.formState.errors.email.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Controller
+                  control={createForm.control}
+                  name="role"
+                  render={({ field }) => <RoleSelect value={field.value} onChange={field.onChange} />}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="user-password">Password</Label>
+                <Input id="user-password" type="password" {...createForm.register("password")} />
+                {createForm.formState.errors.password && (
+                  <p className="text-sm text-red-500">{createForm.formState.errors.password.message}</p>
+                )}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createUserMutation.isPending}>
+                {createUserMutation.isPending ? "Creating..." : "Create User"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editingUser} onOpenChange={(open) => !open && setEditingUser(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit {editingUser?.name}</DialogTitle>
+            <DialogDescription>
+              Signed in as {editingUser?.username}. Changing the role changes what they see the next time a page loads.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={editForm.handleSubmit((data) => updateUserMutation.mutate(data))}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-user-name">Full Name</Label>
+                <Input id="edit-user-name" {...editForm.register("name")} />
+                {editForm.formState.errors.name && (
+                  <p className="text-sm text-red-500">{editForm.formState.errors.name.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-user-email">Email</Label>
+                <Input id="edit-user-email" type="email" {...editForm.register("email")} />
+                {editForm.formState.errors.email && (
+                  <p className="text-sm text-red-500">{editForm.formState.errors.email.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Controller
+                  control={editForm.control}
+                  name="role"
+                  render={({ field }) => <RoleSelect value={field.value} onChange={field.onChange} />}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditingUser(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={updateUserMutation.isPending}>
+                {updateUserMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!passwordUser} onOpenChange={(open) => !open && setPasswordUser(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              Set a new password for {passwordUser?.name}. Their current password stops working immediately and they are signed out everywhere.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 py-4">
+            <Label htmlFor="new-password">New Password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+            />
+            {newPassword && !passwordResult.success && (
+              <p className="text-sm text-red-500">{passwordResult.error.errors[0].message}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setPasswordUser(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => resetPasswordMutation.mutate()}
+              disabled={!passwordResult.success || resetPasswordMutation.isPending}
+            >
+              {resetPasswordMutation.isPending ? "Resetting..." : "Reset Password"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
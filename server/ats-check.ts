@@ -0,0 +1,95 @@
+import type { AtsFinding, ResumeStructure } from '@shared/schema';
+import { findSectionHeadings, type SectionName } from './resume-parser';
+import type { ExtractedResume } from './resume-files';
+
+// Below this many non-whitespace characters the text layer is probably partial or image-based
+const minTextCharacters = 300;
+const maxPages = 2;
+
+// Sections most applicant tracking systems look for by heading
+const requiredSections: { section: SectionName; label: string }[] = [
+  { section: 'experience', label: 'Experience' },
+  { section: 'education', label: 'Education' },
+  { section: 'skills', label: 'Skills' },
+];
+
+// U+FFFD replacement characters and private-use glyphs come from fonts the parser could not map to text
+const undecodablePattern = /[\uFFFD\uE000-\uF8FF]/g;
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+// Check an uploaded resume for problems an applicant tracking system would have reading it
+export function checkResumeAts(extracted: ExtractedResume, structure: ResumeStructure): AtsFinding[] {
+  const findings: AtsFinding[] = [];
+  const textLength = extracted.text.replace(/\s/g, '').length;
+
+  if (textLength === 0) {
+    // Nothing else can be judged without text
+    return [{
+      code: 'no_text',
+      severity: 'error',
+      message: 'No text could be extracted. The file is probably a scanned image without a text layer; ATS software will see an empty resume.',
+    }];
+  }
+
+  if (textLength < minTextCharacters) {
+    findings.push({
+      code: 'little_text',
+      severity: 'warning',
+      message: `Only ${textLength} characters of text were extracted. Parts of the resume may be images or text outlines that ATS software cannot read.`,
+    });
+  }
+
+  const headings = findSectionHeadings(extracted.text);
+  const missing = requiredSections.filter(({ section }) => !headings.includes(section));
+  if (missing.length > 0) {
+    findings.push({
+      code: 'missing_sections',
+      severity: 'warning',
+      message: `No standard heading found for ${missing.map(({ label }) => label).join(', ')}. ATS software relies on headings such as "Experience" to sort a resume into sections.`,
+    });
+  }
+
+  if (!structure.contact.email && !structure.contact.phone) {
+    findings.push({
+      code: 'contact_unparsed',
+      severity: 'warning',
+      message: 'No email address or phone number could be read. Contact details inside headers, text boxes or images are often lost.',
+    });
+  } else if (!structure.contact.email || !structure.contact.phone) {
+    findings.push({
+      code: 'contact_unparsed',
+      severity: 'warning',
+      message: `No ${structure.contact.email ? 'phone number' : 'email address'} could be read from the resume.`,
+    });
+  }
+
+  if (extracted.pageCount && extracted.pageCount > maxPages) {
+    findings.push({
+      code: 'too_many_pages',
+      severity: 'warning',
+      message: `The resume is ${extracted.pageCount} pages long. Keep it to ${maxPages} pages so the important parts are read.`,
+    });
+  }
+
+  if (extracted.strippedCharacters > 0) {
+    findings.push({
+      code: 'stripped_characters',
+      severity: 'warning',
+      message: `Removed ${pluralize(extracted.strippedCharacters, 'unusual control character')} from the extracted text. Check that words and bullets still read correctly.`,
+    });
+  }
+
+  const undecodable = extracted.text.match(undecodablePattern)?.length || 0;
+  if (undecodable > 0) {
+    findings.push({
+      code: 'undecodable_characters',
+      severity: 'warning',
+      message: `${pluralize(undecodable, 'character')} could not be decoded, usually icon fonts or special symbols. ATS software will show them as garbage or drop them.`,
+    });
+  }
+
+  return findings;
+}
@@ -0,0 +1,64 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import type { AuditAction, AuditEntityType, AuditLog, User } from "@shared/schema";
+
+// Never copied into audit records: secrets, file payloads, and resume text already kept in the resume versions
+const omittedFields = ["password", "token", "tokenHash", "totpSecret", "totpRecoveryCodes", "resumeBuffer", "resumeContent"];
+
+interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: number | null;
+  before?: object | null;
+  after?: object | null;
+  // Defaults to the signed-in user; set for registrations and failed logins
+  actorId?: number | null;
+}
+
+function toSnapshot(value: object | null | undefined): Record<string, unknown> | null {
+  if (!value) return null;
+  return Object.fromEntries(Object.entries(value).filter(([key]) => !omittedFields.includes(key)));
+}
+
+// Append an audit record for a mutation. A failed write is logged but never fails the request it records.
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<void> {
+  try {
+    await storage.createAuditLog({
+      actorId: entry.actorId !== undefined ? entry.actorId : req.user?.id ?? null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId ?? null,
+      before: toSnapshot(entry.before),
+      after: toSnapshot(entry.after),
+      ip: req.ip || null,
+    });
+  } catch (error) {
+    console.error('Error recording audit log:', error);
+  }
+}
+
+const csvColumns = ["Time", "User", "Action", "Entity", "Entity ID", "Before", "After", "IP"];
+
+// Quote a CSV field when it holds a separator, quote or line break. Fields that a spreadsheet would
+// run as a formula (names and audited values are user input) get a leading apostrophe so they show as text.
+function toCsvField(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Export audit records as CSV, newest first, with before/after as JSON
+export function formatAuditLogCsv(entries: AuditLog[], users: User[]): string {
+  const userNames = new Map(users.map(user => [user.id, user.name]));
+  const rows = entries.map(entry => [
+    entry.createdAt.toISOString(),
+    entry.actorId ? userNames.get(entry.actorId) || 'Unknown' : '',
+    entry.action,
+    entry.entityType,
+    entry.entityId?.toString() ?? '',
+    entry.before ? JSON.stringify(entry.before) : '',
+    entry.after ? JSON.stringify(entry.after) : '',
+    entry.ip ?? '',
+  ]);
+
+  return [csvColumns, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
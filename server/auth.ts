@@ -1,11 +1,15 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request, type Response, type NextFunction } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { recordAudit } from "./audit";
+import { mailTransport } from "./mail";
+import { generateTotpSecret, getTotpUri, verifyTotp, generateRecoveryCodes, hashRecoveryCode } from "./totp";
+import { generateQrCodeSvg } from "./qr-code";
+import { User as SelectUser, registerUserSchema, changePasswordSchema, forgotPasswordSchema, resetPasswordWithTokenSchema, twoFactorCodeSchema, type Invitation, type InvitationStatus, type SessionUser } from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -13,14 +17,138 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Set once the password is right for a user with two-factor sign-in, until they enter a code
+    twoFactorChallenge: { userId: number; expiresAt: number; attempts: number };
+    // Wrong codes entered while signed in, to turn off two-factor sign-in or replace recovery codes
+    twoFactorAttempts: number;
+    // The secret shown while enrolling, kept until the user confirms it with a code
+    pendingTotpSecret: string;
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+// Invitation and password reset tokens are stored hashed, so a leaked database row can't be used as a link
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
+// How long an invitation link can be used after it is sent or resent
+const invitationLifetimeMs = 1000 * 60 * 60 * 24 * 7; // 7 days
+
+const invalidInvitationMessage = "This invitation is invalid or has expired. Ask a manager to send a new one.";
+
+// A fresh single-use token and expiry, for new and resent invitations. Only the hash is stored;
+// the token itself is shown to the manager once, in the link they send.
+export function createInvitationToken() {
+  const token = randomBytes(32).toString("hex");
+  return {
+    token,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + invitationLifetimeMs),
+  };
+}
+
+export function getInvitationStatus(invitation: Invitation, now = new Date()): InvitationStatus {
+  if (invitation.acceptedAt) return "accepted";
+  if (invitation.revokedAt) return "revoked";
+  if (invitation.expiresAt <= now) return "expired";
+  return "pending";
+}
+
+// How long a password reset link can be used after it is emailed
+const passwordResetLifetimeMs = 1000 * 60 * 60; // 1 hour
+
+const invalidResetLinkMessage = "This reset link is invalid or has expired. Request a new one.";
+
+// Links in emails point here. It comes from configuration rather than the request's Host header,
+// which a client could set to send someone a reset link for another site. The local default only applies
+// outside production.
+if (process.env.NODE_ENV === "production" && !process.env.APP_URL) {
+  throw new Error("APP_URL must be set in production");
+}
+const appUrl = (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+
+
+async function sendPasswordResetEmail(user: SelectUser): Promise<void> {
+  const token = randomBytes(32).toString("hex");
+  await storage.createPasswordResetToken(user.id, hashToken(token), new Date(Date.now() + passwordResetLifetimeMs));
+
+  await mailTransport.send({
+    to: user.email,
+    subject: "Reset your Resume Manager password",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      `Someone asked to reset the password for your account, ${user.username}.`,
+      "Open this link within the next hour to choose a new password:",
+      "",
+      `${appUrl}/reset-password?token=${token}`,
+      "",
+      "If you didn't ask for this, you can ignore this email and your password won't change.",
+    ].join("\n"),
+  });
+}
+
+// Name authenticator apps show next to the account
+const twoFactorIssuer = "Resume Manager";
+
+// How long the code step of a sign-in stays open after the password, and how many wrong codes it allows
+const twoFactorChallengeLifetimeMs = 1000 * 60 * 5; // 5 minutes
+const maxTwoFactorAttempts = 5;
+
+// Signed-in users changing two-factor settings get as many wrong codes as sign-in allows, then are
+// signed out and have to enter their password again
+function rejectTwoFactorCode(req: Request, res: Response, next: NextFunction) {
+  const attempts = (req.session.twoFactorAttempts || 0) + 1;
+  if (attempts < maxTwoFactorAttempts) {
+    req.session.twoFactorAttempts = attempts;
+    return res.status(400).json({ message: "That code isn't right. Try again." });
+  }
+
+  const user = req.user!;
+  req.logout(async (err) => {
+    if (err) return next(err);
+    await recordAudit(req, { action: "logout", entityType: "user", entityId: user.id, actorId: user.id, after: { reason: "too_many_two_factor_attempts" } });
+    res.status(401).json({ message: "Too many incorrect codes. Sign in again." });
+  });
+}
+
+export async function isTwoFactorSetupRequired(user: SelectUser): Promise<boolean> {
+  if (user.totpSecret || user.role !== "manager") return false;
+  return (await storage.getSecuritySettings()).requireManagerTwoFactor;
+}
+
+export async function toSessionUser(user: SelectUser): Promise<SessionUser> {
+  const { password, totpSecret, totpRecoveryCodes, totpLastUsedStep, ...sessionUser } = user;
+  return {
+    ...sessionUser,
+    twoFactorEnabled: !!totpSecret,
+    twoFactorSetupRequired: await isTwoFactorSetupRequired(user),
+  };
+}
+
+// Check an authenticator code or an unused recovery code, recording the use so neither works twice
+async function verifySecondFactor(user: SelectUser, code: string): Promise<"totp" | "recovery_code" | undefined> {
+  if (!user.totpSecret) return undefined;
+
+  // The uses are conditional updates, so the same code sent twice at once is only accepted once
+  const step = verifyTotp(user.totpSecret, code, user.totpLastUsedStep);
+  if (step !== undefined) {
+    return (await storage.useTotpStep(user.id, step)) ? "totp" : undefined;
+  }
+
+  return (await storage.useRecoveryCode(user.id, hashRecoveryCode(code))) ? "recovery_code" : undefined;
+}
+
 async function comparePasswords(supplied: string, stored: string) {
   try {
     // Check for valid format
@@ -62,12 +190,31 @@ export function setupAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // A manager who is required to use two-factor sign-in can only reach the routes for setting it up
+  const twoFactorSetupPaths = ["/user", "/logout", "/2fa", "/2fa/setup", "/2fa/enable"];
+  app.use("/api", async (req, res, next) => {
+    if (!req.isAuthenticated() || twoFactorSetupPaths.includes(req.path)) return next();
+    try {
+      if (await isTwoFactorSetupRequired(req.user)) {
+        return res.status(403).json({
+          message: "Set up two-factor authentication to continue",
+          twoFactorSetupRequired: true
+        });
+      }
+      next();
+    } catch (err) {
+      next(err);
+    }
+  });
+
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       try {
         const user = await storage.getUserByUsername(username);
         if (!user || !(await comparePasswords(password, user.password))) {
           return done(null, false);
+        } else if (user.deactivatedAt) {
+          return done(null, false, { message: "This account has been deactivated" });
         } else {
           return done(null, user);
         }
@@ -80,49 +227,77 @@ export function setupAuth(app: Express) {
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: number, done) => {
     try {
+      // Deactivating a user ends the sessions they already have
       const user = await storage.getUser(id);
-      done(null, user);
+      done(null, user && !user.deactivatedAt ? user : false);
     } catch (err) {
       done(err);
     }
   });
 
-  // Registration route with enhanced validation
+  // Look up an invitation so the registration form can show who it is for
+  app.get("/api/invitations/token/:token", async (req, res) => {
+    const invitation = await storage.getInvitationByTokenHash(hashToken(req.params.token));
+    if (!invitation || getInvitationStatus(invitation) !== "pending") {
+      return res.status(404).json({ message: invalidInvitationMessage });
+    }
+    res.json({ email: invitation.email, role: invitation.role, expiresAt: invitation.expiresAt });
+  });
+
+  // Registration route; accounts can only be created from a manager's invitation
   app.post("/api/register", async (req, res, next) => {
     try {
-      console.log("Registration request:", { ...req.body, password: "[REDACTED]" });
+      console.log("Registration request:", { ...req.body, password: "[REDACTED]", token: "[REDACTED]" });
       
-      // Check for required fields
-      if (!req.body.username || !req.body.password || !req.body.name || !req.body.email || !req.body.role) {
-        return res.status(400).json({ message: "All fields are required" });
+      const validationResult = registerUserSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid registration data",
+          errors: validationResult.error.errors
+        });
+      }
+      const { token, ...registration } = validationResult.data;
+      
+      const invitation = await storage.getInvitationByTokenHash(hashToken(token));
+      if (!invitation || getInvitationStatus(invitation) !== "pending") {
+        return res.status(400).json({ message: invalidInvitationMessage });
       }
       
       // Check if user already exists
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const existingUser = await storage.getUserByUsername(registration.username);
       if (existingUser) {
         return res.status(400).json({ message: "Username already exists" });
       }
 
-      // Hash password and create user
-      const hashedPassword = await hashPassword(req.body.password);
+      // Hash password and create user; the email and role always come from the invitation
+      const hashedPassword = await hashPassword(registration.password);
       
       const userData = {
-        ...req.body,
+        ...registration,
         password: hashedPassword,
+        email: invitation.email,
+        role: invitation.role,
       };
       
       console.log("Creating user:", { ...userData, password: "[REDACTED]" });
       
-      const user = await storage.createUser(userData);
+      // The invitation is claimed together with creating the account, so it can only be used once
+      const accepted = await storage.acceptInvitation(invitation.id, userData);
+      if (!accepted) {
+        return res.status(400).json({ message: invalidInvitationMessage });
+      }
+      const { user } = accepted;
       console.log("User created successfully:", { id: user.id, username: user.username });
+      await recordAudit(req, { action: "create", entityType: "user", entityId: user.id, after: user, actorId: user.id });
+      await recordAudit(req, { action: "update", entityType: "invitation", entityId: invitation.id, before: invitation, after: accepted.invitation, actorId: user.id });
 
       // Log user in automatically
-      req.login(user, (err) => {
+      req.login(user, async (err) => {
         if (err) {
           console.error("Error logging in after registration:", err);
           return next(err);
         }
-        res.status(201).json(user);
+        res.status(201).json(await toSessionUser(user));
       });
     } catch (err) {
       console.error("Registration error:", err);
@@ -132,7 +307,7 @@ export function setupAuth(app: Express) {
 
   // Login route with better error handling
   app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err: Error | null, user: Express.User | false, info: { message: string } | undefined) => {
+    passport.authenticate("local", async (err: Error | null, user: Express.User | false, info: { message: string } | undefined) => {
       if (err) {
         console.error("Authentication error:", err);
         return next(err);
@@ -140,31 +315,291 @@ export function setupAuth(app: Express) {
       
       if (!user) {
         console.log("Login failed for username:", req.body.username);
-        return res.status(401).json({ message: "Invalid username or password" });
+        await recordAudit(req, { action: "login_failed", entityType: "user", after: { username: req.body.username }, actorId: null });
+        return res.status(401).json({ message: info?.message || "Invalid username or password" });
+      }
+      
+      // Users with two-factor sign-in aren't signed in until they also enter a code
+      if (user.totpSecret) {
+        req.session.twoFactorChallenge = {
+          userId: user.id,
+          expiresAt: Date.now() + twoFactorChallengeLifetimeMs,
+          attempts: 0,
+        };
+        return res.status(200).json({ twoFactorRequired: true });
       }
       
-      req.login(user, (loginErr: Error | null) => {
+      req.login(user, async (loginErr: Error | null) => {
         if (loginErr) {
           console.error("Login session error:", loginErr);
           return next(loginErr);
         }
-        return res.status(200).json(user);
+        await recordAudit(req, { action: "login", entityType: "user", entityId: user.id });
+        return res.status(200).json(await toSessionUser(user));
       });
     })(req, res, next);
   });
 
+  // Second step of signing in for users with two-factor sign-in
+  app.post("/api/login/2fa", async (req, res, next) => {
+    try {
+      const challenge = req.session.twoFactorChallenge;
+      const user = challenge && challenge.expiresAt > Date.now() ? await storage.getUser(challenge.userId) : undefined;
+      if (!challenge || !user || user.deactivatedAt || !user.totpSecret) {
+        delete req.session.twoFactorChallenge;
+        return res.status(401).json({ message: "Your sign-in has expired. Enter your password again.", challengeExpired: true });
+      }
+
+      const validationResult = twoFactorCodeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid code",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const method = await verifySecondFactor(user, validationResult.data.code);
+      if (!method) {
+        challenge.attempts++;
+        await recordAudit(req, { action: "login_failed", entityType: "user", entityId: user.id, after: { username: user.username, step: "two_factor" }, actorId: null });
+        if (challenge.attempts >= maxTwoFactorAttempts) {
+          delete req.session.twoFactorChallenge;
+          return res.status(401).json({ message: "Too many incorrect codes. Enter your password again.", challengeExpired: true });
+        }
+        return res.status(401).json({ message: "That code isn't right. Try again." });
+      }
+
+      req.login(user, async (loginErr: Error | null) => {
+        if (loginErr) {
+          console.error("Login session error:", loginErr);
+          return next(loginErr);
+        }
+        await recordAudit(req, { action: "login", entityType: "user", entityId: user.id, after: { secondFactor: method } });
+        return res.status(200).json(await toSessionUser(user));
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
   // Logout route
   app.post("/api/logout", (req, res, next) => {
-    req.logout((err) => {
+    const user = req.user;
+    req.logout(async (err) => {
       if (err) return next(err);
+      if (user) {
+        await recordAudit(req, { action: "logout", entityType: "user", entityId: user.id, actorId: user.id });
+      }
       res.sendStatus(200);
     });
   });
 
+  // Email a reset link to every active account with this address. The reply is the same whether or not
+  // any account matched, so the form can't be used to find out who has an account.
+  app.post("/api/forgot-password", async (req, res, next) => {
+    try {
+      const validationResult = forgotPasswordSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid email address",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const email = validationResult.data.email.toLowerCase();
+      const matchingUsers = (await storage.getUsers())
+        .filter(user => !user.deactivatedAt && user.email.toLowerCase() === email);
+
+      // Reply before sending so the response time doesn't reveal whether the email has an account
+      res.json({ message: "If an account uses that email, a reset link is on its way." });
+
+      for (const user of matchingUsers) {
+        sendPasswordResetEmail(user).catch(error => {
+          console.error("Error sending password reset email:", error);
+        });
+      }
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Set a new password from an emailed link and sign the user out of every session
+  app.post("/api/reset-password", async (req, res, next) => {
+    try {
+      const validationResult = resetPasswordWithTokenSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid password",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const resetToken = await storage.getPasswordResetToken(hashToken(validationResult.data.token));
+      const user = resetToken && await storage.getUser(resetToken.userId);
+      if (!resetToken || !user || user.deactivatedAt || !(await storage.usePasswordResetToken(resetToken.id))) {
+        return res.status(400).json({ message: invalidResetLinkMessage });
+      }
+
+      await storage.updateUser(user.id, { password: await hashPassword(validationResult.data.password) });
+      await storage.destroyUserSessions(user.id);
+      await recordAudit(req, { action: "reset_password", entityType: "user", entityId: user.id, actorId: user.id });
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Change the signed-in user's password; their other sessions are signed out
+  app.post("/api/change-password", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+
+      const validationResult = changePasswordSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid password",
+          errors: validationResult.error.errors
+        });
+      }
+
+      if (!(await comparePasswords(validationResult.data.currentPassword, req.user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      await storage.updateUser(req.user.id, { password: await hashPassword(validationResult.data.password) });
+      await storage.destroyUserSessions(req.user.id, req.sessionID);
+      await recordAudit(req, { action: "change_password", entityType: "user", entityId: req.user.id });
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Two-factor status for the signed-in user
+  app.get("/api/2fa", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    res.json({
+      enabled: !!req.user.totpSecret,
+      enabledAt: req.user.totpEnabledAt,
+      recoveryCodesRemaining: req.user.totpRecoveryCodes?.length ?? 0,
+      required: req.user.role === "manager" && (await storage.getSecuritySettings()).requireManagerTwoFactor,
+    });
+  });
+
+  // Start enrolling: a new secret, shown as a QR code, that only takes effect once a code from it is entered
+  app.post("/api/2fa/setup", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.totpSecret) {
+      return res.status(400).json({ message: "Two-factor authentication is already on" });
+    }
+
+    const secret = generateTotpSecret();
+    req.session.pendingTotpSecret = secret;
+    const otpauthUrl = getTotpUri(secret, req.user.username, twoFactorIssuer);
+    res.json({ secret, otpauthUrl, qrCodeSvg: generateQrCodeSvg(otpauthUrl) });
+  });
+
+  app.post("/api/2fa/enable", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+
+      const validationResult = twoFactorCodeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid code",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const secret = req.session.pendingTotpSecret;
+      if (!secret) {
+        return res.status(400).json({ message: "Start setting up two-factor authentication again" });
+      }
+      const step = verifyTotp(secret, validationResult.data.code);
+      if (step === undefined) {
+        return res.status(400).json({ message: "That code isn't right. Check your authenticator app and try again." });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      const user = await storage.updateUserTwoFactor(req.user.id, {
+        totpSecret: secret,
+        totpEnabledAt: new Date(),
+        totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+        totpLastUsedStep: step,
+      });
+      delete req.session.pendingTotpSecret;
+
+      await recordAudit(req, { action: "enable_two_factor", entityType: "user", entityId: req.user.id });
+      res.json({ recoveryCodes, user: user && await toSessionUser(user) });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/2fa/disable", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+
+      const validationResult = twoFactorCodeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid code",
+          errors: validationResult.error.errors
+        });
+      }
+
+      if (req.user.role === "manager" && (await storage.getSecuritySettings()).requireManagerTwoFactor) {
+        return res.status(400).json({ message: "Two-factor authentication is required for managers" });
+      }
+      if (!(await verifySecondFactor(req.user, validationResult.data.code))) {
+        return rejectTwoFactorCode(req, res, next);
+      }
+      delete req.session.twoFactorAttempts;
+
+      await storage.updateUserTwoFactor(req.user.id, {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpRecoveryCodes: null,
+        totpLastUsedStep: null,
+      });
+      await recordAudit(req, { action: "disable_two_factor", entityType: "user", entityId: req.user.id });
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Replace all recovery codes, e.g. after using several of them
+  app.post("/api/2fa/recovery-codes", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+
+      const validationResult = twoFactorCodeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid code",
+          errors: validationResult.error.errors
+        });
+      }
+
+      if (!(await verifySecondFactor(req.user, validationResult.data.code))) {
+        return rejectTwoFactorCode(req, res, next);
+      }
+      delete req.session.twoFactorAttempts;
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUserTwoFactor(req.user.id, { totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+      await recordAudit(req, { action: "regenerate_recovery_codes", entityType: "user", entityId: req.user.id });
+      res.json({ recoveryCodes });
+    } catch (err) {
+      next(err);
+    }
+  });
+
   // Current user route
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(await toSessionUser(req.user));
   });
 }
 const sessionSecret = process.env.SESSION_SECRET || randomBytes(32).toString('hex');
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { Document, Packer, Paragraph, TextRun } from 'docx';
+import { format } from 'date-fns';
+import type { CoverLetterPlaceholder, ResumeStructure } from '@shared/schema';
+
+export type CoverLetterJob = {
+  company: string;
+  jobTitle: string;
+};
+
+const placeholderPattern = /\{\{\s*([A-Za-z]+)\s*\}\}/g;
+
+const maxTopSkills = 5;
+
+// Join items as "A, B and C"
+function formatList(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+// Whole years from the earliest start date on the resume until now
+export function estimateYearsOfExperience(structure: ResumeStructure, now = new Date()): number | null {
+  const startYears = structure.experience
+    .map(job => job.startDate.match(/\b(19|20)\d{2}\b/)?.[0])
+    .filter((year): year is string => !!year)
+    .map(Number);
+  if (startYears.length === 0) return null;
+
+  return Math.max(0, now.getFullYear() - Math.min(...startYears));
+}
+
+// Values for each placeholder, from the profile's structured resume and the job applied to
+export function getCoverLetterValues(
+  structure: ResumeStructure,
+  job: CoverLetterJob,
+  fallbackName: string
+): Record<CoverLetterPlaceholder, string> {
+  const years = estimateYearsOfExperience(structure);
+
+  return {
+    name: structure.contact.name || fallbackName,
+    headline: structure.contact.headline,
+    topSkills: formatList(structure.skills.slice(0, maxTopSkills)),
+    yearsOfExperience: years === null ? '' : String(years),
+    company: job.company,
+    jobTitle: job.jobTitle,
+    date: format(new Date(), 'MMMM d, yyyy'),
+  };
+}
+
+// Replace {{placeholders}} in the template; unknown placeholders are left for the writer to notice
+export function fillCoverLetterTemplate(body: string, values: Record<CoverLetterPlaceholder, string>): string {
+  return body.replace(placeholderPattern, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key) ? values[key as CoverLetterPlaceholder] : match
+  );
+}
+
+// Lay out a filled cover letter as a Word document, one paragraph per line
+export async function generateCoverLetterDocx(content: string, title: string): Promise<Buffer> {
+  const doc = new Document({
+    creator: "Resume Management System",
+    title,
+    sections: [{
+      children: content.split(/\r?\n/).map(line => new Paragraph({
+        spacing: { after: 120 },
+        children: [new TextRun({ text: line, size: 22 })],
+      })),
+    }],
+  });
+
+  return await Packer.toBuffer(doc);
+}
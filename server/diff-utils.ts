@@ -0,0 +1,48 @@
+export type DiffLine = {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+};
+
+// Line diff of two texts based on their longest common subsequence of lines
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i] });
+      i++;
+    } else {
+      result.push({ type: 'added', text: b[j] });
+      j++;
+    }
+  }
+
+  while (i < a.length) {
+    result.push({ type: 'removed', text: a[i++] });
+  }
+
+  while (j < b.length) {
+    result.push({ type: 'added', text: b[j++] });
+  }
+
+  return result;
+}
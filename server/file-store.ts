@@ -0,0 +1,184 @@
+import { createHash, createHmac } from 'crypto';
+import { mkdir, readFile, writeFile, unlink, access } from 'fs/promises';
+import path from 'path';
+
+// Storage for uploaded files such as resumes, addressed by key
+export interface FileStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+// Keys end up in file paths and URLs, so only allow plain names
+function assertValidKey(key: string) {
+  if (!/^[A-Za-z0-9._-]+$/.test(key) || key.startsWith('.')) {
+    throw new Error(`Invalid file key: ${key}`);
+  }
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+// Stores files on local disk, sharded into folders by the first characters of the key
+export class LocalFileStore implements FileStore {
+  constructor(private rootDir: string) {}
+
+  private filePath(key: string): string {
+    assertValidKey(key);
+    return path.join(this.rootDir, key.slice(0, 2), key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.filePath(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await readFile(this.filePath(key));
+    } catch (error) {
+      if (isMissingFileError(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await access(this.filePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.filePath(key));
+    } catch (error) {
+      if (!isMissingFileError(error)) throw error;
+    }
+  }
+}
+
+export interface S3FileStoreConfig {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000 for MinIO
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// Stores files in an S3-compatible bucket using path-style requests signed with AWS Signature V4,
+// which AWS S3 and local stand-ins such as MinIO both accept
+export class S3FileStore implements FileStore {
+  constructor(private config: S3FileStoreConfig) {}
+
+  private async request(method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    assertValidKey(key);
+    const url = new URL(`${this.config.endpoint.replace(/\/$/, '')}/${this.config.bucket}/${key}`);
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body || '');
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const signedHeaders = Object.keys(headers).sort().join(';');
+    const canonicalHeaders = Object.keys(headers).sort().map(name => `${name}:${headers[name]}\n`).join('');
+
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return fetch(url, {
+      method,
+      headers: {
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        ...(contentType ? { 'Content-Type': contentType } : {}),
+      },
+      body,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const res = await this.request('PUT', key, data, contentType);
+    if (!res.ok) {
+      throw new Error(`Failed to store file ${key}: ${res.status} ${await res.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    const res = await this.request('GET', key);
+    if (res.status === 404) return undefined;
+    if (!res.ok) {
+      throw new Error(`Failed to read file ${key}: ${res.status} ${await res.text()}`);
+    }
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const res = await this.request('HEAD', key);
+    if (res.status === 404) return false;
+    if (!res.ok) {
+      throw new Error(`Failed to check file ${key}: ${res.status}`);
+    }
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    const res = await this.request('DELETE', key);
+    if (!res.ok && res.status !== 404) {
+      throw new Error(`Failed to delete file ${key}: ${res.status} ${await res.text()}`);
+    }
+  }
+}
+
+// Pick the driver from FILE_STORE_DRIVER ("local" by default, or "s3")
+export function createFileStore(): FileStore {
+  if (process.env.FILE_STORE_DRIVER === 's3') {
+    const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set for the s3 file store');
+    }
+
+    return new S3FileStore({
+      endpoint: S3_ENDPOINT,
+      bucket: S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+    });
+  }
+
+  return new LocalFileStore(process.env.FILE_STORE_DIR || path.resolve(process.cwd(), 'uploads'));
+}
+
+export const fileStore = createFileStore();
+
+// Store a file under the SHA-256 hash of its content so identical uploads share one object
+export async function storeFileByHash(data: Buffer, contentType: string): Promise<string> {
+  const key = sha256Hex(data);
+  if (!(await fileStore.exists(key))) {
+    await fileStore.put(key, data, contentType);
+  }
+  return key;
+}
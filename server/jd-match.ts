@@ -0,0 +1,147 @@
+import type { JobMatchDetails } from '@shared/schema';
+import { findSkillMentions, normalizeSkill } from './resume-parser';
+
+export type JobMatchHighlight = {
+  text: string;
+  matched: boolean; // Whether the resume contains this part of the job description
+};
+
+export type JobMatchResult = {
+  score: number;
+  details: JobMatchDetails;
+  highlights: JobMatchHighlight[];
+};
+
+// Common English words and job-ad filler that say nothing about fit
+const stopWords = new Set([
+  'a', 'about', 'above', 'across', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been',
+  'being', 'both', 'but', 'by', 'can', 'could', 'do', 'does', 'each', 'etc', 'for', 'from', 'has', 'have', 'he',
+  'her', 'his', 'how', 'if', 'in', 'into', 'is', 'it', 'its', 'may', 'more', 'most', 'not', 'of', 'on', 'or',
+  'other', 'our', 'out', 'over', 'per', 'she', 'should', 'so', 'such', 'than', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'up', 'us', 'very', 'was', 'we', 'well',
+  'were', 'what', 'when', 'where', 'which', 'while', 'who', 'will', 'with', 'within', 'would', 'you', 'your',
+  'ability', 'able', 'benefits', 'candidate', 'candidates', 'company', 'environment', 'excellent', 'experience',
+  'good', 'great', 'help', 'ideal', 'including', 'join', 'job', 'knowledge', 'looking', 'minimum', 'must',
+  'new', 'nice', 'opportunity', 'plus', 'position', 'preferred', 'required', 'requirements', 'responsibilities',
+  'role', 'salary', 'skills', 'strong', 'team', 'using', 'work', 'working', 'year', 'years',
+]);
+
+// Lines that state hard requirements rather than nice-to-haves
+const mustHavePattern = /\b(must|required|requirements?|mandatory|minimum|essential)\b/i;
+
+const wordPattern = /[A-Za-z][A-Za-z0-9+#.]*[A-Za-z0-9+#]|[A-Za-z]/g;
+
+const maxKeywords = 25;
+
+// Reduce a word to a rough stem so "developing" matches "developed"
+function stem(word: string): string {
+  const lower = word.toLowerCase();
+  if (lower.length <= 4) return lower;
+  return lower.replace(/ies$/, 'y').replace(/(ing|ed|es|s)$/, '');
+}
+
+function isKeyword(word: string): boolean {
+  const lower = word.toLowerCase();
+  return lower.length >= 3 && !stopWords.has(lower);
+}
+
+function toKeywordStems(text: string): Set<string> {
+  return new Set((text.match(wordPattern) || []).filter(isKeyword).map(stem));
+}
+
+// The job description's most frequent keywords, in order of first appearance for ties
+function topKeywords(text: string): string[] {
+  const counts = new Map<string, { word: string; count: number }>();
+  for (const word of text.match(wordPattern) || []) {
+    if (!isKeyword(word)) continue;
+    const key = stem(word);
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { word: word.toLowerCase(), count: 1 });
+  }
+
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, maxKeywords)
+    .map(entry => entry.word);
+}
+
+// Split the job description into matched and unmatched runs of text
+function highlightMatches(jobDescription: string, resumeStems: Set<string>): JobMatchHighlight[] {
+  const highlights: JobMatchHighlight[] = [];
+  let lastIndex = 0;
+
+  const push = (text: string, matched: boolean) => {
+    const previous = highlights[highlights.length - 1];
+    if (previous && previous.matched === matched) previous.text += text;
+    else highlights.push({ text, matched });
+  };
+
+  for (const match of Array.from(jobDescription.matchAll(wordPattern))) {
+    push(jobDescription.slice(lastIndex, match.index), false);
+    push(match[0], isKeyword(match[0]) && resumeStems.has(stem(match[0])));
+    lastIndex = match.index! + match[0].length;
+  }
+  push(jobDescription.slice(lastIndex), false);
+
+  return highlights.filter(highlight => highlight.text);
+}
+
+// Score how well a resume covers a job description, from 0 to 100.
+// Skills carry half the weight, keyword overlap 30% and must-have requirements 20%;
+// parts the job description gives nothing to measure on are left out of the weighting.
+export function scoreJobDescription(jobDescription: string, resumeContent: string, resumeSkills: string[] = []): JobMatchResult {
+  const resumeStems = toKeywordStems(resumeContent);
+  const knownResumeSkills = new Set(
+    [...findSkillMentions(resumeContent), ...resumeSkills.map(normalizeSkill)].map(skill => skill.toLowerCase())
+  );
+  const hasTerm = (term: string) => {
+    if (knownResumeSkills.has(term.toLowerCase())) return true;
+    const words = (term.match(wordPattern) || []).filter(isKeyword);
+    return words.length > 0 && words.every(word => resumeStems.has(stem(word)));
+  };
+
+  const jobSkills = findSkillMentions(jobDescription);
+  const matchedSkills = jobSkills.filter(hasTerm);
+  const missingSkills = jobSkills.filter(skill => !hasTerm(skill));
+
+  const keywords = topKeywords(jobDescription);
+  const matchedKeywords = keywords.filter(word => resumeStems.has(stem(word)));
+  const missingKeywords = keywords.filter(word => !resumeStems.has(stem(word)));
+
+  // Skills and keywords named on requirement lines, or listed under a "Requirements:" heading
+  const mustHaveTerms = new Set<string>();
+  let inRequirementList = false;
+  for (const line of jobDescription.split(/\r?\n|(?<=[.;])\s+/)) {
+    const isHeading = /:\s*$/.test(line);
+    if (isHeading || !line.trim()) {
+      inRequirementList = isHeading && mustHavePattern.test(line);
+      continue;
+    }
+    if (!inRequirementList && !mustHavePattern.test(line)) continue;
+
+    findSkillMentions(line).forEach(skill => mustHaveTerms.add(skill));
+    (line.match(wordPattern) || [])
+      .filter(word => isKeyword(word) && !findSkillMentions(word).length)
+      .forEach(word => mustHaveTerms.add(word.toLowerCase()));
+  }
+  const mustHaves = Array.from(mustHaveTerms);
+  const missingMustHaves = mustHaves.filter(term => !hasTerm(term));
+
+  const parts = [
+    { weight: 0.5, total: jobSkills.length, matched: matchedSkills.length },
+    { weight: 0.3, total: keywords.length, matched: matchedKeywords.length },
+    { weight: 0.2, total: mustHaves.length, matched: mustHaves.length - missingMustHaves.length },
+  ].filter(part => part.total > 0);
+
+  const totalWeight = parts.reduce((sum, part) => sum + part.weight, 0);
+  const score = totalWeight > 0
+    ? Math.round(100 * parts.reduce((sum, part) => sum + part.weight * (part.matched / part.total), 0) / totalWeight)
+    : 0;
+
+  return {
+    score,
+    details: { matchedSkills, missingSkills, matchedKeywords, missingKeywords, missingMustHaves },
+    highlights: highlightMatches(jobDescription, resumeStems),
+  };
+}
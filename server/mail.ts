@@ -0,0 +1,128 @@
+import { randomBytes } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer, { type Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Delivers outgoing email such as password reset links
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Header values can't carry line breaks, and non-ASCII text needs encoded words
+function encodeHeader(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine, 'utf8').toString('base64')}?=`;
+}
+
+function getAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+// A plain-text RFC 5322 message with CRLF line endings
+function formatMessage(from: string, message: MailMessage): string {
+  const domain = getAddress(from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${encodeHeader(from)}`,
+    `To: ${encodeHeader(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  return [...headers, '', ...message.text.split(/\r?\n/)].join('\r\n') + '\r\n';
+}
+
+// Writes each message to an .eml file and logs where it went, so mail can be read without a mail server
+export class FileMailTransport implements MailTransport {
+  constructor(private outDir: string, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.outDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomBytes(4).toString('hex')}.eml`;
+    const filePath = path.join(this.outDir, fileName);
+    await writeFile(filePath, formatMessage(this.from, message));
+    console.log(`Mail to ${message.to} ("${message.subject}") written to ${filePath}`);
+  }
+}
+
+export interface SmtpMailTransportConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (usually port 465); otherwise STARTTLS, which is required when a user is set
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+// Sends mail through an SMTP relay. Credentials only go over TLS: when a user is set on a
+// connection that doesn't start with TLS, the relay must accept STARTTLS or sending fails.
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(private config: SmtpMailTransportConfig) {
+    const { host, port, secure, user, password } = config;
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      requireTLS: !!user,
+      auth: user ? { user, pass: password || '' } : undefined,
+      connectionTimeout: 30000,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.config.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+// Pick the transport from MAIL_TRANSPORT ("file" by default, or "smtp"). Production must choose one,
+// so a missing setting can't quietly leave password reset emails in a local folder.
+export function createMailTransport(): MailTransport {
+  if (process.env.NODE_ENV === 'production' && !process.env.MAIL_TRANSPORT) {
+    throw new Error('MAIL_TRANSPORT must be set in production ("smtp" or "file")');
+  }
+
+  const from = process.env.MAIL_FROM || 'Resume Manager <no-reply@localhost>';
+
+  if (process.env.MAIL_TRANSPORT === 'smtp') {
+    const { SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD } = process.env;
+    if (!SMTP_HOST) {
+      throw new Error('SMTP_HOST must be set for the smtp mail transport');
+    }
+
+    const secure = SMTP_SECURE === 'true';
+    return new SmtpMailTransport({
+      host: SMTP_HOST,
+      port: SMTP_PORT ? Number(SMTP_PORT) : secure ? 465 : 587,
+      secure,
+      user: SMTP_USER,
+      password: SMTP_PASSWORD,
+      from,
+    });
+  }
+
+  if (process.env.MAIL_TRANSPORT && process.env.MAIL_TRANSPORT !== 'file') {
+    throw new Error(`Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}"`);
+  }
+
+  return new FileMailTransport(process.env.MAIL_DIR || path.resolve(process.cwd(), 'outbox'), from);
+}
+
+export const mailTransport = createMailTransport();
@@ -0,0 +1,54 @@
+// Moves legacy base64 resumes out of the database into the file store.
+// Run with `npm run migrate:resume-files` after `npm run db:push` has added the resume_file_hash columns.
+// Rows are migrated one at a time, so the command can safely be re-run if it is interrupted.
+import { drizzle } from "drizzle-orm/node-postgres";
+import { and, eq, isNotNull } from "drizzle-orm";
+import pg from "pg";
+import { profiles, profileResumeVersions, resumeVariants } from "@shared/schema";
+import { base64ToBuffer } from "./pdf-utils";
+import { storeFileByHash } from "./file-store";
+
+const pool = new pg.Pool({
+  connectionString: process.env.DATABASE_URL,
+});
+const db = drizzle(pool);
+
+// Every table that used to keep resume binaries in a resume_buffer column
+const tables = [
+  { name: "profiles", table: profiles },
+  { name: "profile_resume_versions", table: profileResumeVersions },
+  { name: "resume_variants", table: resumeVariants },
+];
+
+async function migrate() {
+  for (const { name, table } of tables) {
+    const rows = await db.select({ id: table.id, resumeBuffer: table.resumeBuffer })
+      .from(table)
+      .where(isNotNull(table.resumeBuffer));
+
+    let moved = 0;
+    for (const row of rows) {
+      const buffer = base64ToBuffer(row.resumeBuffer!);
+      if (buffer.length === 0) {
+        console.warn(`Skipping ${name} #${row.id}: resume data could not be decoded`);
+        continue;
+      }
+
+      const resumeFileHash = await storeFileByHash(buffer, 'application/pdf');
+      await db.update(table)
+        .set({ resumeFileHash, resumeBuffer: null })
+        .where(and(eq(table.id, row.id), isNotNull(table.resumeBuffer)));
+      moved++;
+    }
+
+    console.log(`${name}: moved ${moved} of ${rows.length} resumes to the file store`);
+  }
+}
+
+migrate()
+  .then(() => pool.end())
+  .catch(async (error) => {
+    console.error('Resume file migration failed:', error);
+    await pool.end();
+    process.exit(1);
+  });
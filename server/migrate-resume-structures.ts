@@ -0,0 +1,35 @@
+// Parses the resume text of profiles saved before structured parsing into sections and skills.
+// Run with `npm run migrate:resume-structures` after `npm run db:push` has added the resume_structure column.
+// Rows are updated one at a time, so the command can safely be re-run if it is interrupted.
+import { drizzle } from "drizzle-orm/node-postgres";
+import { and, eq, isNotNull, isNull } from "drizzle-orm";
+import pg from "pg";
+import { profiles } from "@shared/schema";
+import { parseResumeStructure } from "./resume-parser";
+
+const pool = new pg.Pool({
+  connectionString: process.env.DATABASE_URL,
+});
+const db = drizzle(pool);
+
+async function migrate() {
+  const rows = await db.select({ id: profiles.id, resumeContent: profiles.resumeContent })
+    .from(profiles)
+    .where(and(isNull(profiles.resumeStructure), isNotNull(profiles.resumeContent)));
+
+  for (const row of rows) {
+    await db.update(profiles)
+      .set({ resumeStructure: parseResumeStructure(row.resumeContent!) })
+      .where(and(eq(profiles.id, row.id), isNull(profiles.resumeStructure)));
+  }
+
+  console.log(`profiles: parsed ${rows.length} resumes into sections and skills`);
+}
+
+migrate()
+  .then(() => pool.end())
+  .catch(async (error) => {
+    console.error('Resume structure migration failed:', error);
+    await pool.end();
+    process.exit(1);
+  });
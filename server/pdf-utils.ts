@@ -1,22 +1,38 @@
 import { readFile } from 'fs/promises';
 import pdfParse from 'pdf-parse/lib/pdf-parse.js';
 
-export async function parsePdfBuffer(buffer: Buffer): Promise<string> {
+export type ParsedPdf = {
+  text: string;
+  pageCount: number;
+  strippedCharacters: number; // Characters removed by sanitizing the extracted text
+};
+
+export async function parsePdfDocument(buffer: Buffer): Promise<ParsedPdf> {
   try {
     const data = await pdfParse(buffer);
+    const rawText = data.text || '';
     // Sanitize text by removing null bytes and other problematic characters 
     // that can cause UTF-8 encoding issues
-    const sanitizedText = (data.text || '')
+    const sanitizedText = rawText
       .replace(/\0/g, '') // Remove null bytes
       .replace(/[\x00-\x09\x0B\x0C\x0E-\x1F\x7F]/g, ''); // Remove other control characters
     
-    return sanitizedText;
+    return {
+      text: sanitizedText,
+      pageCount: data.numpages,
+      strippedCharacters: rawText.length - sanitizedText.length,
+    };
   } catch (error) {
     console.error('Error parsing PDF:', error);
     throw new Error('Failed to parse PDF');
   }
 }
 
+export async function parsePdfBuffer(buffer: Buffer): Promise<string> {
+  const { text } = await parsePdfDocument(buffer);
+  return text;
+}
+
 export async function parsePdfFile(filePath: string): Promise<string> {
   try {
     const buffer = await readFile(filePath);
@@ -0,0 +1,95 @@
+import type { Profile, ProfileSearchResult, SearchSnippetSegment } from '@shared/schema';
+
+// Markers ts_headline puts around matched terms; mathematical brackets do not occur in resume text
+const startMarker = '\u27E6';
+const stopMarker = '\u27E7';
+
+export const headlineOptions = `StartSel=${startMarker}, StopSel=${stopMarker}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" ... "`;
+
+export const maxSearchResults = 50;
+
+// Words around the first match in an in-memory snippet
+const snippetRadius = 15;
+
+// Split a ts_headline result into plain and matched runs of text
+export function parseHeadline(headline: string): SearchSnippetSegment[] {
+  const segments: SearchSnippetSegment[] = [];
+  const pattern = new RegExp(`${startMarker}([^${stopMarker}]*)${stopMarker}`, 'g');
+  let lastIndex = 0;
+
+  for (const match of Array.from(headline.matchAll(pattern))) {
+    if (match.index! > lastIndex) {
+      segments.push({ text: headline.slice(lastIndex, match.index), matched: false });
+    }
+    segments.push({ text: match[1], matched: true });
+    lastIndex = match.index! + match[0].length;
+  }
+  if (lastIndex < headline.length) {
+    segments.push({ text: headline.slice(lastIndex), matched: false });
+  }
+
+  return segments;
+}
+
+// Search terms from a web-style query; quoted phrases are split into words and "-term" excludes profiles
+function parseQuery(query: string): { include: string[]; exclude: string[] } {
+  const include: string[] = [];
+  const exclude: string[] = [];
+  for (const token of query.toLowerCase().match(/-?[a-z0-9][a-z0-9+#.]*/g) || []) {
+    if (token === 'or' || token === 'and') continue;
+    if (token.startsWith('-')) exclude.push(token.slice(1));
+    else include.push(token.replace(/\.$/, ''));
+  }
+  return { include, exclude };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Words starting with one of the terms, a rough stand-in for PostgreSQL's stemming
+function termPattern(terms: string[]): RegExp {
+  return new RegExp(`(?<![a-z0-9])(?:${terms.map(escapeRegExp).join('|')})[a-z0-9]*`, 'gi');
+}
+
+function countMatches(text: string | null, term: string): number {
+  return text ? (text.match(termPattern([term])) || []).length : 0;
+}
+
+// A window of words around the first match, marked up like a ts_headline result
+function buildSnippet(text: string, terms: string[]): SearchSnippetSegment[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const pattern = termPattern(terms);
+  const firstMatch = Math.max(0, words.findIndex(word => word.search(pattern) !== -1));
+  const window = words.slice(Math.max(0, firstMatch - snippetRadius), firstMatch + snippetRadius).join(' ');
+
+  return parseHeadline(window.replace(pattern, match => `${startMarker}${match}${stopMarker}`));
+}
+
+// Rank profiles for MemStorage the way the PostgreSQL search does: every term must appear,
+// and matches in the name count more than in the description, which count more than in the resume
+export function searchProfilesInMemory(profiles: Profile[], query: string): ProfileSearchResult[] {
+  const { include, exclude } = parseQuery(query);
+  if (include.length === 0) return [];
+
+  return profiles
+    .map(profile => {
+      const fields = [profile.name, profile.description, profile.resumeContent];
+      const matchesAll = include.every(term => fields.some(field => countMatches(field, term) > 0));
+      const excluded = exclude.some(term => fields.some(field => countMatches(field, term) > 0));
+      if (!matchesAll || excluded) return undefined;
+
+      const rank = include.reduce((sum, term) =>
+        sum + 1.0 * countMatches(profile.name, term) + 0.4 * countMatches(profile.description, term) +
+          0.2 * countMatches(profile.resumeContent, term), 0);
+
+      return {
+        profile,
+        rank,
+        snippet: buildSnippet([profile.description, profile.resumeContent].filter(Boolean).join('\n'), include),
+      };
+    })
+    .filter((result): result is ProfileSearchResult => !!result)
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, maxSearchResults);
+}
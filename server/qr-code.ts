@@ -0,0 +1,336 @@
+// A small QR code encoder for short text such as otpauth:// links: byte mode, error correction level M,
+// versions 1-10 (up to 213 bytes). Follows ISO/IEC 18004; the layout steps mirror the reference encoder.
+
+interface VersionSpec {
+  ecCodewordsPerBlock: number;
+  blocks: [count: number, dataCodewords: number][];
+  alignmentPositions: number[];
+}
+
+// Level M block structure for each version
+const versions: VersionSpec[] = [
+  { ecCodewordsPerBlock: 10, blocks: [[1, 16]], alignmentPositions: [] },
+  { ecCodewordsPerBlock: 16, blocks: [[1, 28]], alignmentPositions: [6, 18] },
+  { ecCodewordsPerBlock: 26, blocks: [[1, 44]], alignmentPositions: [6, 22] },
+  { ecCodewordsPerBlock: 18, blocks: [[2, 32]], alignmentPositions: [6, 26] },
+  { ecCodewordsPerBlock: 24, blocks: [[2, 43]], alignmentPositions: [6, 30] },
+  { ecCodewordsPerBlock: 16, blocks: [[4, 27]], alignmentPositions: [6, 34] },
+  { ecCodewordsPerBlock: 18, blocks: [[4, 31]], alignmentPositions: [6, 22, 38] },
+  { ecCodewordsPerBlock: 22, blocks: [[2, 38], [2, 39]], alignmentPositions: [6, 24, 42] },
+  { ecCodewordsPerBlock: 22, blocks: [[3, 36], [2, 37]], alignmentPositions: [6, 26, 46] },
+  { ecCodewordsPerBlock: 26, blocks: [[4, 43], [1, 44]], alignmentPositions: [6, 28, 50] },
+];
+
+const levelMFormatBits = 0;
+
+function dataCapacity(spec: VersionSpec): number {
+  return spec.blocks.reduce((total, [count, dataCodewords]) => total + count * dataCodewords, 0);
+}
+
+// Multiply in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+// Mode indicator, length and data bytes, then terminator and padding, as codewords
+function encodeData(bytes: Buffer, version: number, capacity: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+  append(0, Math.min(4, capacity * 8 - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+}
+
+// Split into blocks, add error correction to each, and interleave
+function addErrorCorrection(data: number[], spec: VersionSpec): number[] {
+  const divisor = reedSolomonDivisor(spec.ecCodewordsPerBlock);
+  const dataBlocks: number[][] = [];
+  let offset = 0;
+  for (const [count, length] of spec.blocks) {
+    for (let i = 0; i < count; i++) {
+      dataBlocks.push(data.slice(offset, offset + length));
+      offset += length;
+    }
+  }
+  const ecBlocks = dataBlocks.map(block => reedSolomonRemainder(block, divisor));
+
+  const result: number[] = [];
+  const longest = Math.max(...dataBlocks.map(block => block.length));
+  for (let i = 0; i < longest; i++) {
+    dataBlocks.forEach(block => {
+      if (i < block.length) result.push(block[i]);
+    });
+  }
+  for (let i = 0; i < spec.ecCodewordsPerBlock; i++) {
+    ecBlocks.forEach(block => result.push(block[i]));
+  }
+  return result;
+}
+
+const masks: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(private version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns(alignmentPositions: number[]) {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns with their light separators
+    for (const [cx, cy] of [[3, 3], [this.size - 4, 3], [3, this.size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+            this.setFunction(x, y, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    }
+
+    const last = alignmentPositions.length - 1;
+    alignmentPositions.forEach((cx, i) => {
+      alignmentPositions.forEach((cy, j) => {
+        // Skip the three corners taken by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    this.drawFormatBits(0);
+    this.drawVersionBits();
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (levelMFormatBits << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, bit(i));
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  private drawVersionBits() {
+    if (this.version < 7) return;
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  // Place codeword bits in the zigzag order, two columns at a time from the bottom right
+  drawCodewords(codewords: number[]) {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  // XOR-ing twice undoes a mask, so this both applies and removes one
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && masks[mask](x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  // Penalty score used to pick the mask that is easiest to scan
+  penalty(): number {
+    let score = 0;
+    const lines: boolean[][] = [
+      ...this.modules,
+      ...this.modules.map((_, x) => this.modules.map(row => row[x])),
+    ];
+
+    for (const line of lines) {
+      // Runs of five or more modules of the same color
+      let runLength = 1;
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          runLength++;
+        } else {
+          if (runLength >= 5) score += 3 + (runLength - 5);
+          runLength = 1;
+        }
+      }
+
+      // Patterns that look like a finder: dark-light-dark-dark-dark-light-dark next to four light modules
+      const text = line.map(dark => (dark ? '1' : '0')).join('');
+      for (const pattern of ['10111010000', '00001011101']) {
+        for (let at = text.indexOf(pattern); at !== -1; at = text.indexOf(pattern, at + 1)) {
+          score += 40;
+        }
+      }
+    }
+
+    // 2x2 blocks of one color
+    for (let y = 0; y < this.size - 1; y++) {
+      for (let x = 0; x < this.size - 1; x++) {
+        const color = this.modules[y][x];
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          score += 3;
+        }
+      }
+    }
+
+    // Balance of dark and light modules
+    const total = this.size * this.size;
+    const dark = this.modules.reduce((count, row) => count + row.filter(Boolean).length, 0);
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+
+    return score;
+  }
+}
+
+export function encodeQrCode(text: string): boolean[][] {
+  const bytes = Buffer.from(text, 'utf8');
+  const versionIndex = versions.findIndex((spec, i) =>
+    4 + (i + 1 <= 9 ? 8 : 16) + bytes.length * 8 <= dataCapacity(spec) * 8
+  );
+  if (versionIndex === -1) {
+    throw new Error(`Text is too long for a QR code (${bytes.length} bytes)`);
+  }
+
+  const version = versionIndex + 1;
+  const spec = versions[versionIndex];
+  const codewords = addErrorCorrection(encodeData(bytes, version, dataCapacity(spec)), spec);
+
+  const matrix = new QrMatrix(version);
+  matrix.drawFunctionPatterns(spec.alignmentPositions);
+  matrix.drawCodewords(codewords);
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < masks.length; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    matrix.applyMask(mask);
+  }
+
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+  return matrix.modules;
+}
+
+// Render a QR code as a standalone SVG with the standard four-module quiet zone
+export function generateQrCodeSvg(text: string): string {
+  const modules = encodeQrCode(text);
+  const quietZone = 4;
+  const size = modules.length + quietZone * 2;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + quietZone},${y + quietZone}h1v1h-1z` : '')))
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="${size}" height="${size}" fill="#ffffff"/><path d="${path}" fill="#000000"/></svg>`;
+}
@@ -0,0 +1,100 @@
+import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType } from 'docx';
+import { matchSectionHeading, stripBullet } from './resume-parser';
+
+export type RedactionOptions = {
+  names: string[]; // The candidate's name as written on the resume
+  terms: string[]; // Extra terms configured on the profile, e.g. current employer
+};
+
+const emailPattern = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const urlPattern = /\b(?:https?:\/\/|www\.)\S+/gi;
+// Bare domains such as linkedin.com/in/name; lowercase only so skills like "ASP.NET" are kept
+const domainPattern = /\b(?:[a-z0-9-]+\.)+(?:com|net|org)(?:\/\S*)?/g;
+const phoneCandidatePattern = /\+?\(?\d[\d\s().-]{7,}\d/g;
+
+// Heading and document title of redacted exports, which can't carry the profile name
+export const redactedResumeTitle = 'Candidate Resume';
+
+// Phone numbers have at least nine digits; shorter runs are dates such as "2016 - 2018"
+const minPhoneDigits = 9;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Match a term as a whole word, ignoring case
+function wholeWordPattern(term: string): RegExp {
+  return new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(term)}(?![A-Za-z0-9])`, 'gi');
+}
+
+// Remove identifying details from resume text: the candidate's name, emails, phone numbers, links and configured terms
+export function redactResumeText(resumeContent: string, options: RedactionOptions): string {
+  let text = resumeContent
+    .replace(emailPattern, '[email removed]')
+    .replace(urlPattern, '[link removed]')
+    .replace(domainPattern, '[link removed]')
+    .replace(phoneCandidatePattern, match =>
+      match.replace(/\D/g, '').length >= minPhoneDigits ? '[phone removed]' : match
+    );
+
+  // Replace the full name before its parts so "John Doe" becomes one placeholder
+  const nameParts = options.names
+    .flatMap(name => [name, ...name.split(/\s+/)])
+    .map(part => part.replace(/[^A-Za-z\u00C0-\u024F'.-]/g, '').trim())
+    .filter(part => part.length >= 2);
+  const names = Array.from(new Set([...options.names.map(name => name.trim()), ...nameParts]))
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length);
+
+  for (const name of names) {
+    text = text.replace(wholeWordPattern(name), '[Candidate]');
+  }
+
+  for (const term of options.terms.map(term => term.trim()).filter(Boolean)) {
+    text = text.replace(wholeWordPattern(term), '[redacted]');
+  }
+
+  // Placeholders left next to each other read better as one
+  return text.replace(/\[Candidate\](\s+\[Candidate\])+/g, '[Candidate]');
+}
+
+// Lay out resume text as a Word document: section headings in bold, bullets as list items
+export async function generateResumeTextDocx(text: string, title: string): Promise<Buffer> {
+  const paragraphs = text.split(/\r?\n/).map(line => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      return new Paragraph({ text: '' });
+    }
+
+    if (matchSectionHeading(trimmed)) {
+      return new Paragraph({
+        heading: HeadingLevel.HEADING_2,
+        spacing: { before: 240, after: 120 },
+        children: [new TextRun({ text: trimmed.replace(/:\s*$/, ''), bold: true })],
+      });
+    }
+
+    const content = stripBullet(trimmed);
+    if (content !== trimmed) {
+      return new Paragraph({ bullet: { level: 0 }, children: [new TextRun(content)] });
+    }
+
+    return new Paragraph({ children: [new TextRun(trimmed)] });
+  });
+
+  const doc = new Document({
+    title,
+    sections: [{
+      children: [
+        new Paragraph({
+          heading: HeadingLevel.TITLE,
+          alignment: AlignmentType.CENTER,
+          children: [new TextRun({ text: title, bold: true })],
+        }),
+        ...paragraphs,
+      ],
+    }],
+  });
+
+  return await Packer.toBuffer(doc);
+}
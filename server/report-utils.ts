@@ -1,6 +1,6 @@
 import { format } from 'date-fns';
 import { storage } from './storage';
-import { ProgressUpdate, LeadEntry } from '@shared/schema';
+import { ProgressUpdateSummary, LeadEntrySummary } from '@shared/schema';
 import { 
   Document, 
   Paragraph, 
@@ -35,10 +35,10 @@ export async function generateWeeklySalesReport(fromDate: Date, toDate: Date): P
   const profiles = await storage.getProfiles();
   
   // Get progress updates for the date range
-  const progressUpdates = await storage.getProgressUpdates(undefined, fromDate, toDate);
+  const progressUpdates = await storage.getProgressSummaries(undefined, fromDate, toDate);
   
-  // Get lead entries for the date range
-  const leadEntries = await storage.getLeadEntries(undefined, fromDate, toDate);
+  // Get lead totals for the date range, including those derived from lead stage transitions
+  const leadEntries = await storage.getLeadSummaries(undefined, fromDate, toDate);
   
   // Group updates by user, profile and day
   const userProfileMap: Record<number, Record<number, number>> = {};
@@ -66,7 +66,7 @@ export async function generateWeeklySalesReport(fromDate: Date, toDate: Date): P
   };
   
   // Process progress updates and group them
-  progressUpdates.forEach((update: ProgressUpdate) => {
+  progressUpdates.forEach((update: ProgressUpdateSummary) => {
     // Overall totals
     if (!userProfileMap[update.userId]) {
       userProfileMap[update.userId] = {};
@@ -99,7 +99,7 @@ export async function generateWeeklySalesReport(fromDate: Date, toDate: Date): P
   });
   
   // Process lead entries for sales coordinator data
-  leadEntries.forEach((entry: LeadEntry) => {
+  leadEntries.forEach((entry: LeadEntrySummary) => {
     const entryDate = new Date(entry.date);
     const dayOfWeek = format(entryDate, 'EEEE');
     
@@ -534,7 +534,7 @@ export async function generateDailyReport(date: Date): Promise<Buffer> {
   const profiles = await storage.getProfiles();
   
   // Get progress updates for the date
-  const progressUpdates = await storage.getProgressUpdates(undefined, date, date);
+  const progressUpdates = await storage.getProgressSummaries(undefined, date, date);
   
   // Group updates by user
   const userUpdates: Record<number, {
@@ -543,7 +543,7 @@ export async function generateDailyReport(date: Date): Promise<Buffer> {
     profileName: string;
   }> = {};
   
-  progressUpdates.forEach((update: ProgressUpdate) => {
+  progressUpdates.forEach((update: ProgressUpdateSummary) => {
     if (!userUpdates[update.userId]) {
       const profile = profiles.find(p => p.id === update.profileId);
       userUpdates[update.userId] = {
@@ -0,0 +1,137 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { Readable } from 'stream';
+import { resumeFileExtensions } from '@shared/schema';
+import { parsePdfDocument } from './pdf-utils';
+
+// Content types of the accepted resume formats, keyed by file extension
+const resumeFileTypes: Record<typeof resumeFileExtensions[number], { contentType: string }> = {
+  '.pdf': { contentType: 'application/pdf' },
+  '.docx': { contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  '.txt': { contentType: 'text/plain; charset=utf-8' },
+};
+
+export function isAcceptedResumeFile(fileName: string): boolean {
+  return (resumeFileExtensions as readonly string[]).includes(path.extname(fileName).toLowerCase());
+}
+
+// Files stored before DOCX and TXT support, or without a name, are PDFs
+export function getResumeContentType(fileName: string | null): string {
+  const extension = fileName ? path.extname(fileName).toLowerCase() : '.pdf';
+  return (resumeFileTypes[extension as keyof typeof resumeFileTypes] || resumeFileTypes['.pdf']).contentType;
+}
+
+export type ExtractedResume = {
+  text: string;
+  pageCount: number | null; // Unknown for plain text
+  strippedCharacters: number; // Characters removed by sanitizing the extracted text
+};
+
+function sanitizeText(text: string): string {
+  return text
+    .replace(/^\uFEFF/, '') // Remove a byte order mark
+    .replace(/\0/g, '') // Remove null bytes
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+// Word documents are zip archives, and a small upload can inflate to gigabytes; no resume part comes near this
+const maxDocxPartBytes = 20 * 1024 * 1024; // 20MB
+
+// An upload that can't be read as a resume; the uploader can fix it, so routes answer with a client error
+export class ResumeFileError extends Error {
+  constructor(message: string, readonly tooLarge = false) {
+    super(message);
+    this.name = 'ResumeFileError';
+  }
+}
+
+// Inflate one part of a Word document as text, counting the inflated bytes and stopping at the size cap
+async function readDocxPart(zip: JSZip, name: string): Promise<string | undefined> {
+  const part = zip.file(name);
+  if (!part) return undefined;
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = part.nodeStream('nodebuffer') as Readable;
+    stream
+      .on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxDocxPartBytes) {
+          // Stop inflating and let go of what was inflated so far
+          stream.removeAllListeners('data');
+          stream.destroy();
+          chunks.length = 0;
+          reject(new ResumeFileError('This Word document is too large to read. Remove embedded content and upload it again.', true));
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', reject)
+      .on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  });
+}
+
+// Extract the body text of a Word document, one line per paragraph
+export async function parseDocxBuffer(buffer: Buffer): Promise<ExtractedResume> {
+  try {
+    const zip = await JSZip.loadAsync(buffer);
+    const documentXml = await readDocxPart(zip, 'word/document.xml');
+    if (!documentXml) {
+      throw new Error('word/document.xml not found');
+    }
+
+    const rawText = decodeXmlEntities(documentXml
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:(br|cr)\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, ''));
+    const text = sanitizeText(rawText);
+
+    // Word records the page count of the last save in the document properties
+    const appXml = await readDocxPart(zip, 'docProps/app.xml');
+    const pages = appXml?.match(/<Pages>(\d+)<\/Pages>/)?.[1];
+
+    return {
+      text,
+      pageCount: pages ? Number(pages) : null,
+      strippedCharacters: rawText.length - text.length,
+    };
+  } catch (error) {
+    console.error('Error parsing DOCX:', error);
+    if (error instanceof ResumeFileError) throw error;
+    throw new ResumeFileError("This Word document couldn't be read. Open it in Word, save it again and upload it.");
+  }
+}
+
+// Extract plain text from an uploaded resume, picking the parser by file extension
+export async function extractResumeText(buffer: Buffer, fileName: string): Promise<ExtractedResume> {
+  switch (path.extname(fileName).toLowerCase()) {
+    case '.pdf':
+      try {
+        return await parsePdfDocument(buffer);
+      } catch {
+        throw new ResumeFileError("This PDF couldn't be read. Export it from the original document again and upload it.");
+      }
+    case '.docx':
+      return parseDocxBuffer(buffer);
+    case '.txt': {
+      const rawText = buffer.toString('utf8').replace(/^\uFEFF/, '');
+      const text = sanitizeText(rawText);
+      return { text, pageCount: null, strippedCharacters: rawText.length - text.length };
+    }
+    default:
+      throw new Error(`Unsupported resume file type: ${fileName}`);
+  }
+}
@@ -0,0 +1,210 @@
+import {
+  Document,
+  Packer,
+  Paragraph,
+  TextRun,
+  AlignmentType,
+  BorderStyle,
+  TabStopType,
+} from 'docx';
+import type { ResumeLayout, ResumeStructure } from '@shared/schema';
+import { stripBullet } from './resume-parser';
+
+// Fonts, sizes (in half-points) and colors that make up a layout
+type LayoutStyle = {
+  font: string;
+  nameSize: number;
+  headingSize: number;
+  bodySize: number;
+  accentColor: string;
+  centeredHeader: boolean;
+  headingBorder: boolean; // Rule under section headings
+  paragraphSpacing: number; // Space after body paragraphs, in twentieths of a point
+  inlineSkills: boolean; // Skills as one comma-separated line rather than a bullet list
+  pageMargin: number; // In twentieths of a point; 1440 is one inch
+};
+
+const layoutStyles: Record<ResumeLayout, LayoutStyle> = {
+  classic: {
+    font: 'Times New Roman',
+    nameSize: 36,
+    headingSize: 24,
+    bodySize: 22,
+    accentColor: '000000',
+    centeredHeader: true,
+    headingBorder: true,
+    paragraphSpacing: 80,
+    inlineSkills: false,
+    pageMargin: 1440,
+  },
+  modern: {
+    font: 'Calibri',
+    nameSize: 44,
+    headingSize: 26,
+    bodySize: 22,
+    accentColor: '1F4E79',
+    centeredHeader: false,
+    headingBorder: false,
+    paragraphSpacing: 100,
+    inlineSkills: true,
+    pageMargin: 1440,
+  },
+  compact: {
+    font: 'Arial',
+    nameSize: 28,
+    headingSize: 20,
+    bodySize: 19,
+    accentColor: '333333',
+    centeredHeader: false,
+    headingBorder: true,
+    paragraphSpacing: 20,
+    inlineSkills: true,
+    pageMargin: 720,
+  },
+};
+
+// Width of a Letter page in twentieths of a point
+const pageWidth = 12240;
+
+function formatDateRange(startDate: string, endDate: string): string {
+  return [startDate, endDate].filter(Boolean).join(' - ');
+}
+
+function sectionHeading(title: string, style: LayoutStyle): Paragraph {
+  return new Paragraph({
+    spacing: { before: style.paragraphSpacing * 3, after: style.paragraphSpacing },
+    border: style.headingBorder
+      ? { bottom: { style: BorderStyle.SINGLE, size: 6, color: style.accentColor, space: 1 } }
+      : undefined,
+    children: [new TextRun({
+      text: title.toUpperCase(),
+      bold: true,
+      size: style.headingSize,
+      color: style.accentColor,
+    })],
+  });
+}
+
+function bodyParagraph(text: string, style: LayoutStyle, bullet = false): Paragraph {
+  return new Paragraph({
+    bullet: bullet ? { level: 0 } : undefined,
+    spacing: { after: style.paragraphSpacing },
+    children: [new TextRun({ text, size: style.bodySize })],
+  });
+}
+
+function headerParagraphs(structure: ResumeStructure, style: LayoutStyle, fallbackName: string): Paragraph[] {
+  const alignment = style.centeredHeader ? AlignmentType.CENTER : AlignmentType.LEFT;
+  const { contact } = structure;
+  const contactLine = [contact.email, contact.phone, contact.location, ...contact.links].filter(Boolean).join('  |  ');
+
+  const paragraphs = [
+    new Paragraph({
+      alignment,
+      children: [new TextRun({
+        text: contact.name || fallbackName,
+        bold: true,
+        size: style.nameSize,
+        color: style.accentColor,
+      })],
+    }),
+  ];
+
+  if (contact.headline) {
+    paragraphs.push(new Paragraph({
+      alignment,
+      children: [new TextRun({ text: contact.headline, italics: true, size: style.bodySize + 2 })],
+    }));
+  }
+
+  if (contactLine) {
+    paragraphs.push(new Paragraph({
+      alignment,
+      spacing: { after: style.paragraphSpacing },
+      children: [new TextRun({ text: contactLine, size: style.bodySize - 2 })],
+    }));
+  }
+
+  return paragraphs;
+}
+
+function experienceParagraphs(structure: ResumeStructure, style: LayoutStyle): Paragraph[] {
+  return structure.experience.flatMap(job => {
+    const dates = formatDateRange(job.startDate, job.endDate);
+    const heading = new Paragraph({
+      spacing: { before: style.paragraphSpacing * 2 },
+      // Dates sit on the job title line, right-aligned against the margin
+      tabStops: [{ type: TabStopType.RIGHT, position: pageWidth - 2 * style.pageMargin }],
+      children: [
+        new TextRun({ text: job.title || job.employer, bold: true, size: style.bodySize }),
+        ...(job.title && job.employer ? [new TextRun({ text: `, ${job.employer}`, size: style.bodySize })] : []),
+        ...(dates ? [new TextRun({ text: `\t${dates}`, size: style.bodySize, italics: true })] : []),
+      ],
+    });
+
+    // Each line of the description becomes a bullet
+    const bullets = job.description
+      .split(/\r?\n/)
+      .map(line => stripBullet(line.trim()))
+      .filter(Boolean)
+      .map(line => bodyParagraph(line, style, true));
+
+    return [heading, ...bullets];
+  });
+}
+
+// Lay out a profile's structured resume data as a Word document in the chosen layout
+export async function generateResumeDocx(structure: ResumeStructure, layout: ResumeLayout, fallbackName: string): Promise<Buffer> {
+  const style = layoutStyles[layout];
+  const children: Paragraph[] = headerParagraphs(structure, style, fallbackName);
+
+  if (structure.summary) {
+    children.push(sectionHeading('Summary', style), bodyParagraph(structure.summary, style));
+  }
+
+  if (structure.skills.length > 0) {
+    children.push(sectionHeading('Skills', style));
+    if (style.inlineSkills) {
+      children.push(bodyParagraph(structure.skills.join(', '), style));
+    } else {
+      children.push(...structure.skills.map(skill => bodyParagraph(skill, style, true)));
+    }
+  }
+
+  if (structure.experience.length > 0) {
+    children.push(sectionHeading('Experience', style), ...experienceParagraphs(structure, style));
+  }
+
+  if (structure.education.length > 0) {
+    children.push(sectionHeading('Education', style));
+    children.push(...structure.education.map(entry => bodyParagraph(
+      [entry.degree, entry.institution, entry.year].filter(Boolean).join(', '),
+      style
+    )));
+  }
+
+  if (structure.certifications.length > 0) {
+    children.push(sectionHeading('Certifications', style));
+    children.push(...structure.certifications.map(certification => bodyParagraph(certification, style, true)));
+  }
+
+  const doc = new Document({
+    creator: "Resume Management System",
+    title: `${structure.contact.name || fallbackName} Resume`,
+    styles: {
+      default: {
+        document: { run: { font: style.font, size: style.bodySize } },
+      },
+    },
+    sections: [{
+      properties: {
+        page: {
+          margin: { top: style.pageMargin, bottom: style.pageMargin, left: style.pageMargin, right: style.pageMargin },
+        },
+      },
+      children,
+    }],
+  });
+
+  return await Packer.toBuffer(doc);
+}
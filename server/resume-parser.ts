@@ -0,0 +1,326 @@
+import type { ResumeStructure } from '@shared/schema';
+
+export type SectionName = 'summary' | 'experience' | 'education' | 'certifications' | 'skills';
+type ExperienceEntry = ResumeStructure['experience'][number];
+
+// Headings as they commonly appear on resumes, matched case-insensitively with an optional trailing colon
+const sectionHeadings: Record<SectionName, string[]> = {
+  summary: ['summary', 'professional summary', 'profile', 'professional profile', 'objective', 'career objective', 'about', 'about me'],
+  experience: ['experience', 'work experience', 'professional experience', 'employment', 'employment history', 'work history', 'career history'],
+  education: ['education', 'education and training', 'academic background', 'qualifications'],
+  certifications: ['certifications', 'certificates', 'certification', 'licenses', 'licenses and certifications', 'licenses & certifications'],
+  skills: ['skills', 'technical skills', 'core skills', 'key skills', 'core competencies', 'competencies', 'technologies', 'tools'],
+};
+
+// Common spellings mapped to one canonical skill name
+const skillAliases: Record<string, string> = {
+  'js': 'JavaScript',
+  'javascript': 'JavaScript',
+  'ts': 'TypeScript',
+  'typescript': 'TypeScript',
+  'node': 'Node.js',
+  'nodejs': 'Node.js',
+  'node.js': 'Node.js',
+  'react': 'React',
+  'reactjs': 'React',
+  'react.js': 'React',
+  'vue': 'Vue.js',
+  'vuejs': 'Vue.js',
+  'vue.js': 'Vue.js',
+  'angularjs': 'Angular',
+  'angular': 'Angular',
+  'postgres': 'PostgreSQL',
+  'postgresql': 'PostgreSQL',
+  'mysql': 'MySQL',
+  'mongo': 'MongoDB',
+  'mongodb': 'MongoDB',
+  'k8s': 'Kubernetes',
+  'kubernetes': 'Kubernetes',
+  'docker': 'Docker',
+  'aws': 'AWS',
+  'amazon web services': 'AWS',
+  'gcp': 'Google Cloud',
+  'google cloud platform': 'Google Cloud',
+  'azure': 'Azure',
+  'sql': 'SQL',
+  'graphql': 'GraphQL',
+  'python': 'Python',
+  'java': 'Java',
+  'c#': 'C#',
+  'csharp': 'C#',
+  'c++': 'C++',
+  'cpp': 'C++',
+  'golang': 'Go',
+  'html5': 'HTML',
+  'html': 'HTML',
+  'css3': 'CSS',
+  'css': 'CSS',
+  'powerbi': 'Power BI',
+  'power bi': 'Power BI',
+  'tableau': 'Tableau',
+  'figma': 'Figma',
+  'seo': 'SEO',
+  'etl': 'ETL',
+  'ci/cd': 'CI/CD',
+  'rest': 'REST',
+  'restful': 'REST',
+};
+
+const monthPattern = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const datePattern = `(?:${monthPattern}\\s+)?\\d{4}|\\d{1,2}\\/\\d{4}`;
+const dateRangeRegex = new RegExp(`\\(?\\s*(${datePattern})\\s*(?:-|–|—|to)\\s*(${datePattern}|present|current|now)\\s*\\)?`, 'i');
+const emailRegex = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+const phoneRegex = /\+?\(?\d[\d\s().-]{7,}\d/;
+const linkRegex = /(?:https?:\/\/|www\.)\S+|(?:linkedin\.com|github\.com)\/\S+/gi;
+const bulletRegex = /^[-•*▪◦·]\s*/;
+
+// Words that mark a phrase as a job title rather than an employer
+const titleWords = /\b(engineer|developer|manager|analyst|designer|specialist|consultant|director|lead|intern|coordinator|architect|scientist|administrator|officer|associate|assistant|researcher|creator|head|president|representative|executive|programmer|technician|strategist)\b/i;
+const degreeWords = /\b(bachelor|master|associate|diploma|doctor|ph\.?d|mba|b\.?s\.?c?|m\.?s\.?c?|b\.?a|m\.?a|b\.?tech|m\.?tech|b\.?e|m\.?e)\b/i;
+const institutionWords = /\b(university|college|institute|school|academy|polytechnic)\b/i;
+
+function emptyStructure(): ResumeStructure {
+  return {
+    contact: { name: '', headline: '', email: '', phone: '', location: '', links: [] },
+    summary: '',
+    experience: [],
+    education: [],
+    certifications: [],
+    skills: [],
+  };
+}
+
+export function matchSectionHeading(line: string): SectionName | undefined {
+  const heading = line.replace(/[:\s]+$/, '').trim().toLowerCase();
+  if (heading.length > 40) return undefined;
+
+  for (const [section, headings] of Object.entries(sectionHeadings) as [SectionName, string[]][]) {
+    if (headings.includes(heading)) return section;
+  }
+  return undefined;
+}
+
+export function stripBullet(line: string): string {
+  return line.replace(bulletRegex, '').trim();
+}
+
+// Split "A | B", "A, B", "A - B" or "A — B" into its non-empty parts
+function splitParts(text: string): string[] {
+  return text.split(/\s*[|–—]\s*|\s+-\s+|\s*,\s*/).map(part => part.trim()).filter(Boolean);
+}
+
+function capitalizeDate(value: string): string {
+  return /^(present|current|now)$/i.test(value) ? 'Present' : value.replace(/^\w/, c => c.toUpperCase());
+}
+
+// Read "Title at Employer", "Employer | Title" and similar single-line role headers
+function parseRoleHeader(text: string): Pick<ExperienceEntry, 'employer' | 'title'> {
+  const atMatch = text.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i);
+  if (atMatch) {
+    return { title: atMatch[1].trim(), employer: atMatch[2].trim() };
+  }
+
+  const parts = splitParts(text);
+  if (parts.length === 0) return { title: '', employer: '' };
+  if (parts.length === 1) {
+    return titleWords.test(parts[0]) ? { title: parts[0], employer: '' } : { title: '', employer: parts[0] };
+  }
+
+  // Whichever part reads like a job title is the title, the other is the employer
+  if (titleWords.test(parts[0]) || !titleWords.test(parts[1])) {
+    return { title: parts[0], employer: parts[1] };
+  }
+  return { title: parts[1], employer: parts[0] };
+}
+
+function parseExperience(lines: string[]): ExperienceEntry[] {
+  const entries: ExperienceEntry[] = [];
+  let current: ExperienceEntry | undefined;
+  const description: string[][] = [];
+
+  const startEntry = (fields: Partial<ExperienceEntry>) => {
+    current = { employer: '', title: '', startDate: '', endDate: '', description: '', ...fields };
+    entries.push(current);
+    description.push([]);
+  };
+
+  for (const line of lines) {
+    const isBullet = bulletRegex.test(line);
+    const text = stripBullet(line);
+    const dates = text.match(dateRangeRegex);
+
+    if (dates) {
+      const rest = text.replace(dateRangeRegex, '').replace(/[\s,|–—-]+$/, '').trim();
+      const dateFields = { startDate: capitalizeDate(dates[1]), endDate: capitalizeDate(dates[2]) };
+
+      if (!rest && current && !current.startDate) {
+        // A line holding only the dates of a role started on the lines above
+        Object.assign(current, dateFields);
+      } else {
+        startEntry({ ...parseRoleHeader(rest), ...dateFields });
+      }
+      continue;
+    }
+
+    if (!isBullet && (!current || description[description.length - 1].length > 0)) {
+      // Multi-line layouts put the employer and title on their own lines before the dates
+      startEntry(parseRoleHeader(text));
+      continue;
+    }
+
+    if (current && !isBullet && (!current.title || !current.employer) && description[description.length - 1].length === 0) {
+      if (!current.title) current.title = text;
+      else current.employer = text;
+      continue;
+    }
+
+    if (!current) startEntry({});
+    description[description.length - 1].push(text);
+  }
+
+  entries.forEach((entry, index) => {
+    entry.description = description[index].join('\n');
+  });
+  return entries.filter(entry => entry.employer || entry.title);
+}
+
+function parseEducation(lines: string[]): ResumeStructure['education'] {
+  return lines.map(line => {
+    const text = stripBullet(line);
+    const year = text.match(/\b(19|20)\d{2}\b(?!.*\b(19|20)\d{2}\b)/)?.[0] || '';
+    const parts = splitParts(text.replace(dateRangeRegex, '').replace(/\(?\b(19|20)\d{2}\b\)?/g, ''))
+      .flatMap(part => part.split(/\s+from\s+/i))
+      .map(part => part.trim())
+      .filter(Boolean);
+
+    const institution = parts.find(part => institutionWords.test(part)) || '';
+    const degree = parts.find(part => part !== institution && degreeWords.test(part))
+      || parts.find(part => part !== institution)
+      || '';
+
+    return { institution, degree, year };
+  }).filter(entry => entry.institution || entry.degree);
+}
+
+export function normalizeSkill(skill: string): string {
+  const trimmed = skill.replace(/\s+/g, ' ').replace(/[.;]+$/, '').trim();
+  return skillAliases[trimmed.toLowerCase()] || trimmed;
+}
+
+// Aliases that are also everyday words, so they are not searched for in free text
+const ambiguousAliases = new Set(['rest', 'ts']);
+
+const skillMentionPatterns = Object.keys(skillAliases)
+  .filter(alias => !ambiguousAliases.has(alias))
+  .map(alias => ({
+    skill: skillAliases[alias],
+    pattern: new RegExp(`(?<![A-Za-z0-9.])${alias.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}(?![A-Za-z0-9+#])`, 'i'),
+  }));
+
+// Find the known skills mentioned anywhere in a text, such as a job description
+export function findSkillMentions(text: string): string[] {
+  const skills = new Set<string>();
+  for (const { skill, pattern } of skillMentionPatterns) {
+    if (pattern.test(text)) skills.add(skill);
+  }
+  return Array.from(skills);
+}
+
+function parseSkills(lines: string[]): string[] {
+  const skills = new Map<string, string>();
+
+  for (const line of lines) {
+    // Drop category labels such as "Languages: JavaScript, Python"
+    const text = stripBullet(line).replace(/^[A-Za-z &/]{2,30}:\s*/, '');
+    for (const part of text.split(/\s*[,;|•]\s*/)) {
+      const skill = normalizeSkill(part);
+      if (skill && skill.length <= 60 && !skills.has(skill.toLowerCase())) {
+        skills.set(skill.toLowerCase(), skill);
+      }
+    }
+  }
+
+  return Array.from(skills.values());
+}
+
+// Contact details sit above the first section: name first, then the headline, then contact lines
+function parseContact(lines: string[], fullText: string): ResumeStructure['contact'] {
+  const contact = emptyStructure().contact;
+  contact.email = fullText.match(emailRegex)?.[0] || '';
+  contact.links = Array.from(new Set(fullText.match(linkRegex) || []));
+
+  for (const line of lines) {
+    const phone = line.match(phoneRegex)?.[0];
+    if (phone && !contact.phone && !dateRangeRegex.test(line)) {
+      contact.phone = phone.trim();
+    }
+
+    // Plain lines without contact details are the name, headline and location in that order
+    const plain = line
+      .replace(emailRegex, '')
+      .replace(linkRegex, '')
+      .replace(phoneRegex, '')
+      .split(/\s*[|•]\s*/)
+      .map(part => part.trim())
+      .filter(part => part && !/^[,\-–—]+$/.test(part));
+
+    for (const part of plain) {
+      if (!contact.name) {
+        contact.name = part;
+      } else if (!contact.location && /^[A-Za-z .'-]+,\s*[A-Za-z .]{2,}$/.test(part) && !titleWords.test(part)) {
+        contact.location = part;
+      } else if (!contact.headline) {
+        contact.headline = part;
+      }
+    }
+  }
+
+  return contact;
+}
+
+// Which standard section headings a resume text contains
+export function findSectionHeadings(resumeContent: string): SectionName[] {
+  const found = new Set<SectionName>();
+  for (const line of resumeContent.split(/\r?\n/)) {
+    const heading = matchSectionHeading(line.trim());
+    if (heading) found.add(heading);
+  }
+  return Array.from(found);
+}
+
+// Turn flat resume text into contact details, summary, experience, education, certifications and skills.
+// Parsing is heuristic; managers can correct the result in the profile editor.
+export function parseResumeStructure(resumeContent: string): ResumeStructure {
+  const structure = emptyStructure();
+  const lines = resumeContent.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+  const header: string[] = [];
+  const sections: Record<SectionName, string[]> = {
+    summary: [],
+    experience: [],
+    education: [],
+    certifications: [],
+    skills: [],
+  };
+
+  let section: SectionName | undefined;
+  for (const line of lines) {
+    const heading = matchSectionHeading(line);
+    if (heading) {
+      section = heading;
+    } else if (section) {
+      sections[section].push(line);
+    } else {
+      header.push(line);
+    }
+  }
+
+  structure.contact = parseContact(header, resumeContent);
+  structure.summary = sections.summary.map(stripBullet).join(' ');
+  structure.experience = parseExperience(sections.experience);
+  structure.education = parseEducation(sections.education);
+  structure.certifications = sections.certifications.map(stripBullet);
+  structure.skills = parseSkills(sections.skills);
+
+  return structure;
+}
@@ -1,13 +1,24 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
 import { storage } from "./storage";
-import { setupAuth } from "./auth";
+import { setupAuth, hashPassword, createInvitationToken, getInvitationStatus } from "./auth";
 import { z } from "zod";
-import { insertProfileSchema, insertLeadGenAssignmentSchema, insertSalesAssignmentSchema, insertTargetSchema, insertProgressUpdateSchema, insertLeadEntrySchema } from "@shared/schema";
+import { insertUserSchema, updateUserSchema, resetPasswordSchema, insertInvitationSchema, type Invitation, securitySettingsSchema, insertProfileSchema, insertLeadGenAssignmentSchema, insertSalesAssignmentSchema, insertTargetSchema, insertProgressUpdateSchema, insertLeadEntrySchema, insertJobApplicationSchema, insertLeadSchema, leadStageChangeSchema, allowedLeadStageChanges, insertInterviewSchema, insertResumeVariantSchema, resumeStructureSchema, atsFindingSchema, jobMatchRequestSchema, generateResumeRequestSchema, insertCoverLetterTemplateSchema, coverLetterRequestSchema, insertSkillTagSchema, profileTagIdsSchema, profileStatusChangeSchema, allowedProfileStatusChanges, insertPlacementSchema, deletableItemTypes, type DeletableItemType, type DeletedItems, auditEntityTypes, type User, type Profile } from "@shared/schema";
 import multer from "multer";
-import path from "path";
-import { parsePdfBuffer, bufferToBase64, base64ToBuffer } from "./pdf-utils";
+import { base64ToBuffer } from "./pdf-utils";
+import { isAcceptedResumeFile, extractResumeText, getResumeContentType, ResumeFileError } from "./resume-files";
 import { generateWeeklySalesReport, generateDailyReport, formatReportDateRange } from './report-utils';
+import { diffLines } from './diff-utils';
+import { fileStore, storeFileByHash } from './file-store';
+import { parseResumeStructure } from './resume-parser';
+import { scoreJobDescription } from './jd-match';
+import { checkResumeAts } from './ats-check';
+import { redactResumeText, generateResumeTextDocx, redactedResumeTitle } from './redaction';
+import { generateResumeDocx } from './resume-generator';
+import { getCoverLetterValues, fillCoverLetterTemplate, generateCoverLetterDocx } from './cover-letter';
+import { suggestSkillTags, findConflictingSkillTerm } from './skill-tags';
+import { recordAudit, formatAuditLogCsv } from './audit';
 
 // We don't need to define multer types as they are already defined in types/multer
 
@@ -18,9 +29,8 @@ const upload = multer({
     fileSize: 5 * 1024 * 1024, // 5MB limit
   },
   fileFilter: (req: Request, file: any, cb: any) => {
-    const extname = path.extname(file.originalname).toLowerCase();
-    if (extname !== '.pdf') {
-      return cb(new Error('Only PDF files are allowed'));
+    if (!isAcceptedResumeFile(file.originalname)) {
+      return cb(new Error('Only PDF, DOCX and TXT files are allowed'));
     }
     cb(null, true);
   },
@@ -49,27 +59,210 @@ const hasRole = (roles: string[]) => {
   };
 };
 
+// Managers can open any resume; other users only those of the profiles assigned to them
+async function canAccessProfileResume(user: User, profileId: number): Promise<boolean> {
+  if (user.role === "manager") {
+    return true;
+  } else if (user.role === "lead_gen") {
+    const assignment = await storage.getLeadGenAssignment(user.id);
+    return assignment?.profileId === profileId;
+  } else if (user.role === "sales") {
+    const assignments = await storage.getSalesAssignments(user.id);
+    return assignments.some(a => a.profileId === profileId);
+  }
+  return false;
+}
+
+// Profiles are sent without resume binaries; files are fetched through the download routes
+function toProfileMetadata(profile: Profile) {
+  const { resumeBuffer, ...metadata } = profile;
+  return {
+    ...metadata,
+    hasResumeFile: !!(profile.resumeFileHash || resumeBuffer)
+  };
+}
+
+// Users are sent without their password hashes
+function toUserMetadata(user: User) {
+  const { password, totpSecret, totpRecoveryCodes, totpLastUsedStep, ...metadata } = user;
+  return { ...metadata, twoFactorEnabled: !!totpSecret };
+}
+
+// An invitation with its status; the token hash never leaves the server
+async function toInvitationListing(invitation: Invitation) {
+  const { tokenHash, ...listing } = invitation;
+  const inviter = await storage.getUser(invitation.invitedBy);
+  return {
+    ...listing,
+    status: getInvitationStatus(invitation),
+    invitedByName: inviter?.name || 'Unknown',
+  };
+}
+
+// Deactivated users keep their history but can't be given new assignments or targets
+async function isActiveUser(userId: number): Promise<boolean> {
+  const user = await storage.getUser(userId);
+  return !!user && !user.deactivatedAt;
+}
+
+async function getProfileMetadata(id: number) {
+  const profile = await storage.getProfile(id);
+  return profile && toProfileMetadata(profile);
+}
+
+// Load a resume file from the file store, falling back to legacy base64 data not yet migrated
+async function loadResumeFile(resume: { resumeFileHash: string | null, resumeBuffer: string | null }): Promise<Buffer | undefined> {
+  if (resume.resumeFileHash) {
+    return await fileStore.get(resume.resumeFileHash);
+  }
+  return resume.resumeBuffer ? base64ToBuffer(resume.resumeBuffer) : undefined;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Uploaded resume files waiting to be saved on a profile or variant, by the upload id given to the client
+    resumeUploads: Record<string, ResumeUpload>;
+  }
+}
+
+type ResumeUpload = { resumeFileHash: string; resumeFileName: string };
+
+// Only this many recent uploads are remembered per session
+const maxResumeUploads = 20;
+
+function rememberResumeUpload(req: Request, upload: ResumeUpload): string {
+  const uploadId = randomBytes(16).toString("hex");
+  const uploads = Object.entries(req.session.resumeUploads || {}).slice(-(maxResumeUploads - 1));
+  req.session.resumeUploads = Object.fromEntries([...uploads, [uploadId, upload]]);
+  return uploadId;
+}
+
+// The file store key of a saved resume always comes from an upload in this session, never from the
+// request body, so a request can't point a profile at another stored file
+function getResumeUpload(req: Request, uploadId: unknown): ResumeUpload | undefined {
+  return typeof uploadId === "string" ? req.session.resumeUploads?.[uploadId] : undefined;
+}
+
+const expiredResumeUploadMessage = "The uploaded resume file has expired. Upload it again.";
+
+// What clients may send for profiles and variants; resume files are attached from uploads instead
+const profileInputSchema = insertProfileSchema.omit({ resumeFileHash: true });
+const resumeVariantInputSchema = insertResumeVariantSchema.omit({ resumeFileHash: true });
+
+// Only active profiles are assigned, given targets and worked on; paused, placed and archived ones keep their history
+async function isActiveProfile(profileId: number): Promise<boolean> {
+  const profile = await storage.getProfile(profileId);
+  return profile?.status === "active";
+}
+
+const inactiveProfileWorkMessage = "Work can only be logged for active profiles";
+
+// Statuses take effect when they're recorded, so they can be back-dated but not scheduled. Compared with
+// the latest date anywhere in the world, so people ahead of UTC can still pick their own today.
+function isFutureDate(date: string): boolean {
+  const latestToday = new Date(Date.now() + 14 * 60 * 60 * 1000).toISOString().split('T')[0];
+  return date > latestToday;
+}
+
+// Find a row waiting in the recently deleted bin
+function findDeletedItem(deleted: DeletedItems, type: DeletableItemType, id: number) {
+  switch (type) {
+    case "profile": return deleted.profiles.find(profile => profile.id === id);
+    case "target": return deleted.targets.find(target => target.id === id);
+    case "lead_gen_assignment": return deleted.leadGenAssignments.find(assignment => assignment.id === id);
+    case "sales_assignment": return deleted.salesAssignments.find(assignment => assignment.id === id);
+  }
+}
+
+// Explain why a binned target or assignment can't come back as it was, if it can't
+async function getRestoreConflict(type: DeletableItemType, item: NonNullable<ReturnType<typeof findDeletedItem>>): Promise<string | undefined> {
+  if (!("profileId" in item)) return undefined;
+  
+  if (!(await storage.getProfile(item.profileId))) {
+    return "Restore the profile first";
+  }
+  if (!(await isActiveUser(item.userId))) {
+    return "This user has been deactivated";
+  }
+  if (type === "lead_gen_assignment" && await storage.getLeadGenAssignment(item.userId)) {
+    return "This user has been assigned another profile since";
+  }
+  if (type === "sales_assignment" && (await storage.getSalesAssignments(item.userId)).some(a => a.profileId === item.profileId)) {
+    return "This user is already assigned to the profile";
+  }
+  return undefined;
+}
+
+// The audit log viewer shows the newest records; the CSV export has every match
+const maxAuditLogRows = 500;
+
+// Filters shared by the audit log viewer and its CSV export
+function parseAuditLogFilters(req: Request) {
+  const entityType = z.enum(auditEntityTypes).optional().safeParse(req.query.entityType || undefined);
+  return {
+    actorId: req.query.userId ? Number(req.query.userId) : undefined,
+    entityType: entityType.success ? entityType.data : undefined,
+    fromDate: req.query.fromDate ? new Date(req.query.fromDate as string) : undefined,
+    toDate: req.query.toDate ? new Date(req.query.toDate as string) : undefined,
+  };
+}
+
+// Check that a resume variant someone attributes work to belongs to the right profile
+async function isVariantOfProfile(variantId: number, profileId: number): Promise<boolean> {
+  const variant = await storage.getResumeVariant(variantId);
+  return variant?.profileId === profileId;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
   setupAuth(app);
   
   // Profile routes
+  // Profiles carry the ids of their skill tags for filtering
   app.get("/api/profiles", isAuthenticated, async (req, res) => {
     try {
-      const profiles = await storage.getProfiles();
-      res.json(profiles);
+      const [profiles, links] = await Promise.all([
+        storage.getProfiles(),
+        storage.getProfileSkillTags()
+      ]);
+      
+      const tagIdsByProfile = new Map<number, number[]>();
+      for (const link of links) {
+        tagIdsByProfile.set(link.profileId, [...(tagIdsByProfile.get(link.profileId) || []), link.tagId]);
+      }
+      
+      res.json(profiles.map(profile => ({ ...toProfileMetadata(profile), tagIds: tagIdsByProfile.get(profile.id) || [] })));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch profiles" });
     }
   });
   
+  // Ranked full-text search over profile names, descriptions and resume text
+  app.get("/api/profiles/search", hasRole(["manager"]), async (req, res) => {
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!query) {
+        return res.status(400).json({ message: "Search query is required" });
+      }
+      
+      const results = await storage.searchProfiles(query);
+      res.json(results.map(({ profile, rank, snippet }) => ({
+        ...toProfileMetadata(profile),
+        rank,
+        snippet
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search profiles" });
+    }
+  });
+  
   app.get("/api/profiles/:id", isAuthenticated, async (req, res) => {
     try {
       const id = Number(req.params.id);
       const profile = await storage.getProfile(id);
       
       if (profile) {
-        res.json(profile);
+        res.json(toProfileMetadata(profile));
       } else {
         res.status(404).json({ message: "Profile not found" });
       }
@@ -80,47 +273,146 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post("/api/profiles", hasRole(["manager"]), async (req, res) => {
     try {
-      const validationResult = insertProfileSchema.safeParse(req.body);
+      const { tagIds, resumeUploadId, ...profileData } = req.body;
+      const validationResult = profileInputSchema.safeParse({
+        ...profileData,
+        // Always the signed-in manager; clients can't attribute profiles to someone else
+        createdBy: req.user!.id
+      });
       if (!validationResult.success) {
         return res.status(400).json({ message: "Invalid profile data", errors: validationResult.error.errors });
       }
       
-      const profile = await storage.createProfile(validationResult.data);
-      res.status(201).json(profile);
+      const resumeUpload = getResumeUpload(req, resumeUploadId);
+      if (resumeUploadId !== undefined && !resumeUpload) {
+        return res.status(400).json({ message: expiredResumeUploadMessage });
+      }
+      
+      const tagIdsResult = profileTagIdsSchema.optional().safeParse(tagIds);
+      if (!tagIdsResult.success) {
+        return res.status(400).json({ message: "Invalid skill tags", errors: tagIdsResult.error.errors });
+      }
+      
+      const profile = await storage.createProfile({
+        ...validationResult.data,
+        ...resumeUpload,
+        resumeStructure: validationResult.data.resumeStructure || parseResumeStructure(validationResult.data.resumeContent)
+      });
+      const links = await storage.setProfileSkillTags(profile.id, tagIdsResult.data || []);
+      await recordAudit(req, { action: "create", entityType: "profile", entityId: profile.id, after: profile });
+      res.status(201).json({ ...toProfileMetadata(profile), tagIds: links.map(link => link.tagId) });
     } catch (error) {
       res.status(500).json({ message: "Failed to create profile" });
     }
   });
   
-  // PDF upload route
+  // Resume upload route for PDF, DOCX and TXT files
   app.post("/api/profiles/upload-resume", hasRole(["manager"]), upload.single('resumeFile'), async (req, res) => {
     try {
       if (!req.file) {
-        return res.status(400).json({ message: "No PDF file uploaded" });
+        return res.status(400).json({ message: "No resume file uploaded" });
       }
       
-      const pdfBuffer = req.file.buffer;
-      const resumeContent = await parsePdfBuffer(pdfBuffer);
-      const resumeBuffer = bufferToBase64(pdfBuffer);
+      const fileBuffer = req.file.buffer;
+      const extracted = await extractResumeText(fileBuffer, req.file.originalname);
+      const resumeStructure = parseResumeStructure(extracted.text);
+      
+      // Keep the original file in the file store; the profile only references it by hash
+      const resumeFileHash = await storeFileByHash(fileBuffer, getResumeContentType(req.file.originalname));
+      const resumeUploadId = rememberResumeUpload(req, { resumeFileHash, resumeFileName: req.file.originalname });
       
       res.json({
-        resumeContent,
+        resumeContent: extracted.text,
         resumeFileName: req.file.originalname,
-        resumeBuffer
+        resumeUploadId,
+        resumeStructure,
+        atsFindings: checkResumeAts(extracted, resumeStructure),
+        suggestedTagIds: suggestSkillTags(extracted.text, await storage.getSkillTags())
       });
     } catch (error) {
-      console.error('Error processing PDF:', error);
-      res.status(500).json({ message: "Failed to process PDF file" });
+      if (error instanceof ResumeFileError) {
+        return res.status(error.tooLarge ? 413 : 400).json({ message: error.message });
+      }
+      console.error('Error processing resume file:', error);
+      res.status(500).json({ message: "Failed to process resume file" });
+    }
+  });
+  
+  // Parse resume text into structured sections without saving, for the profile editor
+  app.post("/api/profiles/parse-resume", hasRole(["manager"]), async (req, res) => {
+    try {
+      const { resumeContent } = req.body;
+      if (typeof resumeContent !== "string" || !resumeContent.trim()) {
+        return res.status(400).json({ message: "Resume content is required" });
+      }
+      
+      res.json(parseResumeStructure(resumeContent));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to parse resume" });
     }
   });
   
   app.patch("/api/profiles/:id", hasRole(["manager"]), async (req, res) => {
     try {
       const id = Number(req.params.id);
-      const updatedProfile = await storage.updateProfile(id, req.body);
+      const { tagIds, resumeUploadId, ...updatedFields } = req.body;
+      // Status only changes through the status and placement routes so every change is recorded
+      delete updatedFields.status;
+      delete updatedFields.statusEffectiveDate;
+      
+      // The resume file only changes through an upload
+      delete updatedFields.resumeFileHash;
+      if (resumeUploadId !== undefined) {
+        const resumeUpload = getResumeUpload(req, resumeUploadId);
+        if (!resumeUpload) {
+          return res.status(400).json({ message: expiredResumeUploadMessage });
+        }
+        Object.assign(updatedFields, resumeUpload);
+      }
+      
+      const tagIdsResult = profileTagIdsSchema.optional().safeParse(tagIds);
+      if (!tagIdsResult.success) {
+        return res.status(400).json({ message: "Invalid skill tags", errors: tagIdsResult.error.errors });
+      }
+      
+      const existing = await storage.getProfile(id);
+      if (updatedFields.resumeStructure !== undefined) {
+        const structureResult = resumeStructureSchema.nullable().safeParse(updatedFields.resumeStructure);
+        if (!structureResult.success) {
+          return res.status(400).json({ message: "Invalid resume structure", errors: structureResult.error.errors });
+        }
+        updatedFields.resumeStructure = structureResult.data;
+      } else if (typeof updatedFields.resumeContent === "string") {
+        // Changed resume text without edited sections replaces the old parse
+        if (existing && existing.resumeContent !== updatedFields.resumeContent) {
+          updatedFields.resumeStructure = parseResumeStructure(updatedFields.resumeContent);
+        }
+      }
+      
+      if (updatedFields.redactionTerms !== undefined) {
+        const termsResult = insertProfileSchema.shape.redactionTerms.safeParse(updatedFields.redactionTerms);
+        if (!termsResult.success) {
+          return res.status(400).json({ message: "Invalid redaction terms", errors: termsResult.error.errors });
+        }
+        updatedFields.redactionTerms = termsResult.data;
+      }
+      
+      if (updatedFields.atsFindings !== undefined) {
+        const findingsResult = z.array(atsFindingSchema).nullable().safeParse(updatedFields.atsFindings);
+        if (!findingsResult.success) {
+          return res.status(400).json({ message: "Invalid ATS findings", errors: findingsResult.error.errors });
+        }
+        updatedFields.atsFindings = findingsResult.data;
+      }
+      
+      const updatedProfile = await storage.updateProfile(id, updatedFields, req.user!.id);
       
       if (updatedProfile) {
-        res.json(updatedProfile);
+        await recordAudit(req, { action: "update", entityType: "profile", entityId: id, before: existing, after: updatedProfile });
+        const links = tagIdsResult.data
+          ? await storage.setProfileSkillTags(id, tagIdsResult.data)
+          : await storage.getProfileSkillTags(id);
+        res.json({ ...toProfileMetadata(updatedProfile), tagIds: links.map(link => link.tagId) });
       } else {
         res.status(404).json({ message: "Profile not found" });
       }
@@ -132,9 +424,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/profiles/:id", hasRole(["manager"]), async (req, res) => {
     try {
       const id = Number(req.params.id);
-      const success = await storage.deleteProfile(id);
+      const profile = await storage.getProfile(id);
+      const success = await storage.deleteProfile(id, req.user!.id);
       
       if (success) {
+        await recordAudit(req, { action: "delete", entityType: "profile", entityId: id, before: profile });
         res.status(204).send();
       } else {
         res.status(404).json({ message: "Profile not found" });
@@ -144,215 +438,1624 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Users routes
-  app.get("/api/users", hasRole(["manager"]), async (req, res) => {
-    try {
-      const role = req.query.role as string | undefined;
-      const users = await storage.getUsers(role);
-      console.log(`Fetching users with role ${role || 'all'}:`, users);
-      res.json(users);
-    } catch (error) {
-      console.error('Error fetching users:', error);
-      res.status(500).json({ message: "Failed to fetch users" });
-    }
-  });
-  
-  // Lead Generation Assignment routes
-  app.get("/api/lead-gen-assignments", hasRole(["manager"]), async (req, res) => {
+  // Profile lifecycle routes
+  app.get("/api/profiles/:id/status-changes", hasRole(["manager"]), async (req, res) => {
     try {
-      const assignments = await storage.getLeadGenAssignments();
+      const changes = await storage.getProfileStatusChanges(Number(req.params.id));
       
-      // Expand the assignment data with user and profile information
-      const expandedAssignments = await Promise.all(
-        assignments.map(async (assignment) => {
-          const user = await storage.getUser(assignment.userId);
-          const profile = await storage.getProfile(assignment.profileId);
-          return {
-            ...assignment,
-            user,
-            profile
-          };
+      // Name who made each change
+      const expandedChanges = await Promise.all(
+        changes.map(async (change) => {
+          const author = change.changedBy ? await storage.getUser(change.changedBy) : undefined;
+          return { ...change, changedByName: author?.name || 'Unknown' };
         })
       );
       
-      res.json(expandedAssignments);
+      res.json(expandedChanges);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch lead generation assignments" });
+      res.status(500).json({ message: "Failed to fetch profile status history" });
     }
   });
   
-  app.post("/api/lead-gen-assignments", hasRole(["manager"]), async (req, res) => {
+  app.post("/api/profiles/:id/status", hasRole(["manager"]), async (req, res) => {
     try {
-      const validationResult = insertLeadGenAssignmentSchema.safeParse(req.body);
+      const id = Number(req.params.id);
+      
+      const validationResult = profileStatusChangeSchema.safeParse(req.body);
       if (!validationResult.success) {
-        return res.status(400).json({ message: "Invalid assignment data", errors: validationResult.error.errors });
+        return res.status(400).json({ message: "Invalid status change", errors: validationResult.error.errors });
       }
       
-      const assignment = await storage.createLeadGenAssignment(validationResult.data);
-      res.status(201).json(assignment);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to create lead generation assignment" });
-    }
-  });
-  
-  app.delete("/api/lead-gen-assignments/:userId", hasRole(["manager"]), async (req, res) => {
-    try {
-      const userId = Number(req.params.userId);
-      const success = await storage.deleteLeadGenAssignment(userId);
+      const profile = await storage.getProfile(id);
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
       
-      if (success) {
-        res.status(204).send();
-      } else {
-        res.status(404).json({ message: "Assignment not found" });
+      const { status, effectiveDate, notes } = validationResult.data;
+      if (status === "placed") {
+        return res.status(400).json({ message: "Record a placement to mark a profile as placed" });
+      }
+      if (effectiveDate && isFutureDate(effectiveDate)) {
+        return res.status(400).json({ message: "Status changes can't be dated in the future. Record it on the day it takes effect." });
+      }
+      if (!allowedProfileStatusChanges[profile.status].includes(status)) {
+        return res.status(400).json({ message: `A ${profile.status} profile cannot be moved to ${status}` });
       }
+      
+      const updatedProfile = await storage.changeProfileStatus(
+        id,
+        status,
+        req.user!.id,
+        effectiveDate || new Date().toISOString().split('T')[0],
+        notes
+      );
+      if (!updatedProfile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      
+      await recordAudit(req, { action: "update", entityType: "profile", entityId: id, before: profile, after: updatedProfile });
+      res.json(toProfileMetadata(updatedProfile));
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete lead generation assignment" });
+      res.status(500).json({ message: "Failed to change profile status" });
     }
   });
   
-  // Sales Assignment routes
-  app.get("/api/sales-assignments", hasRole(["manager"]), async (req, res) => {
+  app.get("/api/profiles/:id/placements", hasRole(["manager"]), async (req, res) => {
     try {
-      const userId = req.query.userId ? Number(req.query.userId) : undefined;
-      const assignments = await storage.getSalesAssignments(userId);
+      const placementList = await storage.getPlacements(Number(req.params.id));
       
-      // Expand the assignment data with user and profile information
-      const expandedAssignments = await Promise.all(
-        assignments.map(async (assignment) => {
-          const user = await storage.getUser(assignment.userId);
-          const profile = await storage.getProfile(assignment.profileId);
-          return {
-            ...assignment,
-            user,
-            profile
-          };
+      // Name the sales coordinator who closed each placement
+      const expandedPlacements = await Promise.all(
+        placementList.map(async (placement) => {
+          const closer = await storage.getUser(placement.closedBy);
+          return { ...placement, closedByName: closer?.name || 'Unknown' };
         })
       );
       
-      res.json(expandedAssignments);
+      res.json(expandedPlacements);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch sales assignments" });
+      res.status(500).json({ message: "Failed to fetch placements" });
     }
   });
   
-  app.post("/api/sales-assignments", hasRole(["manager"]), async (req, res) => {
+  // Record the hire of a profile's candidate; the profile becomes placed as of the start date
+  app.post("/api/profiles/:id/placements", hasRole(["manager"]), async (req, res) => {
     try {
-      const validationResult = insertSalesAssignmentSchema.safeParse(req.body);
+      const id = Number(req.params.id);
+      
+      const validationResult = insertPlacementSchema.safeParse({
+        ...req.body,
+        profileId: id,
+        createdBy: req.user!.id
+      });
       if (!validationResult.success) {
-        return res.status(400).json({ message: "Invalid assignment data", errors: validationResult.error.errors });
+        return res.status(400).json({ message: "Invalid placement data", errors: validationResult.error.errors });
       }
       
-      const assignment = await storage.createSalesAssignment(validationResult.data);
-      res.status(201).json(assignment);
+      if (isFutureDate(validationResult.data.startDate)) {
+        return res.status(400).json({ message: "Placements can't start in the future. Record it on the candidate's first day." });
+      }
+      
+      const profile = await storage.getProfile(id);
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      if (!allowedProfileStatusChanges[profile.status].includes("placed")) {
+        return res.status(400).json({ message: `A ${profile.status} profile cannot be placed` });
+      }
+      
+      const closer = await storage.getUser(validationResult.data.closedBy);
+      if (closer?.role !== "sales") {
+        return res.status(400).json({ message: "Placements must be closed by a sales coordinator" });
+      }
+      
+      const placement = await storage.createPlacement(validationResult.data);
+      await recordAudit(req, { action: "create", entityType: "placement", entityId: placement.id, after: placement });
+      res.status(201).json(placement);
     } catch (error) {
-      res.status(500).json({ message: "Failed to create sales assignment" });
+      res.status(500).json({ message: "Failed to record placement" });
     }
   });
   
-  app.delete("/api/sales-assignments/:id", hasRole(["manager"]), async (req, res) => {
+  // Resume variant routes
+  app.get("/api/profiles/:id/variants", isAuthenticated, async (req, res) => {
     try {
       const id = Number(req.params.id);
-      const success = await storage.deleteSalesAssignment(id);
       
-      if (success) {
-        res.status(204).send();
-      } else {
-        res.status(404).json({ message: "Assignment not found" });
+      const authorized = await canAccessProfileResume(req.user!, id);
+      if (!authorized) {
+        return res.status(403).json({ message: "You don't have permission to access this resume" });
       }
+      
+      // Leave the PDF data out of the listing; it is served by the resume download route
+      const variants = await storage.getResumeVariants(id);
+      res.json(variants.map(({ resumeBuffer, ...variant }) => ({
+        ...variant,
+        hasPdf: !!(variant.resumeFileHash || resumeBuffer)
+      })));
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete sales assignment" });
+      res.status(500).json({ message: "Failed to fetch resume variants" });
     }
   });
   
-  // Target routes
-  app.get("/api/targets", isAuthenticated, async (req, res) => {
+  app.post("/api/profiles/:id/variants", hasRole(["manager"]), async (req, res) => {
     try {
-      // If user is a manager, they can see all targets
-      // If user is lead_gen or sales, they can only see their own targets
-      let userId: number | undefined = undefined;
+      const id = Number(req.params.id);
+      const profile = await storage.getProfile(id);
       
-      if (req.user!.role !== "manager") {
-        userId = req.user!.id;
-      } else if (req.query.userId) {
-        userId = Number(req.query.userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
       }
       
-      const targets = await storage.getTargets(userId);
+      const { resumeUploadId, ...variantData } = req.body;
+      const validationResult = resumeVariantInputSchema.safeParse({
+        ...variantData,
+        profileId: id,
+        createdBy: req.user!.id
+      });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid resume variant data", errors: validationResult.error.errors });
+      }
       
-      // Expand the target data with user and profile information
-      const expandedTargets = await Promise.all(
-        targets.map(async (target) => {
-          const user = await storage.getUser(target.userId);
-          const profile = await storage.getProfile(target.profileId);
-          return {
-            ...target,
-            user,
-            profile
-          };
-        })
-      );
+      const resumeUpload = getResumeUpload(req, resumeUploadId);
+      if (resumeUploadId !== undefined && !resumeUpload) {
+        return res.status(400).json({ message: expiredResumeUploadMessage });
+      }
       
-      res.json(expandedTargets);
+      const existingVariants = await storage.getResumeVariants(id);
+      const name = validationResult.data.name;
+      if (existingVariants.some(v => v.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(400).json({ message: `This profile already has a variant named "${name}"` });
+      }
+      
+      const variant = await storage.createResumeVariant({ ...validationResult.data, ...resumeUpload });
+      await recordAudit(req, { action: "create", entityType: "resume_variant", entityId: variant.id, after: variant });
+      res.status(201).json(variant);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch targets" });
+      res.status(500).json({ message: "Failed to create resume variant" });
     }
   });
   
-  app.post("/api/targets", hasRole(["manager"]), async (req, res) => {
+  app.patch("/api/profiles/:id/variants/:variantId", hasRole(["manager"]), async (req, res) => {
     try {
-      const validationResult = insertTargetSchema.safeParse(req.body);
+      const id = Number(req.params.id);
+      const variantId = Number(req.params.variantId);
+      const existing = await storage.getResumeVariant(variantId);
+      
+      if (!existing || existing.profileId !== id) {
+        return res.status(404).json({ message: "Resume variant not found" });
+      }
+      
+      const { resumeUploadId, ...variantData } = req.body;
+      const validationResult = resumeVariantInputSchema
+        .omit({ profileId: true, createdBy: true })
+        .partial()
+        .safeParse(variantData);
       if (!validationResult.success) {
-        return res.status(400).json({ message: "Invalid target data", errors: validationResult.error.errors });
+        return res.status(400).json({ message: "Invalid resume variant data", errors: validationResult.error.errors });
       }
       
-      const target = await storage.createTarget(validationResult.data);
-      res.status(201).json(target);
+      const resumeUpload = getResumeUpload(req, resumeUploadId);
+      if (resumeUploadId !== undefined && !resumeUpload) {
+        return res.status(400).json({ message: expiredResumeUploadMessage });
+      }
+      
+      const name = validationResult.data.name;
+      if (name) {
+        const existingVariants = await storage.getResumeVariants(id);
+        if (existingVariants.some(v => v.id !== variantId && v.name.toLowerCase() === name.toLowerCase())) {
+          return res.status(400).json({ message: `This profile already has a variant named "${name}"` });
+        }
+      }
+      
+      const variant = await storage.updateResumeVariant(variantId, { ...validationResult.data, ...resumeUpload });
+      
+      if (variant) {
+        await recordAudit(req, { action: "update", entityType: "resume_variant", entityId: variantId, before: existing, after: variant });
+        res.json(variant);
+      } else {
+        res.status(404).json({ message: "Resume variant not found" });
+      }
     } catch (error) {
-      res.status(500).json({ message: "Failed to create target" });
+      res.status(500).json({ message: "Failed to update resume variant" });
     }
   });
   
-  app.patch("/api/targets/:id", hasRole(["manager"]), async (req, res) => {
+  app.delete("/api/profiles/:id/variants/:variantId", hasRole(["manager"]), async (req, res) => {
     try {
       const id = Number(req.params.id);
-      const { jobsToFetch, jobsToApply } = req.body;
+      const variantId = Number(req.params.variantId);
+      const existing = await storage.getResumeVariant(variantId);
       
-      if (typeof jobsToFetch !== 'number' || typeof jobsToApply !== 'number') {
-        return res.status(400).json({ message: "Invalid target data" });
+      if (!existing || existing.profileId !== id) {
+        return res.status(404).json({ message: "Resume variant not found" });
       }
       
-      const target = await storage.updateTarget(id, jobsToFetch, jobsToApply);
+      const success = await storage.deleteResumeVariant(variantId);
       
-      if (target) {
-        res.json(target);
+      if (success) {
+        await recordAudit(req, { action: "delete", entityType: "resume_variant", entityId: variantId, before: existing });
+        res.status(204).send();
       } else {
-        res.status(404).json({ message: "Target not found" });
+        res.status(400).json({ message: "This variant has applications or leads recorded against it and cannot be deleted" });
       }
     } catch (error) {
-      res.status(500).json({ message: "Failed to update target" });
+      res.status(500).json({ message: "Failed to delete resume variant" });
     }
   });
   
-  app.delete("/api/targets/:id", hasRole(["manager"]), async (req, res) => {
+  // Resume version routes
+  app.get("/api/profiles/:id/versions", hasRole(["manager"]), async (req, res) => {
     try {
       const id = Number(req.params.id);
-      const success = await storage.deleteTarget(id);
+      const versions = await storage.getProfileResumeVersions(id);
       
-      if (success) {
-        res.status(204).send();
-      } else {
-        res.status(404).json({ message: "Target not found" });
-      }
+      // Leave the PDF data out of the listing and name the author of each version
+      const expandedVersions = await Promise.all(
+        versions.map(async ({ resumeBuffer, ...version }) => {
+          const author = version.createdBy ? await storage.getUser(version.createdBy) : undefined;
+          return {
+            ...version,
+            hasPdf: !!(version.resumeFileHash || resumeBuffer),
+            createdByName: author?.name || 'Unknown'
+          };
+        })
+      );
+      
+      res.json(expandedVersions);
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete target" });
+      res.status(500).json({ message: "Failed to fetch resume versions" });
     }
   });
   
-  // Progress Update routes
-  app.get("/api/progress-updates", isAuthenticated, async (req, res) => {
+  app.get("/api/profiles/:id/versions/diff", hasRole(["manager"]), async (req, res) => {
     try {
-      // If user is a manager, they can see all progress updates
-      // If user is lead_gen, they can only see their own progress updates
+      const id = Number(req.params.id);
+      const from = await storage.getProfileResumeVersion(Number(req.query.from));
+      const to = await storage.getProfileResumeVersion(Number(req.query.to));
+      
+      if (!from || !to || from.profileId !== id || to.profileId !== id) {
+        return res.status(404).json({ message: "Resume version not found" });
+      }
+      
+      res.json({
+        fromVersion: from.versionNumber,
+        toVersion: to.versionNumber,
+        lines: diffLines(from.resumeContent || '', to.resumeContent || '')
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to compare resume versions" });
+    }
+  });
+  
+  app.get("/api/profiles/:id/versions/:versionId/resume", hasRole(["manager"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const version = await storage.getProfileResumeVersion(Number(req.params.versionId));
+      
+      const buffer = version && version.profileId === id ? await loadResumeFile(version) : undefined;
+      if (!version || !buffer) {
+        return res.status(404).json({ message: "Resume not found" });
+      }
+      
+      const profile = await storage.getProfile(id);
+      const fileName = version.resumeFileName ||
+        `${(profile?.name || 'Profile').replace(/\s+/g, '_')}_Resume_v${version.versionNumber}.pdf`;
+      
+      res.setHeader('Content-Type', getResumeContentType(version.resumeFileName));
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(buffer);
+    } catch (error) {
+      console.error('Error downloading resume version:', error);
+      res.status(500).json({ message: "Failed to download resume" });
+    }
+  });
+  
+  app.post("/api/profiles/:id/versions/:versionId/restore", hasRole(["manager"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const versionId = Number(req.params.versionId);
+      const existing = await storage.getProfile(id);
+      const profile = await storage.restoreProfileResumeVersion(id, versionId, req.user!.id);
+      
+      if (profile) {
+        await recordAudit(req, { action: "update", entityType: "profile", entityId: id, before: existing, after: profile });
+        res.json(toProfileMetadata(profile));
+      } else {
+        res.status(404).json({ message: "Resume version not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore resume version" });
+    }
+  });
+  
+  // Users routes
+  // Deactivated users are left out unless includeDeactivated=true, so pickers only offer active ones
+  app.get("/api/users", hasRole(["manager"]), async (req, res) => {
+    try {
+      const role = req.query.role as string | undefined;
+      const includeDeactivated = req.query.includeDeactivated === "true";
+      const users = (await storage.getUsers(role))
+        .filter(user => includeDeactivated || !user.deactivatedAt)
+        .map(toUserMetadata);
+      console.log(`Fetching users with role ${role || 'all'}:`, users);
+      res.json(users);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+  
+  app.post("/api/users", hasRole(["manager"]), async (req, res) => {
+    try {
+      const validationResult = insertUserSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid user data", errors: validationResult.error.errors });
+      }
+      
+      if (await storage.getUserByUsername(validationResult.data.username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+      
+      const user = await storage.createUser({
+        ...validationResult.data,
+        password: await hashPassword(validationResult.data.password)
+      });
+      await recordAudit(req, { action: "create", entityType: "user", entityId: user.id, after: user });
+      res.status(201).json(toUserMetadata(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+  
+  app.patch("/api/users/:id", hasRole(["manager"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      
+      const validationResult = updateUserSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid user data", errors: validationResult.error.errors });
+      }
+      
+      const existing = await storage.getUser(id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Keep at least the signed-in manager able to manage users
+      const { role } = validationResult.data;
+      if (id === req.user!.id && role && role !== existing.role) {
+        return res.status(400).json({ message: "You can't change your own role" });
+      }
+      
+      const user = await storage.updateUser(id, validationResult.data);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      await recordAudit(req, { action: "update", entityType: "user", entityId: id, before: existing, after: user });
+      res.json(toUserMetadata(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+  
+  app.post("/api/users/:id/password", hasRole(["manager"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      
+      const validationResult = resetPasswordSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid password", errors: validationResult.error.errors });
+      }
+      
+      const user = await storage.updateUser(id, { password: await hashPassword(validationResult.data.password) });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Sign the user out everywhere so whoever had the old password loses access; a manager resetting
+      // their own password keeps this session
+      await storage.destroyUserSessions(id, id === req.user!.id ? req.sessionID : undefined);
+      await recordAudit(req, { action: "reset_password", entityType: "user", entityId: id });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+  
+  app.post("/api/users/:id/deactivate", hasRole(["manager"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: "You can't deactivate yourself" });
+      }
+      
+      const existing = await storage.getUser(id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (existing.deactivatedAt) {
+        return res.status(400).json({ message: "User is already deactivated" });
+      }
+      
+      const user = await storage.setUserDeactivated(id, true);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      await recordAudit(req, { action: "deactivate", entityType: "user", entityId: id, before: existing, after: user });
+      res.json(toUserMetadata(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to deactivate user" });
+    }
+  });
+  
+  app.post("/api/users/:id/reactivate", hasRole(["manager"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const existing = await storage.getUser(id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!existing.deactivatedAt) {
+        return res.status(400).json({ message: "User is already active" });
+      }
+      
+      const user = await storage.setUserDeactivated(id, false);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      await recordAudit(req, { action: "reactivate", entityType: "user", entityId: id, before: existing, after: user });
+      res.json(toUserMetadata(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reactivate user" });
+    }
+  });
+  
+  // For a user who has lost their authenticator and recovery codes; they can sign in with just a password again
+  app.post("/api/users/:id/two-factor/reset", hasRole(["manager"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const existing = await storage.getUser(id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!existing.totpSecret) {
+        return res.status(400).json({ message: "Two-factor authentication isn't on for this user" });
+      }
+      
+      const user = await storage.updateUserTwoFactor(id, {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpRecoveryCodes: null,
+        totpLastUsedStep: null,
+      });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      await recordAudit(req, { action: "disable_two_factor", entityType: "user", entityId: id });
+      res.json(toUserMetadata(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+  
+  // Security settings
+  app.get("/api/settings/security", hasRole(["manager"]), async (req, res) => {
+    try {
+      res.json(await storage.getSecuritySettings());
+    } catch (error) {
+      console.error('Error fetching security settings:', error);
+      res.status(500).json({ message: "Failed to fetch security settings" });
+    }
+  });
+  
+  app.put("/api/settings/security", hasRole(["manager"]), async (req, res) => {
+    try {
+      const validationResult = securitySettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid security settings", errors: validationResult.error.errors });
+      }
+      
+      // Otherwise the manager turning it on would be locked out until they set it up
+      if (validationResult.data.requireManagerTwoFactor && !req.user!.totpSecret) {
+        return res.status(400).json({ message: "Set up two-factor authentication for your own account before requiring it" });
+      }
+      
+      const existing = await storage.getSecuritySettings();
+      const settings = await storage.updateSecuritySettings(validationResult.data, req.user!.id);
+      await recordAudit(req, { action: "update", entityType: "setting", entityId: null, before: existing, after: settings });
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update security settings" });
+    }
+  });
+  
+  // Invitation routes
+  app.get("/api/invitations", hasRole(["manager"]), async (req, res) => {
+    try {
+      const invitations = await storage.getInvitations();
+      res.json(await Promise.all(invitations.map(toInvitationListing)));
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+  
+  app.post("/api/invitations", hasRole(["manager"]), async (req, res) => {
+    try {
+      const validationResult = insertInvitationSchema.safeParse({
+        ...req.body,
+        invitedBy: req.user!.id
+      });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid invitation data", errors: validationResult.error.errors });
+      }
+      
+      const email = validationResult.data.email.toLowerCase();
+      const users = await storage.getUsers();
+      if (users.some(user => user.email.toLowerCase() === email)) {
+        return res.status(400).json({ message: "A user with this email already exists" });
+      }
+      
+      const invitations = await storage.getInvitations();
+      if (invitations.some(invitation => invitation.email.toLowerCase() === email && getInvitationStatus(invitation) === "pending")) {
+        return res.status(400).json({ message: "This email already has a pending invitation. Resend it instead." });
+      }
+      
+      const { token, tokenHash, expiresAt } = createInvitationToken();
+      const invitation = await storage.createInvitation(validationResult.data, tokenHash, expiresAt);
+      await recordAudit(req, { action: "create", entityType: "invitation", entityId: invitation.id, after: invitation });
+      // The only time the token is sent; the manager shares the link built from it
+      res.status(201).json({ ...(await toInvitationListing(invitation)), token });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create invitation" });
+    }
+  });
+  
+  // Resending issues a new link with a fresh expiry; the previous link stops working
+  app.post("/api/invitations/:id/resend", hasRole(["manager"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const existing = await storage.getInvitation(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      const { token, tokenHash, expiresAt } = createInvitationToken();
+      const invitation = await storage.renewInvitation(id, tokenHash, expiresAt);
+      if (!invitation) {
+        return res.status(400).json({ message: `This invitation has been ${getInvitationStatus(existing)} and can't be resent` });
+      }
+      
+      await recordAudit(req, { action: "resend", entityType: "invitation", entityId: id, before: existing, after: invitation });
+      res.json({ ...(await toInvitationListing(invitation)), token });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to resend invitation" });
+    }
+  });
+  
+  app.post("/api/invitations/:id/revoke", hasRole(["manager"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const existing = await storage.getInvitation(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      const invitation = await storage.revokeInvitation(id);
+      if (!invitation) {
+        return res.status(400).json({ message: `This invitation has already been ${getInvitationStatus(existing)}` });
+      }
+      
+      await recordAudit(req, { action: "revoke", entityType: "invitation", entityId: id, before: existing, after: invitation });
+      res.json(await toInvitationListing(invitation));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+  
+  // Lead Generation Assignment routes
+  app.get("/api/lead-gen-assignments", hasRole(["manager"]), async (req, res) => {
+    try {
+      const assignments = await storage.getLeadGenAssignments();
+      
+      // Expand the assignment data with user and profile information
+      const expandedAssignments = await Promise.all(
+        assignments.map(async (assignment) => {
+          const user = await storage.getUser(assignment.userId);
+          const profile = await getProfileMetadata(assignment.profileId);
+          return {
+            ...assignment,
+            user: user && toUserMetadata(user),
+            profile
+          };
+        })
+      );
+      
+      res.json(expandedAssignments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch lead generation assignments" });
+    }
+  });
+  
+  app.post("/api/lead-gen-assignments", hasRole(["manager"]), async (req, res) => {
+    try {
+      const validationResult = insertLeadGenAssignmentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid assignment data", errors: validationResult.error.errors });
+      }
+      
+      if (!(await isActiveProfile(validationResult.data.profileId))) {
+        return res.status(400).json({ message: "Only active profiles can be assigned" });
+      }
+      
+      if (!(await isActiveUser(validationResult.data.userId))) {
+        return res.status(400).json({ message: "Deactivated users can't be assigned profiles" });
+      }
+      
+      // Assigning a user who already has a profile replaces their assignment
+      const existing = await storage.getLeadGenAssignment(validationResult.data.userId);
+      const assignment = await storage.createLeadGenAssignment(validationResult.data);
+      await recordAudit(req, {
+        action: existing ? "update" : "create",
+        entityType: "lead_gen_assignment",
+        entityId: assignment.id,
+        before: existing,
+        after: assignment
+      });
+      res.status(201).json(assignment);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create lead generation assignment" });
+    }
+  });
+  
+  app.delete("/api/lead-gen-assignments/:userId", hasRole(["manager"]), async (req, res) => {
+    try {
+      const userId = Number(req.params.userId);
+      const assignment = await storage.getLeadGenAssignment(userId);
+      const success = await storage.deleteLeadGenAssignment(userId, req.user!.id);
+      
+      if (success) {
+        await recordAudit(req, { action: "delete", entityType: "lead_gen_assignment", entityId: assignment?.id, before: assignment });
+        res.status(204).send();
+      } else {
+        res.status(404).json({ message: "Assignment not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete lead generation assignment" });
+    }
+  });
+  
+  // Sales Assignment routes
+  app.get("/api/sales-assignments", hasRole(["manager"]), async (req, res) => {
+    try {
+      const userId = req.query.userId ? Number(req.query.userId) : undefined;
+      const assignments = await storage.getSalesAssignments(userId);
+      
+      // Expand the assignment data with user and profile information
+      const expandedAssignments = await Promise.all(
+        assignments.map(async (assignment) => {
+          const user = await storage.getUser(assignment.userId);
+          const profile = await getProfileMetadata(assignment.profileId);
+          return {
+            ...assignment,
+            user: user && toUserMetadata(user),
+            profile
+          };
+        })
+      );
+      
+      res.json(expandedAssignments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sales assignments" });
+    }
+  });
+  
+  app.post("/api/sales-assignments", hasRole(["manager"]), async (req, res) => {
+    try {
+      const validationResult = insertSalesAssignmentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid assignment data", errors: validationResult.error.errors });
+      }
+      
+      if (!(await isActiveProfile(validationResult.data.profileId))) {
+        return res.status(400).json({ message: "Only active profiles can be assigned" });
+      }
+      
+      if (!(await isActiveUser(validationResult.data.userId))) {
+        return res.status(400).json({ message: "Deactivated users can't be assigned profiles" });
+      }
+      
+      const isAssigned = (await storage.getSalesAssignments(validationResult.data.userId))
+        .some(a => a.profileId === validationResult.data.profileId);
+      const assignment = await storage.createSalesAssignment(validationResult.data);
+      if (!isAssigned) {
+        await recordAudit(req, { action: "create", entityType: "sales_assignment", entityId: assignment.id, after: assignment });
+      }
+      res.status(201).json(assignment);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create sales assignment" });
+    }
+  });
+  
+  app.delete("/api/sales-assignments/:id", hasRole(["manager"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const assignment = (await storage.getSalesAssignments()).find(a => a.id === id);
+      const success = await storage.deleteSalesAssignment(id, req.user!.id);
+      
+      if (success) {
+        await recordAudit(req, { action: "delete", entityType: "sales_assignment", entityId: id, before: assignment });
+        res.status(204).send();
+      } else {
+        res.status(404).json({ message: "Assignment not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete sales assignment" });
+    }
+  });
+  
+  // Target routes
+  app.get("/api/targets", isAuthenticated, async (req, res) => {
+    try {
+      // If user is a manager, they can see all targets
+      // If user is lead_gen or sales, they can only see their own targets
+      let userId: number | undefined = undefined;
+      
+      if (req.user!.role !== "manager") {
+        userId = req.user!.id;
+      } else if (req.query.userId) {
+        userId = Number(req.query.userId);
+      }
+      
+      const targets = await storage.getTargets(userId);
+      
+      // Expand the target data with user and profile information
+      const expandedTargets = await Promise.all(
+        targets.map(async (target) => {
+          const user = await storage.getUser(target.userId);
+          const profile = await getProfileMetadata(target.profileId);
+          return {
+            ...target,
+            user: user && toUserMetadata(user),
+            profile
+          };
+        })
+      );
+      
+      res.json(expandedTargets);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch targets" });
+    }
+  });
+  
+  app.post("/api/targets", hasRole(["manager"]), async (req, res) => {
+    try {
+      const validationResult = insertTargetSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid target data", errors: validationResult.error.errors });
+      }
+      
+      if (!(await isActiveProfile(validationResult.data.profileId))) {
+        return res.status(400).json({ message: "Targets can only be set for active profiles" });
+      }
+      
+      if (!(await isActiveUser(validationResult.data.userId))) {
+        return res.status(400).json({ message: "Targets can't be set for deactivated users" });
+      }
+      
+      const target = await storage.createTarget(validationResult.data);
+      await recordAudit(req, { action: "create", entityType: "target", entityId: target.id, after: target });
+      res.status(201).json(target);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create target" });
+    }
+  });
+  
+  app.patch("/api/targets/:id", hasRole(["manager"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const { jobsToFetch, jobsToApply } = req.body;
+      
+      if (typeof jobsToFetch !== 'number' || typeof jobsToApply !== 'number') {
+        return res.status(400).json({ message: "Invalid target data" });
+      }
+      
+      const existing = (await storage.getTargets()).find(t => t.id === id);
+      const target = await storage.updateTarget(id, jobsToFetch, jobsToApply);
+      
+      if (target) {
+        await recordAudit(req, { action: "update", entityType: "target", entityId: id, before: existing, after: target });
+        res.json(target);
+      } else {
+        res.status(404).json({ message: "Target not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update target" });
+    }
+  });
+  
+  app.delete("/api/targets/:id", hasRole(["manager"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const target = (await storage.getTargets()).find(t => t.id === id);
+      const success = await storage.deleteTarget(id, req.user!.id);
+      
+      if (success) {
+        await recordAudit(req, { action: "delete", entityType: "target", entityId: id, before: target });
+        res.status(204).send();
+      } else {
+        res.status(404).json({ message: "Target not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete target" });
+    }
+  });
+  
+  // Recently deleted routes
+  // Deleted profiles, targets and assignments, newest first, with the names needed to recognise them
+  app.get("/api/deleted-items", hasRole(["manager"]), async (req, res) => {
+    try {
+      const [deleted, users, liveProfiles] = await Promise.all([
+        storage.getDeletedItems(),
+        storage.getUsers(),
+        storage.getProfiles()
+      ]);
+      
+      const userNames = new Map(users.map(user => [user.id, user.name]));
+      const profileNames = new Map([...liveProfiles, ...deleted.profiles].map(profile => [profile.id, profile.name]));
+      const assignee = (item: { userId: number, profileId: number }) =>
+        `${userNames.get(item.userId) || 'Unknown'} on ${profileNames.get(item.profileId) || 'Unknown'}`;
+      const deletion = (item: { deletedAt: Date | null, deletedBy: number | null }) => ({
+        deletedAt: item.deletedAt,
+        deletedByName: (item.deletedBy && userNames.get(item.deletedBy)) || 'Unknown'
+      });
+      
+      const items = [
+        ...deleted.profiles.map(profile => ({
+          type: "profile", id: profile.id, label: profile.name, detail: profile.description, ...deletion(profile)
+        })),
+        ...deleted.targets.map(target => ({
+          type: "target", id: target.id, label: assignee(target),
+          detail: `${target.jobsToFetch} to fetch, ${target.jobsToApply} to apply, ${target.startDate} to ${target.endDate}`,
+          ...deletion(target)
+        })),
+        ...deleted.leadGenAssignments.map(assignment => ({
+          type: "lead_gen_assignment", id: assignment.id, label: assignee(assignment), detail: null, ...deletion(assignment)
+        })),
+        ...deleted.salesAssignments.map(assignment => ({
+          type: "sales_assignment", id: assignment.id, label: assignee(assignment), detail: null, ...deletion(assignment)
+        })),
+      ];
+      
+      res.json(items.sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime()));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch deleted items" });
+    }
+  });
+  
+  app.post("/api/deleted-items/:type/:id/restore", hasRole(["manager"]), async (req, res) => {
+    try {
+      const typeResult = z.enum(deletableItemTypes).safeParse(req.params.type);
+      if (!typeResult.success) {
+        return res.status(404).json({ message: "Deleted item not found" });
+      }
+      
+      const id = Number(req.params.id);
+      const item = findDeletedItem(await storage.getDeletedItems(), typeResult.data, id);
+      if (!item) {
+        return res.status(404).json({ message: "Deleted item not found" });
+      }
+      
+      const conflict = await getRestoreConflict(typeResult.data, item);
+      if (conflict) {
+        return res.status(400).json({ message: conflict });
+      }
+      
+      // Storage errors are thrown, so false means someone else restored or purged it first
+      const restored = await storage.restoreDeletedItem(typeResult.data, id);
+      if (!restored) {
+        return res.status(404).json({ message: "Deleted item not found" });
+      }
+      
+      await recordAudit(req, { action: "restore", entityType: typeResult.data, entityId: id, before: item });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore deleted item" });
+    }
+  });
+  
+  // Permanently remove a binned row; purging a profile also removes its history and binned assignments
+  app.delete("/api/deleted-items/:type/:id", hasRole(["manager"]), async (req, res) => {
+    try {
+      const typeResult = z.enum(deletableItemTypes).safeParse(req.params.type);
+      if (!typeResult.success) {
+        return res.status(404).json({ message: "Deleted item not found" });
+      }
+      
+      const id = Number(req.params.id);
+      const item = findDeletedItem(await storage.getDeletedItems(), typeResult.data, id);
+      const success = !!item && await storage.purgeDeletedItem(typeResult.data, id);
+      
+      if (success) {
+        await recordAudit(req, { action: "purge", entityType: typeResult.data, entityId: id, before: item });
+        res.status(204).send();
+      } else {
+        res.status(404).json({ message: "Deleted item not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to purge deleted item" });
+    }
+  });
+  
+  // Audit log routes
+  app.get("/api/audit-logs", hasRole(["manager"]), async (req, res) => {
+    try {
+      const { actorId, entityType, fromDate, toDate } = parseAuditLogFilters(req);
+      const [entries, users] = await Promise.all([
+        storage.getAuditLogs(actorId, entityType, fromDate, toDate),
+        storage.getUsers()
+      ]);
+      
+      const userNames = new Map(users.map(user => [user.id, user.name]));
+      res.json({
+        total: entries.length,
+        entries: entries.slice(0, maxAuditLogRows).map(entry => ({
+          ...entry,
+          actorName: entry.actorId ? userNames.get(entry.actorId) || 'Unknown' : null
+        }))
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+  
+  app.get("/api/audit-logs/export", hasRole(["manager"]), async (req, res) => {
+    try {
+      const { actorId, entityType, fromDate, toDate } = parseAuditLogFilters(req);
+      const [entries, users] = await Promise.all([
+        storage.getAuditLogs(actorId, entityType, fromDate, toDate),
+        storage.getUsers()
+      ]);
+      
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().split('T')[0]}.csv"`);
+      res.send(formatAuditLogCsv(entries, users));
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      res.status(500).json({ message: "Failed to export audit log" });
+    }
+  });
+  
+  // Progress Update routes
+  app.get("/api/progress-updates", isAuthenticated, async (req, res) => {
+    try {
+      // If user is a manager, they can see all progress updates
+      // If user is lead_gen, they can only see their own progress updates
+      let userId: number | undefined = undefined;
+      
+      if (req.user!.role !== "manager") {
+        userId = req.user!.id;
+      } else if (req.query.userId) {
+        userId = Number(req.query.userId);
+      }
+      
+      const fromDate = req.query.fromDate ? new Date(req.query.fromDate as string) : undefined;
+      const toDate = req.query.toDate ? new Date(req.query.toDate as string) : undefined;
+      
+      const updates = await storage.getProgressSummaries(userId, fromDate, toDate);
+      
+      // Expand the update data with user and profile information
+      const expandedUpdates = await Promise.all(
+        updates.map(async (update) => {
+          const user = await storage.getUser(update.userId);
+          const profile = await getProfileMetadata(update.profileId);
+          return {
+            ...update,
+            user: user && toUserMetadata(user),
+            profile
+          };
+        })
+      );
+      
+      res.json(expandedUpdates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch progress updates" });
+    }
+  });
+  
+  app.post("/api/progress-updates", hasRole(["lead_gen"]), async (req, res) => {
+    try {
+      // Make sure the user is only submitting progress for their assigned profile
+      const assignedProfile = await storage.getUserAssignedProfile(req.user!.id);
+      if (!assignedProfile) {
+        return res.status(400).json({ message: "No profile assigned to this user" });
+      }
+      
+      const data = {
+        ...req.body,
+        userId: req.user!.id,
+        profileId: assignedProfile.profile.id
+      };
+      
+      const validationResult = insertProgressUpdateSchema.safeParse(data);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid progress update data", errors: validationResult.error.errors });
+      }
+      
+      if (assignedProfile.profile.status !== "active") {
+        return res.status(400).json({ message: inactiveProfileWorkMessage });
+      }
+      
+      const update = await storage.createProgressUpdate(validationResult.data);
+      await recordAudit(req, { action: "create", entityType: "progress_update", entityId: update.id, after: update });
+      res.status(201).json(update);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create progress update" });
+    }
+  });
+  
+  // Job Application routes
+  app.get("/api/job-applications", isAuthenticated, async (req, res) => {
+    try {
+      // If user is a manager, they can see all job applications
+      // If user is lead_gen, they can only see their own job applications
+      let userId: number | undefined = undefined;
+      
+      if (req.user!.role !== "manager") {
+        userId = req.user!.id;
+      } else if (req.query.userId) {
+        userId = Number(req.query.userId);
+      }
+      
+      const fromDate = req.query.fromDate ? new Date(req.query.fromDate as string) : undefined;
+      const toDate = req.query.toDate ? new Date(req.query.toDate as string) : undefined;
+      
+      let applications = await storage.getJobApplications(userId, fromDate, toDate);
+      
+      if (req.query.profileId) {
+        const profileId = Number(req.query.profileId);
+        applications = applications.filter(application => application.profileId === profileId);
+      }
+      
+      // Expand the application data with user and profile information
+      const expandedApplications = await Promise.all(
+        applications.map(async (application) => {
+          const user = await storage.getUser(application.userId);
+          const profile = await getProfileMetadata(application.profileId);
+          return {
+            ...application,
+            user: user && toUserMetadata(user),
+            profile
+          };
+        })
+      );
+      
+      res.json(expandedApplications);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch job applications" });
+    }
+  });
+  
+  app.post("/api/job-applications", hasRole(["lead_gen"]), async (req, res) => {
+    try {
+      // Make sure the user is only logging applications for their assigned profile
+      const assignedProfile = await storage.getUserAssignedProfile(req.user!.id);
+      if (!assignedProfile) {
+        return res.status(400).json({ message: "No profile assigned to this user" });
+      }
+      
+      const data = {
+        ...req.body,
+        userId: req.user!.id,
+        profileId: assignedProfile.profile.id
+      };
+      
+      // Stamp the application time when a job is logged as already applied
+      if (data.status === "applied" && !data.appliedAt) {
+        data.appliedAt = new Date();
+      }
+      
+      const validationResult = insertJobApplicationSchema.safeParse(data);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid job application data", errors: validationResult.error.errors });
+      }
+      
+      if (assignedProfile.profile.status !== "active") {
+        return res.status(400).json({ message: inactiveProfileWorkMessage });
+      }
+      
+      const resumeVariantId = validationResult.data.resumeVariantId;
+      if (resumeVariantId && !(await isVariantOfProfile(resumeVariantId, assignedProfile.profile.id))) {
+        return res.status(400).json({ message: "Resume variant does not belong to this profile" });
+      }
+      
+      const application = await storage.createJobApplication(validationResult.data);
+      await recordAudit(req, { action: "create", entityType: "job_application", entityId: application.id, after: application });
+      res.status(201).json(application);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create job application" });
+    }
+  });
+  
+  app.patch("/api/job-applications/:id", hasRole(["lead_gen"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const existing = await storage.getJobApplication(id);
+      
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Job application not found" });
+      }
+      
+      const validationResult = insertJobApplicationSchema
+        .omit({ userId: true, profileId: true })
+        .partial()
+        .safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid job application data", errors: validationResult.error.errors });
+      }
+      
+      const data = validationResult.data;
+      if (data.resumeVariantId && !(await isVariantOfProfile(data.resumeVariantId, existing.profileId))) {
+        return res.status(400).json({ message: "Resume variant does not belong to this profile" });
+      }
+      
+      if (data.status === "applied" && !existing.appliedAt && !data.appliedAt) {
+        data.appliedAt = new Date();
+      }
+      
+      const application = await storage.updateJobApplication(id, data);
+      
+      if (application) {
+        await recordAudit(req, { action: "update", entityType: "job_application", entityId: id, before: existing, after: application });
+        res.json(application);
+      } else {
+        res.status(404).json({ message: "Job application not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update job application" });
+    }
+  });
+  
+  app.delete("/api/job-applications/:id", hasRole(["lead_gen"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const existing = await storage.getJobApplication(id);
+      
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Job application not found" });
+      }
+      
+      const success = await storage.deleteJobApplication(id);
+      
+      if (success) {
+        await recordAudit(req, { action: "delete", entityType: "job_application", entityId: id, before: existing });
+        res.status(204).send();
+      } else {
+        res.status(404).json({ message: "Job application not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete job application" });
+    }
+  });
+  
+  // Lead Entry routes
+  app.get("/api/lead-entries", isAuthenticated, async (req, res) => {
+    try {
+      // If user is a manager, they can see all lead entries
+      // If user is sales, they can only see their own lead entries
+      let userId: number | undefined = undefined;
+      
+      if (req.user!.role !== "manager") {
+        userId = req.user!.id;
+      } else if (req.query.userId) {
+        userId = Number(req.query.userId);
+      }
+      
+      const fromDate = req.query.fromDate ? new Date(req.query.fromDate as string) : undefined;
+      const toDate = req.query.toDate ? new Date(req.query.toDate as string) : undefined;
+      
+      // Daily totals come from the lead pipeline as well as manually entered entries
+      const entries = await storage.getLeadSummaries(userId, fromDate, toDate);
+      
+      // Expand the entry data with user and profile information
+      const expandedEntries = await Promise.all(
+        entries.map(async (entry) => {
+          const user = await storage.getUser(entry.userId);
+          const profile = await getProfileMetadata(entry.profileId);
+          return {
+            ...entry,
+            user: user && toUserMetadata(user),
+            profile
+          };
+        })
+      );
+      
+      res.json(expandedEntries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch lead entries" });
+    }
+  });
+  
+  app.post("/api/lead-entries", hasRole(["sales"]), async (req, res) => {
+    try {
+      // Make sure the user is only submitting lead entries for their assigned profiles
+      const assignedProfiles = await storage.getUserAssignedProfiles(req.user!.id);
+      const profileIds = assignedProfiles.map(p => p.id);
+      
+      if (!profileIds.includes(req.body.profileId)) {
+        return res.status(400).json({ message: "Profile not assigned to this user" });
+      }
+      
+      const data = {
+        ...req.body,
+        userId: req.user!.id
+      };
+      
+      const validationResult = insertLeadEntrySchema.safeParse(data);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid lead entry data", errors: validationResult.error.errors });
+      }
+      
+      if (!(await isActiveProfile(validationResult.data.profileId))) {
+        return res.status(400).json({ message: inactiveProfileWorkMessage });
+      }
+      
+      const entry = await storage.createLeadEntry(validationResult.data);
+      await recordAudit(req, { action: "create", entityType: "lead_entry", entityId: entry.id, after: entry });
+      res.status(201).json(entry);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create lead entry" });
+    }
+  });
+  
+  app.patch("/api/lead-entries/:id", hasRole(["sales"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const existing = (await storage.getLeadEntries()).find(e => e.id === id);
+      const entry = await storage.updateLeadEntry(id, req.body);
+      
+      if (entry) {
+        await recordAudit(req, { action: "update", entityType: "lead_entry", entityId: id, before: existing, after: entry });
+        res.json(entry);
+      } else {
+        res.status(404).json({ message: "Lead entry not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update lead entry" });
+    }
+  });
+  
+  // Lead pipeline routes
+  app.get("/api/leads", isAuthenticated, async (req, res) => {
+    try {
+      // If user is a manager, they can see all leads
+      // If user is sales, they can only see their own leads
+      let userId: number | undefined = undefined;
+      
+      if (req.user!.role !== "manager") {
+        userId = req.user!.id;
+      } else if (req.query.userId) {
+        userId = Number(req.query.userId);
+      }
+      
+      let leads = await storage.getLeads(userId);
+      
+      if (req.query.profileId) {
+        const profileId = Number(req.query.profileId);
+        leads = leads.filter(lead => lead.profileId === profileId);
+      }
+      
+      // Expand the lead data with user and profile information
+      const expandedLeads = await Promise.all(
+        leads.map(async (lead) => {
+          const user = await storage.getUser(lead.userId);
+          const profile = await getProfileMetadata(lead.profileId);
+          return {
+            ...lead,
+            user: user && toUserMetadata(user),
+            profile
+          };
+        })
+      );
+      
+      res.json(expandedLeads);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch leads" });
+    }
+  });
+  
+  app.get("/api/leads/:id/transitions", isAuthenticated, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const lead = await storage.getLead(id);
+      
+      if (!lead || (req.user!.role !== "manager" && lead.userId !== req.user!.id)) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      
+      const transitions = await storage.getLeadStageTransitions(id);
+      
+      // Expand the transition data with the user who made the change
+      const expandedTransitions = await Promise.all(
+        transitions.map(async (transition) => {
+          const changedByUser = await storage.getUser(transition.changedBy);
+          return {
+            ...transition,
+            changedByName: changedByUser?.name || 'Unknown'
+          };
+        })
+      );
+      
+      res.json(expandedTransitions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch lead history" });
+    }
+  });
+  
+  app.post("/api/leads", hasRole(["sales"]), async (req, res) => {
+    try {
+      // Make sure the user is only creating leads for their assigned profiles
+      const assignedProfiles = await storage.getUserAssignedProfiles(req.user!.id);
+      const profileIds = assignedProfiles.map(p => p.id);
+      
+      if (!profileIds.includes(req.body.profileId)) {
+        return res.status(400).json({ message: "Profile not assigned to this user" });
+      }
+      
+      const data = {
+        ...req.body,
+        userId: req.user!.id
+      };
+      
+      const validationResult = insertLeadSchema.safeParse(data);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid lead data", errors: validationResult.error.errors });
+      }
+      
+      if (!(await isActiveProfile(validationResult.data.profileId))) {
+        return res.status(400).json({ message: inactiveProfileWorkMessage });
+      }
+      
+      const resumeVariantId = validationResult.data.resumeVariantId;
+      if (resumeVariantId && !(await isVariantOfProfile(resumeVariantId, validationResult.data.profileId))) {
+        return res.status(400).json({ message: "Resume variant does not belong to this profile" });
+      }
+      
+      const lead = await storage.createLead(validationResult.data);
+      await recordAudit(req, { action: "create", entityType: "lead", entityId: lead.id, after: lead });
+      res.status(201).json(lead);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create lead" });
+    }
+  });
+  
+  app.patch("/api/leads/:id", hasRole(["sales"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const existing = await storage.getLead(id);
+      
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      
+      const validationResult = insertLeadSchema
+        .omit({ userId: true, profileId: true })
+        .partial()
+        .safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid lead data", errors: validationResult.error.errors });
+      }
+      
+      const resumeVariantId = validationResult.data.resumeVariantId;
+      if (resumeVariantId && !(await isVariantOfProfile(resumeVariantId, existing.profileId))) {
+        return res.status(400).json({ message: "Resume variant does not belong to this profile" });
+      }
+      
+      const lead = await storage.updateLead(id, validationResult.data);
+      
+      if (lead) {
+        await recordAudit(req, { action: "update", entityType: "lead", entityId: id, before: existing, after: lead });
+        res.json(lead);
+      } else {
+        res.status(404).json({ message: "Lead not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update lead" });
+    }
+  });
+  
+  app.post("/api/leads/:id/stage", hasRole(["sales"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const existing = await storage.getLead(id);
+      
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      
+      const validationResult = leadStageChangeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid stage change", errors: validationResult.error.errors });
+      }
+      
+      const { stage, notes } = validationResult.data;
+      if (!allowedLeadStageChanges[existing.stage].includes(stage)) {
+        return res.status(400).json({ message: `A lead cannot move from ${existing.stage} to ${stage}` });
+      }
+      
+      const lead = await storage.changeLeadStage(id, existing.stage, stage, req.user!.id, notes);
+      
+      if (lead) {
+        await recordAudit(req, { action: "update", entityType: "lead", entityId: id, before: existing, after: lead });
+        res.json(lead);
+      } else {
+        // Another move got there first; the board reloads to show where the lead is now
+        res.status(409).json({ message: "This lead was moved while you were changing it. Try again." });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to change lead stage" });
+    }
+  });
+  
+  // Interview routes
+  app.get("/api/interviews", isAuthenticated, async (req, res) => {
+    try {
+      // If user is a manager, they can see all interviews
+      // If user is sales, they can only see the interviews they arranged
+      let userId: number | undefined = undefined;
+      
+      if (req.user!.role !== "manager") {
+        userId = req.user!.id;
+      } else if (req.query.userId) {
+        userId = Number(req.query.userId);
+      }
+      
+      const fromDate = req.query.fromDate ? new Date(req.query.fromDate as string) : undefined;
+      const toDate = req.query.toDate ? new Date(req.query.toDate as string) : undefined;
+      
+      let interviews = await storage.getInterviews(userId, fromDate, toDate);
+      
+      if (req.query.profileId) {
+        const profileId = Number(req.query.profileId);
+        interviews = interviews.filter(interview => interview.profileId === profileId);
+      }
+      
+      // Expand the interview data with user, profile and lead information
+      const expandedInterviews = await Promise.all(
+        interviews.map(async (interview) => {
+          const user = await storage.getUser(interview.userId);
+          const profile = await getProfileMetadata(interview.profileId);
+          const lead = interview.leadId ? await storage.getLead(interview.leadId) : undefined;
+          return {
+            ...interview,
+            user: user && toUserMetadata(user),
+            profile,
+            lead
+          };
+        })
+      );
+      
+      res.json(expandedInterviews);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch interviews" });
+    }
+  });
+  
+  app.post("/api/interviews", hasRole(["sales"]), async (req, res) => {
+    try {
+      // Make sure the user is only scheduling interviews for their assigned profiles
+      const assignedProfiles = await storage.getUserAssignedProfiles(req.user!.id);
+      const profileIds = assignedProfiles.map(p => p.id);
+      
+      if (!profileIds.includes(req.body.profileId)) {
+        return res.status(400).json({ message: "Profile not assigned to this user" });
+      }
+      
+      const data = {
+        ...req.body,
+        userId: req.user!.id
+      };
+      
+      const validationResult = insertInterviewSchema.safeParse(data);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid interview data", errors: validationResult.error.errors });
+      }
+      
+      const interview = validationResult.data;
+      if (interview.leadId) {
+        const lead = await storage.getLead(interview.leadId);
+        if (!lead || lead.userId !== req.user!.id || lead.profileId !== interview.profileId) {
+          return res.status(400).json({ message: "Lead does not belong to this profile" });
+        }
+      }
+      
+      const booking = await storage.createInterview(interview);
+      if (!booking.interview) {
+        return res.status(409).json({ message: "This profile already has an interview at that time", conflicts: booking.conflicts });
+      }
+      
+      const createdInterview = booking.interview;
+      await recordAudit(req, { action: "create", entityType: "interview", entityId: createdInterview.id, after: createdInterview });
+      res.status(201).json(createdInterview);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create interview" });
+    }
+  });
+  
+  app.patch("/api/interviews/:id", hasRole(["sales"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const existing = await storage.getInterview(id);
+      
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Interview not found" });
+      }
+      
+      const validationResult = insertInterviewSchema
+        .omit({ userId: true, profileId: true })
+        .partial()
+        .safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid interview data", errors: validationResult.error.errors });
+      }
+      
+      const data = validationResult.data;
+      if (data.leadId) {
+        const lead = await storage.getLead(data.leadId);
+        if (!lead || lead.userId !== req.user!.id || lead.profileId !== existing.profileId) {
+          return res.status(400).json({ message: "Lead does not belong to this profile" });
+        }
+      }
+      
+      // The slot is checked again whenever the time moves or a cancelled interview is reinstated
+      const booking = await storage.updateInterview(id, data);
+      if (booking && !booking.interview) {
+        return res.status(409).json({ message: "This profile already has an interview at that time", conflicts: booking.conflicts });
+      }
+      
+      const interview = booking?.interview;
+      if (interview) {
+        await recordAudit(req, { action: "update", entityType: "interview", entityId: id, before: existing, after: interview });
+        res.json(interview);
+      } else {
+        res.status(404).json({ message: "Interview not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update interview" });
+    }
+  });
+  
+  app.delete("/api/interviews/:id", hasRole(["sales"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const existing = await storage.getInterview(id);
+      
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Interview not found" });
+      }
+      
+      const success = await storage.deleteInterview(id);
+      
+      if (success) {
+        await recordAudit(req, { action: "delete", entityType: "interview", entityId: id, before: existing });
+        res.status(204).send();
+      } else {
+        res.status(404).json({ message: "Interview not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete interview" });
+    }
+  });
+  
+  // Job description match routes
+  app.get("/api/job-matches", hasRole(["manager", "lead_gen"]), async (req, res) => {
+    try {
+      // Managers can see every scored job description; lead gen only their own
       let userId: number | undefined = undefined;
       
       if (req.user!.role !== "manager") {
@@ -364,139 +2067,268 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const fromDate = req.query.fromDate ? new Date(req.query.fromDate as string) : undefined;
       const toDate = req.query.toDate ? new Date(req.query.toDate as string) : undefined;
       
-      const updates = await storage.getProgressUpdates(userId, fromDate, toDate);
+      const matches = await storage.getJobDescriptionMatches(userId, fromDate, toDate);
       
-      // Expand the update data with user and profile information
-      const expandedUpdates = await Promise.all(
-        updates.map(async (update) => {
-          const user = await storage.getUser(update.userId);
-          const profile = await storage.getProfile(update.profileId);
+      // Expand the match data with user information
+      const expandedMatches = await Promise.all(
+        matches.map(async (match) => {
+          const user = await storage.getUser(match.userId);
           return {
-            ...update,
-            user,
-            profile
+            ...match,
+            user: user && toUserMetadata(user)
           };
         })
       );
       
-      res.json(expandedUpdates);
+      res.json(expandedMatches);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch progress updates" });
+      res.status(500).json({ message: "Failed to fetch job matches" });
     }
   });
   
-  app.post("/api/progress-updates", hasRole(["lead_gen"]), async (req, res) => {
+  // Score a pasted job description against the lead gen user's assigned resume and keep the result
+  app.post("/api/job-matches", hasRole(["lead_gen"]), async (req, res) => {
     try {
-      // Make sure the user is only submitting progress for their assigned profile
-      const assignedProfile = await storage.getUserAssignedProfile(req.user!.id);
-      if (!assignedProfile) {
-        return res.status(400).json({ message: "No profile assigned to this user" });
+      const validationResult = jobMatchRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid job description", errors: validationResult.error.errors });
       }
       
-      const data = {
-        ...req.body,
+      const assigned = await storage.getUserAssignedProfile(req.user!.id);
+      if (!assigned) {
+        return res.status(404).json({ message: "No profile assigned" });
+      }
+      
+      const { profile } = assigned;
+      if (!profile.resumeContent) {
+        return res.status(400).json({ message: "The assigned profile has no resume text to match against" });
+      }
+      
+      const { jobTitle, jobDescription } = validationResult.data;
+      const structure = profile.resumeStructure || parseResumeStructure(profile.resumeContent);
+      const result = scoreJobDescription(jobDescription, profile.resumeContent, structure.skills);
+      
+      const match = await storage.createJobDescriptionMatch({
         userId: req.user!.id,
-        profileId: assignedProfile.profile.id
-      };
+        profileId: profile.id,
+        jobTitle: jobTitle || null,
+        jobDescription,
+        score: result.score,
+        details: result.details
+      });
       
-      const validationResult = insertProgressUpdateSchema.safeParse(data);
+      await recordAudit(req, { action: "create", entityType: "job_match", entityId: match.id, after: match });
+      res.status(201).json({ ...match, highlights: result.highlights });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to score job description" });
+    }
+  });
+  
+  // Cover letter template routes
+  app.get("/api/cover-letter-templates", hasRole(["manager", "lead_gen"]), async (req, res) => {
+    try {
+      const templates = await storage.getCoverLetterTemplates();
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch cover letter templates" });
+    }
+  });
+  
+  app.post("/api/cover-letter-templates", hasRole(["manager"]), async (req, res) => {
+    try {
+      const validationResult = insertCoverLetterTemplateSchema.safeParse({
+        ...req.body,
+        createdBy: req.user!.id
+      });
       if (!validationResult.success) {
-        return res.status(400).json({ message: "Invalid progress update data", errors: validationResult.error.errors });
+        return res.status(400).json({ message: "Invalid cover letter template", errors: validationResult.error.errors });
       }
       
-      const update = await storage.createProgressUpdate(validationResult.data);
-      res.status(201).json(update);
+      const template = await storage.createCoverLetterTemplate(validationResult.data);
+      await recordAudit(req, { action: "create", entityType: "cover_letter_template", entityId: template.id, after: template });
+      res.status(201).json(template);
     } catch (error) {
-      res.status(500).json({ message: "Failed to create progress update" });
+      res.status(500).json({ message: "Failed to create cover letter template" });
     }
   });
   
-  // Lead Entry routes
-  app.get("/api/lead-entries", isAuthenticated, async (req, res) => {
+  app.patch("/api/cover-letter-templates/:id", hasRole(["manager"]), async (req, res) => {
     try {
-      // If user is a manager, they can see all lead entries
-      // If user is sales, they can only see their own lead entries
-      let userId: number | undefined = undefined;
+      const id = Number(req.params.id);
       
-      if (req.user!.role !== "manager") {
-        userId = req.user!.id;
-      } else if (req.query.userId) {
-        userId = Number(req.query.userId);
+      const validationResult = insertCoverLetterTemplateSchema
+        .omit({ createdBy: true })
+        .partial()
+        .safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid cover letter template", errors: validationResult.error.errors });
       }
       
-      const fromDate = req.query.fromDate ? new Date(req.query.fromDate as string) : undefined;
-      const toDate = req.query.toDate ? new Date(req.query.toDate as string) : undefined;
-      
-      const entries = await storage.getLeadEntries(userId, fromDate, toDate);
+      const existing = await storage.getCoverLetterTemplate(id);
+      const template = await storage.updateCoverLetterTemplate(id, validationResult.data);
+      if (!template) {
+        return res.status(404).json({ message: "Cover letter template not found" });
+      }
       
-      // Expand the entry data with user and profile information
-      const expandedEntries = await Promise.all(
-        entries.map(async (entry) => {
-          const user = await storage.getUser(entry.userId);
-          const profile = await storage.getProfile(entry.profileId);
-          return {
-            ...entry,
-            user,
-            profile
-          };
-        })
-      );
+      await recordAudit(req, { action: "update", entityType: "cover_letter_template", entityId: id, before: existing, after: template });
+      res.json(template);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update cover letter template" });
+    }
+  });
+  
+  app.delete("/api/cover-letter-templates/:id", hasRole(["manager"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const existing = await storage.getCoverLetterTemplate(id);
+      const success = await storage.deleteCoverLetterTemplate(id);
       
-      res.json(expandedEntries);
+      if (success) {
+        await recordAudit(req, { action: "delete", entityType: "cover_letter_template", entityId: id, before: existing });
+        res.status(204).send();
+      } else {
+        res.status(404).json({ message: "Cover letter template not found" });
+      }
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch lead entries" });
+      res.status(500).json({ message: "Failed to delete cover letter template" });
     }
   });
   
-  app.post("/api/lead-entries", hasRole(["sales"]), async (req, res) => {
+  // Skill tag routes - the taxonomy profiles are filed under
+  app.get("/api/skill-tags", isAuthenticated, async (req, res) => {
     try {
-      // Make sure the user is only submitting lead entries for their assigned profiles
-      const assignedProfiles = await storage.getUserAssignedProfiles(req.user!.id);
-      const profileIds = assignedProfiles.map(p => p.id);
+      const tags = await storage.getSkillTags();
+      res.json(tags);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch skill tags" });
+    }
+  });
+  
+  app.post("/api/skill-tags", hasRole(["manager"]), async (req, res) => {
+    try {
+      const validationResult = insertSkillTagSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid skill tag", errors: validationResult.error.errors });
+      }
       
-      if (!profileIds.includes(req.body.profileId)) {
-        return res.status(400).json({ message: "Profile not assigned to this user" });
+      const conflict = findConflictingSkillTerm(validationResult.data, await storage.getSkillTags());
+      if (conflict) {
+        return res.status(400).json({ message: `"${conflict}" is already used by another skill tag` });
       }
       
-      const data = {
-        ...req.body,
-        userId: req.user!.id
-      };
+      const tag = await storage.createSkillTag(validationResult.data);
+      await recordAudit(req, { action: "create", entityType: "skill_tag", entityId: tag.id, after: tag });
+      res.status(201).json(tag);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create skill tag" });
+    }
+  });
+  
+  app.patch("/api/skill-tags/:id", hasRole(["manager"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
       
-      const validationResult = insertLeadEntrySchema.safeParse(data);
+      const validationResult = insertSkillTagSchema.partial().safeParse(req.body);
       if (!validationResult.success) {
-        return res.status(400).json({ message: "Invalid lead entry data", errors: validationResult.error.errors });
+        return res.status(400).json({ message: "Invalid skill tag", errors: validationResult.error.errors });
       }
       
-      const entry = await storage.createLeadEntry(validationResult.data);
-      res.status(201).json(entry);
+      const existing = await storage.getSkillTag(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Skill tag not found" });
+      }
+      
+      const conflict = findConflictingSkillTerm({ ...existing, ...validationResult.data }, await storage.getSkillTags(), id);
+      if (conflict) {
+        return res.status(400).json({ message: `"${conflict}" is already used by another skill tag` });
+      }
+      
+      const tag = await storage.updateSkillTag(id, validationResult.data);
+      await recordAudit(req, { action: "update", entityType: "skill_tag", entityId: id, before: existing, after: tag });
+      res.json(tag);
     } catch (error) {
-      res.status(500).json({ message: "Failed to create lead entry" });
+      res.status(500).json({ message: "Failed to update skill tag" });
     }
   });
   
-  app.patch("/api/lead-entries/:id", hasRole(["sales"]), async (req, res) => {
+  app.delete("/api/skill-tags/:id", hasRole(["manager"]), async (req, res) => {
     try {
       const id = Number(req.params.id);
-      const entry = await storage.updateLeadEntry(id, req.body);
+      const existing = await storage.getSkillTag(id);
+      const success = await storage.deleteSkillTag(id);
       
-      if (entry) {
-        res.json(entry);
+      if (success) {
+        await recordAudit(req, { action: "delete", entityType: "skill_tag", entityId: id, before: existing });
+        res.status(204).send();
       } else {
-        res.status(404).json({ message: "Lead entry not found" });
+        res.status(404).json({ message: "Skill tag not found" });
       }
     } catch (error) {
-      res.status(500).json({ message: "Failed to update lead entry" });
+      res.status(500).json({ message: "Failed to delete skill tag" });
+    }
+  });
+  
+  // Fill a cover letter template for a profile and job; returned as JSON for preview or as a text or DOCX download
+  app.get("/api/profiles/:id/cover-letter", isAuthenticated, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      
+      const validationResult = coverLetterRequestSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid cover letter request", errors: validationResult.error.errors });
+      }
+      
+      const authorized = await canAccessProfileResume(req.user!, id);
+      if (!authorized) {
+        return res.status(403).json({ message: "You don't have permission to access this profile" });
+      }
+      
+      const { templateId, company, jobTitle, format } = validationResult.data;
+      const [profile, template] = await Promise.all([
+        storage.getProfile(id),
+        storage.getCoverLetterTemplate(templateId)
+      ]);
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      if (!template) {
+        return res.status(404).json({ message: "Cover letter template not found" });
+      }
+      
+      const structure = profile.resumeStructure || parseResumeStructure(profile.resumeContent || "");
+      const content = fillCoverLetterTemplate(
+        template.body,
+        getCoverLetterValues(structure, { company, jobTitle }, profile.name)
+      );
+      
+      if (format === "json") {
+        return res.json({ content });
+      }
+      
+      const fileName = `Cover_Letter_${company.replace(/[^A-Za-z0-9]+/g, '_')}.${format}`;
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      
+      if (format === "txt") {
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        return res.send(content);
+      }
+      
+      res.setHeader('Content-Type', getResumeContentType(fileName));
+      res.send(await generateCoverLetterDocx(content, `Cover letter - ${jobTitle} at ${company}`));
+    } catch (error) {
+      console.error('Error generating cover letter:', error);
+      res.status(500).json({ message: "Failed to generate cover letter" });
     }
   });
   
   // Assigned Profile routes
   app.get("/api/my-profile", hasRole(["lead_gen"]), async (req, res) => {
     try {
-      const profile = await storage.getUserAssignedProfile(req.user!.id);
+      const assigned = await storage.getUserAssignedProfile(req.user!.id);
       
-      if (profile) {
-        res.json(profile);
+      // Paused, placed and archived profiles drop off the dashboard until they are active again
+      if (assigned && assigned.profile.status === "active") {
+        res.json({ ...assigned, profile: toProfileMetadata(assigned.profile) });
       } else {
         res.status(404).json({ message: "No profile assigned" });
       }
@@ -508,7 +2340,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/my-profiles", hasRole(["sales"]), async (req, res) => {
     try {
       const profiles = await storage.getUserAssignedProfiles(req.user!.id);
-      res.json(profiles);
+      res.json(profiles.filter(profile => profile.status === "active").map(toProfileMetadata));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch assigned profiles" });
     }
@@ -520,18 +2352,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const id = Number(req.params.id);
       
       // Check if user is authorized to download this resume
-      const user = req.user!;
-      let authorized = false;
-      
-      if (user.role === "manager") {
-        authorized = true;
-      } else if (user.role === "lead_gen") {
-        const assignment = await storage.getLeadGenAssignment(user.id);
-        authorized = assignment?.profileId === id;
-      } else if (user.role === "sales") {
-        const assignments = await storage.getSalesAssignments(user.id);
-        authorized = assignments.some(a => a.profileId === id);
-      }
+      const authorized = await canAccessProfileResume(req.user!, id);
       
       if (!authorized) {
         return res.status(403).json({ message: "You don't have permission to access this resume" });
@@ -540,17 +2361,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get the profile with resume buffer
       const profile = await storage.getProfile(id);
       
-      if (!profile || !profile.resumeBuffer) {
+      if (!profile) {
         return res.status(404).json({ message: "Resume not found" });
       }
       
-      // Convert base64 to buffer
-      const buffer = base64ToBuffer(profile.resumeBuffer);
+      // Serve a named variant instead of the main resume when one is requested
+      let resume: Pick<Profile, "resumeFileHash" | "resumeBuffer" | "resumeFileName"> = profile;
+      let defaultFileName = `${profile.name.replace(/\s+/g, '_')}_Resume.pdf`;
+      
+      if (req.query.variant) {
+        const variant = await storage.getResumeVariant(Number(req.query.variant));
+        if (!variant || variant.profileId !== id) {
+          return res.status(404).json({ message: "Resume not found" });
+        }
+        resume = variant;
+        defaultFileName = `${profile.name.replace(/\s+/g, '_')}_${variant.name.replace(/\s+/g, '_')}_Resume.pdf`;
+      }
+      
+      const buffer = await loadResumeFile(resume);
+      if (!buffer) {
+        return res.status(404).json({ message: "Resume not found" });
+      }
       
       // Set the filename
-      const fileName = profile.resumeFileName || `${profile.name.replace(/\s+/g, '_')}_Resume.pdf`;
+      const fileName = resume.resumeFileName || defaultFileName;
       
-      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Type', getResumeContentType(resume.resumeFileName));
       res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
       res.send(buffer);
     } catch (error) {
@@ -559,6 +2395,138 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Redacted resume export - same access rules as the original resume
+  app.get("/api/profiles/:id/resume/redacted", isAuthenticated, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const format = req.query.format === "txt" ? "txt" : "docx";
+      
+      const authorized = await canAccessProfileResume(req.user!, id);
+      if (!authorized) {
+        return res.status(403).json({ message: "You don't have permission to access this resume" });
+      }
+      
+      const profile = await storage.getProfile(id);
+      if (!profile) {
+        return res.status(404).json({ message: "Resume not found" });
+      }
+      
+      // Profile and variant names may name the candidate, so the file is named by id instead
+      let resumeContent = profile.resumeContent;
+      let baseName = `Profile_${profile.id}`;
+      
+      if (req.query.variant) {
+        const variant = await storage.getResumeVariant(Number(req.query.variant));
+        if (!variant || variant.profileId !== id) {
+          return res.status(404).json({ message: "Resume not found" });
+        }
+        resumeContent = variant.resumeContent;
+        baseName = `${baseName}_Variant_${variant.id}`;
+      }
+      
+      if (!resumeContent) {
+        return res.status(404).json({ message: "Resume not found" });
+      }
+      
+      // Variants carry their own text, so read the candidate's name from the text being exported,
+      // falling back to the name on the profile's main resume
+      const structure = req.query.variant || !profile.resumeStructure
+        ? parseResumeStructure(resumeContent)
+        : profile.resumeStructure;
+      const candidateName = [structure.contact.name, profile.resumeStructure?.contact.name].find(name => name?.trim());
+      const terms = profile.redactionTerms || [];
+      
+      // Without a known name the export could still carry it, so it has to be given as a redaction term;
+      // the profile name is then removed too in case the profile was named after the candidate
+      if (!candidateName && terms.length === 0) {
+        return res.status(422).json({
+          message: "The candidate's name couldn't be found in this resume. Add it to the profile's redaction terms before exporting."
+        });
+      }
+      
+      const redacted = redactResumeText(resumeContent, {
+        names: candidateName ? [candidateName] : [],
+        terms: candidateName ? terms : [...terms, profile.name]
+      });
+      
+      const fileName = `${baseName}_Redacted_Resume.${format}`;
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      
+      if (format === "txt") {
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        return res.send(redacted);
+      }
+      
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+      res.send(await generateResumeTextDocx(redacted, redactedResumeTitle));
+    } catch (error) {
+      console.error('Error exporting redacted resume:', error);
+      res.status(500).json({ message: "Failed to export redacted resume" });
+    }
+  });
+  
+  // Generate a formatted DOCX from the profile's structured resume data; kept next to the uploaded file
+  app.post("/api/profiles/:id/generated-resume", hasRole(["manager"]), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      
+      const validationResult = generateResumeRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid resume layout", errors: validationResult.error.errors });
+      }
+      
+      const profile = await storage.getProfile(id);
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      
+      const structure = profile.resumeStructure || (profile.resumeContent ? parseResumeStructure(profile.resumeContent) : null);
+      if (!structure) {
+        return res.status(400).json({ message: "The profile has no resume content to generate from" });
+      }
+      
+      const { layout } = validationResult.data;
+      const buffer = await generateResumeDocx(structure, layout, profile.name);
+      const fileHash = await storeFileByHash(buffer, getResumeContentType('resume.docx'));
+      
+      const updatedProfile = await storage.saveGeneratedResume(id, fileHash, layout);
+      if (!updatedProfile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      
+      await recordAudit(req, { action: "update", entityType: "profile", entityId: id, before: profile, after: updatedProfile });
+      res.json(toProfileMetadata(updatedProfile));
+    } catch (error) {
+      console.error('Error generating resume:', error);
+      res.status(500).json({ message: "Failed to generate resume" });
+    }
+  });
+  
+  app.get("/api/profiles/:id/generated-resume", isAuthenticated, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      
+      const authorized = await canAccessProfileResume(req.user!, id);
+      if (!authorized) {
+        return res.status(403).json({ message: "You don't have permission to access this resume" });
+      }
+      
+      const profile = await storage.getProfile(id);
+      const buffer = profile?.generatedResumeFileHash && await fileStore.get(profile.generatedResumeFileHash);
+      if (!profile || !buffer) {
+        return res.status(404).json({ message: "Generated resume not found" });
+      }
+      
+      const fileName = `${profile.name.replace(/\s+/g, '_')}_Resume_${profile.generatedResumeLayout}.docx`;
+      res.setHeader('Content-Type', getResumeContentType(fileName));
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(buffer);
+    } catch (error) {
+      console.error('Error downloading generated resume:', error);
+      res.status(500).json({ message: "Failed to download generated resume" });
+    }
+  });
+  
   // Team Performance route
   app.get("/api/team-performance", hasRole(["manager"]), async (req, res) => {
     try {
@@ -572,6 +2540,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Resume variant comparison route
+  app.get("/api/reports/variant-performance", hasRole(["manager"]), async (req, res) => {
+    try {
+      const profileId = Number(req.query.profileId);
+      if (!profileId) {
+        return res.status(400).json({ message: "Profile is required" });
+      }
+      
+      const fromDate = req.query.fromDate ? new Date(req.query.fromDate as string) : undefined;
+      const toDate = req.query.toDate ? new Date(req.query.toDate as string) : undefined;
+      
+      const performanceData = await storage.getResumeVariantPerformance(profileId, fromDate, toDate);
+      res.json(performanceData);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch resume variant performance" });
+    }
+  });
+  
+  app.get("/api/reports/job-match-quality", hasRole(["manager"]), async (req, res) => {
+    try {
+      const fromDate = req.query.fromDate ? new Date(req.query.fromDate as string) : undefined;
+      const toDate = req.query.toDate ? new Date(req.query.toDate as string) : undefined;
+      
+      const qualityData = await storage.getJobMatchQuality(fromDate, toDate);
+      res.json(qualityData);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch job match quality" });
+    }
+  });
+  
+  // Applications and leads broken down by the skill tags of their profiles
+  app.get("/api/reports/skill-tags", hasRole(["manager"]), async (req, res) => {
+    try {
+      const fromDate = req.query.fromDate ? new Date(req.query.fromDate as string) : undefined;
+      const toDate = req.query.toDate ? new Date(req.query.toDate as string) : undefined;
+      
+      const breakdown = await storage.getSkillTagBreakdown(fromDate, toDate);
+      res.json(breakdown);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch skill tag breakdown" });
+    }
+  });
+  
   // Report utility functions now imported at the top
 
 // Report Generation
@@ -661,13 +2672,13 @@ app.get("/api/reports/lead-entries", hasRole(["manager"]), async (req, res) => {
     const fromDate = req.query.fromDate ? new Date(req.query.fromDate as string) : undefined;
     const toDate = req.query.toDate ? new Date(req.query.toDate as string) : undefined;
     
-    const entries = await storage.getLeadEntries(undefined, fromDate, toDate);
+    const entries = await storage.getLeadSummaries(undefined, fromDate, toDate);
       
       // Expand the entry data
       const expandedEntries = await Promise.all(
         entries.map(async (entry) => {
           const user = await storage.getUser(entry.userId);
-          const profile = await storage.getProfile(entry.profileId);
+          const profile = await getProfileMetadata(entry.profileId);
           return {
             ...entry,
             userName: user?.name || 'Unknown',
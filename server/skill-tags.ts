@@ -0,0 +1,32 @@
+import type { SkillTag } from '@shared/schema';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+// Whole-word match of a tag name or alias; "Java" does not match "JavaScript", "C" does not match "C++"
+function termPattern(term: string): RegExp {
+  return new RegExp(`(?<![A-Za-z0-9.])${escapeRegExp(term)}(?![A-Za-z0-9+#])`, 'i');
+}
+
+// The names and aliases a tag is known by, lowercased for comparison
+export function getSkillTagTerms(tag: Pick<SkillTag, 'name' | 'aliases'>): string[] {
+  return [tag.name, ...tag.aliases].map(term => term.trim().toLowerCase()).filter(Boolean);
+}
+
+// Suggest the tags whose name or any alias is mentioned in a resume
+export function suggestSkillTags(text: string, tags: SkillTag[]): number[] {
+  return tags
+    .filter(tag => getSkillTagTerms(tag).some(term => termPattern(term).test(text)))
+    .map(tag => tag.id);
+}
+
+// Find a name or alias that another tag already uses, so one spelling never means two skills
+export function findConflictingSkillTerm(
+  tag: Pick<SkillTag, 'name' | 'aliases'>,
+  tags: SkillTag[],
+  excludeId?: number
+): string | undefined {
+  const taken = new Set(tags.filter(other => other.id !== excludeId).flatMap(getSkillTagTerms));
+  return getSkillTagTerms(tag).find(term => taken.has(term));
+}
@@ -1,11 +1,13 @@
-import { users, type User, type InsertUser, profiles, type Profile, type InsertProfile, leadGenAssignments, type LeadGenAssignment, type InsertLeadGenAssignment, salesAssignments, type SalesAssignment, type InsertSalesAssignment, targets, type Target, type InsertTarget, progressUpdates, type ProgressUpdate, type InsertProgressUpdate, leadEntries, type LeadEntry, type InsertLeadEntry } from "@shared/schema";
+import { users, type User, type InsertUser, profiles, type Profile, type InsertProfile, leadGenAssignments, type LeadGenAssignment, type InsertLeadGenAssignment, salesAssignments, type SalesAssignment, type InsertSalesAssignment, targets, type Target, type InsertTarget, progressUpdates, type ProgressUpdate, type InsertProgressUpdate, type ProgressUpdateSummary, leadEntries, type LeadEntry, type InsertLeadEntry, jobApplications, type JobApplication, type InsertJobApplication, leads, type Lead, type InsertLead, type LeadStage, leadStageTransitions, type LeadStageTransition, type LeadEntrySummary, interviews, type Interview, type InsertInterview, profileResumeVersions, type ProfileResumeVersion, resumeVariants, type ResumeVariant, type InsertResumeVariant, type ResumeVariantPerformance, jobDescriptionMatches, type JobDescriptionMatch, type InsertJobDescriptionMatch, type JobMatchQuality, type ResumeLayout, coverLetterTemplates, type CoverLetterTemplate, type InsertCoverLetterTemplate, profileSearchVector, type ProfileSearchResult, skillTags, type SkillTag, type InsertSkillTag, profileSkillTags, type ProfileSkillTag, type SkillTagBreakdown, type ProfileStatus, profileStatusChanges, type ProfileStatusChange, placements, type Placement, type InsertPlacement, type DeletableItemType, type DeletedItems, auditLogs, type AuditLog, type InsertAuditLog, type AuditEntityType, invitations, type Invitation, type InsertInvitation, passwordResetTokens, type PasswordResetToken, type UserTwoFactor, appSettings, securitySettingsSchema, defaultSecuritySettings, type SecuritySettings } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
 import { z } from "zod";
 import { drizzle } from "drizzle-orm/node-postgres";
-import { eq, gte, lte, and } from "drizzle-orm";
+import { eq, gt, gte, lt, lte, and, or, desc, sql, inArray, isNull, isNotNull } from "drizzle-orm";
 import pg from "pg";
+import { searchProfilesInMemory, parseHeadline, headlineOptions, maxSearchResults } from "./profile-search";
+import { parseResumeStructure } from "./resume-parser";
 const { Pool } = pg;
 
 // Create a connection pool to the PostgreSQL database
@@ -16,6 +18,9 @@ const pool = new Pool({
 // Initialize Drizzle with the PostgreSQL connection
 const db = drizzle(pool);
 
+// The handle passed to db.transaction callbacks, for helpers that write inside a caller's transaction
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPg(session);
 
@@ -25,6 +30,264 @@ type UserRole = "manager" | "lead_gen" | "sales";
 // Define a generic session store type for simplicity
 type SessionStore = any;
 
+// Result of saving an interview: the saved interview, or the profile's interviews already in that slot
+export type InterviewBooking = { interview: Interview, conflicts: [] } | { interview?: undefined, conflicts: Interview[] };
+
+// Format a date as the YYYY-MM-DD key used by date columns
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+// Check whether an update replaced the resume a profile carries
+function hasResumeChanged(before: Profile, after: Profile): boolean {
+  return before.resumeContent !== after.resumeContent ||
+    before.resumeFileName !== after.resumeFileName ||
+    before.resumeFileHash !== after.resumeFileHash ||
+    before.resumeBuffer !== after.resumeBuffer;
+}
+
+// Soft-deleted rows wait in the recently deleted bin and are hidden from every other query
+function isLive(row: { deletedAt: Date | null }): boolean {
+  return !row.deletedAt;
+}
+
+// Check whether a date falls inside an optional inclusive day range
+function isWithinDateRange(date: Date, fromDate?: Date, toDate?: Date): boolean {
+  const key = toDateKey(date);
+  return (!fromDate || key >= toDateKey(fromDate)) && (!toDate || key <= toDateKey(toDate));
+}
+
+// Compare a profile's resume variants on the applications and leads attributed to each.
+// Applications count on the day they were applied; leads on the day of the stage transition.
+function summarizeVariantPerformance(
+  variants: ResumeVariant[],
+  applications: JobApplication[],
+  leadList: Lead[],
+  transitions: LeadStageTransition[]
+): ResumeVariantPerformance[] {
+  const rows = new Map<number | null, ResumeVariantPerformance>();
+  const emptyRow = (variantId: number | null, name: string): ResumeVariantPerformance => ({
+    variantId,
+    name,
+    jobsApplied: 0,
+    newLeads: 0,
+    clientRejections: 0,
+    clientRejectionRate: 0
+  });
+  
+  rows.set(null, emptyRow(null, "Main resume"));
+  for (const variant of variants) {
+    rows.set(variant.id, emptyRow(variant.id, variant.name));
+  }
+  
+  for (const application of applications) {
+    const row = rows.get(application.resumeVariantId);
+    if (row) row.jobsApplied++;
+  }
+  
+  const leadVariants = new Map(leadList.map(lead => [lead.id, lead.resumeVariantId]));
+  for (const transition of transitions) {
+    if (!leadVariants.has(transition.leadId)) continue;
+    const row = rows.get(leadVariants.get(transition.leadId)!);
+    if (!row) continue;
+    
+    if (transition.fromStage === null) {
+      row.newLeads++;
+    } else if (transition.toStage === "rejected_by_client") {
+      row.clientRejections++;
+    }
+  }
+  
+  return Array.from(rows.values()).map(row => ({
+    ...row,
+    clientRejectionRate: row.newLeads > 0 ? Math.round((row.clientRejections / row.newLeads) * 100) : 0
+  }));
+}
+
+// Average the match scores of the job descriptions each lead generation user scored
+function summarizeJobMatchQuality(leadGenUsers: User[], matches: JobDescriptionMatch[]): JobMatchQuality[] {
+  return leadGenUsers.map(user => {
+    const userMatches = matches.filter(match => match.userId === user.id);
+    const totalScore = userMatches.reduce((sum, match) => sum + match.score, 0);
+    
+    return {
+      userId: user.id,
+      name: user.name,
+      jobsScored: userMatches.length,
+      averageScore: userMatches.length > 0 ? Math.round(totalScore / userMatches.length) : 0,
+      strongMatches: userMatches.filter(match => match.score >= 70).length,
+      lastScoredAt: userMatches.reduce<Date | null>(
+        (latest, match) => !latest || match.createdAt > latest ? match.createdAt : latest,
+        null
+      ),
+    };
+  });
+}
+
+// Compare skill tags on the applications and leads of the profiles filed under each.
+// Profiles without tags are grouped in an "Untagged" row; a profile with several tags counts towards each.
+function summarizeSkillTagBreakdown(
+  tags: SkillTag[],
+  links: ProfileSkillTag[],
+  profileIds: number[],
+  applications: JobApplication[],
+  leadList: Lead[],
+  transitions: LeadStageTransition[]
+): SkillTagBreakdown[] {
+  const emptyRow = (tagId: number | null, name: string): SkillTagBreakdown => ({
+    tagId,
+    name,
+    profiles: 0,
+    jobsApplied: 0,
+    newLeads: 0,
+    clientRejections: 0
+  });
+  const rows = new Map<number | null, SkillTagBreakdown>(tags.map(tag => [tag.id, emptyRow(tag.id, tag.name)]));
+  rows.set(null, emptyRow(null, "Untagged"));
+  
+  const profileTags = new Map<number, (number | null)[]>(profileIds.map(id => [id, []]));
+  for (const link of links) {
+    if (rows.has(link.tagId)) profileTags.get(link.profileId)?.push(link.tagId);
+  }
+  profileTags.forEach((tagIds, profileId) => {
+    if (tagIds.length === 0) profileTags.set(profileId, [null]);
+  });
+  const rowsOf = (profileId: number) => (profileTags.get(profileId) || []).map(tagId => rows.get(tagId)!);
+  
+  profileTags.forEach((_, profileId) => rowsOf(profileId).forEach(row => row.profiles++));
+  
+  for (const application of applications) {
+    rowsOf(application.profileId).forEach(row => row.jobsApplied++);
+  }
+  
+  const leadProfiles = new Map(leadList.map(lead => [lead.id, lead.profileId]));
+  for (const transition of transitions) {
+    const profileId = leadProfiles.get(transition.leadId);
+    if (profileId === undefined) continue;
+    
+    if (transition.fromStage === null) {
+      rowsOf(profileId).forEach(row => row.newLeads++);
+    } else if (transition.toStage === "rejected_by_client") {
+      rowsOf(profileId).forEach(row => row.clientRejections++);
+    }
+  }
+  
+  return Array.from(rows.values()).filter(row => row.tagId !== null || row.profiles > 0);
+}
+
+// Check whether an interview overlaps the given time slot; cancelled interviews never conflict
+function interviewOverlaps(interview: Interview, start: Date, durationMinutes: number): boolean {
+  if (interview.outcome === "cancelled") return false;
+  
+  const existingStart = interview.scheduledAt.getTime();
+  const existingEnd = existingStart + interview.durationMinutes * 60 * 1000;
+  const end = start.getTime() + durationMinutes * 60 * 1000;
+  
+  return existingStart < end && start.getTime() < existingEnd;
+}
+
+// The interviews among a profile's interviews that a booked interview would overlap. Its own row is skipped,
+// and an interview that is cancelled needs no free slot.
+function findInterviewConflicts(profileInterviews: Interview[], booked: Pick<Interview, "scheduledAt" | "durationMinutes" | "outcome"> & { id?: number }): Interview[] {
+  if (booked.outcome === "cancelled") return [];
+  
+  return profileInterviews.filter(
+    interview => interview.id !== booked.id && interviewOverlaps(interview, booked.scheduledAt, booked.durationMinutes)
+  );
+}
+
+// Whether an interview update moves it or may reinstate it, so its slot has to be checked again
+function changesInterviewSlot(fields: Partial<InsertInterview>): boolean {
+  return Boolean(fields.scheduledAt || fields.durationMinutes || fields.outcome);
+}
+
+// Roll job applications up into daily job totals per lead gen user and profile.
+// Applications count as fetched on the day they were fetched and as applied on the day they were applied.
+function summarizeJobApplications(applications: JobApplication[], fromDate?: Date, toDate?: Date): ProgressUpdateSummary[] {
+  const summaries = new Map<string, ProgressUpdateSummary>();
+  const count = (application: JobApplication, date: Date, field: "jobsFetched" | "jobsApplied") => {
+    if (!isWithinDateRange(date, fromDate, toDate)) return;
+    
+    const dateKey = toDateKey(date);
+    const key = `${application.userId}-${application.profileId}-${dateKey}`;
+    if (!summaries.has(key)) {
+      summaries.set(key, {
+        id: null,
+        userId: application.userId,
+        profileId: application.profileId,
+        date: dateKey,
+        jobsFetched: 0,
+        jobsApplied: 0,
+        notes: null,
+      });
+    }
+    summaries.get(key)![field] += 1;
+  };
+  
+  for (const application of applications) {
+    count(application, application.fetchedAt, "jobsFetched");
+    if (application.appliedAt) {
+      count(application, application.appliedAt, "jobsApplied");
+    }
+  }
+  
+  return Array.from(summaries.values());
+}
+
+// Combine manually entered daily totals with the totals derived from recorded activity (the lead
+// pipeline or job applications). Where there are derived totals for a user, profile and day they
+// replace that day's manual entries, so work that was both entered by hand and recorded isn't counted twice.
+function mergeDailySummaries<T extends { userId: number, profileId: number, date: string }>(manualEntries: T[], derivedSummaries: T[]): T[] {
+  const summaryKey = (entry: T) => `${entry.userId}-${entry.profileId}-${entry.date}`;
+  const derivedKeys = new Set(derivedSummaries.map(summaryKey));
+  
+  return [
+    ...manualEntries.filter(entry => !derivedKeys.has(summaryKey(entry))),
+    ...derivedSummaries,
+  ];
+}
+
+// Roll lead stage transitions up into daily lead totals per coordinator and profile
+function summarizeLeadTransitions(leadList: Lead[], transitions: LeadStageTransition[]): LeadEntrySummary[] {
+  const leadsById = new Map(leadList.map(lead => [lead.id, lead]));
+  const summaries = new Map<string, LeadEntrySummary>();
+  
+  for (const transition of transitions) {
+    const lead = leadsById.get(transition.leadId);
+    if (!lead) continue;
+    
+    // Creating a lead counts as a new lead; only rejections are tracked after that
+    let field: "newLeads" | "clientRejections" | "teamRejections";
+    if (transition.fromStage === null) {
+      field = "newLeads";
+    } else if (transition.toStage === "rejected_by_client") {
+      field = "clientRejections";
+    } else if (transition.toStage === "rejected_by_team") {
+      field = "teamRejections";
+    } else {
+      continue;
+    }
+    
+    const date = toDateKey(transition.changedAt);
+    const key = `${lead.userId}-${lead.profileId}-${date}`;
+    if (!summaries.has(key)) {
+      summaries.set(key, {
+        id: null,
+        userId: lead.userId,
+        profileId: lead.profileId,
+        date,
+        newLeads: 0,
+        clientRejections: 0,
+        teamRejections: 0,
+        notes: null,
+      });
+    }
+    summaries.get(key)![field] += 1;
+  }
+  
+  return Array.from(summaries.values());
+}
+
 // Interface for storage operations
 export interface IStorage {
   // User operations
@@ -32,40 +295,147 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   getUsers(role?: UserRole | string): Promise<User[]>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
+  setUserDeactivated(id: number, deactivated: boolean): Promise<User | undefined>;
+  updateUserTwoFactor(id: number, twoFactor: UserTwoFactor): Promise<User | undefined>;
+  // Mark a code used only if it is still unused, returning false otherwise, so two requests can't both use one code
+  useTotpStep(id: number, step: number): Promise<boolean>;
+  useRecoveryCode(id: number, codeHash: string): Promise<boolean>;
+  
+  // Settings operations
+  getSecuritySettings(): Promise<SecuritySettings>;
+  updateSecuritySettings(settings: SecuritySettings, updatedBy: number): Promise<SecuritySettings>;
+  
+  // Invitation operations
+  getInvitation(id: number): Promise<Invitation | undefined>;
+  getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined>;
+  getInvitations(): Promise<Invitation[]>;
+  createInvitation(invitation: InsertInvitation, tokenHash: string, expiresAt: Date): Promise<Invitation>;
+  // Resend, revoke and accept only change invitations that are still open, returning undefined otherwise
+  renewInvitation(id: number, tokenHash: string, expiresAt: Date): Promise<Invitation | undefined>;
+  revokeInvitation(id: number): Promise<Invitation | undefined>;
+  // Claims the invitation and creates its account together; neither is saved if the other fails
+  acceptInvitation(id: number, user: InsertUser): Promise<{ invitation: Invitation, user: User } | undefined>;
+  
+  // Password reset operations
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  // Marks an unused, unexpired token as used, returning undefined if it can't be used
+  usePasswordResetToken(id: number): Promise<PasswordResetToken | undefined>;
+  // Signs a user out everywhere except, optionally, the session making the request
+  destroyUserSessions(userId: number, exceptSessionId?: string): Promise<void>;
   
   // Profile operations
   getProfile(id: number): Promise<Profile | undefined>;
   getProfiles(): Promise<Profile[]>;
+  searchProfiles(query: string): Promise<ProfileSearchResult[]>;
   createProfile(profile: InsertProfile): Promise<Profile>;
-  updateProfile(id: number, profile: Partial<InsertProfile>): Promise<Profile | undefined>;
-  deleteProfile(id: number): Promise<boolean>;
+  updateProfile(id: number, profile: Partial<InsertProfile>, updatedBy?: number): Promise<Profile | undefined>;
+  deleteProfile(id: number, deletedBy: number): Promise<boolean>;
+  saveGeneratedResume(id: number, fileHash: string, layout: ResumeLayout): Promise<Profile | undefined>;
+  
+  // Profile lifecycle operations
+  changeProfileStatus(id: number, status: ProfileStatus, changedBy: number, effectiveDate: string, notes?: string): Promise<Profile | undefined>;
+  getProfileStatusChanges(profileId: number): Promise<ProfileStatusChange[]>;
+  getPlacements(profileId?: number): Promise<Placement[]>;
+  createPlacement(placement: InsertPlacement): Promise<Placement>;
+  
+  // Resume version operations
+  getProfileResumeVersion(id: number): Promise<ProfileResumeVersion | undefined>;
+  getProfileResumeVersions(profileId: number): Promise<ProfileResumeVersion[]>;
+  restoreProfileResumeVersion(profileId: number, versionId: number, restoredBy: number): Promise<Profile | undefined>;
+  
+  // Resume variant operations
+  getResumeVariant(id: number): Promise<ResumeVariant | undefined>;
+  getResumeVariants(profileId: number): Promise<ResumeVariant[]>;
+  createResumeVariant(variant: InsertResumeVariant): Promise<ResumeVariant>;
+  updateResumeVariant(id: number, variant: Partial<InsertResumeVariant>): Promise<ResumeVariant | undefined>;
+  deleteResumeVariant(id: number): Promise<boolean>;
+  getResumeVariantPerformance(profileId: number, fromDate?: Date, toDate?: Date): Promise<ResumeVariantPerformance[]>;
   
   // Lead Gen Assignment operations
   getLeadGenAssignment(userId: number): Promise<LeadGenAssignment | undefined>;
   getLeadGenAssignments(): Promise<LeadGenAssignment[]>;
   createLeadGenAssignment(assignment: InsertLeadGenAssignment): Promise<LeadGenAssignment>;
-  deleteLeadGenAssignment(userId: number): Promise<boolean>;
+  deleteLeadGenAssignment(userId: number, deletedBy: number): Promise<boolean>;
   updateLeadGenAssignment(userId: number, profileId: number): Promise<LeadGenAssignment | undefined>;
   
   // Sales Assignment operations
   getSalesAssignments(userId?: number): Promise<SalesAssignment[]>;
   createSalesAssignment(assignment: InsertSalesAssignment): Promise<SalesAssignment>;
-  deleteSalesAssignment(id: number): Promise<boolean>;
+  deleteSalesAssignment(id: number, deletedBy: number): Promise<boolean>;
   
   // Target operations
   getTargets(userId?: number): Promise<Target[]>;
   createTarget(target: InsertTarget): Promise<Target>;
   updateTarget(id: number, jobsToFetch: number, jobsToApply: number): Promise<Target | undefined>;
-  deleteTarget(id: number): Promise<boolean>;
+  deleteTarget(id: number, deletedBy: number): Promise<boolean>;
+  
+  // Recently deleted operations
+  getDeletedItems(): Promise<DeletedItems>;
+  restoreDeletedItem(type: DeletableItemType, id: number): Promise<boolean>;
+  purgeDeletedItem(type: DeletableItemType, id: number): Promise<boolean>;
   
   // Progress Update operations
   getProgressUpdates(userId?: number, fromDate?: Date, toDate?: Date): Promise<ProgressUpdate[]>;
   createProgressUpdate(update: InsertProgressUpdate): Promise<ProgressUpdate>;
+  getProgressSummaries(userId?: number, fromDate?: Date, toDate?: Date): Promise<ProgressUpdateSummary[]>;
+  
+  // Job Application operations
+  getJobApplication(id: number): Promise<JobApplication | undefined>;
+  getJobApplications(userId?: number, fromDate?: Date, toDate?: Date): Promise<JobApplication[]>;
+  createJobApplication(application: InsertJobApplication): Promise<JobApplication>;
+  updateJobApplication(id: number, application: Partial<InsertJobApplication>): Promise<JobApplication | undefined>;
+  deleteJobApplication(id: number): Promise<boolean>;
   
   // Lead Entry operations
   getLeadEntries(userId?: number, fromDate?: Date, toDate?: Date): Promise<LeadEntry[]>;
   createLeadEntry(entry: InsertLeadEntry): Promise<LeadEntry>;
   updateLeadEntry(id: number, entry: Partial<InsertLeadEntry>): Promise<LeadEntry | undefined>;
+  getLeadSummaries(userId?: number, fromDate?: Date, toDate?: Date): Promise<LeadEntrySummary[]>;
+  
+  // Lead pipeline operations
+  getLead(id: number): Promise<Lead | undefined>;
+  getLeads(userId?: number): Promise<Lead[]>;
+  createLead(lead: InsertLead): Promise<Lead>;
+  updateLead(id: number, lead: Partial<InsertLead>): Promise<Lead | undefined>;
+  // Only moves a lead that is still in fromStage, returning undefined otherwise, so concurrent moves can't both apply
+  changeLeadStage(id: number, fromStage: LeadStage, stage: LeadStage, changedBy: number, notes?: string): Promise<Lead | undefined>;
+  getLeadStageTransitions(leadId?: number, fromDate?: Date, toDate?: Date): Promise<LeadStageTransition[]>;
+  
+  // Interview operations
+  getInterview(id: number): Promise<Interview | undefined>;
+  getInterviews(userId?: number, fromDate?: Date, toDate?: Date): Promise<Interview[]>;
+  // Both refuse to save an interview that overlaps another of the profile's interviews and return the conflicts instead
+  createInterview(interview: InsertInterview): Promise<InterviewBooking>;
+  updateInterview(id: number, interview: Partial<InsertInterview>): Promise<InterviewBooking | undefined>;
+  deleteInterview(id: number): Promise<boolean>;
+  
+  // Job description match operations
+  getJobDescriptionMatches(userId?: number, fromDate?: Date, toDate?: Date): Promise<JobDescriptionMatch[]>;
+  createJobDescriptionMatch(match: InsertJobDescriptionMatch): Promise<JobDescriptionMatch>;
+  getJobMatchQuality(fromDate?: Date, toDate?: Date): Promise<JobMatchQuality[]>;
+  
+  // Cover letter template operations
+  getCoverLetterTemplate(id: number): Promise<CoverLetterTemplate | undefined>;
+  getCoverLetterTemplates(): Promise<CoverLetterTemplate[]>;
+  createCoverLetterTemplate(template: InsertCoverLetterTemplate): Promise<CoverLetterTemplate>;
+  updateCoverLetterTemplate(id: number, template: Partial<InsertCoverLetterTemplate>): Promise<CoverLetterTemplate | undefined>;
+  deleteCoverLetterTemplate(id: number): Promise<boolean>;
+  
+  // Skill tag operations
+  getSkillTag(id: number): Promise<SkillTag | undefined>;
+  getSkillTags(): Promise<SkillTag[]>;
+  createSkillTag(tag: InsertSkillTag): Promise<SkillTag>;
+  updateSkillTag(id: number, tag: Partial<InsertSkillTag>): Promise<SkillTag | undefined>;
+  deleteSkillTag(id: number): Promise<boolean>;
+  getProfileSkillTags(profileId?: number): Promise<ProfileSkillTag[]>;
+  setProfileSkillTags(profileId: number, tagIds: number[]): Promise<ProfileSkillTag[]>;
+  getSkillTagBreakdown(fromDate?: Date, toDate?: Date): Promise<SkillTagBreakdown[]>;
+  
+  // Audit log operations
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(actorId?: number, entityType?: AuditEntityType, fromDate?: Date, toDate?: Date): Promise<AuditLog[]>;
   
   // Combined data operations
   getUserAssignedProfile(userId: number): Promise<{profile: Profile, target?: Target} | undefined>;
@@ -86,38 +456,100 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private profiles: Map<number, Profile>;
+  private profileResumeVersions: Map<number, ProfileResumeVersion>;
+  private resumeVariants: Map<number, ResumeVariant>;
   private leadGenAssignments: Map<number, LeadGenAssignment>;
   private salesAssignments: Map<number, SalesAssignment>;
   private targets: Map<number, Target>;
   private progressUpdates: Map<number, ProgressUpdate>;
   private leadEntries: Map<number, LeadEntry>;
+  private jobApplications: Map<number, JobApplication>;
+  private leads: Map<number, Lead>;
+  private leadStageTransitions: Map<number, LeadStageTransition>;
+  private interviews: Map<number, Interview>;
+  private jobDescriptionMatches: Map<number, JobDescriptionMatch>;
+  private coverLetterTemplates: Map<number, CoverLetterTemplate>;
+  private skillTags: Map<number, SkillTag>;
+  private profileSkillTags: Map<number, ProfileSkillTag>;
+  private profileStatusChanges: Map<number, ProfileStatusChange>;
+  private placements: Map<number, Placement>;
+  private auditLogs: Map<number, AuditLog>;
+  private invitations: Map<number, Invitation>;
+  private passwordResetTokens: Map<number, PasswordResetToken>;
+  private appSettings: Map<string, unknown>;
   
   currentUserId: number;
   currentProfileId: number;
+  currentProfileResumeVersionId: number;
+  currentResumeVariantId: number;
   currentLeadGenAssignmentId: number;
   currentSalesAssignmentId: number;
   currentTargetId: number;
   currentProgressUpdateId: number;
   currentLeadEntryId: number;
+  currentJobApplicationId: number;
+  currentLeadId: number;
+  currentLeadStageTransitionId: number;
+  currentInterviewId: number;
+  currentJobDescriptionMatchId: number;
+  currentCoverLetterTemplateId: number;
+  currentSkillTagId: number;
+  currentProfileSkillTagId: number;
+  currentProfileStatusChangeId: number;
+  currentPlacementId: number;
+  currentAuditLogId: number;
+  currentInvitationId: number;
+  currentPasswordResetTokenId: number;
   
   sessionStore: SessionStore;
 
   constructor() {
     this.users = new Map();
     this.profiles = new Map();
+    this.profileResumeVersions = new Map();
+    this.resumeVariants = new Map();
     this.leadGenAssignments = new Map();
     this.salesAssignments = new Map();
     this.targets = new Map();
     this.progressUpdates = new Map();
     this.leadEntries = new Map();
+    this.jobApplications = new Map();
+    this.leads = new Map();
+    this.leadStageTransitions = new Map();
+    this.interviews = new Map();
+    this.jobDescriptionMatches = new Map();
+    this.coverLetterTemplates = new Map();
+    this.skillTags = new Map();
+    this.profileSkillTags = new Map();
+    this.profileStatusChanges = new Map();
+    this.placements = new Map();
+    this.auditLogs = new Map();
+    this.invitations = new Map();
+    this.passwordResetTokens = new Map();
+    this.appSettings = new Map();
     
     this.currentUserId = 1;
     this.currentProfileId = 1;
+    this.currentProfileResumeVersionId = 1;
+    this.currentResumeVariantId = 1;
     this.currentLeadGenAssignmentId = 1;
     this.currentSalesAssignmentId = 1;
     this.currentTargetId = 1;
     this.currentProgressUpdateId = 1;
     this.currentLeadEntryId = 1;
+    this.currentJobApplicationId = 1;
+    this.currentLeadId = 1;
+    this.currentLeadStageTransitionId = 1;
+    this.currentInterviewId = 1;
+    this.currentJobDescriptionMatchId = 1;
+    this.currentCoverLetterTemplateId = 1;
+    this.currentSkillTagId = 1;
+    this.currentProfileSkillTagId = 1;
+    this.currentProfileStatusChangeId = 1;
+    this.currentPlacementId = 1;
+    this.currentAuditLogId = 1;
+    this.currentInvitationId = 1;
+    this.currentPasswordResetTokenId = 1;
     
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000,
@@ -163,7 +595,7 @@ export class MemStorage implements IStorage {
     ];
     
     for (const profile of defaultProfiles) {
-      await this.createProfile(profile);
+      await this.createProfile({ ...profile, resumeStructure: parseResumeStructure(profile.resumeContent) });
     }
   }
 
@@ -180,7 +612,15 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      ...insertUser,
+      id,
+      deactivatedAt: null,
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpRecoveryCodes: null,
+      totpLastUsedStep: null,
+    };
     this.users.set(id, user);
     return user;
   }
@@ -194,13 +634,171 @@ export class MemStorage implements IStorage {
     return users;
   }
   
+  async updateUser(id: number, updatedFields: Partial<InsertUser>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, ...updatedFields };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async setUserDeactivated(id: number, deactivated: boolean): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, deactivatedAt: deactivated ? new Date() : null };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async updateUserTwoFactor(id: number, twoFactor: UserTwoFactor): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, ...twoFactor };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async useTotpStep(id: number, step: number): Promise<boolean> {
+    const user = this.users.get(id);
+    if (!user || (user.totpLastUsedStep != null && user.totpLastUsedStep >= step)) return false;
+    
+    this.users.set(id, { ...user, totpLastUsedStep: step });
+    return true;
+  }
+  
+  async useRecoveryCode(id: number, codeHash: string): Promise<boolean> {
+    const user = this.users.get(id);
+    if (!user || !user.totpRecoveryCodes?.includes(codeHash)) return false;
+    
+    this.users.set(id, { ...user, totpRecoveryCodes: user.totpRecoveryCodes.filter(hash => hash !== codeHash) });
+    return true;
+  }
+  
+  // Settings operations
+  async getSecuritySettings(): Promise<SecuritySettings> {
+    const stored = securitySettingsSchema.partial().safeParse(this.appSettings.get('security'));
+    return { ...defaultSecuritySettings, ...(stored.success ? stored.data : {}) };
+  }
+  
+  async updateSecuritySettings(settings: SecuritySettings): Promise<SecuritySettings> {
+    this.appSettings.set('security', settings);
+    return settings;
+  }
+  
+  // Invitation operations
+  async getInvitation(id: number): Promise<Invitation | undefined> {
+    return this.invitations.get(id);
+  }
+  
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    return Array.from(this.invitations.values()).find(invitation => invitation.tokenHash === tokenHash);
+  }
+  
+  async getInvitations(): Promise<Invitation[]> {
+    return Array.from(this.invitations.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async createInvitation(insertInvitation: InsertInvitation, tokenHash: string, expiresAt: Date): Promise<Invitation> {
+    const id = this.currentInvitationId++;
+    const invitation: Invitation = {
+      ...insertInvitation,
+      id,
+      tokenHash,
+      expiresAt,
+      acceptedAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.invitations.set(id, invitation);
+    return invitation;
+  }
+  
+  async renewInvitation(id: number, tokenHash: string, expiresAt: Date): Promise<Invitation | undefined> {
+    const invitation = this.invitations.get(id);
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt) return undefined;
+    
+    const renewedInvitation = { ...invitation, tokenHash, expiresAt };
+    this.invitations.set(id, renewedInvitation);
+    return renewedInvitation;
+  }
+  
+  async revokeInvitation(id: number): Promise<Invitation | undefined> {
+    const invitation = this.invitations.get(id);
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt) return undefined;
+    
+    const revokedInvitation = { ...invitation, revokedAt: new Date() };
+    this.invitations.set(id, revokedInvitation);
+    return revokedInvitation;
+  }
+  
+  async acceptInvitation(id: number, insertUser: InsertUser): Promise<{ invitation: Invitation, user: User } | undefined> {
+    const invitation = this.invitations.get(id);
+    const now = new Date();
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt || invitation.expiresAt <= now) return undefined;
+    
+    const user = await this.createUser(insertUser);
+    const acceptedInvitation = { ...invitation, acceptedAt: now };
+    this.invitations.set(id, acceptedInvitation);
+    return { invitation: acceptedInvitation, user };
+  }
+  
+  // Password reset operations
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    const id = this.currentPasswordResetTokenId++;
+    const resetToken: PasswordResetToken = {
+      id,
+      userId,
+      tokenHash,
+      expiresAt,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.passwordResetTokens.set(id, resetToken);
+    return resetToken;
+  }
+  
+  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values()).find(resetToken => resetToken.tokenHash === tokenHash);
+  }
+  
+  async usePasswordResetToken(id: number): Promise<PasswordResetToken | undefined> {
+    const resetToken = this.passwordResetTokens.get(id);
+    const now = new Date();
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= now) return undefined;
+    
+    const usedToken = { ...resetToken, usedAt: now };
+    this.passwordResetTokens.set(id, usedToken);
+    return usedToken;
+  }
+  
+  async destroyUserSessions(userId: number, exceptSessionId?: string): Promise<void> {
+    const sessions: Record<string, any> = await new Promise((resolve, reject) =>
+      this.sessionStore.all((err: Error | null, all: Record<string, any>) => err ? reject(err) : resolve(all || {}))
+    );
+    
+    const sessionIds = Object.keys(sessions)
+      .filter(sid => sid !== exceptSessionId && sessions[sid]?.passport?.user === userId);
+    await Promise.all(sessionIds.map(sid => new Promise<void>((resolve, reject) =>
+      this.sessionStore.destroy(sid, (err: Error | null) => err ? reject(err) : resolve())
+    )));
+  }
+  
   // Profile operations
   async getProfile(id: number): Promise<Profile | undefined> {
-    return this.profiles.get(id);
+    const profile = this.profiles.get(id);
+    return profile && isLive(profile) ? profile : undefined;
   }
   
   async getProfiles(): Promise<Profile[]> {
-    return Array.from(this.profiles.values());
+    return Array.from(this.profiles.values()).filter(isLive);
+  }
+  
+  async searchProfiles(query: string): Promise<ProfileSearchResult[]> {
+    return searchProfilesInMemory(await this.getProfiles(), query);
   }
   
   async createProfile(insertProfile: InsertProfile): Promise<Profile> {
@@ -210,35 +808,238 @@ export class MemStorage implements IStorage {
       id,
       resumeContent: insertProfile.resumeContent || null,
       resumeFileName: insertProfile.resumeFileName || null,
-      resumeBuffer: insertProfile.resumeBuffer || null,
+      resumeFileHash: insertProfile.resumeFileHash || null,
+      resumeBuffer: null,
+      resumeStructure: insertProfile.resumeStructure || null,
+      atsFindings: insertProfile.atsFindings || null,
+      redactionTerms: insertProfile.redactionTerms || null,
+      generatedResumeFileHash: null,
+      generatedResumeLayout: null,
+      generatedResumeAt: null,
+      status: insertProfile.status || "active",
+      statusEffectiveDate: null,
       createdBy: insertProfile.createdBy || null,
       createdAt: new Date(),
+      deletedAt: null,
+      deletedBy: null,
     };
     this.profiles.set(id, profile);
+    this.recordProfileStatusChange(id, null, profile.status, profile.createdBy, toDateKey(profile.createdAt!));
+    
+    if (profile.resumeContent || profile.resumeFileHash) {
+      this.recordResumeVersion(profile, profile.createdBy);
+    }
+    
     return profile;
   }
   
-  async updateProfile(id: number, updatedFields: Partial<InsertProfile>): Promise<Profile | undefined> {
-    const profile = this.profiles.get(id);
+  async updateProfile(id: number, updatedFields: Partial<InsertProfile>, updatedBy?: number): Promise<Profile | undefined> {
+    const profile = await this.getProfile(id);
     if (!profile) return undefined;
     
     const updatedProfile = { ...profile, ...updatedFields };
     this.profiles.set(id, updatedProfile);
     
+    if (hasResumeChanged(profile, updatedProfile)) {
+      this.recordResumeVersion(updatedProfile, updatedBy || null);
+    }
+    
+    return updatedProfile;
+  }
+  
+  async saveGeneratedResume(id: number, fileHash: string, layout: ResumeLayout): Promise<Profile | undefined> {
+    const profile = await this.getProfile(id);
+    if (!profile) return undefined;
+    
+    const updatedProfile: Profile = {
+      ...profile,
+      generatedResumeFileHash: fileHash,
+      generatedResumeLayout: layout,
+      generatedResumeAt: new Date(),
+    };
+    this.profiles.set(id, updatedProfile);
+    return updatedProfile;
+  }
+  
+  // Profile lifecycle operations
+  async changeProfileStatus(id: number, status: ProfileStatus, changedBy: number, effectiveDate: string, notes?: string): Promise<Profile | undefined> {
+    const profile = await this.getProfile(id);
+    if (!profile) return undefined;
+    
+    const updatedProfile: Profile = { ...profile, status, statusEffectiveDate: effectiveDate };
+    this.profiles.set(id, updatedProfile);
+    this.recordProfileStatusChange(id, profile.status, status, changedBy, effectiveDate, notes);
+    
     return updatedProfile;
   }
   
-  async deleteProfile(id: number): Promise<boolean> {
+  async getProfileStatusChanges(profileId: number): Promise<ProfileStatusChange[]> {
+    return Array.from(this.profileStatusChanges.values())
+      .filter(change => change.profileId === profileId)
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+  }
+  
+  async getPlacements(profileId?: number): Promise<Placement[]> {
+    const placementList = Array.from(this.placements.values())
+      .sort((a, b) => b.startDate.localeCompare(a.startDate));
+    return profileId ? placementList.filter(placement => placement.profileId === profileId) : placementList;
+  }
+  
+  async createPlacement(insertPlacement: InsertPlacement): Promise<Placement> {
+    const id = this.currentPlacementId++;
+    const placement: Placement = {
+      ...insertPlacement,
+      id,
+      notes: insertPlacement.notes || null,
+      createdBy: insertPlacement.createdBy || null,
+      createdAt: new Date(),
+    };
+    this.placements.set(id, placement);
+    
+    // The candidate counts as placed from their first day at the client
+    await this.changeProfileStatus(placement.profileId, "placed", placement.createdBy || placement.closedBy, placement.startDate);
+    
+    return placement;
+  }
+  
+  private recordProfileStatusChange(profileId: number, fromStatus: ProfileStatus | null, toStatus: ProfileStatus, changedBy: number | null, effectiveDate: string, notes?: string) {
+    const id = this.currentProfileStatusChangeId++;
+    this.profileStatusChanges.set(id, {
+      id,
+      profileId,
+      fromStatus,
+      toStatus,
+      effectiveDate,
+      changedBy,
+      changedAt: new Date(),
+      notes: notes || null,
+    });
+  }
+  
+  // Resume version operations
+  async getProfileResumeVersion(id: number): Promise<ProfileResumeVersion | undefined> {
+    return this.profileResumeVersions.get(id);
+  }
+  
+  async getProfileResumeVersions(profileId: number): Promise<ProfileResumeVersion[]> {
+    return Array.from(this.profileResumeVersions.values())
+      .filter(version => version.profileId === profileId)
+      .sort((a, b) => b.versionNumber - a.versionNumber);
+  }
+  
+  async restoreProfileResumeVersion(profileId: number, versionId: number, restoredBy: number): Promise<Profile | undefined> {
+    const profile = await this.getProfile(profileId);
+    const version = this.profileResumeVersions.get(versionId);
+    if (!profile || !version || version.profileId !== profileId) return undefined;
+    
+    const restoredProfile: Profile = {
+      ...profile,
+      resumeContent: version.resumeContent,
+      resumeFileName: version.resumeFileName,
+      resumeFileHash: version.resumeFileHash,
+      resumeBuffer: version.resumeBuffer,
+      resumeStructure: version.resumeContent ? parseResumeStructure(version.resumeContent) : null,
+      atsFindings: null, // Findings belonged to the replaced file
+    };
+    this.profiles.set(profileId, restoredProfile);
+    this.recordResumeVersion(restoredProfile, restoredBy, version.versionNumber);
+    
+    return restoredProfile;
+  }
+  
+  // Resume variant operations
+  async getResumeVariant(id: number): Promise<ResumeVariant | undefined> {
+    return this.resumeVariants.get(id);
+  }
+  
+  async getResumeVariants(profileId: number): Promise<ResumeVariant[]> {
+    return Array.from(this.resumeVariants.values())
+      .filter(variant => variant.profileId === profileId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async createResumeVariant(insertVariant: InsertResumeVariant): Promise<ResumeVariant> {
+    const id = this.currentResumeVariantId++;
+    const variant: ResumeVariant = {
+      ...insertVariant,
+      id,
+      resumeFileName: insertVariant.resumeFileName || null,
+      resumeFileHash: insertVariant.resumeFileHash || null,
+      resumeBuffer: null,
+      createdBy: insertVariant.createdBy || null,
+      createdAt: new Date(),
+    };
+    this.resumeVariants.set(id, variant);
+    return variant;
+  }
+  
+  async updateResumeVariant(id: number, updatedFields: Partial<InsertResumeVariant>): Promise<ResumeVariant | undefined> {
+    const variant = this.resumeVariants.get(id);
+    if (!variant) return undefined;
+    
+    const updatedVariant = { ...variant, ...updatedFields } as ResumeVariant;
+    this.resumeVariants.set(id, updatedVariant);
+    
+    return updatedVariant;
+  }
+  
+  async deleteResumeVariant(id: number): Promise<boolean> {
+    // Variants that applications or leads were attributed to are kept for the comparison
+    const inUse = Array.from(this.jobApplications.values()).some(a => a.resumeVariantId === id) ||
+      Array.from(this.leads.values()).some(lead => lead.resumeVariantId === id);
+    if (inUse) {
+      return false;
+    }
+    
+    return this.resumeVariants.delete(id);
+  }
+  
+  async getResumeVariantPerformance(profileId: number, fromDate?: Date, toDate?: Date): Promise<ResumeVariantPerformance[]> {
+    const variants = await this.getResumeVariants(profileId);
+    const applications = (await this.getJobApplications()).filter(
+      a => a.profileId === profileId && a.appliedAt && isWithinDateRange(a.appliedAt, fromDate, toDate)
+    );
+    const leadList = (await this.getLeads()).filter(lead => lead.profileId === profileId);
+    const transitions = await this.getLeadStageTransitions(undefined, fromDate, toDate);
+    
+    return summarizeVariantPerformance(variants, applications, leadList, transitions);
+  }
+  
+  private recordResumeVersion(profile: Profile, createdBy: number | null, restoredFromVersion?: number) {
+    const versionNumbers = Array.from(this.profileResumeVersions.values())
+      .filter(version => version.profileId === profile.id)
+      .map(version => version.versionNumber);
+    
+    const id = this.currentProfileResumeVersionId++;
+    const version: ProfileResumeVersion = {
+      id,
+      profileId: profile.id,
+      versionNumber: Math.max(0, ...versionNumbers) + 1,
+      resumeContent: profile.resumeContent,
+      resumeFileName: profile.resumeFileName,
+      resumeFileHash: profile.resumeFileHash,
+      resumeBuffer: profile.resumeBuffer,
+      restoredFromVersion: restoredFromVersion || null,
+      createdBy,
+      createdAt: new Date(),
+    };
+    this.profileResumeVersions.set(id, version);
+  }
+  
+  async deleteProfile(id: number, deletedBy: number): Promise<boolean> {
+    const profile = await this.getProfile(id);
+    if (!profile) return false;
+    
     // First check if the profile is assigned to any users
-    const leadGenAssignments = Array.from(this.leadGenAssignments.values()).filter(
+    const leadGenAssignments = (await this.getLeadGenAssignments()).filter(
       assignment => assignment.profileId === id
     );
     
-    const salesAssignments = Array.from(this.salesAssignments.values()).filter(
+    const salesAssignments = (await this.getSalesAssignments()).filter(
       assignment => assignment.profileId === id
     );
     
-    const targets = Array.from(this.targets.values()).filter(
+    const targets = (await this.getTargets()).filter(
       target => target.profileId === id
     );
     
@@ -250,27 +1051,54 @@ export class MemStorage implements IStorage {
       entry => entry.profileId === id
     );
     
+    const jobApplications = Array.from(this.jobApplications.values()).filter(
+      application => application.profileId === id
+    );
+    
+    const leads = Array.from(this.leads.values()).filter(
+      lead => lead.profileId === id
+    );
+    
+    const interviews = Array.from(this.interviews.values()).filter(
+      interview => interview.profileId === id
+    );
+    
+    const jobDescriptionMatches = Array.from(this.jobDescriptionMatches.values()).filter(
+      match => match.profileId === id
+    );
+    
+    const placements = Array.from(this.placements.values()).filter(
+      placement => placement.profileId === id
+    );
+    
     // If profile is in use, don't delete
     if (leadGenAssignments.length > 0 || 
         salesAssignments.length > 0 || 
         targets.length > 0 || 
         progressUpdates.length > 0 || 
-        leadEntries.length > 0) {
+        leadEntries.length > 0 ||
+        jobApplications.length > 0 ||
+        leads.length > 0 ||
+        interviews.length > 0 ||
+        jobDescriptionMatches.length > 0 ||
+        placements.length > 0) {
       return false;
     }
     
-    return this.profiles.delete(id);
+    // The profile keeps its history until it is purged from the recently deleted bin
+    this.profiles.set(id, { ...profile, deletedAt: new Date(), deletedBy });
+    return true;
   }
   
   // Lead Gen Assignment operations
   async getLeadGenAssignment(userId: number): Promise<LeadGenAssignment | undefined> {
     return Array.from(this.leadGenAssignments.values()).find(
-      (assignment) => assignment.userId === userId
+      (assignment) => assignment.userId === userId && isLive(assignment)
     );
   }
   
   async getLeadGenAssignments(): Promise<LeadGenAssignment[]> {
-    return Array.from(this.leadGenAssignments.values());
+    return Array.from(this.leadGenAssignments.values()).filter(isLive);
   }
   
   async createLeadGenAssignment(assignment: InsertLeadGenAssignment): Promise<LeadGenAssignment> {
@@ -278,34 +1106,37 @@ export class MemStorage implements IStorage {
     const existingAssignment = await this.getLeadGenAssignment(assignment.userId);
     if (existingAssignment) {
       // Update existing assignment instead of creating a new one
-      existingAssignment.profileId = assignment.profileId;
-      return existingAssignment;
+      const updatedAssignment = { ...existingAssignment, profileId: assignment.profileId };
+      this.leadGenAssignments.set(existingAssignment.id, updatedAssignment);
+      return updatedAssignment;
     }
     
     const id = this.currentLeadGenAssignmentId++;
-    const newAssignment: LeadGenAssignment = { ...assignment, id };
+    const newAssignment: LeadGenAssignment = { ...assignment, id, deletedAt: null, deletedBy: null };
     this.leadGenAssignments.set(id, newAssignment);
     return newAssignment;
   }
   
-  async deleteLeadGenAssignment(userId: number): Promise<boolean> {
+  async deleteLeadGenAssignment(userId: number, deletedBy: number): Promise<boolean> {
     const assignment = await this.getLeadGenAssignment(userId);
     if (!assignment) return false;
     
-    return this.leadGenAssignments.delete(assignment.id);
+    this.leadGenAssignments.set(assignment.id, { ...assignment, deletedAt: new Date(), deletedBy });
+    return true;
   }
   
   async updateLeadGenAssignment(userId: number, profileId: number): Promise<LeadGenAssignment | undefined> {
     const assignment = await this.getLeadGenAssignment(userId);
     if (!assignment) return undefined;
     
-    assignment.profileId = profileId;
-    return assignment;
+    const updatedAssignment = { ...assignment, profileId };
+    this.leadGenAssignments.set(assignment.id, updatedAssignment);
+    return updatedAssignment;
   }
   
   // Sales Assignment operations
   async getSalesAssignments(userId?: number): Promise<SalesAssignment[]> {
-    const assignments = Array.from(this.salesAssignments.values());
+    const assignments = Array.from(this.salesAssignments.values()).filter(isLive);
     if (userId) {
       return assignments.filter(assignment => assignment.userId === userId);
     }
@@ -314,8 +1145,8 @@ export class MemStorage implements IStorage {
   
   async createSalesAssignment(assignment: InsertSalesAssignment): Promise<SalesAssignment> {
     // Check if this assignment already exists
-    const existingAssignment = Array.from(this.salesAssignments.values()).find(
-      a => a.userId === assignment.userId && a.profileId === assignment.profileId
+    const existingAssignment = (await this.getSalesAssignments(assignment.userId)).find(
+      a => a.profileId === assignment.profileId
     );
     
     if (existingAssignment) {
@@ -323,18 +1154,22 @@ export class MemStorage implements IStorage {
     }
     
     const id = this.currentSalesAssignmentId++;
-    const newAssignment: SalesAssignment = { ...assignment, id };
+    const newAssignment: SalesAssignment = { ...assignment, id, deletedAt: null, deletedBy: null };
     this.salesAssignments.set(id, newAssignment);
     return newAssignment;
   }
   
-  async deleteSalesAssignment(id: number): Promise<boolean> {
-    return this.salesAssignments.delete(id);
+  async deleteSalesAssignment(id: number, deletedBy: number): Promise<boolean> {
+    const assignment = this.salesAssignments.get(id);
+    if (!assignment || !isLive(assignment)) return false;
+    
+    this.salesAssignments.set(id, { ...assignment, deletedAt: new Date(), deletedBy });
+    return true;
   }
   
   // Target operations
   async getTargets(userId?: number): Promise<Target[]> {
-    const targets = Array.from(this.targets.values());
+    const targets = Array.from(this.targets.values()).filter(isLive);
     if (userId) {
       return targets.filter(target => target.userId === userId);
     }
@@ -343,23 +1178,93 @@ export class MemStorage implements IStorage {
   
   async createTarget(insertTarget: InsertTarget): Promise<Target> {
     const id = this.currentTargetId++;
-    const target: Target = { ...insertTarget, id };
+    const target: Target = { ...insertTarget, id, deletedAt: null, deletedBy: null };
     this.targets.set(id, target);
     return target;
   }
   
   async updateTarget(id: number, jobsToFetch: number, jobsToApply: number): Promise<Target | undefined> {
     const target = this.targets.get(id);
-    if (!target) return undefined;
+    if (!target || !isLive(target)) return undefined;
     
-    target.jobsToFetch = jobsToFetch;
-    target.jobsToApply = jobsToApply;
+    const updatedTarget = { ...target, jobsToFetch, jobsToApply };
+    this.targets.set(id, updatedTarget);
     
-    return target;
+    return updatedTarget;
+  }
+  
+  async deleteTarget(id: number, deletedBy: number): Promise<boolean> {
+    const target = this.targets.get(id);
+    if (!target || !isLive(target)) return false;
+    
+    this.targets.set(id, { ...target, deletedAt: new Date(), deletedBy });
+    return true;
+  }
+  
+  // Recently deleted operations
+  async getDeletedItems(): Promise<DeletedItems> {
+    const binned = <T extends { deletedAt: Date | null }>(rows: Map<number, T>) =>
+      Array.from(rows.values())
+        .filter(row => !isLive(row))
+        .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+    
+    return {
+      profiles: binned(this.profiles),
+      targets: binned(this.targets),
+      leadGenAssignments: binned(this.leadGenAssignments),
+      salesAssignments: binned(this.salesAssignments),
+    };
+  }
+  
+  async restoreDeletedItem(type: DeletableItemType, id: number): Promise<boolean> {
+    const rows = this.deletableRows(type);
+    const row = rows.get(id);
+    if (!row || isLive(row)) return false;
+    
+    rows.set(id, { ...row, deletedAt: null, deletedBy: null });
+    return true;
+  }
+  
+  async purgeDeletedItem(type: DeletableItemType, id: number): Promise<boolean> {
+    const rows = this.deletableRows(type);
+    const row = rows.get(id);
+    if (!row || isLive(row)) return false;
+    
+    if (type === "profile") {
+      // A purged profile takes its resume history, variants, tags and binned assignments with it
+      Array.from(this.profileResumeVersions.values())
+        .filter(version => version.profileId === id)
+        .forEach(version => this.profileResumeVersions.delete(version.id));
+      
+      Array.from(this.resumeVariants.values())
+        .filter(variant => variant.profileId === id)
+        .forEach(variant => this.resumeVariants.delete(variant.id));
+      
+      Array.from(this.profileSkillTags.values())
+        .filter(link => link.profileId === id)
+        .forEach(link => this.profileSkillTags.delete(link.id));
+      
+      Array.from(this.profileStatusChanges.values())
+        .filter(change => change.profileId === id)
+        .forEach(change => this.profileStatusChanges.delete(change.id));
+      
+      for (const binnedRows of [this.targets, this.leadGenAssignments, this.salesAssignments]) {
+        Array.from(binnedRows.values())
+          .filter(binnedRow => binnedRow.profileId === id)
+          .forEach(binnedRow => binnedRows.delete(binnedRow.id));
+      }
+    }
+    
+    return rows.delete(id);
   }
   
-  async deleteTarget(id: number): Promise<boolean> {
-    return this.targets.delete(id);
+  private deletableRows(type: DeletableItemType): Map<number, { id: number, deletedAt: Date | null, deletedBy: number | null }> {
+    switch (type) {
+      case "profile": return this.profiles;
+      case "target": return this.targets;
+      case "lead_gen_assignment": return this.leadGenAssignments;
+      case "sales_assignment": return this.salesAssignments;
+    }
   }
   
   async getProfileResume(profileId: number): Promise<{content: string, filename: string} | undefined> {
@@ -457,9 +1362,72 @@ export class MemStorage implements IStorage {
     return update;
   }
   
-  // Lead Entry operations
-  async getLeadEntries(userId?: number, fromDate?: Date, toDate?: Date): Promise<LeadEntry[]> {
-    let entries = Array.from(this.leadEntries.values());
+  async getProgressSummaries(userId?: number, fromDate?: Date, toDate?: Date): Promise<ProgressUpdateSummary[]> {
+    const manualUpdates = await this.getProgressUpdates(userId, fromDate, toDate);
+    // An application fetched before the range still counts if it was applied in it
+    const applications = (await this.getJobApplications(userId)).filter(application =>
+      isWithinDateRange(application.fetchedAt, fromDate, toDate) ||
+      (application.appliedAt && isWithinDateRange(application.appliedAt, fromDate, toDate))
+    );
+    
+    return mergeDailySummaries<ProgressUpdateSummary>(manualUpdates, summarizeJobApplications(applications, fromDate, toDate));
+  }
+  
+  // Job Application operations
+  async getJobApplication(id: number): Promise<JobApplication | undefined> {
+    return this.jobApplications.get(id);
+  }
+  
+  async getJobApplications(userId?: number, fromDate?: Date, toDate?: Date): Promise<JobApplication[]> {
+    let applications = Array.from(this.jobApplications.values());
+    
+    if (userId) {
+      applications = applications.filter(application => application.userId === userId);
+    }
+    
+    if (fromDate) {
+      applications = applications.filter(application => toDateKey(application.fetchedAt) >= toDateKey(fromDate));
+    }
+    
+    if (toDate) {
+      applications = applications.filter(application => toDateKey(application.fetchedAt) <= toDateKey(toDate));
+    }
+    
+    return applications;
+  }
+  
+  async createJobApplication(insertApplication: InsertJobApplication): Promise<JobApplication> {
+    const id = this.currentJobApplicationId++;
+    const application: JobApplication = {
+      ...insertApplication,
+      id,
+      jobUrl: insertApplication.jobUrl || null,
+      source: insertApplication.source || null,
+      resumeVariantId: insertApplication.resumeVariantId || null,
+      fetchedAt: insertApplication.fetchedAt || new Date(),
+      appliedAt: insertApplication.appliedAt || null,
+      notes: insertApplication.notes || null,
+    };
+    this.jobApplications.set(id, application);
+    return application;
+  }
+  
+  async updateJobApplication(id: number, updatedFields: Partial<InsertJobApplication>): Promise<JobApplication | undefined> {
+    const application = this.jobApplications.get(id);
+    if (!application) return undefined;
+    
+    const updatedApplication = { ...application, ...updatedFields } as JobApplication;
+    this.jobApplications.set(id, updatedApplication);
+    return updatedApplication;
+  }
+  
+  async deleteJobApplication(id: number): Promise<boolean> {
+    return this.jobApplications.delete(id);
+  }
+  
+  // Lead Entry operations
+  async getLeadEntries(userId?: number, fromDate?: Date, toDate?: Date): Promise<LeadEntry[]> {
+    let entries = Array.from(this.leadEntries.values());
     
     if (userId) {
       entries = entries.filter(entry => entry.userId === userId);
@@ -497,6 +1465,328 @@ export class MemStorage implements IStorage {
     return updatedEntry;
   }
   
+  async getLeadSummaries(userId?: number, fromDate?: Date, toDate?: Date): Promise<LeadEntrySummary[]> {
+    const manualEntries = await this.getLeadEntries(userId, fromDate, toDate);
+    const leadList = await this.getLeads(userId);
+    const transitions = await this.getLeadStageTransitions(undefined, fromDate, toDate);
+    
+    return mergeDailySummaries<LeadEntrySummary>(manualEntries, summarizeLeadTransitions(leadList, transitions));
+  }
+  
+  // Lead pipeline operations
+  async getLead(id: number): Promise<Lead | undefined> {
+    return this.leads.get(id);
+  }
+  
+  async getLeads(userId?: number): Promise<Lead[]> {
+    const leads = Array.from(this.leads.values());
+    if (userId) {
+      return leads.filter(lead => lead.userId === userId);
+    }
+    return leads;
+  }
+  
+  async createLead(insertLead: InsertLead): Promise<Lead> {
+    const id = this.currentLeadId++;
+    const now = new Date();
+    const lead: Lead = {
+      ...insertLead,
+      id,
+      contactName: insertLead.contactName || null,
+      contactEmail: insertLead.contactEmail || null,
+      resumeVariantId: insertLead.resumeVariantId || null,
+      notes: insertLead.notes || null,
+      stage: "new",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.leads.set(id, lead);
+    this.recordLeadStageTransition(id, null, "new", lead.userId, now);
+    return lead;
+  }
+  
+  async updateLead(id: number, updatedFields: Partial<InsertLead>): Promise<Lead | undefined> {
+    const lead = this.leads.get(id);
+    if (!lead) return undefined;
+    
+    const updatedLead = { ...lead, ...updatedFields, updatedAt: new Date() };
+    this.leads.set(id, updatedLead);
+    
+    return updatedLead;
+  }
+  
+  async changeLeadStage(id: number, fromStage: LeadStage, stage: LeadStage, changedBy: number, notes?: string): Promise<Lead | undefined> {
+    const lead = this.leads.get(id);
+    if (!lead || lead.stage !== fromStage) return undefined;
+    
+    const now = new Date();
+    const updatedLead = { ...lead, stage, updatedAt: now };
+    this.leads.set(id, updatedLead);
+    this.recordLeadStageTransition(id, lead.stage, stage, changedBy, now, notes);
+    
+    return updatedLead;
+  }
+  
+  async getLeadStageTransitions(leadId?: number, fromDate?: Date, toDate?: Date): Promise<LeadStageTransition[]> {
+    let transitions = Array.from(this.leadStageTransitions.values());
+    
+    if (leadId) {
+      transitions = transitions.filter(transition => transition.leadId === leadId);
+    }
+    
+    if (fromDate) {
+      transitions = transitions.filter(transition => toDateKey(transition.changedAt) >= toDateKey(fromDate));
+    }
+    
+    if (toDate) {
+      transitions = transitions.filter(transition => toDateKey(transition.changedAt) <= toDateKey(toDate));
+    }
+    
+    return transitions.sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+  }
+  
+  // Interview operations
+  async getInterview(id: number): Promise<Interview | undefined> {
+    return this.interviews.get(id);
+  }
+  
+  async getInterviews(userId?: number, fromDate?: Date, toDate?: Date): Promise<Interview[]> {
+    let interviews = Array.from(this.interviews.values());
+    
+    if (userId) {
+      interviews = interviews.filter(interview => interview.userId === userId);
+    }
+    
+    if (fromDate) {
+      interviews = interviews.filter(interview => toDateKey(interview.scheduledAt) >= toDateKey(fromDate));
+    }
+    
+    if (toDate) {
+      interviews = interviews.filter(interview => toDateKey(interview.scheduledAt) <= toDateKey(toDate));
+    }
+    
+    return interviews.sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+  }
+  
+  async createInterview(insertInterview: InsertInterview): Promise<InterviewBooking> {
+    const conflicts = findInterviewConflicts(this.getProfileInterviews(insertInterview.profileId), {
+      scheduledAt: insertInterview.scheduledAt,
+      durationMinutes: insertInterview.durationMinutes || 60,
+      outcome: insertInterview.outcome || "pending",
+    });
+    if (conflicts.length > 0) return { conflicts };
+    
+    const id = this.currentInterviewId++;
+    const interview: Interview = {
+      ...insertInterview,
+      id,
+      leadId: insertInterview.leadId || null,
+      durationMinutes: insertInterview.durationMinutes || 60,
+      interviewer: insertInterview.interviewer || null,
+      meetingLink: insertInterview.meetingLink || null,
+      outcome: insertInterview.outcome || "pending",
+      feedback: insertInterview.feedback || null,
+      createdAt: new Date(),
+    };
+    this.interviews.set(id, interview);
+    return { interview, conflicts: [] };
+  }
+  
+  async updateInterview(id: number, updatedFields: Partial<InsertInterview>): Promise<InterviewBooking | undefined> {
+    const interview = this.interviews.get(id);
+    if (!interview) return undefined;
+    
+    const updatedInterview = { ...interview, ...updatedFields } as Interview;
+    if (changesInterviewSlot(updatedFields)) {
+      const conflicts = findInterviewConflicts(this.getProfileInterviews(interview.profileId), updatedInterview);
+      if (conflicts.length > 0) return { conflicts };
+    }
+    this.interviews.set(id, updatedInterview);
+    
+    return { interview: updatedInterview, conflicts: [] };
+  }
+  
+  private getProfileInterviews(profileId: number): Interview[] {
+    return Array.from(this.interviews.values()).filter(interview => interview.profileId === profileId);
+  }
+  
+  async deleteInterview(id: number): Promise<boolean> {
+    return this.interviews.delete(id);
+  }
+  
+  // Job description match operations
+  async getJobDescriptionMatches(userId?: number, fromDate?: Date, toDate?: Date): Promise<JobDescriptionMatch[]> {
+    return Array.from(this.jobDescriptionMatches.values())
+      .filter(match => (!userId || match.userId === userId) && isWithinDateRange(match.createdAt, fromDate, toDate))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async createJobDescriptionMatch(insertMatch: InsertJobDescriptionMatch): Promise<JobDescriptionMatch> {
+    const id = this.currentJobDescriptionMatchId++;
+    const match: JobDescriptionMatch = {
+      ...insertMatch,
+      id,
+      jobTitle: insertMatch.jobTitle || null,
+      createdAt: new Date(),
+    };
+    this.jobDescriptionMatches.set(id, match);
+    return match;
+  }
+  
+  async getJobMatchQuality(fromDate?: Date, toDate?: Date): Promise<JobMatchQuality[]> {
+    const leadGenUsers = await this.getUsers("lead_gen");
+    const matches = await this.getJobDescriptionMatches(undefined, fromDate, toDate);
+    return summarizeJobMatchQuality(leadGenUsers, matches);
+  }
+  
+  // Cover letter template operations
+  async getCoverLetterTemplate(id: number): Promise<CoverLetterTemplate | undefined> {
+    return this.coverLetterTemplates.get(id);
+  }
+  
+  async getCoverLetterTemplates(): Promise<CoverLetterTemplate[]> {
+    return Array.from(this.coverLetterTemplates.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async createCoverLetterTemplate(insertTemplate: InsertCoverLetterTemplate): Promise<CoverLetterTemplate> {
+    const id = this.currentCoverLetterTemplateId++;
+    const now = new Date();
+    const template: CoverLetterTemplate = {
+      ...insertTemplate,
+      id,
+      createdBy: insertTemplate.createdBy || null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.coverLetterTemplates.set(id, template);
+    return template;
+  }
+  
+  async updateCoverLetterTemplate(id: number, updatedFields: Partial<InsertCoverLetterTemplate>): Promise<CoverLetterTemplate | undefined> {
+    const template = this.coverLetterTemplates.get(id);
+    if (!template) return undefined;
+    
+    const updatedTemplate = { ...template, ...updatedFields, updatedAt: new Date() };
+    this.coverLetterTemplates.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+  
+  async deleteCoverLetterTemplate(id: number): Promise<boolean> {
+    return this.coverLetterTemplates.delete(id);
+  }
+  
+  // Skill tag operations
+  async getSkillTag(id: number): Promise<SkillTag | undefined> {
+    return this.skillTags.get(id);
+  }
+  
+  async getSkillTags(): Promise<SkillTag[]> {
+    return Array.from(this.skillTags.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async createSkillTag(insertTag: InsertSkillTag): Promise<SkillTag> {
+    const id = this.currentSkillTagId++;
+    const tag: SkillTag = {
+      ...insertTag,
+      id,
+      aliases: insertTag.aliases || [],
+      createdAt: new Date(),
+    };
+    this.skillTags.set(id, tag);
+    return tag;
+  }
+  
+  async updateSkillTag(id: number, updatedFields: Partial<InsertSkillTag>): Promise<SkillTag | undefined> {
+    const tag = this.skillTags.get(id);
+    if (!tag) return undefined;
+    
+    const updatedTag = { ...tag, ...updatedFields };
+    this.skillTags.set(id, updatedTag);
+    return updatedTag;
+  }
+  
+  async deleteSkillTag(id: number): Promise<boolean> {
+    // Untag the profiles filed under it
+    Array.from(this.profileSkillTags.values())
+      .filter(link => link.tagId === id)
+      .forEach(link => this.profileSkillTags.delete(link.id));
+    
+    return this.skillTags.delete(id);
+  }
+  
+  async getProfileSkillTags(profileId?: number): Promise<ProfileSkillTag[]> {
+    const links = Array.from(this.profileSkillTags.values());
+    return profileId ? links.filter(link => link.profileId === profileId) : links;
+  }
+  
+  async setProfileSkillTags(profileId: number, tagIds: number[]): Promise<ProfileSkillTag[]> {
+    Array.from(this.profileSkillTags.values())
+      .filter(link => link.profileId === profileId)
+      .forEach(link => this.profileSkillTags.delete(link.id));
+    
+    const knownTagIds = Array.from(new Set(tagIds)).filter(tagId => this.skillTags.has(tagId));
+    return knownTagIds.map(tagId => {
+      const link: ProfileSkillTag = { id: this.currentProfileSkillTagId++, profileId, tagId };
+      this.profileSkillTags.set(link.id, link);
+      return link;
+    });
+  }
+  
+  async getSkillTagBreakdown(fromDate?: Date, toDate?: Date): Promise<SkillTagBreakdown[]> {
+    const tags = await this.getSkillTags();
+    const links = await this.getProfileSkillTags();
+    const profileIds = (await this.getProfiles()).map(profile => profile.id);
+    const applications = (await this.getJobApplications()).filter(
+      a => a.appliedAt && isWithinDateRange(a.appliedAt, fromDate, toDate)
+    );
+    const leadList = await this.getLeads();
+    const transitions = await this.getLeadStageTransitions(undefined, fromDate, toDate);
+    
+    return summarizeSkillTagBreakdown(tags, links, profileIds, applications, leadList, transitions);
+  }
+  
+  private recordLeadStageTransition(leadId: number, fromStage: LeadStage | null, toStage: LeadStage, changedBy: number, changedAt: Date, notes?: string) {
+    const id = this.currentLeadStageTransitionId++;
+    this.leadStageTransitions.set(id, {
+      id,
+      leadId,
+      fromStage,
+      toStage,
+      changedBy,
+      changedAt,
+      notes: notes || null,
+    });
+  }
+  
+  // Audit log operations
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const id = this.currentAuditLogId++;
+    const auditLog: AuditLog = {
+      ...entry,
+      id,
+      actorId: entry.actorId || null,
+      entityId: entry.entityId || null,
+      before: entry.before || null,
+      after: entry.after || null,
+      ip: entry.ip || null,
+      createdAt: new Date(),
+    };
+    this.auditLogs.set(id, auditLog);
+    return auditLog;
+  }
+  
+  async getAuditLogs(actorId?: number, entityType?: AuditEntityType, fromDate?: Date, toDate?: Date): Promise<AuditLog[]> {
+    return Array.from(this.auditLogs.values())
+      .filter(entry =>
+        (!actorId || entry.actorId === actorId) &&
+        (!entityType || entry.entityType === entityType) &&
+        isWithinDateRange(entry.createdAt, fromDate, toDate)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
   // Combined data operations
   async getUserAssignedProfile(userId: number): Promise<{profile: Profile, target?: Target} | undefined> {
     const user = await this.getUser(userId);
@@ -549,7 +1839,7 @@ export class MemStorage implements IStorage {
       const assignedProfile = await this.getUserAssignedProfile(user.id);
       if (!assignedProfile) continue;
       
-      const progressUpdates = await this.getProgressUpdates(user.id, fromDate, toDate);
+      const progressUpdates = await this.getProgressSummaries(user.id, fromDate, toDate);
       
       const totalJobsFetched = progressUpdates.reduce((sum, update) => sum + update.jobsFetched, 0);
       const totalJobsApplied = progressUpdates.reduce((sum, update) => sum + update.jobsApplied, 0);
@@ -628,385 +1918,1684 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // Profile operations
-  async getProfile(id: number): Promise<Profile | undefined> {
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined> {
     try {
-      const result = await db.select().from(profiles).where(eq(profiles.id, id)).limit(1);
+      const result = await db.update(users).set(user).where(eq(users.id, id)).returning();
       return result[0];
     } catch (error) {
-      console.error('Error getting profile:', error);
+      console.error('Error updating user:', error);
       return undefined;
     }
   }
 
-  async getProfiles(): Promise<Profile[]> {
-    try {
-      return await db.select().from(profiles);
-    } catch (error) {
-      console.error('Error getting profiles:', error);
-      return [];
-    }
-  }
-
-  async createProfile(profile: InsertProfile): Promise<Profile> {
+  async setUserDeactivated(id: number, deactivated: boolean): Promise<User | undefined> {
     try {
-      // Handle null bytes and invalid UTF-8 characters in profile data
-      // PostgreSQL cannot store null bytes in text fields
-      const sanitizedProfile = { ...profile };
-      
-      // Sanitize text fields to ensure they're valid UTF-8
-      if (sanitizedProfile.resumeContent) {
-        sanitizedProfile.resumeContent = sanitizedProfile.resumeContent
-          .replace(/\0/g, '') // Remove null bytes
-          .replace(/[\x00-\x09\x0B\x0C\x0E-\x1F\x7F]/g, ''); // Remove control characters
-      }
-      
-      const result = await db.insert(profiles).values({
-        ...sanitizedProfile,
-        createdAt: new Date(),
-      }).returning();
-      
+      const result = await db.update(users)
+        .set({ deactivatedAt: deactivated ? new Date() : null })
+        .where(eq(users.id, id))
+        .returning();
       return result[0];
     } catch (error) {
-      console.error('Error creating profile:', error);
-      throw error;
+      console.error('Error changing user activation:', error);
+      return undefined;
     }
   }
 
-  async updateProfile(id: number, updatedFields: Partial<InsertProfile>): Promise<Profile | undefined> {
+  async updateUserTwoFactor(id: number, twoFactor: UserTwoFactor): Promise<User | undefined> {
     try {
-      // Sanitize text fields to ensure they're valid UTF-8
-      const sanitizedFields = { ...updatedFields };
-      
-      if (sanitizedFields.resumeContent) {
-        sanitizedFields.resumeContent = sanitizedFields.resumeContent
-          .replace(/\0/g, '') // Remove null bytes
-          .replace(/[\x00-\x09\x0B\x0C\x0E-\x1F\x7F]/g, ''); // Remove control characters
-      }
-      
-      const result = await db.update(profiles).set(sanitizedFields).where(eq(profiles.id, id)).returning();
+      const result = await db.update(users).set(twoFactor).where(eq(users.id, id)).returning();
       return result[0];
     } catch (error) {
-      console.error('Error updating profile:', error);
+      console.error('Error updating two-factor settings:', error);
       return undefined;
     }
   }
 
-  async deleteProfile(id: number): Promise<boolean> {
+  async useTotpStep(id: number, step: number): Promise<boolean> {
     try {
-      // Check if profile is in use
-      const leadGenAssignmentCount = await db.select({ count: { count: leadGenAssignments.id } })
-        .from(leadGenAssignments)
-        .where(eq(leadGenAssignments.profileId, id));
-      
-      const salesAssignmentCount = await db.select({ count: { count: salesAssignments.id } })
-        .from(salesAssignments)
-        .where(eq(salesAssignments.profileId, id));
-      
-      const targetCount = await db.select({ count: { count: targets.id } })
-        .from(targets)
-        .where(eq(targets.profileId, id));
-      
-      const progressUpdateCount = await db.select({ count: { count: progressUpdates.id } })
-        .from(progressUpdates)
-        .where(eq(progressUpdates.profileId, id));
-      
-      const leadEntryCount = await db.select({ count: { count: leadEntries.id } })
-        .from(leadEntries)
-        .where(eq(leadEntries.profileId, id));
-      
-      // If profile is in use, don't delete
-      // Check if count is greater than 0 for any of these tables
-      if ((leadGenAssignmentCount[0]?.count?.count || 0) > 0 || 
-          (salesAssignmentCount[0]?.count?.count || 0) > 0 || 
-          (targetCount[0]?.count?.count || 0) > 0 || 
-          (progressUpdateCount[0]?.count?.count || 0) > 0 || 
-          (leadEntryCount[0]?.count?.count || 0) > 0) {
-        return false;
-      }
-      
-      // Delete profile
-      await db.delete(profiles).where(eq(profiles.id, id));
-      return true;
+      const result = await db.update(users)
+        .set({ totpLastUsedStep: step })
+        .where(and(eq(users.id, id), or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))))
+        .returning({ id: users.id });
+      return result.length > 0;
     } catch (error) {
-      console.error('Error deleting profile:', error);
+      console.error('Error using authenticator code:', error);
       return false;
     }
   }
 
-  // Lead Gen Assignment operations
-  async getLeadGenAssignment(userId: number): Promise<LeadGenAssignment | undefined> {
+  async useRecoveryCode(id: number, codeHash: string): Promise<boolean> {
     try {
-      const result = await db.select().from(leadGenAssignments).where(eq(leadGenAssignments.userId, userId)).limit(1);
-      return result[0];
+      // Removing the hash and checking it was there happen in one statement
+      const result = await db.update(users)
+        .set({ totpRecoveryCodes: sql`${users.totpRecoveryCodes} - ${codeHash}::text` })
+        .where(and(eq(users.id, id), sql`${users.totpRecoveryCodes} @> jsonb_build_array(${codeHash}::text)`))
+        .returning({ id: users.id });
+      return result.length > 0;
     } catch (error) {
-      console.error('Error getting lead gen assignment:', error);
-      return undefined;
+      console.error('Error using recovery code:', error);
+      return false;
     }
   }
 
-  async getLeadGenAssignments(): Promise<LeadGenAssignment[]> {
+  // Settings operations
+  async getSecuritySettings(): Promise<SecuritySettings> {
     try {
-      return await db.select().from(leadGenAssignments);
+      const result = await db.select().from(appSettings).where(eq(appSettings.key, 'security')).limit(1);
+      // Settings added later are missing from older rows, so fill them from the defaults
+      const stored = securitySettingsSchema.partial().safeParse(result[0]?.value);
+      return { ...defaultSecuritySettings, ...(stored.success ? stored.data : {}) };
     } catch (error) {
-      console.error('Error getting lead gen assignments:', error);
-      return [];
+      console.error('Error getting security settings:', error);
+      return defaultSecuritySettings;
     }
   }
 
-  async createLeadGenAssignment(assignment: InsertLeadGenAssignment): Promise<LeadGenAssignment> {
+  async updateSecuritySettings(settings: SecuritySettings, updatedBy: number): Promise<SecuritySettings> {
     try {
-      // Check if user already has an assignment
-      const existingAssignment = await this.getLeadGenAssignment(assignment.userId);
-      if (existingAssignment) {
-        // Update existing assignment
-        const result = await db.update(leadGenAssignments)
-          .set({ profileId: assignment.profileId })
-          .where(eq(leadGenAssignments.userId, assignment.userId))
-          .returning();
-        return result[0];
-      }
-      
-      // Create new assignment
-      const result = await db.insert(leadGenAssignments).values(assignment).returning();
-      return result[0];
+      await db.insert(appSettings)
+        .values({ key: 'security', value: settings, updatedBy })
+        .onConflictDoUpdate({
+          target: appSettings.key,
+          set: { value: settings, updatedBy, updatedAt: new Date() },
+        });
+      return settings;
     } catch (error) {
-      console.error('Error creating lead gen assignment:', error);
+      console.error('Error updating security settings:', error);
       throw error;
     }
   }
 
-  async deleteLeadGenAssignment(userId: number): Promise<boolean> {
+  // Invitation operations
+  async getInvitation(id: number): Promise<Invitation | undefined> {
     try {
-      await db.delete(leadGenAssignments).where(eq(leadGenAssignments.userId, userId));
-      return true;
+      const result = await db.select().from(invitations).where(eq(invitations.id, id)).limit(1);
+      return result[0];
     } catch (error) {
-      console.error('Error deleting lead gen assignment:', error);
-      return false;
+      console.error('Error getting invitation:', error);
+      return undefined;
     }
   }
 
-  async updateLeadGenAssignment(userId: number, profileId: number): Promise<LeadGenAssignment | undefined> {
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
     try {
-      const result = await db.update(leadGenAssignments)
-        .set({ profileId })
-        .where(eq(leadGenAssignments.userId, userId))
-        .returning();
+      const result = await db.select().from(invitations).where(eq(invitations.tokenHash, tokenHash)).limit(1);
       return result[0];
     } catch (error) {
-      console.error('Error updating lead gen assignment:', error);
+      console.error('Error getting invitation by token:', error);
       return undefined;
     }
   }
 
-  // Sales Assignment operations
+  async getInvitations(): Promise<Invitation[]> {
+    try {
+      return await db.select().from(invitations).orderBy(desc(invitations.createdAt), desc(invitations.id));
+    } catch (error) {
+      console.error('Error getting invitations:', error);
+      return [];
+    }
+  }
+
+  async createInvitation(invitation: InsertInvitation, tokenHash: string, expiresAt: Date): Promise<Invitation> {
+    try {
+      const result = await db.insert(invitations).values({ ...invitation, tokenHash, expiresAt }).returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating invitation:', error);
+      throw error;
+    }
+  }
+
+  async renewInvitation(id: number, tokenHash: string, expiresAt: Date): Promise<Invitation | undefined> {
+    try {
+      const result = await db.update(invitations)
+        .set({ tokenHash, expiresAt })
+        .where(and(eq(invitations.id, id), isNull(invitations.acceptedAt), isNull(invitations.revokedAt)))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error renewing invitation:', error);
+      return undefined;
+    }
+  }
+
+  async revokeInvitation(id: number): Promise<Invitation | undefined> {
+    try {
+      const result = await db.update(invitations)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(invitations.id, id), isNull(invitations.acceptedAt), isNull(invitations.revokedAt)))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      return undefined;
+    }
+  }
+
+  async acceptInvitation(id: number, user: InsertUser): Promise<{ invitation: Invitation, user: User } | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        // The conditions make this a single claim, so one invitation can't register two accounts
+        const now = new Date();
+        const [invitation] = await tx.update(invitations)
+          .set({ acceptedAt: now })
+          .where(and(
+            eq(invitations.id, id),
+            isNull(invitations.acceptedAt),
+            isNull(invitations.revokedAt),
+            gt(invitations.expiresAt, now)
+          ))
+          .returning();
+        if (!invitation) return undefined;
+        
+        // A failed insert rolls back the claim, leaving the invitation usable
+        const [createdUser] = await tx.insert(users).values(user).returning();
+        return { invitation, user: createdUser };
+      });
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      throw error;
+    }
+  }
+
+  // Password reset operations
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    try {
+      const result = await db.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt }).returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating password reset token:', error);
+      throw error;
+    }
+  }
+
+  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    try {
+      const result = await db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash)).limit(1);
+      return result[0];
+    } catch (error) {
+      console.error('Error getting password reset token:', error);
+      return undefined;
+    }
+  }
+
+  async usePasswordResetToken(id: number): Promise<PasswordResetToken | undefined> {
+    try {
+      const now = new Date();
+      const result = await db.update(passwordResetTokens)
+        .set({ usedAt: now })
+        .where(and(
+          eq(passwordResetTokens.id, id),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, now)
+        ))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error using password reset token:', error);
+      return undefined;
+    }
+  }
+
+  async destroyUserSessions(userId: number, exceptSessionId?: string): Promise<void> {
+    try {
+      // connect-pg-simple keeps each session as JSON in its "session" table, with passport's user id inside
+      await db.execute(sql`
+        delete from "session"
+        where sess -> 'passport' ->> 'user' = ${String(userId)}
+        ${exceptSessionId ? sql`and sid <> ${exceptSessionId}` : sql``}
+      `);
+    } catch (error) {
+      console.error('Error destroying user sessions:', error);
+      throw error;
+    }
+  }
+
+  // Profile operations
+  async getProfile(id: number): Promise<Profile | undefined> {
+    try {
+      const result = await db.select().from(profiles).where(and(eq(profiles.id, id), isNull(profiles.deletedAt))).limit(1);
+      return result[0];
+    } catch (error) {
+      console.error('Error getting profile:', error);
+      return undefined;
+    }
+  }
+
+  async getProfiles(): Promise<Profile[]> {
+    try {
+      return await db.select().from(profiles).where(isNull(profiles.deletedAt));
+    } catch (error) {
+      console.error('Error getting profiles:', error);
+      return [];
+    }
+  }
+
+  async searchProfiles(query: string): Promise<ProfileSearchResult[]> {
+    try {
+      const vector = profileSearchVector(profiles);
+      const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+      const rank = sql<number>`ts_rank(${vector}, ${tsQuery})`;
+      
+      const rows = await db.select({
+        profile: profiles,
+        rank,
+        headline: sql<string>`ts_headline('english', concat_ws(E'\\n', ${profiles.description}, ${profiles.resumeContent}), ${tsQuery}, ${headlineOptions})`
+      })
+        .from(profiles)
+        .where(and(sql`${vector} @@ ${tsQuery}`, isNull(profiles.deletedAt)))
+        .orderBy(desc(rank))
+        .limit(maxSearchResults);
+      
+      return rows.map(row => ({
+        profile: row.profile,
+        rank: Number(row.rank),
+        snippet: parseHeadline(row.headline)
+      }));
+    } catch (error) {
+      console.error('Error searching profiles:', error);
+      return [];
+    }
+  }
+
+  async createProfile(profile: InsertProfile): Promise<Profile> {
+    try {
+      // Handle null bytes and invalid UTF-8 characters in profile data
+      // PostgreSQL cannot store null bytes in text fields
+      const sanitizedProfile = { ...profile };
+      
+      // Sanitize text fields to ensure they're valid UTF-8
+      if (sanitizedProfile.resumeContent) {
+        sanitizedProfile.resumeContent = sanitizedProfile.resumeContent
+          .replace(/\0/g, '') // Remove null bytes
+          .replace(/[\x00-\x09\x0B\x0C\x0E-\x1F\x7F]/g, ''); // Remove control characters
+      }
+      
+      const result = await db.insert(profiles).values({
+        ...sanitizedProfile,
+        createdAt: new Date(),
+      }).returning();
+      
+      await db.insert(profileStatusChanges).values({
+        profileId: result[0].id,
+        fromStatus: null,
+        toStatus: result[0].status,
+        effectiveDate: toDateKey(result[0].createdAt!),
+        changedBy: result[0].createdBy,
+      });
+      
+      if (result[0].resumeContent || result[0].resumeFileHash) {
+        await this.recordResumeVersion(result[0], result[0].createdBy);
+      }
+      
+      return result[0];
+    } catch (error) {
+      console.error('Error creating profile:', error);
+      throw error;
+    }
+  }
+
+  async updateProfile(id: number, updatedFields: Partial<InsertProfile>, updatedBy?: number): Promise<Profile | undefined> {
+    try {
+      const existing = await this.getProfile(id);
+      if (!existing) return undefined;
+      
+      // Sanitize text fields to ensure they're valid UTF-8
+      const sanitizedFields = { ...updatedFields };
+      
+      if (sanitizedFields.resumeContent) {
+        sanitizedFields.resumeContent = sanitizedFields.resumeContent
+          .replace(/\0/g, '') // Remove null bytes
+          .replace(/[\x00-\x09\x0B\x0C\x0E-\x1F\x7F]/g, ''); // Remove control characters
+      }
+      
+      const result = await db.update(profiles).set(sanitizedFields).where(eq(profiles.id, id)).returning();
+      
+      if (result[0] && hasResumeChanged(existing, result[0])) {
+        await this.recordResumeVersion(result[0], updatedBy || null, undefined, existing);
+      }
+      
+      return result[0];
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      return undefined;
+    }
+  }
+
+  async saveGeneratedResume(id: number, fileHash: string, layout: ResumeLayout): Promise<Profile | undefined> {
+    try {
+      const result = await db.update(profiles)
+        .set({
+          generatedResumeFileHash: fileHash,
+          generatedResumeLayout: layout,
+          generatedResumeAt: new Date(),
+        })
+        .where(and(eq(profiles.id, id), isNull(profiles.deletedAt)))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error saving generated resume:', error);
+      return undefined;
+    }
+  }
+
+  // Profile lifecycle operations
+  async changeProfileStatus(id: number, status: ProfileStatus, changedBy: number, effectiveDate: string, notes?: string): Promise<Profile | undefined> {
+    try {
+      const profile = await this.getProfile(id);
+      if (!profile) return undefined;
+      
+      return await db.transaction(tx => this.applyProfileStatusChange(tx, profile, status, changedBy, effectiveDate, notes));
+    } catch (error) {
+      console.error('Error changing profile status:', error);
+      throw error;
+    }
+  }
+
+  // The profile's status and its history row are written together, so the history always matches the profile
+  private async applyProfileStatusChange(tx: Transaction, profile: Profile, status: ProfileStatus, changedBy: number | null, effectiveDate: string, notes?: string): Promise<Profile> {
+    const result = await tx.update(profiles)
+      .set({ status, statusEffectiveDate: effectiveDate })
+      .where(eq(profiles.id, profile.id))
+      .returning();
+    
+    await tx.insert(profileStatusChanges).values({
+      profileId: profile.id,
+      fromStatus: profile.status,
+      toStatus: status,
+      effectiveDate,
+      changedBy,
+      notes: notes || null,
+    });
+    
+    return result[0];
+  }
+
+  async getProfileStatusChanges(profileId: number): Promise<ProfileStatusChange[]> {
+    try {
+      return await db.select()
+        .from(profileStatusChanges)
+        .where(eq(profileStatusChanges.profileId, profileId))
+        .orderBy(profileStatusChanges.changedAt);
+    } catch (error) {
+      console.error('Error getting profile status changes:', error);
+      return [];
+    }
+  }
+
+  async getPlacements(profileId?: number): Promise<Placement[]> {
+    try {
+      if (profileId) {
+        return await db.select()
+          .from(placements)
+          .where(eq(placements.profileId, profileId))
+          .orderBy(desc(placements.startDate));
+      }
+      return await db.select().from(placements).orderBy(desc(placements.startDate));
+    } catch (error) {
+      console.error('Error getting placements:', error);
+      return [];
+    }
+  }
+
+  async createPlacement(placement: InsertPlacement): Promise<Placement> {
+    try {
+      return await db.transaction(async (tx) => {
+        const result = await tx.insert(placements).values(placement).returning();
+        
+        const [profile] = await tx.select()
+          .from(profiles)
+          .where(and(eq(profiles.id, placement.profileId), isNull(profiles.deletedAt)))
+          .limit(1);
+        if (!profile) {
+          throw new Error(`Profile ${placement.profileId} not found`);
+        }
+        
+        // The candidate counts as placed from their first day at the client
+        await this.applyProfileStatusChange(tx, profile, "placed", result[0].createdBy || result[0].closedBy, result[0].startDate);
+        
+        return result[0];
+      });
+    } catch (error) {
+      console.error('Error creating placement:', error);
+      throw error;
+    }
+  }
+
+  // Resume version operations
+  async getProfileResumeVersion(id: number): Promise<ProfileResumeVersion | undefined> {
+    try {
+      const result = await db.select().from(profileResumeVersions).where(eq(profileResumeVersions.id, id)).limit(1);
+      return result[0];
+    } catch (error) {
+      console.error('Error getting resume version:', error);
+      return undefined;
+    }
+  }
+
+  async getProfileResumeVersions(profileId: number): Promise<ProfileResumeVersion[]> {
+    try {
+      return await db.select()
+        .from(profileResumeVersions)
+        .where(eq(profileResumeVersions.profileId, profileId))
+        .orderBy(desc(profileResumeVersions.versionNumber));
+    } catch (error) {
+      console.error('Error getting resume versions:', error);
+      return [];
+    }
+  }
+
+  async restoreProfileResumeVersion(profileId: number, versionId: number, restoredBy: number): Promise<Profile | undefined> {
+    try {
+      const version = await this.getProfileResumeVersion(versionId);
+      if (!version || version.profileId !== profileId) return undefined;
+      
+      const result = await db.update(profiles)
+        .set({
+          resumeContent: version.resumeContent,
+          resumeFileName: version.resumeFileName,
+          resumeFileHash: version.resumeFileHash,
+          resumeBuffer: version.resumeBuffer,
+          resumeStructure: version.resumeContent ? parseResumeStructure(version.resumeContent) : null,
+          atsFindings: null, // Findings belonged to the replaced file
+        })
+        .where(and(eq(profiles.id, profileId), isNull(profiles.deletedAt)))
+        .returning();
+      
+      if (result[0]) {
+        await this.recordResumeVersion(result[0], restoredBy, version.versionNumber);
+      }
+      
+      return result[0];
+    } catch (error) {
+      console.error('Error restoring resume version:', error);
+      return undefined;
+    }
+  }
+
+  // Resume variant operations
+  async getResumeVariant(id: number): Promise<ResumeVariant | undefined> {
+    try {
+      const result = await db.select().from(resumeVariants).where(eq(resumeVariants.id, id)).limit(1);
+      return result[0];
+    } catch (error) {
+      console.error('Error getting resume variant:', error);
+      return undefined;
+    }
+  }
+
+  async getResumeVariants(profileId: number): Promise<ResumeVariant[]> {
+    try {
+      return await db.select()
+        .from(resumeVariants)
+        .where(eq(resumeVariants.profileId, profileId))
+        .orderBy(resumeVariants.name);
+    } catch (error) {
+      console.error('Error getting resume variants:', error);
+      return [];
+    }
+  }
+
+  async createResumeVariant(variant: InsertResumeVariant): Promise<ResumeVariant> {
+    try {
+      // PostgreSQL cannot store null bytes in text fields
+      const sanitizedVariant = {
+        ...variant,
+        resumeContent: variant.resumeContent
+          .replace(/\0/g, '') // Remove null bytes
+          .replace(/[\x00-\x09\x0B\x0C\x0E-\x1F\x7F]/g, ''), // Remove control characters
+      };
+      
+      const result = await db.insert(resumeVariants).values(sanitizedVariant).returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating resume variant:', error);
+      throw error;
+    }
+  }
+
+  async updateResumeVariant(id: number, variant: Partial<InsertResumeVariant>): Promise<ResumeVariant | undefined> {
+    try {
+      const sanitizedFields = { ...variant };
+      
+      if (sanitizedFields.resumeContent) {
+        sanitizedFields.resumeContent = sanitizedFields.resumeContent
+          .replace(/\0/g, '') // Remove null bytes
+          .replace(/[\x00-\x09\x0B\x0C\x0E-\x1F\x7F]/g, ''); // Remove control characters
+      }
+      
+      const result = await db.update(resumeVariants)
+        .set(sanitizedFields)
+        .where(eq(resumeVariants.id, id))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error updating resume variant:', error);
+      return undefined;
+    }
+  }
+
+  async deleteResumeVariant(id: number): Promise<boolean> {
+    try {
+      // Variants that applications or leads were attributed to are kept for the comparison
+      const applicationCount = await db.select({ count: { count: jobApplications.id } })
+        .from(jobApplications)
+        .where(eq(jobApplications.resumeVariantId, id));
+      
+      const leadCount = await db.select({ count: { count: leads.id } })
+        .from(leads)
+        .where(eq(leads.resumeVariantId, id));
+      
+      if ((applicationCount[0]?.count?.count || 0) > 0 ||
+          (leadCount[0]?.count?.count || 0) > 0) {
+        return false;
+      }
+      
+      await db.delete(resumeVariants).where(eq(resumeVariants.id, id));
+      return true;
+    } catch (error) {
+      console.error('Error deleting resume variant:', error);
+      return false;
+    }
+  }
+
+  async getResumeVariantPerformance(profileId: number, fromDate?: Date, toDate?: Date): Promise<ResumeVariantPerformance[]> {
+    try {
+      const variants = await this.getResumeVariants(profileId);
+      const applications = (await db.select()
+        .from(jobApplications)
+        .where(eq(jobApplications.profileId, profileId)))
+        .filter(a => a.appliedAt && isWithinDateRange(a.appliedAt, fromDate, toDate));
+      const leadList = await db.select().from(leads).where(eq(leads.profileId, profileId));
+      const transitions = await this.getLeadStageTransitions(undefined, fromDate, toDate);
+      
+      return summarizeVariantPerformance(variants, applications, leadList, transitions);
+    } catch (error) {
+      console.error('Error getting resume variant performance:', error);
+      return [];
+    }
+  }
+
+  // Snapshot the profile's current resume as its next version. Profiles created before
+  // versioning existed get their previous resume recorded first so it is never lost.
+  private async recordResumeVersion(profile: Profile, createdBy: number | null, restoredFromVersion?: number, previous?: Profile) {
+    const versions = await db.select({ versionNumber: profileResumeVersions.versionNumber })
+      .from(profileResumeVersions)
+      .where(eq(profileResumeVersions.profileId, profile.id));
+    let versionNumber = Math.max(0, ...versions.map(v => v.versionNumber)) + 1;
+    
+    if (versions.length === 0 && previous && (previous.resumeContent || previous.resumeFileHash || previous.resumeBuffer)) {
+      await db.insert(profileResumeVersions).values({
+        profileId: previous.id,
+        versionNumber: versionNumber++,
+        resumeContent: previous.resumeContent,
+        resumeFileName: previous.resumeFileName,
+        resumeFileHash: previous.resumeFileHash,
+        resumeBuffer: previous.resumeBuffer,
+        createdBy: previous.createdBy,
+        createdAt: previous.createdAt || new Date(),
+      });
+    }
+    
+    await db.insert(profileResumeVersions).values({
+      profileId: profile.id,
+      versionNumber,
+      resumeContent: profile.resumeContent,
+      resumeFileName: profile.resumeFileName,
+      resumeFileHash: profile.resumeFileHash,
+      resumeBuffer: profile.resumeBuffer,
+      restoredFromVersion: restoredFromVersion || null,
+      createdBy,
+    });
+  }
+
+  async deleteProfile(id: number, deletedBy: number): Promise<boolean> {
+    try {
+      // Check if profile is in use; binned assignments and targets don't count
+      const leadGenAssignmentCount = await db.select({ count: { count: leadGenAssignments.id } })
+        .from(leadGenAssignments)
+        .where(and(eq(leadGenAssignments.profileId, id), isNull(leadGenAssignments.deletedAt)));
+      
+      const salesAssignmentCount = await db.select({ count: { count: salesAssignments.id } })
+        .from(salesAssignments)
+        .where(and(eq(salesAssignments.profileId, id), isNull(salesAssignments.deletedAt)));
+      
+      const targetCount = await db.select({ count: { count: targets.id } })
+        .from(targets)
+        .where(and(eq(targets.profileId, id), isNull(targets.deletedAt)));
+      
+      const progressUpdateCount = await db.select({ count: { count: progressUpdates.id } })
+        .from(progressUpdates)
+        .where(eq(progressUpdates.profileId, id));
+      
+      const leadEntryCount = await db.select({ count: { count: leadEntries.id } })
+        .from(leadEntries)
+        .where(eq(leadEntries.profileId, id));
+      
+      const jobApplicationCount = await db.select({ count: { count: jobApplications.id } })
+        .from(jobApplications)
+        .where(eq(jobApplications.profileId, id));
+      
+      const leadCount = await db.select({ count: { count: leads.id } })
+        .from(leads)
+        .where(eq(leads.profileId, id));
+      
+      const interviewCount = await db.select({ count: { count: interviews.id } })
+        .from(interviews)
+        .where(eq(interviews.profileId, id));
+      
+      const jobDescriptionMatchCount = await db.select({ count: { count: jobDescriptionMatches.id } })
+        .from(jobDescriptionMatches)
+        .where(eq(jobDescriptionMatches.profileId, id));
+      
+      const placementCount = await db.select({ count: { count: placements.id } })
+        .from(placements)
+        .where(eq(placements.profileId, id));
+      
+      // If profile is in use, don't delete
+      // Check if count is greater than 0 for any of these tables
+      if ((leadGenAssignmentCount[0]?.count?.count || 0) > 0 || 
+          (salesAssignmentCount[0]?.count?.count || 0) > 0 || 
+          (targetCount[0]?.count?.count || 0) > 0 || 
+          (progressUpdateCount[0]?.count?.count || 0) > 0 || 
+          (leadEntryCount[0]?.count?.count || 0) > 0 ||
+          (jobApplicationCount[0]?.count?.count || 0) > 0 ||
+          (leadCount[0]?.count?.count || 0) > 0 ||
+          (interviewCount[0]?.count?.count || 0) > 0 ||
+          (jobDescriptionMatchCount[0]?.count?.count || 0) > 0 ||
+          (placementCount[0]?.count?.count || 0) > 0) {
+        return false;
+      }
+      
+      // The profile keeps its history until it is purged from the recently deleted bin
+      const result = await db.update(profiles)
+        .set({ deletedAt: new Date(), deletedBy })
+        .where(and(eq(profiles.id, id), isNull(profiles.deletedAt)))
+        .returning({ id: profiles.id });
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting profile:', error);
+      return false;
+    }
+  }
+
+  // Lead Gen Assignment operations
+  async getLeadGenAssignment(userId: number): Promise<LeadGenAssignment | undefined> {
+    try {
+      const result = await db.select()
+        .from(leadGenAssignments)
+        .where(and(eq(leadGenAssignments.userId, userId), isNull(leadGenAssignments.deletedAt)))
+        .limit(1);
+      return result[0];
+    } catch (error) {
+      console.error('Error getting lead gen assignment:', error);
+      return undefined;
+    }
+  }
+
+  async getLeadGenAssignments(): Promise<LeadGenAssignment[]> {
+    try {
+      return await db.select().from(leadGenAssignments).where(isNull(leadGenAssignments.deletedAt));
+    } catch (error) {
+      console.error('Error getting lead gen assignments:', error);
+      return [];
+    }
+  }
+
+  async createLeadGenAssignment(assignment: InsertLeadGenAssignment): Promise<LeadGenAssignment> {
+    try {
+      // Check if user already has an assignment
+      const existingAssignment = await this.getLeadGenAssignment(assignment.userId);
+      if (existingAssignment) {
+        // Update existing assignment
+        const result = await db.update(leadGenAssignments)
+          .set({ profileId: assignment.profileId })
+          .where(eq(leadGenAssignments.id, existingAssignment.id))
+          .returning();
+        return result[0];
+      }
+      
+      // Create new assignment
+      const result = await db.insert(leadGenAssignments).values(assignment).returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating lead gen assignment:', error);
+      throw error;
+    }
+  }
+
+  async deleteLeadGenAssignment(userId: number, deletedBy: number): Promise<boolean> {
+    try {
+      const result = await db.update(leadGenAssignments)
+        .set({ deletedAt: new Date(), deletedBy })
+        .where(and(eq(leadGenAssignments.userId, userId), isNull(leadGenAssignments.deletedAt)))
+        .returning({ id: leadGenAssignments.id });
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting lead gen assignment:', error);
+      return false;
+    }
+  }
+
+  async updateLeadGenAssignment(userId: number, profileId: number): Promise<LeadGenAssignment | undefined> {
+    try {
+      const result = await db.update(leadGenAssignments)
+        .set({ profileId })
+        .where(and(eq(leadGenAssignments.userId, userId), isNull(leadGenAssignments.deletedAt)))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error updating lead gen assignment:', error);
+      return undefined;
+    }
+  }
+
+  // Sales Assignment operations
   async getSalesAssignments(userId?: number): Promise<SalesAssignment[]> {
     try {
       if (userId) {
-        return await db.select().from(salesAssignments).where(eq(salesAssignments.userId, userId));
+        return await db.select()
+          .from(salesAssignments)
+          .where(and(eq(salesAssignments.userId, userId), isNull(salesAssignments.deletedAt)));
+      }
+      return await db.select().from(salesAssignments).where(isNull(salesAssignments.deletedAt));
+    } catch (error) {
+      console.error('Error getting sales assignments:', error);
+      return [];
+    }
+  }
+
+  async createSalesAssignment(assignment: InsertSalesAssignment): Promise<SalesAssignment> {
+    try {
+      // Check if assignment already exists
+      const existingAssignments = await db.select()
+        .from(salesAssignments)
+        .where(
+          and(
+            eq(salesAssignments.userId, assignment.userId),
+            eq(salesAssignments.profileId, assignment.profileId),
+            isNull(salesAssignments.deletedAt)
+          )
+        )
+        .limit(1);
+      
+      if (existingAssignments.length > 0) {
+        return existingAssignments[0];
+      }
+      
+      // Create new assignment
+      const result = await db.insert(salesAssignments).values(assignment).returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating sales assignment:', error);
+      throw error;
+    }
+  }
+
+  async deleteSalesAssignment(id: number, deletedBy: number): Promise<boolean> {
+    try {
+      const result = await db.update(salesAssignments)
+        .set({ deletedAt: new Date(), deletedBy })
+        .where(and(eq(salesAssignments.id, id), isNull(salesAssignments.deletedAt)))
+        .returning({ id: salesAssignments.id });
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting sales assignment:', error);
+      return false;
+    }
+  }
+
+  // Target operations
+  async getTargets(userId?: number): Promise<Target[]> {
+    try {
+      if (userId) {
+        return await db.select()
+          .from(targets)
+          .where(and(eq(targets.userId, userId), isNull(targets.deletedAt)));
+      }
+      return await db.select().from(targets).where(isNull(targets.deletedAt));
+    } catch (error) {
+      console.error('Error getting targets:', error);
+      return [];
+    }
+  }
+
+  async createTarget(target: InsertTarget): Promise<Target> {
+    try {
+      const result = await db.insert(targets).values(target).returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating target:', error);
+      throw error;
+    }
+  }
+
+  async updateTarget(id: number, jobsToFetch: number, jobsToApply: number): Promise<Target | undefined> {
+    try {
+      const result = await db.update(targets)
+        .set({ jobsToFetch, jobsToApply })
+        .where(and(eq(targets.id, id), isNull(targets.deletedAt)))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error updating target:', error);
+      return undefined;
+    }
+  }
+
+  async deleteTarget(id: number, deletedBy: number): Promise<boolean> {
+    try {
+      const result = await db.update(targets)
+        .set({ deletedAt: new Date(), deletedBy })
+        .where(and(eq(targets.id, id), isNull(targets.deletedAt)))
+        .returning({ id: targets.id });
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting target:', error);
+      return false;
+    }
+  }
+
+  // Recently deleted operations
+  async getDeletedItems(): Promise<DeletedItems> {
+    try {
+      return {
+        profiles: await db.select().from(profiles)
+          .where(isNotNull(profiles.deletedAt))
+          .orderBy(desc(profiles.deletedAt)),
+        targets: await db.select().from(targets)
+          .where(isNotNull(targets.deletedAt))
+          .orderBy(desc(targets.deletedAt)),
+        leadGenAssignments: await db.select().from(leadGenAssignments)
+          .where(isNotNull(leadGenAssignments.deletedAt))
+          .orderBy(desc(leadGenAssignments.deletedAt)),
+        salesAssignments: await db.select().from(salesAssignments)
+          .where(isNotNull(salesAssignments.deletedAt))
+          .orderBy(desc(salesAssignments.deletedAt)),
+      };
+    } catch (error) {
+      console.error('Error getting deleted items:', error);
+      return { profiles: [], targets: [], leadGenAssignments: [], salesAssignments: [] };
+    }
+  }
+
+  async restoreDeletedItem(type: DeletableItemType, id: number): Promise<boolean> {
+    try {
+      const restored = { deletedAt: null, deletedBy: null };
+      let result: { id: number }[];
+      switch (type) {
+        case "profile":
+          result = await db.update(profiles).set(restored)
+            .where(and(eq(profiles.id, id), isNotNull(profiles.deletedAt)))
+            .returning({ id: profiles.id });
+          break;
+        case "target":
+          result = await db.update(targets).set(restored)
+            .where(and(eq(targets.id, id), isNotNull(targets.deletedAt)))
+            .returning({ id: targets.id });
+          break;
+        case "lead_gen_assignment":
+          result = await db.update(leadGenAssignments).set(restored)
+            .where(and(eq(leadGenAssignments.id, id), isNotNull(leadGenAssignments.deletedAt)))
+            .returning({ id: leadGenAssignments.id });
+          break;
+        case "sales_assignment":
+          result = await db.update(salesAssignments).set(restored)
+            .where(and(eq(salesAssignments.id, id), isNotNull(salesAssignments.deletedAt)))
+            .returning({ id: salesAssignments.id });
+          break;
+      }
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error restoring deleted item:', error);
+      throw error;
+    }
+  }
+
+  async purgeDeletedItem(type: DeletableItemType, id: number): Promise<boolean> {
+    try {
+      let result: { id: number }[];
+      switch (type) {
+        case "profile":
+          // A purged profile takes its resume history, variants, tags and binned assignments with it,
+          // all in one transaction so a failure part way leaves the profile and its history intact
+          result = await db.transaction(async (tx) => {
+            const [profile] = await tx.select({ id: profiles.id })
+              .from(profiles)
+              .where(and(eq(profiles.id, id), isNotNull(profiles.deletedAt)));
+            if (!profile) return [];
+            
+            await tx.delete(profileResumeVersions).where(eq(profileResumeVersions.profileId, id));
+            await tx.delete(resumeVariants).where(eq(resumeVariants.profileId, id));
+            await tx.delete(profileSkillTags).where(eq(profileSkillTags.profileId, id));
+            await tx.delete(profileStatusChanges).where(eq(profileStatusChanges.profileId, id));
+            await tx.delete(targets).where(eq(targets.profileId, id));
+            await tx.delete(leadGenAssignments).where(eq(leadGenAssignments.profileId, id));
+            await tx.delete(salesAssignments).where(eq(salesAssignments.profileId, id));
+            return await tx.delete(profiles).where(eq(profiles.id, id)).returning({ id: profiles.id });
+          });
+          break;
+        case "target":
+          result = await db.delete(targets)
+            .where(and(eq(targets.id, id), isNotNull(targets.deletedAt)))
+            .returning({ id: targets.id });
+          break;
+        case "lead_gen_assignment":
+          result = await db.delete(leadGenAssignments)
+            .where(and(eq(leadGenAssignments.id, id), isNotNull(leadGenAssignments.deletedAt)))
+            .returning({ id: leadGenAssignments.id });
+          break;
+        case "sales_assignment":
+          result = await db.delete(salesAssignments)
+            .where(and(eq(salesAssignments.id, id), isNotNull(salesAssignments.deletedAt)))
+            .returning({ id: salesAssignments.id });
+          break;
+      }
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error purging deleted item:', error);
+      throw error;
+    }
+  }
+
+  // Resume operations
+  async getProfileResume(profileId: number): Promise<{content: string, filename: string} | undefined> {
+    try {
+      const profile = await this.getProfile(profileId);
+      if (!profile || !profile.resumeContent) return undefined;
+      
+      return {
+        content: profile.resumeContent,
+        filename: `${profile.name.replace(/\s+/g, '_')}_Resume.pdf`
+      };
+    } catch (error) {
+      console.error('Error getting profile resume:', error);
+      return undefined;
+    }
+  }
+
+  // Progress Update operations
+  async getProgressUpdates(userId?: number, fromDate?: Date, toDate?: Date): Promise<ProgressUpdate[]> {
+    try {
+      let whereConditions = [];
+      
+      if (userId) {
+        whereConditions.push(eq(progressUpdates.userId, userId));
+      }
+      
+      if (fromDate) {
+        whereConditions.push(gte(progressUpdates.date, fromDate.toISOString().split('T')[0]));
+      }
+      
+      if (toDate) {
+        whereConditions.push(lte(progressUpdates.date, toDate.toISOString().split('T')[0]));
+      }
+      
+      // Apply filters if any are present
+      if (whereConditions.length > 0) {
+        return await db.select()
+          .from(progressUpdates)
+          .where(and(...whereConditions));
+      }
+      
+      // Otherwise return all records
+      return await db.select().from(progressUpdates);
+    } catch (error) {
+      console.error('Error getting progress updates:', error);
+      return [];
+    }
+  }
+
+  async createProgressUpdate(update: InsertProgressUpdate): Promise<ProgressUpdate> {
+    try {
+      const result = await db.insert(progressUpdates).values(update).returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating progress update:', error);
+      throw error;
+    }
+  }
+
+  async getProgressSummaries(userId?: number, fromDate?: Date, toDate?: Date): Promise<ProgressUpdateSummary[]> {
+    try {
+      const manualUpdates = await this.getProgressUpdates(userId, fromDate, toDate);
+      
+      // An application fetched before the range still counts if it was applied in it
+      const rangeStart = fromDate && new Date(`${toDateKey(fromDate)}T00:00:00.000Z`);
+      const rangeEnd = toDate && new Date(`${toDateKey(toDate)}T23:59:59.999Z`);
+      const applications = await db.select()
+        .from(jobApplications)
+        .where(and(
+          userId ? eq(jobApplications.userId, userId) : undefined,
+          rangeStart || rangeEnd ? or(
+            and(rangeStart && gte(jobApplications.fetchedAt, rangeStart), rangeEnd && lte(jobApplications.fetchedAt, rangeEnd)),
+            and(rangeStart && gte(jobApplications.appliedAt, rangeStart), rangeEnd && lte(jobApplications.appliedAt, rangeEnd))
+          ) : undefined
+        ));
+      
+      return mergeDailySummaries<ProgressUpdateSummary>(manualUpdates, summarizeJobApplications(applications, fromDate, toDate));
+    } catch (error) {
+      console.error('Error getting progress summaries:', error);
+      return [];
+    }
+  }
+
+  // Job Application operations
+  async getJobApplication(id: number): Promise<JobApplication | undefined> {
+    try {
+      const result = await db.select().from(jobApplications).where(eq(jobApplications.id, id)).limit(1);
+      return result[0];
+    } catch (error) {
+      console.error('Error getting job application:', error);
+      return undefined;
+    }
+  }
+
+  async getJobApplications(userId?: number, fromDate?: Date, toDate?: Date): Promise<JobApplication[]> {
+    try {
+      let whereConditions = [];
+      
+      if (userId) {
+        whereConditions.push(eq(jobApplications.userId, userId));
+      }
+      
+      if (fromDate) {
+        whereConditions.push(gte(jobApplications.fetchedAt, new Date(`${toDateKey(fromDate)}T00:00:00.000Z`)));
+      }
+      
+      if (toDate) {
+        whereConditions.push(lte(jobApplications.fetchedAt, new Date(`${toDateKey(toDate)}T23:59:59.999Z`)));
+      }
+      
+      // Apply filters if any are present
+      if (whereConditions.length > 0) {
+        return await db.select()
+          .from(jobApplications)
+          .where(and(...whereConditions));
+      }
+      
+      // Otherwise return all records
+      return await db.select().from(jobApplications);
+    } catch (error) {
+      console.error('Error getting job applications:', error);
+      return [];
+    }
+  }
+
+  async createJobApplication(application: InsertJobApplication): Promise<JobApplication> {
+    try {
+      const result = await db.insert(jobApplications).values(application).returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating job application:', error);
+      throw error;
+    }
+  }
+
+  async updateJobApplication(id: number, application: Partial<InsertJobApplication>): Promise<JobApplication | undefined> {
+    try {
+      const result = await db.update(jobApplications)
+        .set(application)
+        .where(eq(jobApplications.id, id))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error updating job application:', error);
+      return undefined;
+    }
+  }
+
+  async deleteJobApplication(id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(jobApplications).where(eq(jobApplications.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting job application:', error);
+      return false;
+    }
+  }
+
+  // Lead Entry operations
+  async getLeadEntries(userId?: number, fromDate?: Date, toDate?: Date): Promise<LeadEntry[]> {
+    try {
+      let whereConditions = [];
+      
+      if (userId) {
+        whereConditions.push(eq(leadEntries.userId, userId));
+      }
+      
+      if (fromDate) {
+        whereConditions.push(gte(leadEntries.date, fromDate.toISOString().split('T')[0]));
+      }
+      
+      if (toDate) {
+        whereConditions.push(lte(leadEntries.date, toDate.toISOString().split('T')[0]));
       }
-      return await db.select().from(salesAssignments);
+      
+      // Apply filters if any are present
+      if (whereConditions.length > 0) {
+        return await db.select()
+          .from(leadEntries)
+          .where(and(...whereConditions));
+      }
+      
+      // Otherwise return all records
+      return await db.select().from(leadEntries);
+    } catch (error) {
+      console.error('Error getting lead entries:', error);
+      return [];
+    }
+  }
+
+  async createLeadEntry(entry: InsertLeadEntry): Promise<LeadEntry> {
+    try {
+      const result = await db.insert(leadEntries).values(entry).returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating lead entry:', error);
+      throw error;
+    }
+  }
+
+  async updateLeadEntry(id: number, entry: Partial<InsertLeadEntry>): Promise<LeadEntry | undefined> {
+    try {
+      const result = await db.update(leadEntries)
+        .set(entry)
+        .where(eq(leadEntries.id, id))
+        .returning();
+      return result[0];
     } catch (error) {
-      console.error('Error getting sales assignments:', error);
-      return [];
+      console.error('Error updating lead entry:', error);
+      return undefined;
     }
   }
 
-  async createSalesAssignment(assignment: InsertSalesAssignment): Promise<SalesAssignment> {
+  async getLeadSummaries(userId?: number, fromDate?: Date, toDate?: Date): Promise<LeadEntrySummary[]> {
     try {
-      // Check if assignment already exists
-      const existingAssignments = await db.select()
-        .from(salesAssignments)
-        .where(
-          and(
-            eq(salesAssignments.userId, assignment.userId),
-            eq(salesAssignments.profileId, assignment.profileId)
-          )
-        )
-        .limit(1);
-      
-      if (existingAssignments.length > 0) {
-        return existingAssignments[0];
-      }
+      const manualEntries = await this.getLeadEntries(userId, fromDate, toDate);
+      const leadList = await this.getLeads(userId);
+      const transitions = await this.getLeadStageTransitions(undefined, fromDate, toDate);
       
-      // Create new assignment
-      const result = await db.insert(salesAssignments).values(assignment).returning();
-      return result[0];
+      return mergeDailySummaries<LeadEntrySummary>(manualEntries, summarizeLeadTransitions(leadList, transitions));
     } catch (error) {
-      console.error('Error creating sales assignment:', error);
-      throw error;
+      console.error('Error getting lead summaries:', error);
+      return [];
     }
   }
 
-  async deleteSalesAssignment(id: number): Promise<boolean> {
+  // Lead pipeline operations
+  async getLead(id: number): Promise<Lead | undefined> {
     try {
-      await db.delete(salesAssignments).where(eq(salesAssignments.id, id));
-      return true;
+      const result = await db.select().from(leads).where(eq(leads.id, id)).limit(1);
+      return result[0];
     } catch (error) {
-      console.error('Error deleting sales assignment:', error);
-      return false;
+      console.error('Error getting lead:', error);
+      return undefined;
     }
   }
 
-  // Target operations
-  async getTargets(userId?: number): Promise<Target[]> {
+  async getLeads(userId?: number): Promise<Lead[]> {
     try {
       if (userId) {
-        return await db.select().from(targets).where(eq(targets.userId, userId));
+        return await db.select().from(leads).where(eq(leads.userId, userId));
       }
-      return await db.select().from(targets);
+      return await db.select().from(leads);
     } catch (error) {
-      console.error('Error getting targets:', error);
+      console.error('Error getting leads:', error);
       return [];
     }
   }
 
-  async createTarget(target: InsertTarget): Promise<Target> {
+  async createLead(lead: InsertLead): Promise<Lead> {
     try {
-      const result = await db.insert(targets).values(target).returning();
+      const now = new Date();
+      const result = await db.insert(leads).values({
+        ...lead,
+        stage: "new",
+        createdAt: now,
+        updatedAt: now,
+      }).returning();
+      
+      await db.insert(leadStageTransitions).values({
+        leadId: result[0].id,
+        fromStage: null,
+        toStage: "new",
+        changedBy: lead.userId,
+        changedAt: now,
+      });
+      
       return result[0];
     } catch (error) {
-      console.error('Error creating target:', error);
+      console.error('Error creating lead:', error);
       throw error;
     }
   }
 
-  async updateTarget(id: number, jobsToFetch: number, jobsToApply: number): Promise<Target | undefined> {
+  async updateLead(id: number, lead: Partial<InsertLead>): Promise<Lead | undefined> {
     try {
-      const result = await db.update(targets)
-        .set({ jobsToFetch, jobsToApply })
-        .where(eq(targets.id, id))
+      const result = await db.update(leads)
+        .set({ ...lead, updatedAt: new Date() })
+        .where(eq(leads.id, id))
         .returning();
       return result[0];
     } catch (error) {
-      console.error('Error updating target:', error);
+      console.error('Error updating lead:', error);
       return undefined;
     }
   }
 
-  async deleteTarget(id: number): Promise<boolean> {
+  async changeLeadStage(id: number, fromStage: LeadStage, stage: LeadStage, changedBy: number, notes?: string): Promise<Lead | undefined> {
     try {
-      await db.delete(targets).where(eq(targets.id, id));
-      return true;
+      // The lead and its transition are written together, since pipeline lead totals are read from the transitions
+      return await db.transaction(async (tx) => {
+        const now = new Date();
+        const [lead] = await tx.update(leads)
+          .set({ stage, updatedAt: now })
+          .where(and(eq(leads.id, id), eq(leads.stage, fromStage)))
+          .returning();
+        if (!lead) return undefined;
+        
+        await tx.insert(leadStageTransitions).values({
+          leadId: id,
+          fromStage,
+          toStage: stage,
+          changedBy,
+          changedAt: now,
+          notes: notes || null,
+        });
+        
+        return lead;
+      });
     } catch (error) {
-      console.error('Error deleting target:', error);
-      return false;
+      console.error('Error changing lead stage:', error);
+      throw error;
     }
   }
 
-  // Resume operations
-  async getProfileResume(profileId: number): Promise<{content: string, filename: string} | undefined> {
+  async getLeadStageTransitions(leadId?: number, fromDate?: Date, toDate?: Date): Promise<LeadStageTransition[]> {
     try {
-      const profile = await this.getProfile(profileId);
-      if (!profile || !profile.resumeContent) return undefined;
+      let whereConditions = [];
       
-      return {
-        content: profile.resumeContent,
-        filename: `${profile.name.replace(/\s+/g, '_')}_Resume.pdf`
-      };
+      if (leadId) {
+        whereConditions.push(eq(leadStageTransitions.leadId, leadId));
+      }
+      
+      if (fromDate) {
+        whereConditions.push(gte(leadStageTransitions.changedAt, new Date(`${toDateKey(fromDate)}T00:00:00.000Z`)));
+      }
+      
+      if (toDate) {
+        whereConditions.push(lte(leadStageTransitions.changedAt, new Date(`${toDateKey(toDate)}T23:59:59.999Z`)));
+      }
+      
+      // Apply filters if any are present
+      if (whereConditions.length > 0) {
+        return await db.select()
+          .from(leadStageTransitions)
+          .where(and(...whereConditions))
+          .orderBy(leadStageTransitions.changedAt);
+      }
+      
+      // Otherwise return all records
+      return await db.select().from(leadStageTransitions).orderBy(leadStageTransitions.changedAt);
     } catch (error) {
-      console.error('Error getting profile resume:', error);
+      console.error('Error getting lead stage transitions:', error);
+      return [];
+    }
+  }
+
+  // Interview operations
+  async getInterview(id: number): Promise<Interview | undefined> {
+    try {
+      const result = await db.select().from(interviews).where(eq(interviews.id, id)).limit(1);
+      return result[0];
+    } catch (error) {
+      console.error('Error getting interview:', error);
       return undefined;
     }
   }
 
-  // Progress Update operations
-  async getProgressUpdates(userId?: number, fromDate?: Date, toDate?: Date): Promise<ProgressUpdate[]> {
+  async getInterviews(userId?: number, fromDate?: Date, toDate?: Date): Promise<Interview[]> {
     try {
       let whereConditions = [];
       
       if (userId) {
-        whereConditions.push(eq(progressUpdates.userId, userId));
+        whereConditions.push(eq(interviews.userId, userId));
       }
       
       if (fromDate) {
-        whereConditions.push(gte(progressUpdates.date, fromDate.toISOString().split('T')[0]));
+        whereConditions.push(gte(interviews.scheduledAt, new Date(`${toDateKey(fromDate)}T00:00:00.000Z`)));
       }
       
       if (toDate) {
-        whereConditions.push(lte(progressUpdates.date, toDate.toISOString().split('T')[0]));
+        whereConditions.push(lte(interviews.scheduledAt, new Date(`${toDateKey(toDate)}T23:59:59.999Z`)));
       }
       
       // Apply filters if any are present
       if (whereConditions.length > 0) {
         return await db.select()
-          .from(progressUpdates)
-          .where(and(...whereConditions));
+          .from(interviews)
+          .where(and(...whereConditions))
+          .orderBy(interviews.scheduledAt);
       }
       
       // Otherwise return all records
-      return await db.select().from(progressUpdates);
+      return await db.select().from(interviews).orderBy(interviews.scheduledAt);
     } catch (error) {
-      console.error('Error getting progress updates:', error);
+      console.error('Error getting interviews:', error);
       return [];
     }
   }
 
-  async createProgressUpdate(update: InsertProgressUpdate): Promise<ProgressUpdate> {
+  // Lock the profile's row until the transaction ends and read its interviews. Every booking for the profile takes
+  // this lock first, so two requests can't both find a slot free and both book it.
+  private async lockProfileInterviews(tx: Transaction, profileId: number): Promise<Interview[]> {
+    await tx.select({ id: profiles.id })
+      .from(profiles)
+      .where(eq(profiles.id, profileId))
+      .for("update");
+    
+    return tx.select().from(interviews).where(eq(interviews.profileId, profileId));
+  }
+
+  async createInterview(interview: InsertInterview): Promise<InterviewBooking> {
     try {
-      const result = await db.insert(progressUpdates).values(update).returning();
-      return result[0];
+      return await db.transaction(async (tx): Promise<InterviewBooking> => {
+        const profileInterviews = await this.lockProfileInterviews(tx, interview.profileId);
+        const conflicts = findInterviewConflicts(profileInterviews, {
+          scheduledAt: interview.scheduledAt,
+          durationMinutes: interview.durationMinutes || 60,
+          outcome: interview.outcome || "pending",
+        });
+        if (conflicts.length > 0) return { conflicts };
+        
+        const [created] = await tx.insert(interviews).values(interview).returning();
+        return { interview: created, conflicts: [] };
+      });
     } catch (error) {
-      console.error('Error creating progress update:', error);
+      console.error('Error creating interview:', error);
       throw error;
     }
   }
 
-  // Lead Entry operations
-  async getLeadEntries(userId?: number, fromDate?: Date, toDate?: Date): Promise<LeadEntry[]> {
+  async updateInterview(id: number, interview: Partial<InsertInterview>): Promise<InterviewBooking | undefined> {
+    try {
+      return await db.transaction(async (tx): Promise<InterviewBooking | undefined> => {
+        const [existing] = await tx.select().from(interviews).where(eq(interviews.id, id)).for("update");
+        if (!existing) return undefined;
+        
+        if (changesInterviewSlot(interview)) {
+          const profileInterviews = await this.lockProfileInterviews(tx, existing.profileId);
+          const conflicts = findInterviewConflicts(profileInterviews, { ...existing, ...interview } as Interview);
+          if (conflicts.length > 0) return { conflicts };
+        }
+        
+        const [updated] = await tx.update(interviews)
+          .set(interview)
+          .where(eq(interviews.id, id))
+          .returning();
+        return { interview: updated, conflicts: [] };
+      });
+    } catch (error) {
+      console.error('Error updating interview:', error);
+      throw error;
+    }
+  }
+
+  async deleteInterview(id: number): Promise<boolean> {
+    try {
+      await db.delete(interviews).where(eq(interviews.id, id));
+      return true;
+    } catch (error) {
+      console.error('Error deleting interview:', error);
+      return false;
+    }
+  }
+
+  // Job description match operations
+  async getJobDescriptionMatches(userId?: number, fromDate?: Date, toDate?: Date): Promise<JobDescriptionMatch[]> {
     try {
       let whereConditions = [];
       
       if (userId) {
-        whereConditions.push(eq(leadEntries.userId, userId));
+        whereConditions.push(eq(jobDescriptionMatches.userId, userId));
       }
       
       if (fromDate) {
-        whereConditions.push(gte(leadEntries.date, fromDate.toISOString().split('T')[0]));
+        whereConditions.push(gte(jobDescriptionMatches.createdAt, new Date(`${toDateKey(fromDate)}T00:00:00.000Z`)));
       }
       
       if (toDate) {
-        whereConditions.push(lte(leadEntries.date, toDate.toISOString().split('T')[0]));
-      }
-      
-      // Apply filters if any are present
-      if (whereConditions.length > 0) {
-        return await db.select()
-          .from(leadEntries)
-          .where(and(...whereConditions));
+        whereConditions.push(lte(jobDescriptionMatches.createdAt, new Date(`${toDateKey(toDate)}T23:59:59.999Z`)));
       }
       
-      // Otherwise return all records
-      return await db.select().from(leadEntries);
+      return await db.select()
+        .from(jobDescriptionMatches)
+        .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+        .orderBy(desc(jobDescriptionMatches.createdAt));
     } catch (error) {
-      console.error('Error getting lead entries:', error);
+      console.error('Error getting job description matches:', error);
       return [];
     }
   }
 
-  async createLeadEntry(entry: InsertLeadEntry): Promise<LeadEntry> {
+  async createJobDescriptionMatch(match: InsertJobDescriptionMatch): Promise<JobDescriptionMatch> {
     try {
-      const result = await db.insert(leadEntries).values(entry).returning();
+      const result = await db.insert(jobDescriptionMatches).values(match).returning();
       return result[0];
     } catch (error) {
-      console.error('Error creating lead entry:', error);
+      console.error('Error creating job description match:', error);
       throw error;
     }
   }
 
-  async updateLeadEntry(id: number, entry: Partial<InsertLeadEntry>): Promise<LeadEntry | undefined> {
+  async getJobMatchQuality(fromDate?: Date, toDate?: Date): Promise<JobMatchQuality[]> {
     try {
-      const result = await db.update(leadEntries)
-        .set(entry)
-        .where(eq(leadEntries.id, id))
+      const leadGenUsers = await this.getUsers("lead_gen");
+      const matches = await this.getJobDescriptionMatches(undefined, fromDate, toDate);
+      return summarizeJobMatchQuality(leadGenUsers, matches);
+    } catch (error) {
+      console.error('Error getting job match quality:', error);
+      return [];
+    }
+  }
+
+  // Cover letter template operations
+  async getCoverLetterTemplate(id: number): Promise<CoverLetterTemplate | undefined> {
+    try {
+      const result = await db.select().from(coverLetterTemplates).where(eq(coverLetterTemplates.id, id)).limit(1);
+      return result[0];
+    } catch (error) {
+      console.error('Error getting cover letter template:', error);
+      return undefined;
+    }
+  }
+
+  async getCoverLetterTemplates(): Promise<CoverLetterTemplate[]> {
+    try {
+      return await db.select().from(coverLetterTemplates).orderBy(coverLetterTemplates.name);
+    } catch (error) {
+      console.error('Error getting cover letter templates:', error);
+      return [];
+    }
+  }
+
+  async createCoverLetterTemplate(template: InsertCoverLetterTemplate): Promise<CoverLetterTemplate> {
+    try {
+      const result = await db.insert(coverLetterTemplates).values(template).returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating cover letter template:', error);
+      throw error;
+    }
+  }
+
+  async updateCoverLetterTemplate(id: number, template: Partial<InsertCoverLetterTemplate>): Promise<CoverLetterTemplate | undefined> {
+    try {
+      const result = await db.update(coverLetterTemplates)
+        .set({ ...template, updatedAt: new Date() })
+        .where(eq(coverLetterTemplates.id, id))
         .returning();
       return result[0];
     } catch (error) {
-      console.error('Error updating lead entry:', error);
+      console.error('Error updating cover letter template:', error);
+      return undefined;
+    }
+  }
+
+  async deleteCoverLetterTemplate(id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(coverLetterTemplates).where(eq(coverLetterTemplates.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting cover letter template:', error);
+      return false;
+    }
+  }
+
+  // Skill tag operations
+  async getSkillTag(id: number): Promise<SkillTag | undefined> {
+    try {
+      const result = await db.select().from(skillTags).where(eq(skillTags.id, id)).limit(1);
+      return result[0];
+    } catch (error) {
+      console.error('Error getting skill tag:', error);
+      return undefined;
+    }
+  }
+
+  async getSkillTags(): Promise<SkillTag[]> {
+    try {
+      return await db.select().from(skillTags).orderBy(skillTags.name);
+    } catch (error) {
+      console.error('Error getting skill tags:', error);
+      return [];
+    }
+  }
+
+  async createSkillTag(tag: InsertSkillTag): Promise<SkillTag> {
+    try {
+      const result = await db.insert(skillTags).values(tag).returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating skill tag:', error);
+      throw error;
+    }
+  }
+
+  async updateSkillTag(id: number, tag: Partial<InsertSkillTag>): Promise<SkillTag | undefined> {
+    try {
+      const result = await db.update(skillTags)
+        .set(tag)
+        .where(eq(skillTags.id, id))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error updating skill tag:', error);
       return undefined;
     }
   }
 
+  async deleteSkillTag(id: number): Promise<boolean> {
+    try {
+      // Untag the profiles filed under it
+      await db.delete(profileSkillTags).where(eq(profileSkillTags.tagId, id));
+      const result = await db.delete(skillTags).where(eq(skillTags.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting skill tag:', error);
+      return false;
+    }
+  }
+
+  async getProfileSkillTags(profileId?: number): Promise<ProfileSkillTag[]> {
+    try {
+      if (profileId) {
+        return await db.select().from(profileSkillTags).where(eq(profileSkillTags.profileId, profileId));
+      }
+      return await db.select().from(profileSkillTags);
+    } catch (error) {
+      console.error('Error getting profile skill tags:', error);
+      return [];
+    }
+  }
+
+  async setProfileSkillTags(profileId: number, tagIds: number[]): Promise<ProfileSkillTag[]> {
+    try {
+      const knownTags = tagIds.length > 0
+        ? await db.select({ id: skillTags.id }).from(skillTags).where(inArray(skillTags.id, tagIds))
+        : [];
+      
+      await db.delete(profileSkillTags).where(eq(profileSkillTags.profileId, profileId));
+      if (knownTags.length === 0) return [];
+      
+      return await db.insert(profileSkillTags)
+        .values(knownTags.map(tag => ({ profileId, tagId: tag.id })))
+        .returning();
+    } catch (error) {
+      console.error('Error setting profile skill tags:', error);
+      throw error;
+    }
+  }
+
+  async getSkillTagBreakdown(fromDate?: Date, toDate?: Date): Promise<SkillTagBreakdown[]> {
+    try {
+      const tags = await this.getSkillTags();
+      const links = await this.getProfileSkillTags();
+      const profileIds = (await this.getProfiles()).map(profile => profile.id);
+      const applications = (await this.getJobApplications())
+        .filter(a => a.appliedAt && isWithinDateRange(a.appliedAt, fromDate, toDate));
+      const leadList = await this.getLeads();
+      const transitions = await this.getLeadStageTransitions(undefined, fromDate, toDate);
+      
+      return summarizeSkillTagBreakdown(tags, links, profileIds, applications, leadList, transitions);
+    } catch (error) {
+      console.error('Error getting skill tag breakdown:', error);
+      return [];
+    }
+  }
+
+  // Audit log operations
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    try {
+      const result = await db.insert(auditLogs).values(entry).returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating audit log:', error);
+      throw error;
+    }
+  }
+
+  async getAuditLogs(actorId?: number, entityType?: AuditEntityType, fromDate?: Date, toDate?: Date): Promise<AuditLog[]> {
+    try {
+      let whereConditions = [];
+      
+      if (actorId) {
+        whereConditions.push(eq(auditLogs.actorId, actorId));
+      }
+      
+      if (entityType) {
+        whereConditions.push(eq(auditLogs.entityType, entityType));
+      }
+      
+      if (fromDate) {
+        whereConditions.push(gte(auditLogs.createdAt, new Date(`${toDateKey(fromDate)}T00:00:00.000Z`)));
+      }
+      
+      if (toDate) {
+        whereConditions.push(lte(auditLogs.createdAt, new Date(`${toDateKey(toDate)}T23:59:59.999Z`)));
+      }
+      
+      return await db.select()
+        .from(auditLogs)
+        .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+        .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id));
+    } catch (error) {
+      console.error('Error getting audit logs:', error);
+      return [];
+    }
+  }
+
   // Combined data operations
   async getUserAssignedProfile(userId: number): Promise<{profile: Profile, target?: Target} | undefined> {
     try {
@@ -1076,10 +3665,10 @@ export class DatabaseStorage implements IStorage {
   async getTeamPerformanceData(fromDate?: Date, toDate?: Date): Promise<any[]> {
     try {
       // Get all progress updates for the date range
-      const progressData = await this.getProgressUpdates(undefined, fromDate, toDate);
+      const progressData = await this.getProgressSummaries(undefined, fromDate, toDate);
       
-      // Get all lead entries for the date range
-      const leadData = await this.getLeadEntries(undefined, fromDate, toDate);
+      // Get all lead totals for the date range
+      const leadData = await this.getLeadSummaries(undefined, fromDate, toDate);
       
       // Group data by user and profile
       const userPerformance: Record<string, any> = {};
@@ -0,0 +1,92 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Time-based one-time passwords (RFC 6238) as used by authenticator apps: SHA-1, 6 digits, 30 second steps
+const stepSeconds = 30;
+const digits = 6;
+// Accept the previous and next step too, so a slightly wrong clock still works
+const allowedDrift = 1;
+
+const base32Alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (let i = 0; i < data.length; i++) {
+    value = (value << 8) | data[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += base32Alphabet[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += base32Alphabet[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(text: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of text.toUpperCase().replace(/=+$/, '')) {
+    const index = base32Alphabet.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+// The link authenticator apps read from the enrollment QR code
+export function getTotpUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${digits}&period=${stepSeconds}`;
+}
+
+function generateCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+// Check a code and return the time step it matched. Steps at or before lastUsedStep are refused
+// so a code that has already been used can't be replayed.
+export function verifyTotp(secret: string, code: string, lastUsedStep?: number | null, now = Date.now()): number | undefined {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) return undefined;
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(now / 1000 / stepSeconds);
+  for (let step = currentStep - allowedDrift; step <= currentStep + allowedDrift; step++) {
+    if (lastUsedStep != null && step <= lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(generateCode(key, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return undefined;
+}
+
+// Recovery codes are shown once and only their hashes are kept
+export function generateRecoveryCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.trim().toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+}
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, date, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, date, timestamp, jsonb, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -10,6 +11,11 @@ export const users = pgTable("users", {
   name: text("name").notNull(),
   email: text("email").notNull(),
   role: text("role", { enum: ["manager", "lead_gen", "sales"] }).notNull(),
+  deactivatedAt: timestamp("deactivated_at"), // Deactivated users can't sign in and aren't offered for assignments
+  totpSecret: text("totp_secret"), // Base32 authenticator secret; set once two-factor sign-in is enabled
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpRecoveryCodes: jsonb("totp_recovery_codes").$type<string[]>(), // SHA-256 hashes of the unused recovery codes
+  totpLastUsedStep: integer("totp_last_used_step"), // Time step of the last accepted code, so codes can't be replayed
 });
 
 export const insertUserSchema = createInsertSchema(users)
@@ -30,8 +36,187 @@ export const insertUserSchema = createInsertSchema(users)
     })
   });
 
+// Managers edit these details of a user; usernames stay fixed and passwords are reset separately
+export const updateUserSchema = insertUserSchema.pick({ name: true, email: true, role: true }).partial();
+
+export const resetPasswordSchema = insertUserSchema.pick({ password: true });
+
+export const changePasswordSchema = resetPasswordSchema.extend({
+  currentPassword: z.string().min(1, "Current password is required"),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+});
+
+export const resetPasswordWithTokenSchema = resetPasswordSchema.extend({
+  token: z.string().min(1, "A reset link is required"),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UserTwoFactor = Partial<Pick<User, "totpSecret" | "totpEnabledAt" | "totpRecoveryCodes" | "totpLastUsedStep">>;
+
+// The signed-in user as the client sees it; the password hash and two-factor secrets stay on the server
+export type SessionUser = Omit<User, "password" | "totpSecret" | "totpRecoveryCodes" | "totpLastUsedStep"> & {
+  twoFactorEnabled: boolean;
+  twoFactorSetupRequired: boolean; // The security settings require two-factor sign-in and it isn't set up yet
+};
+
+// An authenticator app code, or one of the recovery codes
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Enter the code from your authenticator app"),
+});
+
+// App-wide settings that managers control
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const securitySettingsSchema = z.object({
+  requireManagerTwoFactor: z.boolean(),
+});
+
+export type SecuritySettings = z.infer<typeof securitySettingsSchema>;
+
+export const defaultSecuritySettings: SecuritySettings = {
+  requireManagerTwoFactor: false,
+};
+
+// Registration is by invitation only; the email and role come from the invitation
+export const registerUserSchema = insertUserSchema
+  .pick({ username: true, password: true, name: true })
+  .extend({
+    token: z.string().min(1, "An invitation is required to register"),
+  });
+
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+
+// Invitation model - a one-time link a manager sends to let someone register with a given email and role
+export const invitationStatuses = ["pending", "accepted", "revoked", "expired"] as const;
+
+export const invitations = pgTable("invitations", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  role: text("role", { enum: ["manager", "lead_gen", "sales"] }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // Only a hash of the link's token is kept; replaced when the invitation is resent
+  invitedBy: integer("invited_by").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertInvitationSchema = createInsertSchema(invitations)
+  .pick({
+    email: true,
+    role: true,
+    invitedBy: true,
+  })
+  .extend({
+    email: insertUserSchema.shape.email,
+    role: insertUserSchema.shape.role,
+  });
+
+export type InvitationStatus = typeof invitationStatuses[number];
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
+export type Invitation = typeof invitations.$inferSelect;
+
+// Password reset token model - a time-limited, single-use link emailed to someone who forgot their password.
+// Only a hash of the token is stored, so the table alone can't be used to reset passwords.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+// File types accepted for resume uploads; the original file is kept for download
+export const resumeFileExtensions = [".pdf", ".docx", ".txt"] as const;
+
+// Structured resume data parsed from a profile's resume text and refined by managers
+export const resumeStructureSchema = z.object({
+  contact: z.object({
+    name: z.string(),
+    headline: z.string(), // e.g. "Senior Software Engineer"
+    email: z.string(),
+    phone: z.string(),
+    location: z.string(),
+    links: z.array(z.string()),
+  }),
+  summary: z.string(),
+  experience: z.array(z.object({
+    employer: z.string(),
+    title: z.string(),
+    startDate: z.string(),
+    endDate: z.string(), // "Present" for the current role
+    description: z.string(),
+  })),
+  education: z.array(z.object({
+    institution: z.string(),
+    degree: z.string(),
+    year: z.string(),
+  })),
+  certifications: z.array(z.string()),
+  skills: z.array(z.string()), // Normalized names, e.g. "Node.js" rather than "nodejs"
+});
+
+export type ResumeStructure = z.infer<typeof resumeStructureSchema>;
+
+// Layouts the resume generator can lay structured resume data out in
+export const resumeLayouts = ["classic", "modern", "compact"] as const;
+export type ResumeLayout = typeof resumeLayouts[number];
+
+export const generateResumeRequestSchema = z.object({
+  layout: z.enum(resumeLayouts),
+});
+
+// Problems an applicant tracking system would likely have reading an uploaded resume
+export const atsFindingCodes = [
+  "no_text",
+  "little_text",
+  "missing_sections",
+  "contact_unparsed",
+  "too_many_pages",
+  "stripped_characters",
+  "undecodable_characters",
+] as const;
+
+export const atsFindingSchema = z.object({
+  code: z.enum(atsFindingCodes),
+  severity: z.enum(["error", "warning"]),
+  message: z.string(),
+});
+
+export type AtsFinding = z.infer<typeof atsFindingSchema>;
+
+// Weighted full-text document for profile search: name ranks above description, description above resume text.
+// Used by both the GIN index and the search query so PostgreSQL can answer searches from the index.
+export function profileSearchVector(columns: { name: AnyPgColumn; description: AnyPgColumn; resumeContent: AnyPgColumn }): SQL {
+  return sql`(setweight(to_tsvector('english', coalesce(${columns.name}, '')), 'A') || setweight(to_tsvector('english', coalesce(${columns.description}, '')), 'B') || setweight(to_tsvector('english', coalesce(${columns.resumeContent}, '')), 'C'))`;
+}
+
+// Lifecycle of the candidate behind a profile; only active profiles are assigned and worked on
+export const profileStatuses = ["draft", "active", "paused", "placed", "archived"] as const;
+
+export type ProfileStatus = typeof profileStatuses[number];
+
+// Statuses a profile may move to from each status. Profiles become placed by recording a placement;
+// placed profiles go back to active when the contract ends.
+export const allowedProfileStatusChanges: Record<ProfileStatus, ProfileStatus[]> = {
+  draft: ["active", "archived"],
+  active: ["paused", "placed", "archived"],
+  paused: ["active", "placed", "archived"],
+  placed: ["active", "archived"],
+  archived: ["active"],
+};
 
 // Profile model and schema
 export const profiles = pgTable("profiles", {
@@ -40,10 +225,23 @@ export const profiles = pgTable("profiles", {
   description: text("description").notNull(),
   resumeContent: text("resume_content"), // Store the parsed resume text content
   resumeFileName: text("resume_file_name"), // Original filename of the uploaded PDF
-  resumeBuffer: text("resume_buffer"), // Base64 encoded PDF binary for download
+  resumeFileHash: text("resume_file_hash"), // Content hash of the original file in the file store
+  resumeBuffer: text("resume_buffer"), // Legacy base64 PDF, moved to the file store by `npm run migrate:resume-files`
+  resumeStructure: jsonb("resume_structure").$type<ResumeStructure>(), // Sections and skills parsed from resumeContent
+  atsFindings: jsonb("ats_findings").$type<AtsFinding[]>(), // ATS check of the uploaded resume file; null for typed-in resumes
+  redactionTerms: text("redaction_terms").array(), // Extra terms removed from redacted exports, e.g. current employer
+  generatedResumeFileHash: text("generated_resume_file_hash"), // DOCX generated from resumeStructure, kept next to the uploaded file
+  generatedResumeLayout: text("generated_resume_layout").$type<ResumeLayout>(),
+  generatedResumeAt: timestamp("generated_resume_at"),
+  status: text("status", { enum: profileStatuses }).notNull().default("active"),
+  statusEffectiveDate: date("status_effective_date"), // Day the current status took effect; null for profiles active since creation
   createdBy: integer("created_by").references(() => users.id), // Track who created the profile
   createdAt: timestamp("created_at").defaultNow(),
-});
+  deletedAt: timestamp("deleted_at"), // Set while the row is in the recently deleted bin
+  deletedBy: integer("deleted_by").references(() => users.id),
+}, (table) => [
+  index("profiles_search_idx").using("gin", profileSearchVector(table)),
+]);
 
 export const insertProfileSchema = createInsertSchema(profiles)
   .pick({
@@ -51,23 +249,168 @@ export const insertProfileSchema = createInsertSchema(profiles)
     description: true,
     resumeContent: true,
     resumeFileName: true,
-    resumeBuffer: true,
+    resumeFileHash: true,
+    resumeStructure: true,
+    atsFindings: true,
+    redactionTerms: true,
+    status: true,
     createdBy: true,
   })
   .extend({
     resumeContent: z.string().min(1, "Resume content is required"),
     resumeFileName: z.string().optional(),
-    resumeBuffer: z.string().optional(),
+    resumeFileHash: z.string().optional(),
+    resumeStructure: resumeStructureSchema.nullable().optional(),
+    atsFindings: z.array(atsFindingSchema).nullable().optional(),
+    redactionTerms: z.array(z.string().trim().min(1)).nullable().optional(),
+    // New profiles start as drafts or go straight to work
+    status: z.enum(["draft", "active"]).optional(),
   });
 
 export type InsertProfile = z.infer<typeof insertProfileSchema>;
 export type Profile = typeof profiles.$inferSelect;
 
+// A run of a search result snippet; matched runs contain the searched terms
+export type SearchSnippetSegment = {
+  text: string;
+  matched: boolean;
+};
+
+export type ProfileSearchResult = {
+  profile: Profile;
+  rank: number; // Higher is more relevant
+  snippet: SearchSnippetSegment[];
+};
+
+// Status history of profiles
+export const profileStatusChanges = pgTable("profile_status_changes", {
+  id: serial("id").primaryKey(),
+  profileId: integer("profile_id").notNull().references(() => profiles.id),
+  fromStatus: text("from_status", { enum: profileStatuses }), // Null when the profile was created
+  toStatus: text("to_status", { enum: profileStatuses }).notNull(),
+  effectiveDate: date("effective_date").notNull(),
+  changedBy: integer("changed_by").references(() => users.id),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+  notes: text("notes"),
+});
+
+const dateStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Please enter a valid date");
+
+export const profileStatusChangeSchema = z.object({
+  status: z.enum(profileStatuses, {
+    errorMap: () => ({ message: "Please select a valid status" })
+  }),
+  effectiveDate: dateStringSchema.optional(), // Defaults to today
+  notes: z.string().trim().max(500).optional(),
+});
+
+export type ProfileStatusChangeRequest = z.infer<typeof profileStatusChangeSchema>;
+export type ProfileStatusChange = typeof profileStatusChanges.$inferSelect;
+
+// Placement model - the hire that took a profile's candidate off the market
+export const placementRateUnits = ["hour", "day", "month", "year"] as const;
+
+export const placements = pgTable("placements", {
+  id: serial("id").primaryKey(),
+  profileId: integer("profile_id").notNull().references(() => profiles.id),
+  client: text("client").notNull(),
+  startDate: date("start_date").notNull(),
+  rate: integer("rate").notNull(), // Whole currency units per rateUnit
+  rateUnit: text("rate_unit", { enum: placementRateUnits }).notNull().default("hour"),
+  closedBy: integer("closed_by").notNull().references(() => users.id), // Sales coordinator who closed the deal
+  notes: text("notes"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPlacementSchema = createInsertSchema(placements)
+  .pick({
+    profileId: true,
+    client: true,
+    startDate: true,
+    rate: true,
+    rateUnit: true,
+    closedBy: true,
+    notes: true,
+    createdBy: true,
+  })
+  .extend({
+    client: z.string().trim().min(1, "Client is required").max(200),
+    startDate: dateStringSchema,
+    rate: z.coerce.number().int().positive("Rate must be a positive amount"),
+    rateUnit: z.enum(placementRateUnits).default("hour"),
+    notes: z.string().trim().max(1000).nullable().optional(),
+  });
+
+export type InsertPlacement = z.infer<typeof insertPlacementSchema>;
+export type Placement = typeof placements.$inferSelect;
+
+// Resume version model - a snapshot of every resume a profile has carried
+export const profileResumeVersions = pgTable("profile_resume_versions", {
+  id: serial("id").primaryKey(),
+  profileId: integer("profile_id").notNull().references(() => profiles.id),
+  versionNumber: integer("version_number").notNull(),
+  resumeContent: text("resume_content"),
+  resumeFileName: text("resume_file_name"),
+  resumeFileHash: text("resume_file_hash"), // Content hash of the original file in the file store
+  resumeBuffer: text("resume_buffer"), // Legacy base64 PDF, moved to the file store by `npm run migrate:resume-files`
+  restoredFromVersion: integer("restored_from_version"), // Set when the version was created by a restore
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertProfileResumeVersionSchema = createInsertSchema(profileResumeVersions).pick({
+  profileId: true,
+  versionNumber: true,
+  resumeContent: true,
+  resumeFileName: true,
+  resumeFileHash: true,
+  restoredFromVersion: true,
+  createdBy: true,
+});
+
+export type InsertProfileResumeVersion = z.infer<typeof insertProfileResumeVersionSchema>;
+export type ProfileResumeVersion = typeof profileResumeVersions.$inferSelect;
+
+// Resume variant model - named alternative resumes tailored from a profile's main resume
+export const resumeVariants = pgTable("resume_variants", {
+  id: serial("id").primaryKey(),
+  profileId: integer("profile_id").notNull().references(() => profiles.id),
+  name: text("name").notNull(), // e.g. "Frontend focus"
+  resumeContent: text("resume_content").notNull(),
+  resumeFileName: text("resume_file_name"),
+  resumeFileHash: text("resume_file_hash"), // Content hash of the original file in the file store
+  resumeBuffer: text("resume_buffer"), // Legacy base64 PDF, moved to the file store by `npm run migrate:resume-files`
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertResumeVariantSchema = createInsertSchema(resumeVariants)
+  .pick({
+    profileId: true,
+    name: true,
+    resumeContent: true,
+    resumeFileName: true,
+    resumeFileHash: true,
+    createdBy: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Variant name is required"),
+    resumeContent: z.string().min(1, "Resume content is required"),
+    resumeFileName: z.string().nullable().optional(),
+    resumeFileHash: z.string().nullable().optional(),
+  });
+
+export type InsertResumeVariant = z.infer<typeof insertResumeVariantSchema>;
+export type ResumeVariant = typeof resumeVariants.$inferSelect;
+
 // Profile Assignment model and schema for Lead Generation Team
 export const leadGenAssignments = pgTable("lead_gen_assignments", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   profileId: integer("profile_id").notNull().references(() => profiles.id),
+  deletedAt: timestamp("deleted_at"), // Set while the row is in the recently deleted bin
+  deletedBy: integer("deleted_by").references(() => users.id),
 });
 
 export const insertLeadGenAssignmentSchema = createInsertSchema(leadGenAssignments).pick({
@@ -83,6 +426,8 @@ export const salesAssignments = pgTable("sales_assignments", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   profileId: integer("profile_id").notNull().references(() => profiles.id),
+  deletedAt: timestamp("deleted_at"), // Set while the row is in the recently deleted bin
+  deletedBy: integer("deleted_by").references(() => users.id),
 });
 
 export const insertSalesAssignmentSchema = createInsertSchema(salesAssignments).pick({
@@ -103,6 +448,8 @@ export const targets = pgTable("targets", {
   startDate: date("start_date").notNull(),
   endDate: date("end_date").notNull(),
   isWeekly: boolean("is_weekly").notNull(),
+  deletedAt: timestamp("deleted_at"), // Set while the row is in the recently deleted bin
+  deletedBy: integer("deleted_by").references(() => users.id),
 });
 
 export const insertTargetSchema = createInsertSchema(targets).pick({
@@ -141,6 +488,9 @@ export const insertProgressUpdateSchema = createInsertSchema(progressUpdates).pi
 export type InsertProgressUpdate = z.infer<typeof insertProgressUpdateSchema>;
 export type ProgressUpdate = typeof progressUpdates.$inferSelect;
 
+// Daily job totals, either entered manually or derived from job applications
+export type ProgressUpdateSummary = Omit<ProgressUpdate, "id"> & { id: number | null };
+
 // Lead Entry model and schema for Sales Coordinators
 export const leadEntries = pgTable("lead_entries", {
   id: serial("id").primaryKey(),
@@ -165,3 +515,418 @@ export const insertLeadEntrySchema = createInsertSchema(leadEntries).pick({
 
 export type InsertLeadEntry = z.infer<typeof insertLeadEntrySchema>;
 export type LeadEntry = typeof leadEntries.$inferSelect;
+
+// Job Application model and schema for Lead Generation Team
+export const jobApplicationStatuses = ["fetched", "applied", "skipped", "rejected"] as const;
+
+export const jobApplications = pgTable("job_applications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  profileId: integer("profile_id").notNull().references(() => profiles.id),
+  company: text("company").notNull(),
+  jobTitle: text("job_title").notNull(),
+  jobUrl: text("job_url"),
+  source: text("source"), // Where the job was found, e.g. LinkedIn or Indeed
+  resumeVariantId: integer("resume_variant_id").references(() => resumeVariants.id), // Null when the main resume was used
+  status: text("status", { enum: jobApplicationStatuses }).notNull(),
+  fetchedAt: timestamp("fetched_at").notNull().defaultNow(),
+  appliedAt: timestamp("applied_at"),
+  notes: text("notes"),
+});
+
+export const insertJobApplicationSchema = createInsertSchema(jobApplications)
+  .pick({
+    userId: true,
+    profileId: true,
+    company: true,
+    jobTitle: true,
+    jobUrl: true,
+    source: true,
+    resumeVariantId: true,
+    status: true,
+    fetchedAt: true,
+    appliedAt: true,
+    notes: true,
+  })
+  .extend({
+    company: z.string().min(1, "Company is required"),
+    jobTitle: z.string().min(1, "Job title is required"),
+    jobUrl: z.string().url("Please enter a valid URL").nullable().optional(),
+    resumeVariantId: z.number().int().nullable().optional(),
+    status: z.enum(jobApplicationStatuses, {
+      errorMap: () => ({ message: "Please select a valid status" })
+    }),
+    fetchedAt: z.coerce.date().optional(),
+    appliedAt: z.coerce.date().nullable().optional(),
+  });
+
+export type InsertJobApplication = z.infer<typeof insertJobApplicationSchema>;
+export type JobApplication = typeof jobApplications.$inferSelect;
+
+// Lead pipeline model and schema for Sales Coordinators
+export const leadStages = [
+  "new",
+  "screening",
+  "interview",
+  "offer",
+  "placed",
+  "rejected_by_client",
+  "rejected_by_team",
+] as const;
+
+export type LeadStage = typeof leadStages[number];
+
+// Stages a lead may move to from each stage; placed and rejected leads are closed
+export const allowedLeadStageChanges: Record<LeadStage, LeadStage[]> = {
+  new: ["screening", "rejected_by_client", "rejected_by_team"],
+  screening: ["interview", "rejected_by_client", "rejected_by_team"],
+  interview: ["offer", "rejected_by_client", "rejected_by_team"],
+  offer: ["placed", "rejected_by_client", "rejected_by_team"],
+  placed: [],
+  rejected_by_client: [],
+  rejected_by_team: [],
+};
+
+export const leads = pgTable("leads", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id), // Sales coordinator handling the lead
+  profileId: integer("profile_id").notNull().references(() => profiles.id),
+  clientName: text("client_name").notNull(),
+  jobTitle: text("job_title").notNull(),
+  contactName: text("contact_name"),
+  contactEmail: text("contact_email"),
+  resumeVariantId: integer("resume_variant_id").references(() => resumeVariants.id), // Resume the client saw; null for the main resume
+  stage: text("stage", { enum: leadStages }).notNull().default("new"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertLeadSchema = createInsertSchema(leads)
+  .pick({
+    userId: true,
+    profileId: true,
+    clientName: true,
+    jobTitle: true,
+    contactName: true,
+    contactEmail: true,
+    resumeVariantId: true,
+    notes: true,
+  })
+  .extend({
+    clientName: z.string().min(1, "Client name is required"),
+    jobTitle: z.string().min(1, "Job title is required"),
+    contactEmail: z.string().email("Please enter a valid email address").nullable().optional(),
+    resumeVariantId: z.number().int().nullable().optional(),
+  });
+
+export type InsertLead = z.infer<typeof insertLeadSchema>;
+export type Lead = typeof leads.$inferSelect;
+
+// Stage transition history for leads
+export const leadStageTransitions = pgTable("lead_stage_transitions", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull().references(() => leads.id),
+  fromStage: text("from_stage", { enum: leadStages }), // Null when the lead was created
+  toStage: text("to_stage", { enum: leadStages }).notNull(),
+  changedBy: integer("changed_by").notNull().references(() => users.id),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+  notes: text("notes"),
+});
+
+export const leadStageChangeSchema = z.object({
+  stage: z.enum(leadStages, {
+    errorMap: () => ({ message: "Please select a valid stage" })
+  }),
+  notes: z.string().optional(),
+});
+
+export type LeadStageChange = z.infer<typeof leadStageChangeSchema>;
+export type LeadStageTransition = typeof leadStageTransitions.$inferSelect;
+
+// Daily lead totals, either entered manually or derived from lead stage transitions
+export type LeadEntrySummary = Omit<LeadEntry, "id"> & { id: number | null };
+
+// Outcomes of one resume variant of a profile over a date range
+export type ResumeVariantPerformance = {
+  variantId: number | null; // Null for the profile's main resume
+  name: string;
+  jobsApplied: number;
+  newLeads: number;
+  clientRejections: number;
+  clientRejectionRate: number; // Client rejections as a percentage of new leads
+};
+
+// Interview model and schema for Sales Coordinators
+export const interviewOutcomes = ["pending", "passed", "failed", "no_show", "cancelled"] as const;
+
+export const interviews = pgTable("interviews", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id), // Sales coordinator who scheduled it
+  profileId: integer("profile_id").notNull().references(() => profiles.id),
+  leadId: integer("lead_id").references(() => leads.id),
+  scheduledAt: timestamp("scheduled_at").notNull(),
+  durationMinutes: integer("duration_minutes").notNull().default(60),
+  timezone: text("timezone").notNull(), // IANA timezone the interview was arranged in
+  round: text("round").notNull(),
+  interviewer: text("interviewer"),
+  meetingLink: text("meeting_link"),
+  outcome: text("outcome", { enum: interviewOutcomes }).notNull().default("pending"),
+  feedback: text("feedback"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertInterviewSchema = createInsertSchema(interviews)
+  .pick({
+    userId: true,
+    profileId: true,
+    leadId: true,
+    scheduledAt: true,
+    durationMinutes: true,
+    timezone: true,
+    round: true,
+    interviewer: true,
+    meetingLink: true,
+    outcome: true,
+    feedback: true,
+  })
+  .extend({
+    scheduledAt: z.coerce.date({ errorMap: () => ({ message: "Please enter a valid date and time" }) }),
+    durationMinutes: z.number().int().min(5, "Duration must be at least 5 minutes").max(480, "Duration cannot exceed 8 hours").optional(),
+    timezone: z.string().refine(timezone => {
+      try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+        return true;
+      } catch {
+        return false;
+      }
+    }, "Please select a valid timezone"),
+    round: z.string().min(1, "Round is required"),
+    meetingLink: z.string().url("Please enter a valid URL").nullable().optional(),
+    outcome: z.enum(interviewOutcomes).optional(),
+  });
+
+export type InsertInterview = z.infer<typeof insertInterviewSchema>;
+export type Interview = typeof interviews.$inferSelect;
+
+// Job description match model - job descriptions lead generation scored against their assigned resume
+export const jobMatchDetailsSchema = z.object({
+  matchedSkills: z.array(z.string()),
+  missingSkills: z.array(z.string()),
+  matchedKeywords: z.array(z.string()),
+  missingKeywords: z.array(z.string()),
+  missingMustHaves: z.array(z.string()), // Terms from "required"/"must have" lines the resume lacks
+});
+
+export type JobMatchDetails = z.infer<typeof jobMatchDetailsSchema>;
+
+export const jobDescriptionMatches = pgTable("job_description_matches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  profileId: integer("profile_id").notNull().references(() => profiles.id),
+  jobTitle: text("job_title"),
+  jobDescription: text("job_description").notNull(),
+  score: integer("score").notNull(), // 0-100
+  details: jsonb("details").$type<JobMatchDetails>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertJobDescriptionMatchSchema = createInsertSchema(jobDescriptionMatches)
+  .pick({
+    userId: true,
+    profileId: true,
+    jobTitle: true,
+    jobDescription: true,
+    score: true,
+    details: true,
+  })
+  .extend({
+    details: jobMatchDetailsSchema,
+  });
+
+export type InsertJobDescriptionMatch = z.infer<typeof insertJobDescriptionMatchSchema>;
+export type JobDescriptionMatch = typeof jobDescriptionMatches.$inferSelect;
+
+// Request body for scoring a job description
+export const jobMatchRequestSchema = z.object({
+  jobTitle: z.string().trim().max(200).optional(),
+  jobDescription: z.string().trim().min(50, "Paste the full job description to score it"),
+});
+
+export type JobMatchRequest = z.infer<typeof jobMatchRequestSchema>;
+
+// Average match quality of the job descriptions each lead generation user scored
+export type JobMatchQuality = {
+  userId: number;
+  name: string;
+  jobsScored: number;
+  averageScore: number;
+  strongMatches: number; // Job descriptions scoring 70 or more
+  lastScoredAt: Date | null;
+};
+
+// Cover letter template model - letters managers write once, with placeholders filled per profile and job
+export const coverLetterPlaceholders = [
+  "name",
+  "headline",
+  "topSkills",
+  "yearsOfExperience",
+  "company",
+  "jobTitle",
+  "date",
+] as const;
+
+export type CoverLetterPlaceholder = typeof coverLetterPlaceholders[number];
+
+export const coverLetterTemplates = pgTable("cover_letter_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // e.g. "Startup, short"
+  body: text("body").notNull(), // Letter text with {{placeholders}}
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertCoverLetterTemplateSchema = createInsertSchema(coverLetterTemplates)
+  .pick({
+    name: true,
+    body: true,
+    createdBy: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Template name is required").max(100),
+    body: z.string().trim().min(20, "Template text is required"),
+  });
+
+export type InsertCoverLetterTemplate = z.infer<typeof insertCoverLetterTemplateSchema>;
+export type CoverLetterTemplate = typeof coverLetterTemplates.$inferSelect;
+
+// Query for filling a template with a profile's details and a job
+export const coverLetterRequestSchema = z.object({
+  templateId: z.coerce.number().int().positive(),
+  company: z.string().trim().min(1, "Company is required").max(200),
+  jobTitle: z.string().trim().min(1, "Job title is required").max(200),
+  format: z.enum(["json", "txt", "docx"]).default("json"),
+});
+
+export type CoverLetterRequest = z.infer<typeof coverLetterRequestSchema>;
+
+// Skill tag model - the managed skills taxonomy; aliases are other spellings of the same skill, e.g. "JS" for "JavaScript"
+export const skillTags = pgTable("skill_tags", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  aliases: text("aliases").array().notNull().default(sql`ARRAY[]::text[]`),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertSkillTagSchema = createInsertSchema(skillTags)
+  .pick({
+    name: true,
+    aliases: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Tag name is required").max(60),
+    aliases: z.array(z.string().trim().min(1).max(60)).default([]),
+  });
+
+export type InsertSkillTag = z.infer<typeof insertSkillTagSchema>;
+export type SkillTag = typeof skillTags.$inferSelect;
+
+// Links profiles to the skill tags they are filed under
+export const profileSkillTags = pgTable("profile_skill_tags", {
+  id: serial("id").primaryKey(),
+  profileId: integer("profile_id").notNull().references(() => profiles.id),
+  tagId: integer("tag_id").notNull().references(() => skillTags.id),
+}, (table) => [
+  uniqueIndex("profile_skill_tags_profile_tag_idx").on(table.profileId, table.tagId),
+]);
+
+export type ProfileSkillTag = typeof profileSkillTags.$inferSelect;
+
+// Replaces all the tags of a profile
+export const profileTagIdsSchema = z.array(z.number().int().positive()).max(50);
+
+// Applications and leads of the profiles filed under one skill tag over a date range.
+// A profile with several tags counts towards each of them.
+export type SkillTagBreakdown = {
+  tagId: number | null; // Null for profiles without tags
+  name: string;
+  profiles: number;
+  jobsApplied: number;
+  newLeads: number;
+  clientRejections: number;
+};
+
+// Rows managers soft delete; they wait in the recently deleted bin until restored or purged
+export const deletableItemTypes = ["profile", "target", "lead_gen_assignment", "sales_assignment"] as const;
+
+export type DeletableItemType = typeof deletableItemTypes[number];
+
+export type DeletedItems = {
+  profiles: Profile[];
+  targets: Target[];
+  leadGenAssignments: LeadGenAssignment[];
+  salesAssignments: SalesAssignment[];
+};
+
+// What the audit log records changes to
+export const auditEntityTypes = [
+  "user",
+  "profile",
+  "resume_variant",
+  "placement",
+  "lead_gen_assignment",
+  "sales_assignment",
+  "target",
+  "progress_update",
+  "job_application",
+  "lead_entry",
+  "lead",
+  "interview",
+  "job_match",
+  "cover_letter_template",
+  "skill_tag",
+  "invitation",
+  "setting",
+] as const;
+
+export const auditActions = [
+  "create",
+  "update",
+  "delete",
+  "restore",
+  "purge",
+  "login",
+  "login_failed",
+  "logout",
+  "reset_password",
+  "deactivate",
+  "reactivate",
+  "change_password",
+  "enable_two_factor",
+  "disable_two_factor",
+  "regenerate_recovery_codes",
+  "resend",
+  "revoke",
+] as const;
+
+export type AuditEntityType = typeof auditEntityTypes[number];
+export type AuditAction = typeof auditActions[number];
+
+// Append-only record of every mutation made through the API; rows are never updated or deleted
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => users.id), // Null for failed logins
+  action: text("action", { enum: auditActions }).notNull(),
+  entityType: text("entity_type", { enum: auditEntityTypes }).notNull(),
+  entityId: integer("entity_id"),
+  before: jsonb("before").$type<Record<string, unknown>>(), // Null for creations
+  after: jsonb("after").$type<Record<string, unknown>>(), // Null for deletions
+  ip: text("ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_logs_created_at_idx").on(table.createdAt),
+]);
+
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = Omit<typeof auditLogs.$inferInsert, "id" | "createdAt">;